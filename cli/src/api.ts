@@ -0,0 +1,151 @@
+import type { CliConfig } from "./config.js";
+
+/**
+ * API Client
+ * ----------
+ * Thin wrapper around the data client's `/api/files`, `/api/pages` and
+ * `/api/sites` routes, authenticated with the session token as a Bearer
+ * token like the designer extension.
+ */
+
+export type FileLanguage = "html" | "css" | "js" | "ts" | "scss";
+
+export const FILE_LANGUAGES: FileLanguage[] = ["html", "css", "js", "ts", "scss"];
+
+export interface CompileDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface RemoteFile {
+  id: number;
+  webflow_site_id: string | null;
+  workspace_id?: string | null;
+  name: string;
+  language: FileLanguage;
+  code: string | null;
+  folder: string | null;
+  tags: string[];
+}
+
+export interface RemotePage {
+  id: number;
+  webflow_page_id: string;
+  name: string;
+  slug: string | null;
+  head_files: (number | string)[] | null;
+  body_files: (number | string)[] | null;
+  draft_head_files: (number | string)[] | null;
+  draft_body_files: (number | string)[] | null;
+}
+
+/**
+ * Downstream effects of a file change, as reported by PUT /api/files/[fileId].
+ */
+export interface FileChangeReport {
+  dependents?: {
+    rebuilt: number[];
+    failed: { id: number; name: string; error: string; diagnostics: CompileDiagnostic[] }[];
+    error: string | null;
+  };
+}
+
+export interface PublishResult {
+  published: boolean;
+}
+
+/**
+ * Thrown for a failed request; carries the response status and, for code that
+ * does not compile (422), the compiler's diagnostics.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly diagnostics: CompileDiagnostic[] = []
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Creates a client for the configured data client and session token.
+ *
+ * @param config - The effective CLI config
+ */
+export function createApiClient(config: CliConfig) {
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    if (!config.sessionToken) {
+      throw new ApiError("Not logged in; run `codone login` first", 401);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.apiUrl.replace(/\/+$/, "")}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${config.sessionToken}`,
+          ...(body !== undefined && { "Content-Type": "application/json" }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ApiError(`Could not reach ${config.apiUrl}: ${(error as Error).message}`, 0);
+    }
+
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message =
+        response.status === 401
+          ? "The session token is invalid or expired; run `codone login` again"
+          : data?.error || `${method} ${path} failed with status ${response.status}`;
+      throw new ApiError(message, response.status, data?.diagnostics || []);
+    }
+
+    return data as T;
+  }
+
+  return {
+    async listFiles(siteId: string): Promise<RemoteFile[]> {
+      const { files } = await request<{ files: RemoteFile[] }>("GET", `/api/files?siteId=${encodeURIComponent(siteId)}`);
+      return files;
+    },
+
+    async createFile(
+      siteId: string,
+      file: { name: string; language: FileLanguage; code: string; folder: string | null }
+    ): Promise<RemoteFile> {
+      const { file: created } = await request<{ file: RemoteFile }>("POST", "/api/files", { siteId, ...file });
+      return created;
+    },
+
+    updateFile(fileId: number, fields: { code: string }) {
+      return request<{ file: RemoteFile } & FileChangeReport>("PUT", `/api/files/${fileId}`, fields);
+    },
+
+    async listPages(siteId: string): Promise<RemotePage[]> {
+      const { pages } = await request<{ pages: RemotePage[] }>("GET", `/api/pages?siteId=${encodeURIComponent(siteId)}`);
+      return pages;
+    },
+
+    updatePage(pageId: number, fields: { head_files: number[]; body_files: number[] }) {
+      return request<{ page: RemotePage; codeLoader?: { registered: boolean; error?: string } }>(
+        "PUT",
+        `/api/pages/${pageId}`,
+        fields
+      );
+    },
+
+    publishPage(pageId: number) {
+      return request<PublishResult>("POST", `/api/pages/${pageId}/publish`);
+    },
+
+    publishSite(siteId: string) {
+      return request<PublishResult>("POST", `/api/sites/${encodeURIComponent(siteId)}/publish`);
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
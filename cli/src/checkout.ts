@@ -0,0 +1,142 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { FILE_LANGUAGES, type FileLanguage, type RemoteFile } from "./api.js";
+
+/**
+ * Local Checkout
+ * --------------
+ * `codone files pull` writes a site's files into a directory, one file per
+ * snippet at `<folder>/<name>.<language>`, and records which file each path
+ * is in `.codone.json` together with a hash of the code as last synced.
+ * `codone files push` compares the directory against that index to find the
+ * edited and added files.
+ */
+
+export const INDEX_FILE = ".codone.json";
+
+export interface IndexEntry {
+  id: number;
+  /** SHA-256 of the code as last pulled or pushed */
+  hash: string;
+  /** Whether the file is in the workspace library, so pushing it changes every linked site */
+  library?: boolean;
+}
+
+export interface CheckoutIndex {
+  siteId: string;
+  files: Record<string, IndexEntry>;
+}
+
+/**
+ * Hashes file contents for change detection.
+ */
+export function hashCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+/**
+ * Reads a checkout's index.
+ *
+ * @param dir - The checkout directory
+ * @returns The index, or null if the directory is not a checkout
+ */
+export async function readIndex(dir: string): Promise<CheckoutIndex | null> {
+  try {
+    return JSON.parse(await readFile(path.join(dir, INDEX_FILE), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a checkout's index, with paths sorted for readable diffs.
+ */
+export async function writeIndex(dir: string, index: CheckoutIndex): Promise<void> {
+  const files = Object.fromEntries(Object.entries(index.files).sort(([a], [b]) => a.localeCompare(b)));
+  await writeFile(path.join(dir, INDEX_FILE), `${JSON.stringify({ siteId: index.siteId, files }, null, 2)}\n`);
+}
+
+/**
+ * Returns the checkout path of a file: its folder, then its name with the
+ * language's extension, with its ID added if another file already took the
+ * path. Matches the layout of git sync without the `files/` prefix.
+ */
+export function getFilePath(file: RemoteFile, taken: Set<string>): string {
+  const baseName = file.name.replace(/[/\\]/g, "-");
+  const name = baseName.endsWith(`.${file.language}`) ? baseName : `${baseName}.${file.language}`;
+  const filePath = path.posix.join(file.folder || "", name);
+  return taken.has(filePath) ? filePath.replace(/(\.[^.]+)$/, `~${file.id}$1`) : filePath;
+}
+
+/**
+ * Derives the name, language and folder of a file added to a checkout from
+ * its path.
+ *
+ * @returns The file's fields, or null if the extension is not a file language
+ */
+export function parseFilePath(filePath: string): { name: string; language: FileLanguage; folder: string | null } | null {
+  const { dir, name, ext } = path.posix.parse(filePath);
+  const language = ext.slice(1) as FileLanguage;
+  if (!FILE_LANGUAGES.includes(language) || !name) {
+    return null;
+  }
+  return { name, language, folder: dir || null };
+}
+
+/**
+ * Reads a file of a checkout.
+ *
+ * @returns The contents, or null if the file does not exist
+ */
+export async function readLocalFile(dir: string, filePath: string): Promise<string | null> {
+  try {
+    return await readFile(path.join(dir, filePath), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a file of a checkout, creating its folder.
+ */
+export async function writeLocalFile(dir: string, filePath: string, code: string): Promise<void> {
+  const target = path.join(dir, filePath);
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, code);
+}
+
+/**
+ * Deletes a file of a checkout.
+ */
+export async function removeLocalFile(dir: string, filePath: string): Promise<void> {
+  await rm(path.join(dir, filePath), { force: true });
+}
+
+/**
+ * Lists the files of a checkout as slash-separated paths, skipping dotfiles,
+ * dot-directories and node_modules.
+ */
+export async function listLocalFiles(dir: string, subdir = ""): Promise<string[]> {
+  const entries = await readdir(path.join(dir, subdir), { withFileTypes: true });
+  const paths: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+
+    const entryPath = path.posix.join(subdir, entry.name);
+    if (entry.isDirectory()) {
+      paths.push(...(await listLocalFiles(dir, entryPath)));
+    } else if (entry.isFile()) {
+      paths.push(entryPath);
+    }
+  }
+
+  return paths.sort();
+}
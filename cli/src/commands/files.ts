@@ -0,0 +1,190 @@
+import { ApiError, type ApiClient, type CompileDiagnostic } from "../api.js";
+import {
+  getFilePath,
+  hashCode,
+  INDEX_FILE,
+  listLocalFiles,
+  parseFilePath,
+  readIndex,
+  readLocalFile,
+  removeLocalFile,
+  writeIndex,
+  writeLocalFile,
+  type CheckoutIndex,
+} from "../checkout.js";
+import { CliError, formatDiagnostics } from "../errors.js";
+
+interface PendingChange {
+  filePath: string;
+  code: string;
+}
+
+/**
+ * Pulls a site's files, including linked library files, into a checkout
+ * directory. Files edited locally since the last pull or push are kept
+ * unless `force` is set, so a later push still uploads them. Files deleted
+ * on the server are deleted locally when they have no local edits.
+ *
+ * @param api - The API client
+ * @param options.siteId - The Webflow site to pull
+ * @param options.dir - The checkout directory, created if needed
+ * @param options.force - Whether to overwrite local edits
+ * @throws {CliError} If the directory is a checkout of another site
+ */
+export async function pullFiles(
+  api: ApiClient,
+  { siteId, dir, force }: { siteId: string; dir: string; force: boolean }
+): Promise<void> {
+  const previous = await readIndex(dir);
+  if (previous && previous.siteId !== siteId) {
+    throw new CliError(`${dir} is a checkout of site ${previous.siteId}; pull ${siteId} into another directory`);
+  }
+
+  const remoteFiles = (await api.listFiles(siteId)).sort((a, b) => a.id - b.id);
+  const previousEntries = Object.entries(previous?.files || {});
+  const index: CheckoutIndex = { siteId, files: {} };
+  const taken = new Set<string>();
+  let pulled = 0;
+
+  for (const file of remoteFiles) {
+    const filePath = getFilePath(file, taken);
+    taken.add(filePath);
+
+    const code = file.code || "";
+    const library = file.webflow_site_id === null;
+    const known = previous?.files[filePath]?.id === file.id ? previous.files[filePath] : undefined;
+    const local = await readLocalFile(dir, filePath);
+
+    if (local !== null && local !== code && hashCode(local) !== known?.hash && !force) {
+      // Keep the last synced hash, so the local edit still counts as a change on push
+      index.files[filePath] = { id: file.id, hash: known?.hash ?? hashCode(code), ...(library && { library }) };
+      console.log(`kept     ${filePath} (edited locally; pull with --force to overwrite)`);
+      continue;
+    }
+
+    if (local !== code) {
+      await writeLocalFile(dir, filePath, code);
+      console.log(`pulled   ${filePath}`);
+      pulled++;
+    }
+    index.files[filePath] = { id: file.id, hash: hashCode(code), ...(library && { library }) };
+  }
+
+  // Paths no longer in use: deleted or renamed files
+  for (const [filePath, entry] of previousEntries) {
+    if (index.files[filePath]) continue;
+
+    const local = await readLocalFile(dir, filePath);
+    if (local === null) continue;
+
+    if (hashCode(local) === entry.hash || force) {
+      await removeLocalFile(dir, filePath);
+      console.log(`removed  ${filePath}`);
+    } else {
+      console.log(`kept     ${filePath} (edited locally but removed or renamed on the server; it will be created on push)`);
+    }
+  }
+
+  await writeIndex(dir, index);
+  console.log(`${remoteFiles.length} files in ${dir}, ${pulled} updated`);
+}
+
+/**
+ * Pushes the edited and added files of a checkout. Edited files are saved
+ * (recording a revision and rebuilding everything built from them); files
+ * added to the directory are created, named after their path and typed by
+ * their extension. Files deleted locally are left on the server.
+ *
+ * Changes that do not compile are retried after the others, since they may
+ * import a file created in the same push; the remaining ones are reported
+ * with their diagnostics.
+ *
+ * @param api - The API client
+ * @param options.siteId - The Webflow site to push to; defaults to the checkout's site
+ * @param options.dir - The checkout directory
+ * @throws {CliError} If the directory is not a checkout of the site, or a change did not compile
+ */
+export async function pushFiles(
+  api: ApiClient,
+  { siteId, dir }: { siteId: string | null; dir: string }
+): Promise<void> {
+  const index = await readIndex(dir);
+  if (!index) {
+    throw new CliError(`${dir} has no ${INDEX_FILE}; run \`codone files pull\` first`);
+  }
+  if (siteId && siteId !== index.siteId) {
+    throw new CliError(`${dir} is a checkout of site ${index.siteId}, not ${siteId}`);
+  }
+
+  const localPaths = await listLocalFiles(dir);
+  let pending: PendingChange[] = [];
+
+  for (const filePath of localPaths) {
+    const code = (await readLocalFile(dir, filePath)) ?? "";
+    const entry = index.files[filePath];
+    if (entry && entry.hash === hashCode(code)) continue;
+    if (!entry && !parseFilePath(filePath)) {
+      console.log(`skipped  ${filePath} (not a file language)`);
+      continue;
+    }
+    pending.push({ filePath, code });
+  }
+
+  for (const filePath of Object.keys(index.files)) {
+    if (!localPaths.includes(filePath)) {
+      console.log(`missing  ${filePath} (deleted locally; delete it in the designer to remove it)`);
+    }
+  }
+
+  let failed: (PendingChange & { diagnostics: CompileDiagnostic[] })[] = [];
+  try {
+    while (pending.length > 0) {
+      failed = [];
+      for (const change of pending) {
+        try {
+          await pushChange(api, index, change);
+        } catch (error) {
+          if (!(error instanceof ApiError) || error.status !== 422) throw error;
+          failed.push({ ...change, diagnostics: error.diagnostics });
+        }
+      }
+
+      // Stop once a pass pushes nothing more
+      if (failed.length === pending.length) break;
+      pending = failed;
+    }
+  } finally {
+    await writeIndex(dir, index);
+  }
+
+  for (const { filePath, diagnostics } of failed) {
+    console.error(`failed   ${filePath}: compilation failed`);
+    console.error(formatDiagnostics(filePath, diagnostics));
+  }
+  if (failed.length > 0) {
+    throw new CliError(`${failed.length} file(s) did not compile and were not saved`);
+  }
+}
+
+/**
+ * Saves or creates one file and records it in the index.
+ */
+async function pushChange(api: ApiClient, index: CheckoutIndex, { filePath, code }: PendingChange): Promise<void> {
+  const entry = index.files[filePath];
+
+  if (entry) {
+    const { dependents } = await api.updateFile(entry.id, { code });
+    index.files[filePath] = { ...entry, hash: hashCode(code) };
+    console.log(`updated  ${filePath}${entry.library ? " (library file, updated on every linked site)" : ""}`);
+
+    for (const dependent of dependents?.failed || []) {
+      console.warn(`warning: ${dependent.name} imports ${filePath} and no longer builds: ${dependent.error}`);
+    }
+    return;
+  }
+
+  const fields = parseFilePath(filePath)!;
+  const file = await api.createFile(index.siteId, { ...fields, code });
+  index.files[filePath] = { id: file.id, hash: hashCode(code) };
+  console.log(`created  ${filePath}`);
+}
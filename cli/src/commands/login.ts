@@ -0,0 +1,81 @@
+import { createInterface } from "node:readline/promises";
+import { createApiClient } from "../api.js";
+import { DEFAULT_API_URL, readStoredConfig, saveConfig, type CliConfig } from "../config.js";
+import { CliError } from "../errors.js";
+
+interface SessionClaims {
+  user?: { id?: string; email?: string };
+  exp?: number;
+}
+
+/**
+ * Decodes the claims of a session token without verifying its signature;
+ * the server verifies it on every request.
+ *
+ * @throws {CliError} If the token is not a JWT or has expired
+ */
+function decodeSessionToken(token: string): SessionClaims {
+  let claims: SessionClaims;
+  try {
+    claims = JSON.parse(Buffer.from(token.split(".")[1] || "", "base64url").toString("utf8"));
+  } catch {
+    throw new CliError("That is not a session token; copy it with \"Copy CLI Login\" in the designer's Development Tools");
+  }
+
+  if (claims.exp && claims.exp * 1000 < Date.now()) {
+    throw new CliError("The session token has expired; copy a new one from the designer");
+  }
+  return claims;
+}
+
+/**
+ * Stores a session token, prompting for it if not given, together with the
+ * API URL and default site. The token is checked against the site's files
+ * when a site is known.
+ *
+ * @param options.apiUrl - Base URL of the data client; keeps the stored URL when omitted
+ * @param options.token - The session token
+ * @param options.siteId - Default Webflow site; keeps the stored site when omitted
+ * @throws {CliError} If the token is malformed or expired
+ * @throws {ApiError} If the server rejects the token
+ */
+export async function login(options: { apiUrl?: string; token?: string; siteId?: string }): Promise<void> {
+  const stored = await readStoredConfig();
+
+  let token = options.token?.trim();
+  if (!token) {
+    const readline = createInterface({ input: process.stdin, output: process.stdout });
+    token = (await readline.question("Session token: ")).trim();
+    readline.close();
+  }
+
+  const claims = decodeSessionToken(token);
+  const config: CliConfig = {
+    apiUrl: (options.apiUrl || stored.apiUrl || DEFAULT_API_URL).replace(/\/+$/, ""),
+    sessionToken: token,
+    siteId: options.siteId || stored.siteId || null,
+  };
+
+  if (config.siteId) {
+    await createApiClient(config).listFiles(config.siteId);
+  }
+  await saveConfig(config);
+
+  const user = claims.user?.email || claims.user?.id || "unknown user";
+  const expires = claims.exp ? ` until ${new Date(claims.exp * 1000).toLocaleString()}` : "";
+  console.log(`Logged in to ${config.apiUrl} as ${user}${expires}`);
+  console.log(config.siteId ? `Default site: ${config.siteId}` : "No default site; pass --site to commands or log in with --site");
+}
+
+/**
+ * Forgets the stored session token, keeping the API URL and default site.
+ */
+export async function logout(): Promise<void> {
+  const stored = await readStoredConfig();
+  await saveConfig({
+    apiUrl: stored.apiUrl || DEFAULT_API_URL,
+    sessionToken: null,
+    siteId: stored.siteId || null,
+  });
+  console.log("Logged out");
+}
@@ -0,0 +1,104 @@
+import type { ApiClient, RemoteFile, RemotePage } from "../api.js";
+import { readIndex } from "../checkout.js";
+import { CliError } from "../errors.js";
+
+/**
+ * Finds a page by its ID, Webflow page ID, slug or name (case-insensitive).
+ *
+ * @throws {CliError} If no page or more than one page matches
+ */
+export function resolvePage(pages: RemotePage[], ref: string): RemotePage {
+  const byId = pages.find((page) => String(page.id) === ref || page.webflow_page_id === ref);
+  if (byId) {
+    return byId;
+  }
+
+  const lower = ref.toLowerCase();
+  const matches = pages.filter((page) => page.slug?.toLowerCase() === lower || page.name?.toLowerCase() === lower);
+  if (matches.length === 0) {
+    throw new CliError(`No page matches "${ref}"; run \`codone pages list\` to see the site's pages`);
+  }
+  if (matches.length > 1) {
+    throw new CliError(`"${ref}" matches ${matches.length} pages; use the page ID instead`);
+  }
+  return matches[0];
+}
+
+/**
+ * Lists a site's pages with their live and draft file counts.
+ */
+export async function listPages(api: ApiClient, { siteId }: { siteId: string }): Promise<void> {
+  const pages = await api.listPages(siteId);
+  for (const page of pages) {
+    const draft = page.draft_head_files !== null || page.draft_body_files !== null ? "  (unpublished draft)" : "";
+    const counts = `head ${page.head_files?.length ?? 0}, body ${page.body_files?.length ?? 0}`;
+    console.log(`${String(page.id).padEnd(6)} ${(page.slug || "/").padEnd(24)} ${page.name}  [${counts}]${draft}`);
+  }
+}
+
+/**
+ * Saves a page's head and/or body file assignments as a draft; locations
+ * that are not given keep their current files. Publish the page to make the
+ * draft live.
+ *
+ * @param api - The API client
+ * @param options.siteId - The Webflow site of the page
+ * @param options.page - The page, by ID, Webflow page ID, slug or name
+ * @param options.head - Head file references in order, or undefined to leave the head unchanged
+ * @param options.body - Body file references in order, or undefined to leave the body unchanged
+ * @param options.dir - A checkout directory whose paths can be used as file references
+ * @throws {CliError} If the page or a file cannot be resolved
+ */
+export async function assignFiles(
+  api: ApiClient,
+  options: { siteId: string; page: string; head?: string[]; body?: string[]; dir: string }
+): Promise<void> {
+  if (!options.head && !options.body) {
+    throw new CliError("Pass --head and/or --body with the files to assign");
+  }
+
+  const [pages, files, index] = await Promise.all([
+    api.listPages(options.siteId),
+    api.listFiles(options.siteId),
+    readIndex(options.dir),
+  ]);
+  const page = resolvePage(pages, options.page);
+  const paths = index?.siteId === options.siteId ? index.files : {};
+  const resolve = (refs: string[]) => refs.map((ref) => resolveFile(files, paths, ref));
+
+  // Send both locations like the designer does, keeping the current draft (or
+  // live files) of the one not given, so its loader script stays registered
+  const { codeLoader } = await api.updatePage(page.id, {
+    head_files: options.head ? resolve(options.head) : (page.draft_head_files ?? page.head_files ?? []).map(Number),
+    body_files: options.body ? resolve(options.body) : (page.draft_body_files ?? page.body_files ?? []).map(Number),
+  });
+
+  console.log(`Saved a draft for ${page.name}; run \`codone publish --page ${page.id}\` to make it live`);
+  if (codeLoader && !codeLoader.registered) {
+    console.warn(`warning: the page's loader script was not registered: ${codeLoader.error}`);
+  }
+}
+
+/**
+ * Finds a file by checkout path, ID, or name with or without its extension.
+ *
+ * @throws {CliError} If no file or more than one file matches
+ */
+function resolveFile(files: RemoteFile[], paths: Record<string, { id: number }>, ref: string): number {
+  const id = paths[ref]?.id ?? (/^\d+$/.test(ref) ? Number(ref) : undefined);
+  if (id !== undefined) {
+    if (!files.some((file) => file.id === id)) {
+      throw new CliError(`File ${ref} is not one of the site's files`);
+    }
+    return id;
+  }
+
+  const matches = files.filter((file) => file.name === ref || `${file.name}.${file.language}` === ref);
+  if (matches.length === 0) {
+    throw new CliError(`No file named "${ref}"`);
+  }
+  if (matches.length > 1) {
+    throw new CliError(`"${ref}" matches ${matches.length} files; use its checkout path or ID instead`);
+  }
+  return matches[0].id;
+}
@@ -0,0 +1,39 @@
+import type { ApiClient } from "../api.js";
+import { resolvePage } from "./pages.js";
+
+/**
+ * Publishes drafts of a site: the site-wide draft and the drafts of every
+ * page by default, or only the given pages and/or the site-wide draft.
+ * Publishing a target without a draft changes nothing.
+ *
+ * @param api - The API client
+ * @param options.siteId - The Webflow site to publish
+ * @param options.pages - Pages to publish, by ID, Webflow page ID, slug or name
+ * @param options.siteWide - Whether to publish the site-wide draft when pages are given
+ * @throws {CliError} If a page cannot be resolved
+ */
+export async function publish(
+  api: ApiClient,
+  { siteId, pages: pageRefs, siteWide }: { siteId: string; pages: string[]; siteWide: boolean }
+): Promise<void> {
+  const everything = pageRefs.length === 0 && !siteWide;
+
+  if (everything || siteWide) {
+    const { published } = await api.publishSite(siteId);
+    console.log(published ? "published site-wide code" : "site-wide code has no draft");
+  }
+
+  if (everything || pageRefs.length > 0) {
+    const sitePages = await api.listPages(siteId);
+    const pages = everything ? sitePages : pageRefs.map((ref) => resolvePage(sitePages, ref));
+
+    for (const page of pages) {
+      const { published } = await api.publishPage(page.id);
+      if (published) {
+        console.log(`published ${page.name}`);
+      } else if (!everything) {
+        console.log(`${page.name} has no draft`);
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { chmod, mkdir, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * CLI Configuration
+ * -----------------
+ * `codone login` stores the API URL, the session token and a default site in
+ * `~/.codone/config.json`, readable only by the user. The environment
+ * variables CODONE_API_URL, CODONE_TOKEN and CODONE_SITE take precedence over
+ * the stored values, so scripts and CI jobs can run without logging in.
+ */
+
+export interface CliConfig {
+  /** Base URL of the data client, e.g. http://localhost:3000 */
+  apiUrl: string;
+  /** Session token issued by POST /api/auth/token */
+  sessionToken: string | null;
+  /** Webflow site ID used when a command gets no --site */
+  siteId: string | null;
+}
+
+export const DEFAULT_API_URL = "http://localhost:3000";
+
+/**
+ * Returns the path of the config file; CODONE_CONFIG overrides the default.
+ */
+export function getConfigPath(): string {
+  return process.env.CODONE_CONFIG || path.join(os.homedir(), ".codone", "config.json");
+}
+
+/**
+ * Reads the stored config without applying environment overrides.
+ *
+ * @returns The stored values, or an empty object if nothing is stored
+ */
+export async function readStoredConfig(): Promise<Partial<CliConfig>> {
+  try {
+    return JSON.parse(await readFile(getConfigPath(), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Loads the effective config: environment variables, then stored values, then defaults.
+ */
+export async function loadConfig(): Promise<CliConfig> {
+  const stored = await readStoredConfig();
+  return {
+    apiUrl: process.env.CODONE_API_URL || stored.apiUrl || DEFAULT_API_URL,
+    sessionToken: process.env.CODONE_TOKEN || stored.sessionToken || null,
+    siteId: process.env.CODONE_SITE || stored.siteId || null,
+  };
+}
+
+/**
+ * Stores the config, creating the directory if needed. The file holds a
+ * session token, so it is only readable by the user.
+ */
+export async function saveConfig(config: CliConfig): Promise<void> {
+  const configPath = getConfigPath();
+  await mkdir(path.dirname(configPath), { recursive: true, mode: 0o700 });
+  await writeFile(configPath, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+  await chmod(configPath, 0o600);
+}
@@ -0,0 +1,25 @@
+import type { CompileDiagnostic } from "./api.js";
+
+/**
+ * Thrown for invalid usage or a failed command; the message is printed
+ * without a stack trace and the CLI exits with status 1.
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+/**
+ * Formats compiler diagnostics as `path:line:column: message`, which editors
+ * and terminals recognize as file locations.
+ *
+ * @param filePath - The local path the diagnostics refer to
+ * @param diagnostics - Diagnostics from a 422 response
+ */
+export function formatDiagnostics(filePath: string, diagnostics: CompileDiagnostic[]): string {
+  return diagnostics
+    .map((diagnostic) => `  ${filePath}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.message}`)
+    .join("\n");
+}
@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+import { parseArgs, type ParseArgsConfig } from "node:util";
+import { ApiError, createApiClient } from "./api.js";
+import { loadConfig, type CliConfig } from "./config.js";
+import { CliError, formatDiagnostics } from "./errors.js";
+import { pullFiles, pushFiles } from "./commands/files.js";
+import { login, logout } from "./commands/login.js";
+import { assignFiles, listPages } from "./commands/pages.js";
+import { publish } from "./commands/publish.js";
+
+/**
+ * Codone CLI
+ * ----------
+ * Manages a site's files, page assignments and publishing from a terminal
+ * through the data client's API, with a session token copied from the
+ * designer extension.
+ */
+
+const USAGE = `Usage: codone <command> [options]
+
+Commands:
+  login [--api <url>] [--token <token>] [--site <siteId>]
+      Store a session token (copy it with "Copy CLI Login" in the designer's
+      Development Tools) and the default API URL and site
+  logout
+      Forget the stored session token
+
+  files pull [--site <siteId>] [--dir <dir>] [--force]
+      Write the site's files into <dir> (default: current directory)
+  files push [--dir <dir>]
+      Save edited files and create files added to <dir>
+
+  pages list [--site <siteId>]
+      List the site's pages
+  pages assign <page> [--head <file>,...] [--body <file>,...] [--site <siteId>] [--dir <dir>]
+      Save a page's head/body files as a draft. Pages are matched by ID, slug
+      or name; files by checkout path, ID or name. --head "" clears the head
+
+  publish [--page <page>]... [--site-wide] [--site <siteId>]
+      Publish the drafts of the site-wide code and every page, or only of the
+      given pages and/or the site-wide code
+
+Environment:
+  CODONE_API_URL, CODONE_TOKEN, CODONE_SITE override the stored login
+`;
+
+interface Command {
+  options: NonNullable<ParseArgsConfig["options"]>;
+  run: (args: CommandArgs) => Promise<void>;
+}
+
+interface CommandArgs {
+  values: Record<string, string | boolean | (string | boolean)[] | undefined>;
+  positionals: string[];
+  config: CliConfig;
+}
+
+const site = { type: "string" } as const;
+const dir = { type: "string", default: "." } as const;
+
+const COMMANDS: Record<string, Command> = {
+  login: {
+    options: { api: { type: "string" }, token: { type: "string" }, site },
+    run: ({ values }) =>
+      login({
+        apiUrl: values.api as string | undefined,
+        token: values.token as string | undefined,
+        siteId: values.site as string | undefined,
+      }),
+  },
+  logout: {
+    options: {},
+    run: () => logout(),
+  },
+  "files pull": {
+    options: { site, dir, force: { type: "boolean", default: false } },
+    run: ({ values, config }) =>
+      pullFiles(createApiClient(config), {
+        siteId: requireSite(values, config),
+        dir: values.dir as string,
+        force: values.force as boolean,
+      }),
+  },
+  "files push": {
+    options: { site, dir },
+    run: ({ values, config }) =>
+      pushFiles(createApiClient(config), {
+        siteId: (values.site as string | undefined) ?? null,
+        dir: values.dir as string,
+      }),
+  },
+  "pages list": {
+    options: { site },
+    run: ({ values, config }) => listPages(createApiClient(config), { siteId: requireSite(values, config) }),
+  },
+  "pages assign": {
+    options: { site, dir, head: { type: "string", multiple: true }, body: { type: "string", multiple: true } },
+    run: ({ values, positionals, config }) => {
+      if (positionals.length !== 1) {
+        throw new CliError("Usage: codone pages assign <page> [--head <file>,...] [--body <file>,...]");
+      }
+      return assignFiles(createApiClient(config), {
+        siteId: requireSite(values, config),
+        page: positionals[0],
+        head: splitList(values.head as string[] | undefined),
+        body: splitList(values.body as string[] | undefined),
+        dir: values.dir as string,
+      });
+    },
+  },
+  publish: {
+    options: { site, page: { type: "string", multiple: true }, "site-wide": { type: "boolean", default: false } },
+    run: ({ values, config }) =>
+      publish(createApiClient(config), {
+        siteId: requireSite(values, config),
+        pages: (values.page as string[] | undefined) ?? [],
+        siteWide: values["site-wide"] as boolean,
+      }),
+  },
+};
+
+/**
+ * Returns the site given with --site, falling back to the default site.
+ *
+ * @throws {CliError} If there is neither
+ */
+function requireSite(values: CommandArgs["values"], config: CliConfig): string {
+  const siteId = (values.site as string | undefined) || config.siteId;
+  if (!siteId) {
+    throw new CliError("No site given; pass --site <siteId> or run `codone login --site <siteId>`");
+  }
+  return siteId;
+}
+
+/**
+ * Flattens repeated and comma-separated list options; an empty value gives an empty list.
+ */
+function splitList(values: string[] | undefined): string[] | undefined {
+  return values?.flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [first, second] = argv;
+  const name = COMMANDS[`${first} ${second}`] ? `${first} ${second}` : first;
+  const command = COMMANDS[name];
+
+  if (!command || argv.includes("--help") || argv.includes("-h")) {
+    console.log(USAGE);
+    if (!command && first && first !== "help" && !first.startsWith("-")) {
+      throw new CliError(`Unknown command: ${argv.slice(0, 2).join(" ")}`);
+    }
+    return;
+  }
+
+  const { values, positionals } = parseArgs({
+    args: argv.slice(name.split(" ").length),
+    options: command.options,
+    allowPositionals: true,
+  });
+  if (positionals.length > 0 && name !== "pages assign") {
+    throw new CliError(`Unexpected argument: ${positionals[0]}`);
+  }
+
+  await command.run({ values, positionals, config: await loadConfig() });
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof ApiError || error instanceof CliError) {
+    console.error(`error: ${error.message}`);
+    if (error instanceof ApiError && error.diagnostics.length > 0) {
+      console.error(formatDiagnostics("<code>", error.diagnostics));
+    }
+  } else if (error instanceof TypeError && "code" in error && String(error.code).startsWith("ERR_PARSE_ARGS")) {
+    console.error(`error: ${error.message}\n\n${USAGE}`);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../lib/utils/jwt";
+import { requireSiteAccess, SiteAccessError } from "../../lib/utils/siteAccess";
+import { AUDIT_TARGET_TYPES, listAuditEntries, MAX_AUDIT_PAGE_SIZE } from "../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Audit Log API
+ * -------------
+ * GET /api/audit?siteId=<webflow_site_id>  -> List the site's audit log, newest first
+ *       &action=<action>                    -> ...of one action, e.g. file.update or page.publish
+ *       &actor=<email or user ID>           -> ...by one user
+ *       &target_type=<type>&target_id=<id>  -> ...of one file, page, site or custom code script
+ *       &limit=<n>                          -> Entries per page, 50 by default and at most 200
+ *       &before=<cursor>                    -> The page after the one whose `next_cursor` this is
+ *
+ * Responds with `entries` and a `next_cursor`, null on the last page. The
+ * log includes changes to library files of the site's workspace. Available
+ * to every role; responds 403 if the session's user has no access to the site.
+ *
+ * Entries are written by the file, library, page, site and custom code
+ * routes and are never changed or removed.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const siteId = searchParams.get("siteId");
+
+    if (!siteId) {
+      return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+    }
+
+    const targetType = searchParams.get("target_type");
+    if (targetType && !AUDIT_TARGET_TYPES.includes(targetType as (typeof AUDIT_TARGET_TYPES)[number])) {
+      return NextResponse.json(
+        { error: `target_type must be one of: ${AUDIT_TARGET_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = searchParams.has("limit") ? Number(searchParams.get("limit")) : null;
+    if (limit !== null && !(Number.isInteger(limit) && limit > 0 && limit <= MAX_AUDIT_PAGE_SIZE)) {
+      return NextResponse.json(
+        { error: `limit must be a whole number from 1 to ${MAX_AUDIT_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const before = searchParams.get("before");
+    if (before && !/^\d+$/.test(before)) {
+      return NextResponse.json({ error: "before must be a cursor from next_cursor" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId);
+
+    const page = await listAuditEntries(siteId, {
+      action: searchParams.get("action"),
+      actor: searchParams.get("actor"),
+      targetType,
+      targetId: searchParams.get("target_id"),
+      before,
+      limit,
+    });
+
+    return NextResponse.json(page, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error fetching audit log:", error);
+    return NextResponse.json({ error: "Failed to fetch audit log" }, { status: 500 });
+  }
+}
@@ -137,7 +137,9 @@ export async function GET(request: NextRequest) {
               // Use existing data if available, otherwise use defaults
               pages: existingSite ? existingSite.pages : [],
               head_files: existingSite ? existingSite.head_files : '',
-              body_files: existingSite ? existingSite.body_files : ''
+              body_files: existingSite ? existingSite.body_files : '',
+              // Sites of one workspace share its file library
+              workspace_id: site.workspaceId ?? null
             }
           );
         })
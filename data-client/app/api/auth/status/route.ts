@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../lib/utils/jwt";
+import db from "../../../lib/utils/database";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Authorization Status API
+ * ------------------------
+ * GET /api/auth/status -> The state of the session user's Webflow authorization
+ *
+ * Responds with `status`:
+ * - "active": the app is authorized
+ * - "revoked": Webflow rejected the stored token, e.g. the app was
+ *   uninstalled; the user has to authorize the app again
+ * - "missing": the user never authorized the app
+ *
+ * The Designer Extension asks when a request fails, to tell a revoked
+ * authorization from other errors. Responds 401 if the session token is
+ * missing or invalid.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await jwt.getAuthUser(request);
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const authorization = await db.getUserAuthorizationStatus(user.id);
+    if (!authorization) {
+      return NextResponse.json({ status: "missing" }, { status: 200 });
+    }
+
+    return NextResponse.json(
+      {
+        status: authorization.revokedAt ? "revoked" : "active",
+        authorizedAt: authorization.updatedAt,
+        revokedAt: authorization.revokedAt,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error fetching authorization status:", error);
+    return NextResponse.json({ error: "Failed to fetch authorization status" }, { status: 500 });
+  }
+}
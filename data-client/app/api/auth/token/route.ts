@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import jwt from "../../../lib/utils/jwt";
 import db from "../../../lib/utils/database";
+import { reauthorizeResponse, revokeIfRejected } from "../../../lib/utils/webflowAuth";
 
 /*
     Token Exchange API Route
@@ -34,6 +35,8 @@ import db from "../../../lib/utils/database";
     Error Handling:
     - Returns 401 if Site ID is invalid or unauthorized
     - Returns 401 if user verification fails
+    - Returns 401 with `reauthorize: true` if Webflow rejects the site's Access Token,
+      which is then marked revoked until the app is authorized again
 */
 
 // Handle CORS preflight requests
@@ -71,6 +74,14 @@ export async function POST(request: NextRequest) {
       }),
     });
 
+    // Webflow rejects the Access Token once the app's access to the site is revoked
+    if (await revokeIfRejected(response, accessToken)) {
+      return reauthorizeResponse();
+    }
+    if (!response.ok) {
+      throw new Error(`Token resolve failed with status ${response.status}`);
+    }
+
     // Get the user information from the response
     const user = await response.json();
     console.log("User:", user);
@@ -81,7 +92,7 @@ export async function POST(request: NextRequest) {
     const expAt = tokenPayload.exp;
 
     // Store the User ID and Access Token in the database
-    db.insertUserAuthorization(user.id, accessToken);
+    await db.insertUserAuthorization(user.id, accessToken);
 
     // Return the Session Token and Expiration Time to the Designer Extension (client)
     return NextResponse.json({ sessionToken, exp: expAt });
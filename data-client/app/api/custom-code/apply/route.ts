@@ -2,16 +2,20 @@ import { NextRequest, NextResponse } from "next/server";
 import { WebflowClient } from "webflow-api";
 import { ScriptController } from "../../../lib/controllers/scriptControllers";
 import jwt from "../../../lib/utils/jwt";
+import supabaseClient from "../../../lib/utils/supabase";
+import { recordAudit } from "../../../lib/utils/auditLog";
+import { handleRevokedToken } from "../../../lib/utils/webflowAuth";
 
 // Apply Custom Code
 export async function POST(request: NextRequest) {
+  let accessToken: string | null = null;
   try {
     // Clone and log only the request body
     const clonedRequest = request.clone();
     const body = await clonedRequest.json();
     console.log("Request body:", body);
 
-    const accessToken = await jwt.verifyAuth(request);
+    accessToken = await jwt.verifyAuth(request);
     if (!accessToken) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -58,9 +62,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Record the change against the site, looking up the page's site
+    let siteId: string | null = targetType === "site" ? targetId : null;
+    if (targetType === "page") {
+      const { data: page } = await supabaseClient.client
+        .from("Pages")
+        .select("webflow_site_id")
+        .eq("webflow_page_id", targetId)
+        .maybeSingle();
+      siteId = page?.webflow_site_id ?? null;
+    }
+    await recordAudit(request, {
+      action: "custom_code.apply",
+      targetType: "custom_code",
+      targetId: scriptId,
+      siteId,
+      before: null,
+      after: { targetType, targetId, location, version },
+    });
+
     // Return Result
     return NextResponse.json({ result }, { status: 200 });
   } catch (error) {
+    const revoked = await handleRevokedToken(error, accessToken);
+    if (revoked) {
+      return revoked;
+    }
     console.error(
       "Error applying custom code:",
       error instanceof Error ? error.message : error
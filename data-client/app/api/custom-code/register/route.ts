@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { WebflowClient } from "webflow-api";
 import { ScriptController } from "../../../lib/controllers/scriptControllers";
 import jwt from "../../../lib/utils/jwt";
+import { recordAudit } from "../../../lib/utils/auditLog";
+import { handleRevokedToken } from "../../../lib/utils/webflowAuth";
 
 // Get Registered Scripts
 export async function GET(request: NextRequest) {
+  let accessToken: string | null = null;
   try {
-    const accessToken = await jwt.verifyAuth(request);
+    accessToken = await jwt.verifyAuth(request);
     if (!accessToken) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -29,6 +32,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ registeredScripts }, { status: 200 });
   } catch (error) {
+    const revoked = await handleRevokedToken(error, accessToken);
+    if (revoked) {
+      return revoked;
+    }
     console.error("Error fetching registered scripts:", error);
     return NextResponse.json(
       { error: "Failed to register custom code" },
@@ -39,9 +46,10 @@ export async function GET(request: NextRequest) {
 
 // Register Custom Code
 export async function POST(request: NextRequest) {
+  let accessToken: string | null = null;
   try {
     // Verify authentication
-    const accessToken = await jwt.verifyAuth(request);
+    accessToken = await jwt.verifyAuth(request);
     if (!accessToken) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -65,8 +73,20 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    await recordAudit(request, {
+      action: "custom_code.register",
+      targetType: "custom_code",
+      targetId: result?.id ?? scriptData?.displayName ?? "",
+      siteId,
+      before: null,
+      after: { ...scriptData, hosted: Boolean(isHosted) },
+    });
     return NextResponse.json({ result }, { status: 200 });
   } catch (error) {
+    const revoked = await handleRevokedToken(error, accessToken);
+    if (revoked) {
+      return revoked;
+    }
     console.error("Error registering custom code:", error);
     return NextResponse.json(
       { error: "Failed to register custom code" },
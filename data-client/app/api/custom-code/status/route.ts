@@ -1,6 +1,7 @@
 import { WebflowClient } from "webflow-api";
 import { ScriptController } from "../../../lib/controllers/scriptControllers";
 import jwt from "../../../lib/utils/jwt";
+import { handleRevokedToken } from "../../../lib/utils/webflowAuth";
 import { NextRequest, NextResponse } from "next/server";
 
 interface Script {
@@ -9,9 +10,10 @@ interface Script {
 }
 
 export async function GET(request: NextRequest) {
+  let accessToken: string | null = null;
   try {
     // Add auth verification
-    const accessToken = await jwt.verifyAuth(request);
+    accessToken = await jwt.verifyAuth(request);
     if (!accessToken) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -31,7 +33,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({ result }, { status: 200 });
   } catch (error) {
-    return handleError(error as Error);
+    return (await handleRevokedToken(error, accessToken)) ?? handleError(error as Error);
   }
 }
 
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { LIVE_RELOAD_CLIENT } from "../../../../lib/utils/liveReload";
+
+// Read NODE_ENV per request instead of prerendering the response at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Live Reload Client API
+ * ----------------------
+ * GET /api/dev/live/client  -> The browser script that applies saved files to
+ *   the page in place (development only). Loaders insert it from the dev
+ *   server the worker reports for the site.
+ */
+export async function GET() {
+  if (process.env.NODE_ENV !== "development") {
+    return NextResponse.json({ error: "Not available in production" }, { status: 403 });
+  }
+
+  return new Response(LIVE_RELOAD_CLIENT, {
+    headers: {
+      "Content-Type": "text/javascript; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
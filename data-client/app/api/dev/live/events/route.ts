@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { subscribeToFileChanges } from "../../../../lib/utils/liveReload";
+
+// Comment lines keep proxies such as ngrok from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/**
+ * Live Reload Events API
+ * ----------------------
+ * GET /api/dev/live/events?siteId=<webflow_site_id>
+ *   -> Server-sent events: `change` with `{ fileIds }` whenever a file served
+ *      on the site is saved, restored or deleted (development only)
+ *
+ * Requested by the live reload client on pages of the published site, so it
+ * takes no session token; events carry nothing but file IDs.
+ */
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV !== "development") {
+    return NextResponse.json({ error: "Not available in production" }, { status: 403 });
+  }
+
+  const siteId = request.nextUrl.searchParams.get("siteId");
+  if (!siteId) {
+    return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const unsubscribe = subscribeToFileChanges(siteId, (event) =>
+        write(`event: change\ndata: ${JSON.stringify(event)}\n\n`)
+      );
+      const heartbeat = setInterval(() => write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        close();
+        try {
+          controller.close();
+        } catch {
+          // The stream was already cancelled
+        }
+      });
+
+      write("retry: 2000\n\n");
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../lib/utils/jwt";
+import { disableLiveReload, enableLiveReload, getDevServerUrl } from "../../../lib/utils/liveReload";
+import { requireSiteAccess, SiteAccessError } from "../../../lib/utils/siteAccess";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Live Reload API
+ * ---------------
+ * POST   /api/dev/live  -> Register this dev server's live reload client on `siteId` (development only)
+ * DELETE /api/dev/live  -> Remove the site's registration
+ *
+ * Both take `siteId` in the JSON body. Once registered, pages of the
+ * published site opened with `?codone=dev` reload saved files in place;
+ * `?codone=live` turns it off again in that browser.
+ */
+
+// Register the live reload client of this dev server on a site
+export async function POST(request: NextRequest) {
+  // Only allow in development
+  if (process.env.NODE_ENV !== "development") {
+    return NextResponse.json({ error: "Not available in production" }, { status: 403 });
+  }
+
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId } = await request.json();
+    if (!siteId) {
+      return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const registration = await enableLiveReload(siteId, getDevServerUrl(request.nextUrl.origin));
+    if (!registration) {
+      return NextResponse.json({ error: "Site not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(registration, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error enabling live reload:", error);
+    return NextResponse.json({ error: "Failed to enable live reload" }, { status: 500 });
+  }
+}
+
+// Remove the live reload registration of a site
+export async function DELETE(request: NextRequest) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId } = await request.json();
+    if (!siteId) {
+      return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    await disableLiveReload(siteId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error disabling live reload:", error);
+    return NextResponse.json({ error: "Failed to disable live reload" }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../lib/utils/jwt";
+import { removeFileEditor, touchFileEditor } from "../../../../lib/utils/filePresence";
+import { requireFileAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * File Editors API
+ * ----------------
+ * POST   /api/files/[fileId]/editors  -> Heartbeat of the session's user having the file open; returns the other `editors` and the file's `updated_at`
+ * DELETE /api/files/[fileId]/editors  -> The session's user closed the file
+ */
+
+// Record that the user has the file open
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId } = params;
+    if (!fileId) {
+      return NextResponse.json({ error: "fileId is required" }, { status: 400 });
+    }
+
+    await requireFileAccess(request, fileId);
+
+    const user = await jwt.getAuthUser(request);
+    const editor = user?.email || user?.id;
+    if (!editor) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const presence = await touchFileEditor(fileId, editor);
+    if (!presence) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(presence, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error recording file editor:", error);
+    return NextResponse.json({ error: "Failed to record file editor" }, { status: 500 });
+  }
+}
+
+// Record that the user closed the file
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId } = params;
+    if (!fileId) {
+      return NextResponse.json({ error: "fileId is required" }, { status: 400 });
+    }
+
+    await requireFileAccess(request, fileId);
+
+    const user = await jwt.getAuthUser(request);
+    const editor = user?.email || user?.id;
+    if (!editor) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await removeFileEditor(fileId, editor);
+
+    return NextResponse.json({ message: "File editor removed" }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error removing file editor:", error);
+    return NextResponse.json({ error: "Failed to remove file editor" }, { status: 500 });
+  }
+}
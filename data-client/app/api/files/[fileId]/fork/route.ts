@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../lib/utils/jwt";
+import { applyFileChange } from "../../../../lib/utils/fileChanges";
+import { FileCompileError } from "../../../../lib/utils/compiler";
+import { forkLibraryFile, LibraryConflictError } from "../../../../lib/utils/library";
+import { requireSiteAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+import { recordAudit } from "../../../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Fork File API
+ * -------------
+ * POST /api/files/[fileId]/fork  -> Fork a library file linked into `siteId` into a site-local copy
+ *
+ * The copy replaces the library file in the site's live and draft
+ * assignments and the link is removed, so later library changes no longer
+ * reach the site. The site's files importing the library file are rebuilt
+ * against the copy (reported as `dependents`), and the site's bundles are
+ * rebuilt and purged as for a file save (`bundles`, `purge`). The fork is
+ * recorded in the site's audit log as the creation of the copy.
+ */
+
+// Fork a linked library file into a site
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId } = params;
+    const { siteId } = await request.json();
+    if (!fileId || !siteId) {
+      return NextResponse.json({ error: "fileId and siteId are required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "publisher");
+
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const file = await forkLibraryFile(siteId, fileId, author);
+    if (!file) {
+      return NextResponse.json({ error: "File is not linked into the site" }, { status: 404 });
+    }
+    await recordAudit(request, {
+      action: "file.fork",
+      targetType: "file",
+      targetId: file.id,
+      before: null,
+      after: { ...file, forked_from: Number(fileId) },
+    });
+
+    // Importers of the library file now resolve the copy; the copy takes over its assignments
+    const { dependents } = await applyFileChange(fileId, [siteId]);
+    const changes = await applyFileChange(file.id, [siteId]);
+
+    return NextResponse.json({ file, ...changes, dependents }, { status: 200 });
+  } catch (error) {
+    if (error instanceof FileCompileError) {
+      return NextResponse.json(
+        { error: "Compilation failed", diagnostics: error.diagnostics },
+        { status: 422 }
+      );
+    }
+    if (error instanceof LibraryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error forking library file:", error);
+    return NextResponse.json({ error: "Failed to fork library file" }, { status: 500 });
+  }
+}
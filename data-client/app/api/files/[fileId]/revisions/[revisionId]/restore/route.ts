@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import supabaseClient from "../../../../../../lib/utils/supabase";
+import jwt from "../../../../../../lib/utils/jwt";
+import { applyFileChange } from "../../../../../../lib/utils/fileChanges";
+import { FileCompileError } from "../../../../../../lib/utils/compiler";
+import { requireFileAccess, SiteAccessError } from "../../../../../../lib/utils/siteAccess";
+import { getAuditSnapshot, recordAudit } from "../../../../../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Restore File Revision API
+ * -------------------------
+ * POST /api/files/[fileId]/revisions/[revisionId]/restore
+ *   -> Restore a file to a previous revision. The restore is recorded as a new revision,
+ *      files importing it are rebuilt (reported as `dependents`), bundle artifacts using
+ *      the file are rebuilt (reported as `bundles`) and cached loader bundles using the
+ *      file are purged (reported as `purge`). The restore is recorded in the audit log.
+ */
+
+// Restore a file to one of its revisions
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { fileId: string; revisionId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId, revisionId } = params;
+    if (!fileId || !revisionId) {
+      return NextResponse.json({ error: "fileId and revisionId are required" }, { status: 400 });
+    }
+
+    await requireFileAccess(request, fileId, "editor");
+
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const before = await getAuditSnapshot("file", fileId);
+    const result = await supabaseClient.restoreFileRevision(fileId, revisionId, author);
+    if (!result) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+    await recordAudit(request, {
+      action: "file.restore",
+      targetType: "file",
+      targetId: fileId,
+      before,
+      after: { ...result.file, restored_from: Number(revisionId) },
+    });
+
+    // The restored code is live immediately, so rebuild and drop cached bundles that include it
+    const changes = await applyFileChange(fileId);
+
+    return NextResponse.json({ ...result, ...changes }, { status: 200 });
+  } catch (error) {
+    if (error instanceof FileCompileError) {
+      return NextResponse.json(
+        { error: "Compilation failed", diagnostics: error.diagnostics },
+        { status: 422 }
+      );
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error restoring file revision:", error);
+    return NextResponse.json({ error: "Failed to restore file revision" }, { status: 500 });
+  }
+}
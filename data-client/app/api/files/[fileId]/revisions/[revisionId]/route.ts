@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import supabaseClient from "../../../../../lib/utils/supabase";
+import jwt from "../../../../../lib/utils/jwt";
+import { requireFileAccess, SiteAccessError } from "../../../../../lib/utils/siteAccess";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Single File Revision API
+ * ------------------------
+ * GET /api/files/[fileId]/revisions/[revisionId]  -> Retrieve a revision, including its code
+ */
+
+// Get a single revision of a file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string; revisionId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId, revisionId } = params;
+    if (!fileId || !revisionId) {
+      return NextResponse.json({ error: "fileId and revisionId are required" }, { status: 400 });
+    }
+
+    await requireFileAccess(request, fileId);
+
+    const revision = await supabaseClient.getFileRevision(fileId, revisionId);
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ revision }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error retrieving file revision:", error);
+    return NextResponse.json({ error: "Failed to retrieve file revision" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import supabaseClient from "../../../../lib/utils/supabase";
+import jwt from "../../../../lib/utils/jwt";
+import { requireFileAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * File Revisions API
+ * ------------------
+ * GET /api/files/[fileId]/revisions  -> List revisions of a file, newest first (without code)
+ */
+
+// List revisions for a file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId } = params;
+    if (!fileId) {
+      return NextResponse.json({ error: "fileId is required" }, { status: 400 });
+    }
+
+    await requireFileAccess(request, fileId);
+
+    const revisions = await supabaseClient.getFileRevisions(fileId);
+
+    return NextResponse.json({ revisions }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error fetching file revisions:", error);
+    return NextResponse.json({ error: "Failed to fetch file revisions" }, { status: 500 });
+  }
+}
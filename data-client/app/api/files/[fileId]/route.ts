@@ -1,16 +1,57 @@
 import { NextRequest, NextResponse } from "next/server";
-import supabaseClient from "../../../lib/utils/supabase";
+import supabaseClient, { FileConflictError } from "../../../lib/utils/supabase";
 import jwt from "../../../lib/utils/jwt";
+import { applyFileChange } from "../../../lib/utils/fileChanges";
+import { LOAD_STRATEGIES } from "../../../lib/utils/loaderScript";
+import { FILE_LANGUAGES, FileCompileError } from "../../../lib/utils/compiler";
+import { FileOrganizationError, normalizeFolder, normalizeTags } from "../../../lib/utils/fileLibrary";
+import {
+  requireFileAccess,
+  requireUnchangedOwnership,
+  requireUpdatableFields,
+  SiteAccessError,
+  UpdateFieldError,
+} from "../../../lib/utils/siteAccess";
+import { getAuditSnapshot, recordAudit } from "../../../lib/utils/auditLog";
 
 export async function OPTIONS(request: NextRequest) {
   return NextResponse.json({});
 }
 
+/**
+ * Fields PUT updates. Built code, sizes, dependencies and timestamps are
+ * derived from them on save.
+ */
+const UPDATABLE_FIELDS = ["name", "language", "code", "load_strategy", "load_selector", "folder", "tags"] as const;
+
 /**
  * Single File API
  * --------------
  * GET /api/files/[fileId]  -> Retrieve a single file record
- * PUT /api/files/[fileId]  -> Update fields on a file (e.g., code)
+ * PUT /api/files/[fileId]  -> Update name, language, code, load_strategy, load_selector, folder or tags of a file, recording a revision; other fields are rejected with 400
+ * DELETE /api/files/[fileId] -> Delete a file
+ *
+ * PUT and DELETE rebuild the files that import the file through `codone:`
+ * imports (reported as `dependents`) and the bundle artifacts of every page
+ * and site using the file or those dependents (reported as `bundles`), then
+ * purge the loader worker's cached bundles for them and report the results
+ * as `purge`. Moving or tagging a file changes no served code, so a PUT of
+ * only `folder` and `tags` skips these steps.
+ *
+ * TypeScript and SCSS files are compiled and scripts bundled with their
+ * imports on save; if the code does not build, PUT saves nothing and responds
+ * 422 with the compiler's `diagnostics`.
+ *
+ * A PUT can pass the `updated_at` of the file it edited as `base_updated_at`;
+ * if the file changed since, nothing is saved and the response is 409 with
+ * the current `file`, so the client can merge and save again.
+ *
+ * Each responds 403 if the session's user has no access to the file's site;
+ * PUT and DELETE require the editor role.
+ *
+ * PUT and DELETE are recorded in the site's audit log (see /api/audit).
+ *
+ * Revision history lives under /api/files/[fileId]/revisions
  */
 
 // Get a single file by ID
@@ -29,6 +70,8 @@ export async function GET(
       return NextResponse.json({ error: "fileId is required" }, { status: 400 });
     }
 
+    await requireFileAccess(request, fileId);
+
     const { data, error } = await supabaseClient.client
       .from("Files")
       .select("*")
@@ -41,6 +84,9 @@ export async function GET(
 
     return NextResponse.json({ file: data }, { status: 200 });
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error retrieving file:", error);
     return NextResponse.json({ error: "Failed to retrieve file" }, { status: 500 });
   }
@@ -62,12 +108,77 @@ export async function PUT(
       return NextResponse.json({ error: "fileId is required" }, { status: 400 });
     }
 
-    const body = await request.json();
+    await requireFileAccess(request, fileId, "editor");
+
+    const { base_updated_at: baseUpdatedAt, ...body } = await request.json();
+    requireUnchangedOwnership(body);
+    requireUpdatableFields(body, UPDATABLE_FIELDS);
+
+    if (body.language !== undefined && !FILE_LANGUAGES.includes(body.language)) {
+      return NextResponse.json(
+        { error: `language must be one of: ${FILE_LANGUAGES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.load_strategy != null && !LOAD_STRATEGIES.includes(body.load_strategy)) {
+      return NextResponse.json(
+        { error: `load_strategy must be one of: ${LOAD_STRATEGIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.load_strategy === "visible" && !body.load_selector) {
+      return NextResponse.json(
+        { error: "load_selector is required for the visible load strategy" },
+        { status: 400 }
+      );
+    }
+
+    if ("folder" in body) {
+      body.folder = normalizeFolder(body.folder);
+    }
+    if ("tags" in body) {
+      body.tags = normalizeTags(body.tags);
+    }
+
+    // Attribute the revision recorded for this save to the session's user
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const before = await getAuditSnapshot("file", fileId);
+    const updatedFile = await supabaseClient.updateFile(fileId, body, author, baseUpdatedAt);
+    await recordAudit(request, {
+      action: "file.update",
+      targetType: "file",
+      targetId: fileId,
+      before,
+      after: updatedFile,
+    });
+
+    if (Object.keys(body).every((field) => field === "folder" || field === "tags")) {
+      return NextResponse.json({ file: updatedFile }, { status: 200 });
+    }
 
-    const updatedFile = await supabaseClient.updateFile(fileId, body);
+    const changes = await applyFileChange(fileId);
 
-    return NextResponse.json({ file: updatedFile }, { status: 200 });
+    return NextResponse.json({ file: updatedFile, ...changes }, { status: 200 });
   } catch (error) {
+    if (error instanceof FileCompileError) {
+      return NextResponse.json(
+        { error: "Compilation failed", diagnostics: error.diagnostics },
+        { status: 422 }
+      );
+    }
+    if (error instanceof FileOrganizationError || error instanceof UpdateFieldError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof FileConflictError) {
+      return NextResponse.json({ error: error.message, file: error.file }, { status: 409 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error updating file:", error);
     return NextResponse.json({ error: "Failed to update file" }, { status: 500 });
   }
@@ -89,20 +200,50 @@ export async function DELETE(
       return NextResponse.json({ error: "fileId is required" }, { status: 400 });
     }
 
+    await requireFileAccess(request, fileId, "editor");
+
+    // Library files lose their site links on delete, so look up the sites serving it first
+    const siteIds = await supabaseClient.getFileSiteIds(fileId);
+
     // Assuming supabaseClient.deleteFile exists or we use the direct Supabase client
     // For example, if deleteFile is not a custom wrapper:
-    const { error } = await supabaseClient.client
+    const { data: deletedFile, error } = await supabaseClient.client
       .from("Files")
       .delete()
-      .eq("id", fileId);
+      .eq("id", fileId)
+      .select("*")
+      .maybeSingle();
 
     if (error) {
       console.error("Error deleting file from Supabase:", error);
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    return NextResponse.json({ message: "File deleted successfully" }, { status: 200 });
+    if (deletedFile) {
+      await recordAudit(request, {
+        action: "file.delete",
+        targetType: "file",
+        targetId: fileId,
+        before: deletedFile,
+        after: null,
+      });
+    }
+
+    // Pages keep the deleted ID in their assignments; their bundles just skip it.
+    // Files importing it fail to rebuild and keep serving their last build.
+    const changes = deletedFile
+      ? await applyFileChange(fileId, siteIds)
+      : {
+          dependents: { rebuilt: [], failed: [], error: null },
+          bundles: { rebuilt: [], failed: [], error: null },
+          purge: { results: [], error: null },
+        };
+
+    return NextResponse.json({ message: "File deleted successfully", ...changes }, { status: 200 });
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error deleting file:", error);
     return NextResponse.json({ error: "Failed to delete file" }, { status: 500 });
   }
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import supabaseClient from "../../lib/utils/supabase";
 import jwt from "../../lib/utils/jwt";
+import { FILE_LANGUAGES, FileCompileError } from "../../lib/utils/compiler";
+import { requireSiteAccess, SiteAccessError } from "../../lib/utils/siteAccess";
+import { recordAudit } from "../../lib/utils/auditLog";
+import {
+  FileOrganizationError,
+  normalizeFolder,
+  normalizeTags,
+  type FileListFilters,
+} from "../../lib/utils/fileLibrary";
 
 // Remove makeCorsHeaders function as CORS is handled in next.config.mjs
 // function makeCorsHeaders(origin?: string) {
@@ -20,7 +29,14 @@ export async function OPTIONS(request: NextRequest) {
  * Files API
  * ---------
  * GET  /api/files?siteId=<webflow_site_id>   -> List files for a site
- * POST /api/files                            -> Create a new file for a site
+ *        &folder=<path>                        -> ...in a folder or its subfolders (empty for files outside any folder)
+ *        &tag=<tag>&tag=<tag>                  -> ...having all of the given tags
+ * POST /api/files                            -> Create a new file for a site, optionally in a `folder` with `tags`
+ *
+ * TypeScript and SCSS files are compiled on creation; code that does not
+ * compile is rejected with 422 and the compiler's `diagnostics`. Both
+ * respond 403 for sites the session's user has no access to; creating a
+ * file requires the editor role and is recorded in the site's audit log.
  */
 
 // List files for a given site
@@ -39,10 +55,26 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "siteId is required" }, { status: 400 });
     }
 
-    const files = await supabaseClient.getFilesBySiteId(siteId);
+    await requireSiteAccess(request, siteId);
+
+    const filters: FileListFilters = {};
+    if (searchParams.has("folder")) {
+      filters.folder = normalizeFolder(searchParams.get("folder"));
+    }
+    if (searchParams.has("tag")) {
+      filters.tags = normalizeTags(searchParams.getAll("tag"));
+    }
+
+    const files = await supabaseClient.getFilesBySiteId(siteId, filters);
 
     return NextResponse.json({ files }, { status: 200 });
   } catch (error) {
+    if (error instanceof FileOrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error fetching files:", error);
     return NextResponse.json({ error: "Failed to fetch files" }, { status: 500 });
   }
@@ -58,16 +90,50 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { siteId, name, language, code } = body;
+    const { siteId, name, language, code, folder, tags } = body;
 
     if (!siteId || !name || !language) {
       return NextResponse.json({ error: "siteId, name, and language are required" }, { status: 400 });
     }
 
-    const newFile = await supabaseClient.insertFile(siteId, name, language, code || "");
+    if (!FILE_LANGUAGES.includes(language)) {
+      return NextResponse.json(
+        { error: `language must be one of: ${FILE_LANGUAGES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const newFile = await supabaseClient.insertFile(siteId, name, language, code || "", author, {
+      folder: normalizeFolder(folder),
+      tags: normalizeTags(tags),
+    });
+    await recordAudit(request, {
+      action: "file.create",
+      targetType: "file",
+      targetId: newFile.id,
+      before: null,
+      after: newFile,
+    });
 
     return NextResponse.json({ file: newFile }, { status: 200 });
   } catch (error) {
+    if (error instanceof FileCompileError) {
+      return NextResponse.json(
+        { error: "Compilation failed", diagnostics: error.diagnostics },
+        { status: 422 }
+      );
+    }
+    if (error instanceof FileOrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error creating file:", error);
     return NextResponse.json({ error: "Failed to create file" }, { status: 500 });
   }
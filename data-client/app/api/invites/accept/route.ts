@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../lib/utils/jwt";
+import { SiteAccessError } from "../../../lib/utils/siteAccess";
+import { acceptSiteInvite } from "../../../lib/utils/siteMembers";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Accept Invite API
+ * -----------------
+ * POST /api/invites/accept  -> Accept the invite with `token`, becoming a member of its site
+ *
+ * Responds with the `webflow_site_id` and the new `member`; 404 if no
+ * pending invite has the token (it may have expired or been withdrawn) and
+ * 403 if it was sent to an email other than the session user's.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { token } = await request.json();
+    if (!token || typeof token !== "string") {
+      return NextResponse.json({ error: "token is required" }, { status: 400 });
+    }
+
+    const user = await jwt.getAuthUser(request);
+    if (!user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const accepted = await acceptSiteInvite(token, user);
+    if (!accepted) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(accepted, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error accepting site invite:", error);
+    return NextResponse.json({ error: "Failed to accept site invite" }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../lib/utils/jwt";
+import { LibraryConflictError, linkLibraryFile, unlinkLibraryFile } from "../../../../lib/utils/library";
+import { requireSiteAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+import { recordAudit } from "../../../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Library Link API
+ * ----------------
+ * POST   /api/library/[fileId]/link  -> Link a library file into `siteId`, making it available to the site's pages
+ * DELETE /api/library/[fileId]/link  -> Unlink it again; refused with 409 while the site still assigns the file
+ *
+ * Both take `siteId` in the JSON body. Neither changes served code: a newly
+ * linked file is not assigned anywhere yet, and an assigned one cannot be
+ * unlinked. Both are recorded in the site's audit log.
+ */
+
+// Link a library file into a site
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId } = params;
+    const { siteId } = await request.json();
+    if (!fileId || !siteId) {
+      return NextResponse.json({ error: "fileId and siteId are required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const file = await linkLibraryFile(siteId, fileId);
+    if (!file) {
+      return NextResponse.json({ error: "File not found in the workspace library" }, { status: 404 });
+    }
+    await recordAudit(request, {
+      action: "library.link",
+      targetType: "file",
+      targetId: fileId,
+      siteId,
+      before: { linked: false },
+      after: { linked: true },
+    });
+
+    return NextResponse.json({ file: { ...file, linked: true } }, { status: 200 });
+  } catch (error) {
+    if (error instanceof LibraryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error linking library file:", error);
+    return NextResponse.json({ error: "Failed to link library file" }, { status: 500 });
+  }
+}
+
+// Unlink a library file from a site
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fileId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { fileId } = params;
+    const { siteId } = await request.json();
+    if (!fileId || !siteId) {
+      return NextResponse.json({ error: "fileId and siteId are required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const unlinked = await unlinkLibraryFile(siteId, fileId);
+    if (!unlinked) {
+      return NextResponse.json({ error: "File is not linked into the site" }, { status: 404 });
+    }
+    await recordAudit(request, {
+      action: "library.unlink",
+      targetType: "file",
+      targetId: fileId,
+      siteId,
+      before: { linked: true },
+      after: { linked: false },
+    });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof LibraryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error unlinking library file:", error);
+    return NextResponse.json({ error: "Failed to unlink library file" }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import supabaseClient from "../../lib/utils/supabase";
+import jwt from "../../lib/utils/jwt";
+import { FILE_LANGUAGES, FileCompileError } from "../../lib/utils/compiler";
+import {
+  FileOrganizationError,
+  normalizeFolder,
+  normalizeTags,
+  type FileListFilters,
+} from "../../lib/utils/fileLibrary";
+import { getSiteWorkspaceId, LibraryConflictError, linkLibraryFile } from "../../lib/utils/library";
+import { requireSiteAccess, SiteAccessError } from "../../lib/utils/siteAccess";
+import { recordAudit } from "../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({}, { status: 200 });
+}
+
+/**
+ * Workspace Library API
+ * ---------------------
+ * GET  /api/library?siteId=<webflow_site_id>  -> List the library of the site's workspace, each file
+ *                                                flagged `linked` if it is linked into the site
+ *        &folder=<path>&tag=<tag>              -> ...filtered as in /api/files
+ * POST /api/library                           -> Create a library file and link it into `siteId`
+ *
+ * Library files build against the other files of the library only. Linking
+ * and unlinking live under /api/library/[fileId]/link; forking a linked file
+ * into a site-local copy under /api/files/[fileId]/fork. Creating a library
+ * file is recorded in the workspace's audit log.
+ */
+
+// List the workspace library of a site
+export async function GET(request: NextRequest) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const siteId = searchParams.get("siteId");
+
+    if (!siteId) {
+      return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId);
+
+    const filters: FileListFilters = {};
+    if (searchParams.has("folder")) {
+      filters.folder = normalizeFolder(searchParams.get("folder"));
+    }
+    if (searchParams.has("tag")) {
+      filters.tags = normalizeTags(searchParams.getAll("tag"));
+    }
+
+    const workspaceId = await getSiteWorkspaceId(siteId);
+    const [files, linkedFileIds] = await Promise.all([
+      supabaseClient.getLibraryFiles(workspaceId, filters),
+      supabaseClient.getLinkedFileIds(siteId),
+    ]);
+
+    return NextResponse.json(
+      {
+        workspaceId,
+        files: files.map((file) => ({ ...file, linked: linkedFileIds.includes(Number(file.id)) })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof LibraryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof FileOrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error fetching library files:", error);
+    return NextResponse.json({ error: "Failed to fetch library files" }, { status: 500 });
+  }
+}
+
+// Create a library file and link it into the site it was created from
+export async function POST(request: NextRequest) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { siteId, name, language, code, folder, tags } = body;
+
+    if (!siteId || !name || !language) {
+      return NextResponse.json({ error: "siteId, name, and language are required" }, { status: 400 });
+    }
+
+    if (!FILE_LANGUAGES.includes(language)) {
+      return NextResponse.json(
+        { error: `language must be one of: ${FILE_LANGUAGES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const workspaceId = await getSiteWorkspaceId(siteId);
+    const newFile = await supabaseClient.insertLibraryFile(workspaceId, name, language, code || "", author, {
+      folder: normalizeFolder(folder),
+      tags: normalizeTags(tags),
+    });
+    await linkLibraryFile(siteId, newFile.id);
+    await recordAudit(request, {
+      action: "file.create",
+      targetType: "file",
+      targetId: newFile.id,
+      before: null,
+      after: newFile,
+    });
+
+    return NextResponse.json({ file: { ...newFile, linked: true } }, { status: 200 });
+  } catch (error) {
+    if (error instanceof FileCompileError) {
+      return NextResponse.json(
+        { error: "Compilation failed", diagnostics: error.diagnostics },
+        { status: 422 }
+      );
+    }
+    if (error instanceof LibraryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof FileOrganizationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error creating library file:", error);
+    return NextResponse.json({ error: "Failed to create library file" }, { status: 500 });
+  }
+}
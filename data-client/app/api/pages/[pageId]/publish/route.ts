@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import supabaseClient from "../../../../lib/utils/supabase";
+import jwt from "../../../../lib/utils/jwt";
+import {
+  purgeCombinedLoaderCacheForPage,
+  purgeLoaderCacheForTarget,
+} from "../../../../lib/utils/loaderCache";
+import { rebuildTargetBundles } from "../../../../lib/utils/bundles";
+import { requirePageAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+import { getAuditSnapshot, recordAudit } from "../../../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Publish Page API
+ * ----------------
+ * POST /api/pages/[pageId]/publish
+ *   -> Promote the page's draft head/body file assignments to live, rebuild
+ *      the page's bundle artifacts and purge the loader worker's cached
+ *      bundles for the page. Publishing a changed draft is recorded in the
+ *      site's audit log.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { pageId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { pageId } = params;
+    if (!pageId) {
+      return NextResponse.json(
+        { error: "pageId is required" },
+        { status: 400 }
+      );
+    }
+
+    await requirePageAccess(request, pageId, "publisher");
+
+    const before = await getAuditSnapshot("page", pageId);
+    const { page, published } = await supabaseClient.publishPage(pageId);
+    if (published) {
+      await recordAudit(request, { action: "page.publish", targetType: "page", targetId: pageId, before, after: page });
+    }
+
+    // A failed rebuild is not fatal: the worker ignores artifacts built from
+    // other assignments and reads the files directly
+    if (published) {
+      await rebuildTargetBundles("page", pageId).catch((error) =>
+        console.error("Error rebuilding page bundles:", error)
+      );
+    }
+
+    // Nothing changed on the live site, so there is nothing to purge. The page's
+    // files are cached both for its own loader and for combined site bundles.
+    const purge = published
+      ? (await Promise.all([
+          purgeLoaderCacheForTarget(pageId),
+          purgeCombinedLoaderCacheForPage(page.webflow_page_id),
+        ])).flat()
+      : [];
+
+    return NextResponse.json(
+      { page, published, purge },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error publishing page:", error);
+    return NextResponse.json(
+      { error: "Failed to publish page" },
+      { status: 500 }
+    );
+  }
+}
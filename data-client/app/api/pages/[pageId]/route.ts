@@ -4,6 +4,16 @@ import supabaseClient from "../../../lib/utils/supabase";
 import jwt from "../../../lib/utils/jwt";
 import { ScriptController } from "../../../lib/controllers/scriptControllers";
 import { registerCodeLoader } from "../../../lib/utils/codeLoaderUtils";
+import { SCRIPT_MODES } from "../../../lib/utils/loaderScript";
+import {
+  requireAssignableFiles,
+  requirePageAccess,
+  requireUnchangedOwnership,
+  requireUpdatableFields,
+  SiteAccessError,
+  UpdateFieldError,
+} from "../../../lib/utils/siteAccess";
+import { getAuditSnapshot, recordAudit } from "../../../lib/utils/auditLog";
 
 // Let's use empty headers since CORS is now handled in next.config.mjs
 function getResponseHeaders() {
@@ -14,11 +24,22 @@ export async function OPTIONS(request: NextRequest) {
   return NextResponse.json({});
 }
 
+/**
+ * Fields PUT updates. Live assignments, bundles and publish times are only
+ * written by the publish route.
+ */
+const UPDATABLE_FIELDS = ["head_files", "body_files", "script_mode", "name"] as const;
+
 /**
  * Single Page API
  * --------------
  * GET /api/pages/[pageId]  -> Retrieve a single page record
- * PUT /api/pages/[pageId]  -> Update fields on a page (e.g., head_files, body_files)
+ * PUT /api/pages/[pageId]  -> Update head_files, body_files, script_mode or name of a page; other fields are rejected with 400
+ *
+ * head_files/body_files are saved as a draft (draft_head_files/draft_body_files)
+ * that the loader only serves in preview mode. POST /api/pages/[pageId]/publish
+ * makes the draft live and purges the loader cache; saving a draft leaves cached
+ * live bundles untouched. Updates are recorded in the site's audit log.
  */
 
 // Get a single page by ID
@@ -43,6 +64,8 @@ export async function GET(
       );
     }
 
+    await requirePageAccess(request, pageId);
+
     const { data, error } = await supabaseClient.client
       .from("Pages")
       .select("*")
@@ -61,6 +84,9 @@ export async function GET(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error retrieving page:", error);
     return NextResponse.json(
       { error: "Failed to retrieve page" },
@@ -91,11 +117,38 @@ export async function PUT(
       );
     }
 
+    const webflowSiteId = await requirePageAccess(request, pageId, "editor");
+
     const body = await request.json();
-    const { head_files, body_files } = body;
+    requireUnchangedOwnership(body);
+    requireUpdatableFields(body, UPDATABLE_FIELDS);
+    const { head_files, body_files, ...fields } = body;
 
-    // Update page in Supabase
-    const updatedPage = await supabaseClient.updatePage(pageId, body);
+    if (webflowSiteId) {
+      await requireAssignableFiles(webflowSiteId, head_files, body_files);
+    }
+
+    if (fields.script_mode != null && !SCRIPT_MODES.includes(fields.script_mode)) {
+      return NextResponse.json(
+        { error: `script_mode must be one of: ${SCRIPT_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Stage assignment changes as a draft until the page is published
+    const before = await getAuditSnapshot("page", pageId);
+    const updatedPage = await supabaseClient.updatePage(pageId, {
+      ...fields,
+      ...(head_files !== undefined && { draft_head_files: head_files }),
+      ...(body_files !== undefined && { draft_body_files: body_files }),
+    });
+    await recordAudit(request, {
+      action: "page.update",
+      targetType: "page",
+      targetId: pageId,
+      before,
+      after: updatedPage,
+    });
 
     // If we have files to register scripts for
     if ((head_files && head_files.length > 0) || (body_files && body_files.length > 0)) {
@@ -121,7 +174,8 @@ export async function PUT(
             headFiles: head_files || [],
             bodyFiles: body_files || [],
             supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL || "",
-            supabaseKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ""
+            supabaseKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "",
+            scriptMode: updatedPage.script_mode
           });
 
           return NextResponse.json(
@@ -156,6 +210,12 @@ export async function PUT(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof UpdateFieldError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error updating page:", error);
     return NextResponse.json(
       { error: "Failed to update page" },
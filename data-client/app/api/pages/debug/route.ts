@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { WebflowClient } from "webflow-api";
 import jwt from "../../../lib/utils/jwt";
 import database from "../../../lib/utils/database";
+import { requireSiteAccess, SiteAccessError } from "../../../lib/utils/siteAccess";
 
 /**
  * Pages Debug API Route
@@ -32,6 +33,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    await requireSiteAccess(request, siteId);
+
     // Get the site access token from SQLite database
     let siteAccessToken: string;
     try {
@@ -78,6 +81,9 @@ export async function GET(request: NextRequest) {
     }
   } catch (error) {
     // If an error occurs, return a 500 Internal Server Error response
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error in debug endpoint:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import jwt from "../../lib/utils/jwt";
 import supabaseClient from "../../lib/utils/supabase";
+import { requireSiteAccess, SiteAccessError } from "../../lib/utils/siteAccess";
 
 /**
  * Pages API Route
@@ -31,6 +32,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    await requireSiteAccess(request, siteId);
+
     // Fetch pages for the site from Supabase
     const pages = await supabaseClient.getPagesBySiteId(siteId);
 
@@ -38,6 +41,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ pages });
   } catch (error) {
     // If an error occurs, return a 500 Internal Server Error response
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error fetching pages:", error);
     return NextResponse.json(
       { error: "Internal server error" },
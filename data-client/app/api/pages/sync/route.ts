@@ -3,6 +3,8 @@ import { WebflowClient } from "webflow-api";
 import jwt from "../../../lib/utils/jwt";
 import supabaseClient from "../../../lib/utils/supabase";
 import database from "../../../lib/utils/database";
+import { handleRevokedToken } from "../../../lib/utils/webflowAuth";
+import { requireSiteAccess, SiteAccessError } from "../../../lib/utils/siteAccess";
 
 /**
  * Pages Sync API Route
@@ -40,6 +42,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    await requireSiteAccess(request, siteId, "editor");
+
     // Get the site from Supabase to verify it exists
     const site = await supabaseClient.getSiteById(siteId);
     if (!site) {
@@ -73,6 +77,12 @@ export async function POST(request: NextRequest) {
       // Return the sync result to the client
       return NextResponse.json(syncResult);
     } catch (error) {
+      // Webflow rejects the site's token once the app's access is revoked
+      const revoked = await handleRevokedToken(error, siteAccessToken);
+      if (revoked) {
+        return revoked;
+      }
+
       // Provide detailed error information for easier debugging
       const errorDetail = error instanceof Error ? {
         message: error.message,
@@ -85,6 +95,9 @@ export async function POST(request: NextRequest) {
       );
     }
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     // If an error occurs, return a 500 Internal Server Error response
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return NextResponse.json(
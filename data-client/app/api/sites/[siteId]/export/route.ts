@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../lib/utils/jwt";
+import { exportSite } from "../../../../lib/utils/siteTransfer";
+import { requireSiteAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Export Site API
+ * ---------------
+ * GET /api/sites/[siteId]/export
+ *   -> Download a JSON archive of the site's files, its live site-wide
+ *      head/body file assignments and the live assignments of its pages,
+ *      keyed by page slug. POST /api/sites/[siteId]/import loads it into
+ *      another site.
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json(
+        { error: "siteId is required" },
+        { status: 400 }
+      );
+    }
+
+    await requireSiteAccess(request, siteId);
+
+    const archive = await exportSite(siteId);
+    if (!archive) {
+      return NextResponse.json(
+        { error: "Site not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(archive, {
+      status: 200,
+      headers: {
+        "Content-Disposition": `attachment; filename="codone-${siteId}.json"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error exporting site:", error);
+    return NextResponse.json(
+      { error: "Failed to export site" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../../lib/utils/jwt";
+import { GitSyncError, pullSiteToGit } from "../../../../../lib/utils/gitSync";
+import { requireSiteAccess, SiteAccessError } from "../../../../../lib/utils/siteAccess";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Git Pull API
+ * ------------
+ * POST /api/sites/[siteId]/git/pull
+ *   -> Write the site's files and live assignments to its directory of the
+ *      git sync repository and push them as a commit. Responds with the
+ *      `branch`, the resulting `commit` and whether anything `changed`.
+ *
+ * The repository is configured with GIT_SYNC_REMOTE and GIT_SYNC_BRANCH;
+ * git failures respond 502.
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json(
+        { error: "siteId is required" },
+        { status: 400 }
+      );
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const result = await pullSiteToGit(siteId, author);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Site not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof GitSyncError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error pulling site to git:", error);
+    return NextResponse.json(
+      { error: "Failed to pull site to git" },
+      { status: 500 }
+    );
+  }
+}
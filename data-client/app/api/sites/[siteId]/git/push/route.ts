@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../../lib/utils/jwt";
+import { FileCompileError } from "../../../../../lib/utils/compiler";
+import { GitSyncError, pushSiteFromGit } from "../../../../../lib/utils/gitSync";
+import { SiteArchiveError } from "../../../../../lib/utils/siteTransfer";
+import { requireSiteAccess, SiteAccessError } from "../../../../../lib/utils/siteAccess";
+import { recordAudit } from "../../../../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Git Push API
+ * ------------
+ * POST /api/sites/[siteId]/git/push
+ *   -> Import the site's directory of the git sync repository at `commit`
+ *      (optional JSON body; the head of the sync branch by default) into the
+ *      site, like POST /api/sites/[siteId]/import: files are upserted by
+ *      name and assignments saved as drafts. Responds with the imported
+ *      `commit` and the import report. The import is recorded in the site's
+ *      audit log.
+ *
+ * An invalid manifest responds 400, a file that does not build 422 with the
+ * compiler's `diagnostics`, and git failures 502.
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json(
+        { error: "siteId is required" },
+        { status: 400 }
+      );
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const body = await request.json().catch(() => ({}));
+    const commit = typeof body?.commit === "string" && body.commit ? body.commit : null;
+    if (commit && !/^[0-9a-f]{4,40}$/i.test(commit)) {
+      return NextResponse.json(
+        { error: "commit must be a commit hash" },
+        { status: 400 }
+      );
+    }
+
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const result = await pushSiteFromGit(siteId, commit, author);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Site not found" },
+        { status: 404 }
+      );
+    }
+    await recordAudit(request, {
+      action: "site.git_push",
+      targetType: "site",
+      targetId: siteId,
+      before: null,
+      after: { commit: result.commit, files: result.files, pages: result.pages.matched, site: result.site },
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof FileCompileError) {
+      return NextResponse.json(
+        { error: "Compilation failed", diagnostics: error.diagnostics },
+        { status: 422 }
+      );
+    }
+    if (error instanceof GitSyncError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error pushing site from git:", error);
+    return NextResponse.json(
+      { error: "Failed to push site from git" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../lib/utils/jwt";
+import { FileCompileError } from "../../../../lib/utils/compiler";
+import { importSite, parseSiteArchive, SiteArchiveError } from "../../../../lib/utils/siteTransfer";
+import { requireSiteAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+import { recordAudit } from "../../../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Import Site API
+ * ---------------
+ * POST /api/sites/[siteId]/import
+ *   -> Load an archive from GET /api/sites/[siteId]/export into this site.
+ *      Archived files update the site's files of the same name or are
+ *      created (reported as `files`); the site-wide and page assignments
+ *      are saved as drafts, pages matched by slug (reported as `pages`, with
+ *      the `unmatched` slugs). Publish the site and pages to make them live.
+ *      Updated files are rebuilt and purged downstream as on save
+ *      (`dependents`, `bundles`, `purge`). The import is recorded in the
+ *      site's audit log.
+ *
+ * An invalid archive responds 400; a file that does not build on this site
+ * responds 422 with the compiler's `diagnostics`, keeping the files
+ * imported before it.
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json(
+        { error: "siteId is required" },
+        { status: 400 }
+      );
+    }
+
+    await requireSiteAccess(request, siteId, "editor");
+
+    const archive = parseSiteArchive(await request.json().catch(() => null));
+
+    const user = await jwt.getAuthUser(request);
+    const author = user?.email || user?.id || null;
+
+    const report = await importSite(siteId, archive, author);
+    if (!report) {
+      return NextResponse.json(
+        { error: "Site not found" },
+        { status: 404 }
+      );
+    }
+    await recordAudit(request, {
+      action: "site.import",
+      targetType: "site",
+      targetId: siteId,
+      before: null,
+      after: { files: report.files, pages: report.pages.matched, site: report.site },
+    });
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof FileCompileError) {
+      return NextResponse.json(
+        { error: "Compilation failed", diagnostics: error.diagnostics },
+        { status: 422 }
+      );
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error importing site:", error);
+    return NextResponse.json(
+      { error: "Failed to import site" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../../lib/utils/jwt";
+import { requireSiteAccess, SiteAccessError } from "../../../../../lib/utils/siteAccess";
+import { revokeSiteInvite } from "../../../../../lib/utils/siteMembers";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Site Invite API
+ * ---------------
+ * DELETE /api/sites/[siteId]/invites/[inviteId]  -> Withdraw a pending invite (admins only)
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { siteId: string; inviteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId, inviteId } = params;
+    if (!siteId || !inviteId) {
+      return NextResponse.json({ error: "siteId and inviteId are required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "admin");
+
+    if (!(await revokeSiteInvite(siteId, inviteId))) {
+      return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Invite withdrawn" }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error withdrawing site invite:", error);
+    return NextResponse.json({ error: "Failed to withdraw site invite" }, { status: 500 });
+  }
+}
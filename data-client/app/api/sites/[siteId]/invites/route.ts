@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../lib/utils/jwt";
+import { requireSiteAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+import { createSiteInvite, listSiteInvites, SiteMemberError } from "../../../../lib/utils/siteMembers";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Site Invites API
+ * ----------------
+ * GET  /api/sites/[siteId]/invites  -> List the site's pending `invites`
+ * POST /api/sites/[siteId]/invites  -> Invite `email` with a `role`; responds 201 with the `invite` and its `token`
+ *
+ * Both are for admins of the site. The token is only returned here: pass it
+ * on to the invitee, who accepts it with POST /api/invites/accept while
+ * signed in with the invited email. Invites expire after 7 days, and
+ * inviting an email again replaces its pending invite. Pending invites are
+ * withdrawn under /api/sites/[siteId]/invites/[inviteId].
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+
+// List the pending invites of a site
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "admin");
+
+    const invites = await listSiteInvites(siteId);
+
+    return NextResponse.json({ invites }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error retrieving site invites:", error);
+    return NextResponse.json({ error: "Failed to retrieve site invites" }, { status: 500 });
+  }
+}
+
+// Invite someone to the site
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "admin");
+
+    const { email, role } = await request.json();
+    const user = await jwt.getAuthUser(request);
+    const invitedBy = user?.email || user?.id || null;
+
+    const { invite, token } = await createSiteInvite(siteId, email, role, invitedBy);
+
+    return NextResponse.json({ invite, token }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SiteMemberError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error creating site invite:", error);
+    return NextResponse.json({ error: "Failed to create site invite" }, { status: 500 });
+  }
+}
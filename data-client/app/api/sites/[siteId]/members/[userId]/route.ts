@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../../lib/utils/jwt";
+import { requireSiteAccess, SiteAccessError } from "../../../../../lib/utils/siteAccess";
+import { removeSiteMember, SiteMemberError, updateSiteMemberRole } from "../../../../../lib/utils/siteMembers";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Site Member API
+ * ---------------
+ * PUT    /api/sites/[siteId]/members/[userId]  -> Change the member's `role` (admins only)
+ * DELETE /api/sites/[siteId]/members/[userId]  -> Remove the member (admins, or members leaving the site)
+ *
+ * The site's owner is not a member and cannot be changed or removed; both
+ * respond 404 for users who are not members.
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+
+// Change a member's role
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { siteId: string; userId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId, userId } = params;
+    if (!siteId || !userId) {
+      return NextResponse.json({ error: "siteId and userId are required" }, { status: 400 });
+    }
+
+    await requireSiteAccess(request, siteId, "admin");
+
+    const { role } = await request.json();
+    const member = await updateSiteMemberRole(siteId, userId, role);
+    if (!member) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ member }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteMemberError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error updating site member:", error);
+    return NextResponse.json({ error: "Failed to update site member" }, { status: 500 });
+  }
+}
+
+// Remove a member from the site
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { siteId: string; userId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId, userId } = params;
+    if (!siteId || !userId) {
+      return NextResponse.json({ error: "siteId and userId are required" }, { status: 400 });
+    }
+
+    // Anyone with a role can leave the site; removing others takes an admin
+    const sessionUserId = await requireSiteAccess(request, siteId);
+    if (sessionUserId !== userId) {
+      await requireSiteAccess(request, siteId, "admin");
+    }
+
+    if (!(await removeSiteMember(siteId, userId))) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Member removed" }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error removing site member:", error);
+    return NextResponse.json({ error: "Failed to remove site member" }, { status: 500 });
+  }
+}
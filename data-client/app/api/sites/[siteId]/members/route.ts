@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import jwt from "../../../../lib/utils/jwt";
+import { getSiteRole, requireSiteAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+import { listSiteMembers } from "../../../../lib/utils/siteMembers";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Site Members API
+ * ----------------
+ * GET /api/sites/[siteId]/members
+ *   -> The session user's `role` on the site, the site's `owner` and its
+ *      `members`. Available to every role, so clients can tell which
+ *      actions the user may take.
+ *
+ * Members are changed under /api/sites/[siteId]/members/[userId] and
+ * invited under /api/sites/[siteId]/invites.
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json({ error: "siteId is required" }, { status: 400 });
+    }
+
+    const userId = await requireSiteAccess(request, siteId);
+    const role = await getSiteRole(userId, siteId);
+    const { owner, members } = await listSiteMembers(siteId);
+
+    return NextResponse.json({ role, owner, members }, { status: 200 });
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error retrieving site members:", error);
+    return NextResponse.json({ error: "Failed to retrieve site members" }, { status: 500 });
+  }
+}
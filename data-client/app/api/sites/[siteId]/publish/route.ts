@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import supabaseClient from "../../../../lib/utils/supabase";
+import jwt from "../../../../lib/utils/jwt";
+import { purgeLoaderCacheForTarget } from "../../../../lib/utils/loaderCache";
+import { rebuildTargetBundles } from "../../../../lib/utils/bundles";
+import { requireSiteAccess, SiteAccessError } from "../../../../lib/utils/siteAccess";
+import { getAuditSnapshot, recordAudit } from "../../../../lib/utils/auditLog";
+
+export async function OPTIONS() {
+  return NextResponse.json({});
+}
+
+/**
+ * Publish Site API
+ * ----------------
+ * POST /api/sites/[siteId]/publish
+ *   -> Promote the site's draft site-wide head/body file assignments to live,
+ *      rebuild the site's bundle artifacts and purge the loader worker's cached
+ *      bundles for the site. Publishing a changed draft is recorded in the
+ *      site's audit log.
+ *
+ * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { siteId: string } }
+) {
+  try {
+    const accessToken = await jwt.verifyAuth(request.clone() as NextRequest);
+    if (!accessToken) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { siteId } = params;
+    if (!siteId) {
+      return NextResponse.json(
+        { error: "siteId is required" },
+        { status: 400 }
+      );
+    }
+
+    await requireSiteAccess(request, siteId, "publisher");
+
+    const before = await getAuditSnapshot("site", siteId);
+    const { site, published } = await supabaseClient.publishSite(siteId);
+    if (published) {
+      await recordAudit(request, { action: "site.publish", targetType: "site", targetId: siteId, before, after: site });
+    }
+
+    // A failed rebuild is not fatal: the worker ignores artifacts built from
+    // other assignments and reads the files directly
+    if (published) {
+      await rebuildTargetBundles("site", site.id).catch((error) =>
+        console.error("Error rebuilding site bundles:", error)
+      );
+    }
+
+    // Site loaders request code by the Supabase row ID, which is the cache key
+    const purge = published ? await purgeLoaderCacheForTarget(site.id, "site") : [];
+
+    return NextResponse.json(
+      { site, published, purge },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Error publishing site:", error);
+    return NextResponse.json(
+      { error: "Failed to publish site" },
+      { status: 500 }
+    );
+  }
+}
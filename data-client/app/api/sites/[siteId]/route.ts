@@ -4,16 +4,37 @@ import supabaseClient from "../../../lib/utils/supabase";
 import jwt from "../../../lib/utils/jwt";
 import { ScriptController } from "../../../lib/controllers/scriptControllers";
 import { registerSiteCodeLoader } from "../../../lib/utils/siteCodeLoaderUtils";
+import { SCRIPT_MODES } from "../../../lib/utils/loaderScript";
+import {
+  requireAssignableFiles,
+  requireSiteAccess,
+  requireUnchangedOwnership,
+  requireUpdatableFields,
+  SiteAccessError,
+  UpdateFieldError,
+} from "../../../lib/utils/siteAccess";
+import { getAuditSnapshot, recordAudit } from "../../../lib/utils/auditLog";
 
 /**
  * Single Site API
  * --------------
  * GET /api/sites/[siteId]  -> Retrieve a single site record
- * PUT /api/sites/[siteId]  -> Update fields on a site (e.g., head_files, body_files)
+ * PUT /api/sites/[siteId]  -> Update head_files, body_files or script_mode of a site; other fields are rejected with 400
+ *
+ * head_files/body_files are saved as a draft (draft_head_files/draft_body_files)
+ * that the loader only serves in preview mode. POST /api/sites/[siteId]/publish
+ * makes the draft live and purges the loader cache; saving a draft leaves cached
+ * live bundles untouched. Updates are recorded in the site's audit log.
  * 
  * NOTE: The siteId parameter is actually webflow_site_id, not the internal Supabase id
  */
 
+/**
+ * Fields PUT updates. Live assignments, bundles and publish times are only
+ * written by the publish route, live reload settings by the live reload routes.
+ */
+const UPDATABLE_FIELDS = ["head_files", "body_files", "script_mode"] as const;
+
 // Get a single site by ID
 export async function GET(
   request: NextRequest,
@@ -36,6 +57,8 @@ export async function GET(
       );
     }
 
+    await requireSiteAccess(request, siteId);
+
     console.log(`Getting site with webflow_site_id: ${siteId}`);
 
     // Use webflow_site_id instead of id
@@ -58,6 +81,9 @@ export async function GET(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error retrieving site:", error);
     return NextResponse.json(
       { error: "Failed to retrieve site" },
@@ -88,15 +114,33 @@ export async function PUT(
       );
     }
 
+    await requireSiteAccess(request, siteId, "editor");
+
     console.log(`Updating site with webflow_site_id: ${siteId}`);
     
     const body = await request.json();
-    const { head_files, body_files } = body;
+    requireUnchangedOwnership(body);
+    requireUpdatableFields(body, UPDATABLE_FIELDS);
+    const { head_files, body_files, ...fields } = body;
+    await requireAssignableFiles(siteId, head_files, body_files);
 
-    // Update site in Supabase using webflow_site_id
+    if (fields.script_mode != null && !SCRIPT_MODES.includes(fields.script_mode)) {
+      return NextResponse.json(
+        { error: `script_mode must be one of: ${SCRIPT_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Update site in Supabase using webflow_site_id, staging assignment
+    // changes as a draft until the site is published
+    const before = await getAuditSnapshot("site", siteId);
     const { data: updatedSite, error } = await supabaseClient.client
       .from("Sites")
-      .update(body)
+      .update({
+        ...fields,
+        ...(head_files !== undefined && { draft_head_files: head_files }),
+        ...(body_files !== undefined && { draft_body_files: body_files }),
+      })
       .eq("webflow_site_id", siteId)
       .select()
       .single();
@@ -110,6 +154,13 @@ export async function PUT(
     }
 
     console.log("Site successfully stored in Supabase:", updatedSite);
+    await recordAudit(request, {
+      action: "site.update",
+      targetType: "site",
+      targetId: siteId,
+      before,
+      after: updatedSite,
+    });
 
     // If we have files to register scripts for
     if ((head_files && head_files.length > 0) || (body_files && body_files.length > 0)) {
@@ -145,7 +196,8 @@ export async function PUT(
           headFiles: head_files || [],
           bodyFiles: body_files || [],
           supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL || "",
-          supabaseKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ""
+          supabaseKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "",
+          scriptMode: updatedSite.script_mode
         });
 
         console.log("Loader scripts registered successfully:", loaderResults);
@@ -181,6 +233,12 @@ export async function PUT(
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof UpdateFieldError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error updating site:", error);
     return NextResponse.json(
       { error: "Failed to update site" },
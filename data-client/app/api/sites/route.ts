@@ -3,6 +3,8 @@ import { WebflowClient } from "webflow-api";
 import jwt from "../../lib/utils/jwt";
 import supabaseClient from "../../lib/utils/supabase";
 import database from "../../lib/utils/database";
+import { getAccessibleSiteIds } from "../../lib/utils/siteAccess";
+import { handleRevokedToken } from "../../lib/utils/webflowAuth";
 
 /*
     Sites API Route
@@ -11,12 +13,13 @@ import database from "../../lib/utils/database";
     It combines data from both Webflow API and our Supabase database.
 */
 export async function GET(request: NextRequest) {
+  let accessToken: string | null = null;
   try {
     // Clone the request since we need to read the body twice
     const clonedRequest = request.clone() as NextRequest;
 
     // Verify the user is authenticated
-    const accessToken = await jwt.verifyAuth(clonedRequest);
+    accessToken = await jwt.verifyAuth(clonedRequest);
 
     // If the user is not authenticated, return a 401 Unauthorized response
     if (!accessToken) {
@@ -37,11 +40,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get all sites from Supabase that belong to this user
+    // Get all sites from Supabase that this user owns or is a member of
     const supabaseSites = await supabaseClient.client
       .from('Sites')
       .select('*')
-      .eq('owner', userId);
+      .in('webflow_site_id', await getAccessibleSiteIds(userId));
 
     if (supabaseSites.error) {
       console.error("Error fetching sites from Supabase:", supabaseSites.error);
@@ -81,6 +84,12 @@ export async function GET(request: NextRequest) {
     // Return the enriched list of sites to the client
     return NextResponse.json({ sites });
   } catch (error) {
+    // Webflow rejects the user's token once the app's access is revoked
+    const revoked = await handleRevokedToken(error, accessToken);
+    if (revoked) {
+      return revoked;
+    }
+
     // If an error occurs, return a 500 Internal Server Error response
     console.error("Error handling authenticated request:", error);
     return NextResponse.json(
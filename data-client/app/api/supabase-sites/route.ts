@@ -18,11 +18,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import supabaseClient from "../../lib/utils/supabase";
 import jwt from "../../lib/utils/jwt";
+import {
+  getAccessibleSiteIds,
+  requireAssignableFiles,
+  requireSiteAccess,
+  SiteAccessError,
+} from "../../lib/utils/siteAccess";
 
 /**
  * GET /api/supabase-sites
  * ----------------------
- * Retrieves all sites from the Supabase 'Sites' table
+ * Retrieves the sites of the Supabase 'Sites' table the user has access to
  * 
  * Authentication:
  * - Requires a valid JWT token in the Authorization header
@@ -43,8 +49,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get all sites from Supabase
-    const sites = await supabaseClient.listAllSites();
+    // Get the user's sites from Supabase
+    const user = await jwt.getAuthUser(request);
+    const accessible = new Set(user?.id ? await getAccessibleSiteIds(user.id) : []);
+    const sites = (await supabaseClient.listAllSites()).filter((site) =>
+      accessible.has(site.webflow_site_id)
+    );
 
     return NextResponse.json({ 
       success: true, 
@@ -85,12 +95,15 @@ export async function OPTIONS(request: NextRequest) {
  * - pages: (optional) Array of pages for the site
  * - head_files: (optional) Custom code for the site head
  * - body_files: (optional) Custom code for the site body
- * - owner: (optional) User ID of the site owner
+ * 
+ * An existing site keeps its owner and can only be updated by its admins;
+ * a new site is owned by the user creating it.
  * 
  * Response:
  * - 200: Successfully updated site data
  * - 400: Bad request (missing required fields)
  * - 401: Unauthorized (missing or invalid token)
+ * - 403: The user is not an admin of the site
  * - 500: Server error
  * 
  * @param {NextRequest} request - The incoming request object
@@ -108,7 +121,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     console.log("Received POST body:", JSON.stringify(body, null, 2));
     
-    const { webflow_site_id, pages, head_files, body_files, owner } = body;
+    const { webflow_site_id, pages, head_files, body_files } = body;
 
     // Validate required fields
     if (!webflow_site_id) {
@@ -123,8 +136,19 @@ export async function POST(request: NextRequest) {
       body_files: existingSite.body_files
     }, null, 2) : "No existing site");
     
-    // If updating an existing site, use current owner if not provided
-    const siteOwner = owner || (existingSite ? existingSite.owner : 'system');
+    // An existing site keeps its owner, a new one is owned by its creator
+    let siteOwner: string;
+    if (existingSite) {
+      await requireSiteAccess(request, webflow_site_id, "admin");
+      siteOwner = existingSite.owner;
+    } else {
+      const user = await jwt.getAuthUser(request);
+      if (!user?.id) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      siteOwner = user.id;
+    }
+    await requireAssignableFiles(webflow_site_id, head_files, body_files);
 
     // Prepare data for insert
     const siteData = {
@@ -157,6 +181,9 @@ export async function POST(request: NextRequest) {
       message: "Site data updated successfully"
     });
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error updating site in Supabase:", error);
     return NextResponse.json(
       { error: "Failed to update site" },
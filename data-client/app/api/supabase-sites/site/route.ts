@@ -12,6 +12,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import supabaseClient from "../../../lib/utils/supabase";
 import jwt from "../../../lib/utils/jwt";
+import { requireSiteAccess, SiteAccessError } from "../../../lib/utils/siteAccess";
 
 /**
  * GET /api/supabase-sites/site
@@ -28,6 +29,7 @@ import jwt from "../../../lib/utils/jwt";
  * - 200: Successfully retrieved site
  * - 400: Bad request (missing ID parameter)
  * - 401: Unauthorized (missing or invalid token)
+ * - 403: The user has no role on the site
  * - 404: Site not found
  * - 500: Server error
  * 
@@ -57,12 +59,17 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Site not found" }, { status: 404 });
     }
 
+    await requireSiteAccess(request, siteId);
+
     return NextResponse.json({ 
       success: true, 
       message: "Site retrieved successfully", 
       data: site
     });
   } catch (error) {
+    if (error instanceof SiteAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
     console.error("Error retrieving site from Supabase:", error);
     return NextResponse.json(
       { error: "Failed to retrieve site" },
@@ -0,0 +1,180 @@
+import { Pool } from "pg";
+import { decryptToken, encryptToken, hashToken } from "../utils/tokenCrypto";
+import { AuthorizationRevokedError, AuthorizationStatus, TokenStore } from "./TokenStore";
+
+/**
+ * Arbitrary key of the advisory lock held while creating the tables, so
+ * instances starting together do not race each other.
+ */
+const SCHEMA_LOCK_KEY = 727_401;
+
+/**
+ * Token store in Postgres. The tables are created on first use:
+ *
+ * - "SiteAuthorizations": One row per Webflow site (site_id PRIMARY KEY)
+ * - "UserAuthorizations": One row per Webflow user (user_id PRIMARY KEY)
+ *
+ * Both hold the encrypted token (access_token), its hash (token_hash) and
+ * created_at, updated_at and revoked_at timestamps. Row level security is
+ * enabled without policies, so on Supabase the tokens are not exposed
+ * through its APIs; the store connects as the database owner.
+ */
+export class PostgresTokenStore implements TokenStore {
+  private readonly pool: Pool;
+  private schema: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+    this.pool.on("error", (error) => {
+      console.error("Idle token store connection failed:", error);
+    });
+  }
+
+  private async query<T extends object>(text: string, values: unknown[] = []) {
+    if (!this.schema) {
+      this.schema = this.createSchema().catch((error) => {
+        // Let the next call try again
+        this.schema = null;
+        console.error("Error initializing token store tables:", error);
+        throw error;
+      });
+    }
+    await this.schema;
+    return this.pool.query<T>(text, values);
+  }
+
+  private async createSchema(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query("SELECT pg_advisory_xact_lock($1)", [SCHEMA_LOCK_KEY]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "SiteAuthorizations" (
+          site_id TEXT PRIMARY KEY,
+          access_token TEXT NOT NULL,
+          token_hash TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          revoked_at TIMESTAMPTZ
+        );
+
+        CREATE TABLE IF NOT EXISTS "UserAuthorizations" (
+          user_id TEXT PRIMARY KEY,
+          access_token TEXT NOT NULL,
+          token_hash TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          revoked_at TIMESTAMPTZ
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_site_authorizations_token_hash ON "SiteAuthorizations" (token_hash);
+        CREATE INDEX IF NOT EXISTS idx_user_authorizations_token_hash ON "UserAuthorizations" (token_hash);
+
+        ALTER TABLE "SiteAuthorizations" ENABLE ROW LEVEL SECURITY;
+        ALTER TABLE "UserAuthorizations" ENABLE ROW LEVEL SECURITY;
+      `);
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async insertSiteAuthorization(siteId: string, accessToken: string): Promise<void> {
+    await this.query(
+      `INSERT INTO "SiteAuthorizations" (site_id, access_token, token_hash)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (site_id) DO UPDATE SET
+         access_token = EXCLUDED.access_token,
+         token_hash = EXCLUDED.token_hash,
+         updated_at = NOW(),
+         revoked_at = NULL`,
+      [siteId, encryptToken(accessToken), hashToken(accessToken)]
+    );
+  }
+
+  async insertUserAuthorization(userId: string, accessToken: string): Promise<void> {
+    await this.query(
+      `INSERT INTO "UserAuthorizations" (user_id, access_token, token_hash)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) DO UPDATE SET
+         access_token = EXCLUDED.access_token,
+         token_hash = EXCLUDED.token_hash,
+         updated_at = NOW(),
+         revoked_at = NULL`,
+      [userId, encryptToken(accessToken), hashToken(accessToken)]
+    );
+  }
+
+  async getAccessTokenFromSiteId(siteId: string): Promise<string> {
+    const { rows } = await this.query<{ access_token: string; revoked_at: Date | null }>(
+      `SELECT access_token, revoked_at FROM "SiteAuthorizations" WHERE site_id = $1`,
+      [siteId]
+    );
+
+    if (!rows[0]?.access_token) {
+      throw new Error("No access token found or site does not exist");
+    }
+    if (rows[0].revoked_at) {
+      throw new AuthorizationRevokedError();
+    }
+
+    return decryptToken(rows[0].access_token);
+  }
+
+  async getAccessTokenFromUserId(userId: string): Promise<string> {
+    const { rows } = await this.query<{ access_token: string; revoked_at: Date | null }>(
+      `SELECT access_token, revoked_at FROM "UserAuthorizations" WHERE user_id = $1`,
+      [userId]
+    );
+
+    if (!rows[0]?.access_token) {
+      throw new Error("No access token found or user does not exist");
+    }
+    if (rows[0].revoked_at) {
+      throw new AuthorizationRevokedError();
+    }
+
+    return decryptToken(rows[0].access_token);
+  }
+
+  async getUserAuthorizationStatus(userId: string): Promise<AuthorizationStatus | null> {
+    const { rows } = await this.query<{ created_at: Date; updated_at: Date; revoked_at: Date | null }>(
+      `SELECT created_at, updated_at, revoked_at FROM "UserAuthorizations" WHERE user_id = $1`,
+      [userId]
+    );
+
+    if (!rows[0]) {
+      return null;
+    }
+    return {
+      createdAt: rows[0].created_at.toISOString(),
+      updatedAt: rows[0].updated_at.toISOString(),
+      revokedAt: rows[0].revoked_at?.toISOString() ?? null,
+    };
+  }
+
+  async revokeAccessToken(accessToken: string): Promise<number> {
+    const tokenHash = hashToken(accessToken);
+    let revoked = 0;
+    for (const table of ["SiteAuthorizations", "UserAuthorizations"]) {
+      const result = await this.query(
+        `UPDATE "${table}" SET revoked_at = NOW(), updated_at = NOW() WHERE token_hash = $1 AND revoked_at IS NULL`,
+        [tokenHash]
+      );
+      revoked += result.rowCount ?? 0;
+    }
+    return revoked;
+  }
+
+  async clear(): Promise<void> {
+    await this.query(`DELETE FROM "SiteAuthorizations"`);
+    await this.query(`DELETE FROM "UserAuthorizations"`);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
@@ -0,0 +1,254 @@
+import sqlite3 from "sqlite3";
+import { open } from "sqlite";
+import { Database as SQLiteDatabase } from "sqlite";
+import { mkdir } from "fs/promises";
+import { dirname } from "path";
+import { decryptToken, encryptToken, hashToken } from "../utils/tokenCrypto";
+import { AuthorizationRevokedError, AuthorizationStatus, TokenStore } from "./TokenStore";
+
+/**
+ * Version of the table layout below, kept in SQLite's `user_version`. Version 0
+ * is the original layout: plaintext tokens and a new `userAuthorizations` row
+ * on every login.
+ */
+const SCHEMA_VERSION = 1;
+
+/**
+ * Token store in a local SQLite file. The connection is opened, and the
+ * tables created or migrated, on first use:
+ *
+ * - siteAuthorizations: One row per Webflow site (siteId PRIMARY KEY)
+ * - userAuthorizations: One row per Webflow user (userId PRIMARY KEY)
+ *
+ * Both hold the encrypted token (accessToken), its hash (tokenHash) and
+ * createdAt, updatedAt and revokedAt timestamps.
+ */
+export class SqliteTokenStore implements TokenStore {
+  private connection: Promise<SQLiteDatabase> | null = null;
+
+  constructor(private readonly filename = "./db/database.db") {}
+
+  private getDb(): Promise<SQLiteDatabase> {
+    if (!this.connection) {
+      this.connection = this.openDb().catch((error) => {
+        // Let the next call try again
+        this.connection = null;
+        console.error("Error initializing database:", error);
+        throw error;
+      });
+    }
+    return this.connection;
+  }
+
+  private async openDb(): Promise<SQLiteDatabase> {
+    // Ensure the directory exists
+    await mkdir(dirname(this.filename), { recursive: true });
+
+    const db = await open({
+      filename: this.filename,
+      driver: sqlite3.Database,
+    });
+
+    try {
+      await migrateSchema(db);
+    } catch (error) {
+      await db.close();
+      throw error;
+    }
+    return db;
+  }
+
+  async insertSiteAuthorization(siteId: string, accessToken: string): Promise<void> {
+    const db = await this.getDb();
+    const now = new Date().toISOString();
+    await db.run(
+      `INSERT INTO siteAuthorizations (siteId, accessToken, tokenHash, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (siteId) DO UPDATE SET
+         accessToken = excluded.accessToken,
+         tokenHash = excluded.tokenHash,
+         updatedAt = excluded.updatedAt,
+         revokedAt = NULL`,
+      [siteId, encryptToken(accessToken), hashToken(accessToken), now, now]
+    );
+  }
+
+  async insertUserAuthorization(userId: string, accessToken: string): Promise<void> {
+    const db = await this.getDb();
+    const now = new Date().toISOString();
+    await db.run(
+      `INSERT INTO userAuthorizations (userId, accessToken, tokenHash, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (userId) DO UPDATE SET
+         accessToken = excluded.accessToken,
+         tokenHash = excluded.tokenHash,
+         updatedAt = excluded.updatedAt,
+         revokedAt = NULL`,
+      [userId, encryptToken(accessToken), hashToken(accessToken), now, now]
+    );
+  }
+
+  async getAccessTokenFromSiteId(siteId: string): Promise<string> {
+    const db = await this.getDb();
+    const row = await db.get(
+      "SELECT accessToken, revokedAt FROM siteAuthorizations WHERE siteId = ?",
+      [siteId]
+    );
+
+    if (!row?.accessToken) {
+      throw new Error("No access token found or site does not exist");
+    }
+    if (row.revokedAt) {
+      throw new AuthorizationRevokedError();
+    }
+
+    return decryptToken(row.accessToken);
+  }
+
+  async getAccessTokenFromUserId(userId: string): Promise<string> {
+    const db = await this.getDb();
+    const row = await db.get(
+      "SELECT accessToken, revokedAt FROM userAuthorizations WHERE userId = ?",
+      [userId]
+    );
+
+    if (!row?.accessToken) {
+      throw new Error("No access token found or user does not exist");
+    }
+    if (row.revokedAt) {
+      throw new AuthorizationRevokedError();
+    }
+
+    return decryptToken(row.accessToken);
+  }
+
+  async getUserAuthorizationStatus(userId: string): Promise<AuthorizationStatus | null> {
+    const db = await this.getDb();
+    const row = await db.get(
+      "SELECT createdAt, updatedAt, revokedAt FROM userAuthorizations WHERE userId = ?",
+      [userId]
+    );
+    return row ?? null;
+  }
+
+  async revokeAccessToken(accessToken: string): Promise<number> {
+    const db = await this.getDb();
+    const now = new Date().toISOString();
+    let revoked = 0;
+    for (const table of ["siteAuthorizations", "userAuthorizations"]) {
+      const result = await db.run(
+        `UPDATE ${table} SET revokedAt = ?, updatedAt = ? WHERE tokenHash = ? AND revokedAt IS NULL`,
+        [now, now, hashToken(accessToken)]
+      );
+      revoked += result.changes ?? 0;
+    }
+    return revoked;
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDb();
+    await db.run("DELETE FROM siteAuthorizations");
+    await db.run("DELETE FROM userAuthorizations");
+  }
+
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    if (connection) {
+      await (await connection).close();
+    }
+  }
+}
+
+/**
+ * Brings the tables up to SCHEMA_VERSION in one transaction. Migrating from
+ * the original layout encrypts the stored tokens and keeps only the newest
+ * authorization of each user.
+ *
+ * @param connection - The database connection
+ * @throws {TokenEncryptionError} If there are tokens to encrypt and TOKEN_ENCRYPTION_KEY is not set
+ */
+async function migrateSchema(connection: SQLiteDatabase) {
+  const { user_version: version } = (await connection.get("PRAGMA user_version")) as { user_version: number };
+  if (version >= SCHEMA_VERSION) {
+    return;
+  }
+
+  await connection.exec("BEGIN");
+  try {
+    // A new database starts from empty tables in the original layout
+    await connection.exec(`
+      CREATE TABLE IF NOT EXISTS siteAuthorizations (
+        siteId TEXT PRIMARY KEY,
+        accessToken TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS userAuthorizations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        userId TEXT,
+        accessToken TEXT
+      );
+
+      ALTER TABLE siteAuthorizations RENAME TO legacySiteAuthorizations;
+      ALTER TABLE userAuthorizations RENAME TO legacyUserAuthorizations;
+
+      CREATE TABLE siteAuthorizations (
+        siteId TEXT PRIMARY KEY,
+        accessToken TEXT NOT NULL,
+        tokenHash TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        revokedAt TEXT
+      );
+
+      CREATE TABLE userAuthorizations (
+        userId TEXT PRIMARY KEY,
+        accessToken TEXT NOT NULL,
+        tokenHash TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        revokedAt TEXT
+      );
+
+      CREATE INDEX siteAuthorizationsTokenHash ON siteAuthorizations (tokenHash);
+      CREATE INDEX userAuthorizationsTokenHash ON userAuthorizations (tokenHash);
+    `);
+
+    const now = new Date().toISOString();
+    const sites = await connection.all(
+      "SELECT siteId, accessToken FROM legacySiteAuthorizations WHERE siteId IS NOT NULL AND accessToken IS NOT NULL"
+    );
+    for (const { siteId, accessToken } of sites) {
+      await connection.run(
+        "INSERT INTO siteAuthorizations (siteId, accessToken, tokenHash, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)",
+        [siteId, encryptToken(accessToken), hashToken(accessToken), now, now]
+      );
+    }
+
+    // Every login added a row; the newest is the user's current authorization
+    const users = await connection.all(`
+      SELECT userId, accessToken FROM legacyUserAuthorizations
+      WHERE id IN (
+        SELECT MAX(id) FROM legacyUserAuthorizations
+        WHERE userId IS NOT NULL AND accessToken IS NOT NULL
+        GROUP BY userId
+      )
+    `);
+    for (const { userId, accessToken } of users) {
+      await connection.run(
+        "INSERT INTO userAuthorizations (userId, accessToken, tokenHash, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)",
+        [userId, encryptToken(accessToken), hashToken(accessToken), now, now]
+      );
+    }
+
+    await connection.exec(`
+      DROP TABLE legacySiteAuthorizations;
+      DROP TABLE legacyUserAuthorizations;
+      PRAGMA user_version = ${SCHEMA_VERSION};
+    `);
+    await connection.exec("COMMIT");
+  } catch (error) {
+    await connection.exec("ROLLBACK");
+    throw error;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Token Store
+ * -----------
+ * Webflow access tokens of sites and users are kept in a token store, one
+ * row per site and per user, encrypted with TOKEN_ENCRYPTION_KEY (see
+ * tokenCrypto.ts). The backend is chosen with TOKEN_STORE:
+ *
+ * - "sqlite" (default): a local file, `./db/database.db`; only suits a single
+ *   long-running server
+ * - "postgres": the database at TOKEN_STORE_DATABASE_URL, e.g. the project's
+ *   Supabase Postgres; suits several instances and serverless hosts
+ *
+ * Both create their tables on first use and behave the same; the contract
+ * tests in `test/tokenStore.spec.ts` run against each.
+ */
+
+/**
+ * Thrown when the authorization asked for was revoked in Webflow. Routes
+ * respond 401 and ask the user to authorize the app again.
+ */
+export class AuthorizationRevokedError extends Error {
+  constructor(message = "The Webflow authorization was revoked; authorize the app again") {
+    super(message);
+    this.name = "AuthorizationRevokedError";
+  }
+}
+
+/**
+ * A stored authorization, without its token.
+ */
+export interface AuthorizationStatus {
+  createdAt: string;
+  updatedAt: string;
+  /** When Webflow rejected the token, null while it is valid */
+  revokedAt: string | null;
+}
+
+export interface TokenStore {
+  /**
+   * Inserts or replaces the authorization of a site, clearing a revocation.
+   */
+  insertSiteAuthorization(siteId: string, accessToken: string): Promise<void>;
+
+  /**
+   * Inserts or replaces the authorization of a user, clearing a revocation.
+   */
+  insertUserAuthorization(userId: string, accessToken: string): Promise<void>;
+
+  /**
+   * Retrieves the access token of a site.
+   *
+   * @throws {AuthorizationRevokedError} If Webflow revoked the site's token
+   * @throws Error if the site has no authorization
+   */
+  getAccessTokenFromSiteId(siteId: string): Promise<string>;
+
+  /**
+   * Retrieves the access token of a user.
+   *
+   * @throws {AuthorizationRevokedError} If Webflow revoked the user's token
+   * @throws Error if the user has no authorization
+   */
+  getAccessTokenFromUserId(userId: string): Promise<string>;
+
+  /**
+   * Retrieves the state of a user's authorization, or null if there is none.
+   */
+  getUserAuthorizationStatus(userId: string): Promise<AuthorizationStatus | null>;
+
+  /**
+   * Marks every site and user authorization using a token as revoked.
+   *
+   * @returns The number of authorizations marked
+   */
+  revokeAccessToken(accessToken: string): Promise<number>;
+
+  /**
+   * Removes every authorization.
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Closes the connection to the backend.
+   */
+  close(): Promise<void>;
+}
+
+export type TokenStoreBackend = "sqlite" | "postgres";
+
+/**
+ * Creates the token store configured by the environment. The backend's
+ * driver is only loaded when selected, so a Postgres deployment does not
+ * need SQLite's native module.
+ *
+ * @throws Error if TOKEN_STORE names an unknown backend, or "postgres" is
+ * selected without TOKEN_STORE_DATABASE_URL
+ */
+export async function createTokenStore(): Promise<TokenStore> {
+  const backend = (process.env.TOKEN_STORE || "sqlite").trim().toLowerCase();
+
+  switch (backend) {
+    case "sqlite": {
+      const { SqliteTokenStore } = await import("./SqliteTokenStore");
+      return new SqliteTokenStore(process.env.TOKEN_STORE_SQLITE_PATH || undefined);
+    }
+    case "postgres": {
+      const connectionString = process.env.TOKEN_STORE_DATABASE_URL;
+      if (!connectionString) {
+        throw new Error("TOKEN_STORE_DATABASE_URL is required when TOKEN_STORE is postgres");
+      }
+      const { PostgresTokenStore } = await import("./PostgresTokenStore");
+      return new PostgresTokenStore(connectionString);
+    }
+    default:
+      throw new Error(`Unknown TOKEN_STORE "${backend}"; use sqlite or postgres`);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Assignment Utility
+ * ------------------
+ * Pages and sites assign files to their head and body in `head_files`/
+ * `body_files` and the draft columns. Pages store an array, site rows JSON
+ * text of one; entries are file IDs or `{ id }` objects. Everything reading
+ * an assignment goes through `parseAssignedFileIds`, so access checks,
+ * bundles, purges and exports see the same files the loader worker serves.
+ */
+
+/**
+ * Reads the file IDs of an assignment the way the loader worker's
+ * `parseFileIds` does: an array, or JSON text of one, of IDs or `{ id }`
+ * objects. Entries that are not numbers are left out.
+ *
+ * @param assignment - A head_files or body_files value, live or draft
+ */
+export function parseAssignedFileIds(assignment: unknown): number[] {
+  let entries = assignment;
+  if (typeof entries === "string") {
+    try {
+      entries = JSON.parse(entries);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+  return entries
+    .map((entry) => Number(typeof entry === "object" && entry !== null ? (entry as { id?: unknown }).id : entry))
+    .filter((id) => !isNaN(id));
+}
@@ -0,0 +1,277 @@
+import { createHash } from "crypto";
+import type { NextRequest } from "next/server";
+import supabaseClient from "./supabase";
+import jwt from "./jwt";
+
+/**
+ * Audit Log Utility
+ * -----------------
+ * Routes that change code or assignments record an entry in the append-only
+ * `AuditLog` table once the change is made: the session's user, the action,
+ * its target, the changed fields before and after, and where the request
+ * came from. Code is summarized by its length and hash rather than copied;
+ * file revisions keep the code itself.
+ *
+ * Library file changes are recorded against the file's workspace, so they
+ * are listed for each site of it.
+ */
+
+export const AUDIT_TARGET_TYPES = ["file", "page", "site", "custom_code"] as const;
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export type AuditAction =
+  | "file.create"
+  | "file.update"
+  | "file.delete"
+  | "file.restore"
+  | "file.fork"
+  | "library.link"
+  | "library.unlink"
+  | "page.update"
+  | "page.publish"
+  | "site.update"
+  | "site.publish"
+  | "site.import"
+  | "site.git_push"
+  | "custom_code.register"
+  | "custom_code.apply";
+
+export interface AuditSummary {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  webflow_site_id: string | null;
+  workspace_id: string | null;
+  actor_id: string | null;
+  /** User email or ID from the session */
+  actor: string | null;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  summary: AuditSummary;
+  origin: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface AuditRecord {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | number;
+  /** Defaults to the site of the `after` or `before` row */
+  siteId?: string | null;
+  /** Used for rows of no site, i.e. library files */
+  workspaceId?: string | null;
+  /** The target before the change, null if it did not exist */
+  before?: Record<string, unknown> | null;
+  /** The target after the change, null if it no longer exists */
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditFilters {
+  action?: string | null;
+  actor?: string | null;
+  targetType?: string | null;
+  targetId?: string | null;
+  /** Only entries with a lower ID, i.e. the `next_cursor` of the previous page */
+  before?: string | number | null;
+  limit?: number | null;
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+/**
+ * Fields left out of summaries: timestamps, and build output that follows
+ * from the code.
+ */
+const UNAUDITED_FIELDS = new Set([
+  "id",
+  "created_at",
+  "updated_at",
+  "compiled_code",
+  "minified_code",
+  "original_size",
+  "minified_size",
+  "dependencies",
+]);
+
+/** Fields summarized by their length and hash */
+const CODE_FIELDS = new Set(["code", "sourceCode"]);
+
+/** Table and key column of each target type that has a row */
+const TARGET_TABLES: Record<Exclude<AuditTargetType, "custom_code">, { table: string; key: string }> = {
+  file: { table: "Files", key: "id" },
+  page: { table: "Pages", key: "id" },
+  site: { table: "Sites", key: "webflow_site_id" },
+};
+
+function summarizeValue(field: string, value: unknown): unknown {
+  if (CODE_FIELDS.has(field) && typeof value === "string") {
+    return {
+      length: value.length,
+      sha256: createHash("sha256").update(value).digest("hex").slice(0, 12),
+    };
+  }
+  return value;
+}
+
+/**
+ * Summarizes a change to a row as the fields it changed, before and after.
+ * A created row is summarized by all of its fields after, a deleted one by
+ * all of its fields before.
+ *
+ * @param before - The row before the change, null if it did not exist
+ * @param after - The row after the change, null if it no longer exists
+ */
+export function summarizeChange(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditSummary {
+  const summary: AuditSummary = { before: before ? {} : null, after: after ? {} : null };
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (UNAUDITED_FIELDS.has(field)) continue;
+    if (before && after && JSON.stringify(before[field]) === JSON.stringify(after[field])) continue;
+
+    if (summary.before && before && field in before) {
+      summary.before[field] = summarizeValue(field, before[field]);
+    }
+    if (summary.after && after && field in after) {
+      summary.after[field] = summarizeValue(field, after[field]);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Reads the current row of a file, page or site, to record as the `before`
+ * of a change about to be made.
+ *
+ * @param targetType - The target's type
+ * @param targetId - Primary key ID of the file or page, or the Webflow site ID
+ * @returns The row, or null if it does not exist
+ */
+export async function getAuditSnapshot(
+  targetType: keyof typeof TARGET_TABLES,
+  targetId: string | number
+): Promise<Record<string, unknown> | null> {
+  const { table, key } = TARGET_TABLES[targetType];
+  const { data, error } = await supabaseClient.client.from(table).select("*").eq(key, targetId).maybeSingle();
+
+  if (error) {
+    console.error(`Error retrieving ${targetType} for the audit log from Supabase:`, error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Where a request came from: its Origin header, falling back to the origin
+ * of its Referer, and the client's address and user agent.
+ */
+function getRequestOrigin(request: NextRequest) {
+  let origin = request.headers.get("origin");
+  const referer = request.headers.get("referer");
+  if (!origin && referer) {
+    try {
+      origin = new URL(referer).origin;
+    } catch {
+      origin = null;
+    }
+  }
+
+  const forwardedFor = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+
+  return {
+    origin: origin || null,
+    ip_address: forwardedFor || request.headers.get("x-real-ip") || request.ip || null,
+    user_agent: request.headers.get("user-agent"),
+  };
+}
+
+/**
+ * Records a change in the audit log. The change has already been made, so an
+ * entry that cannot be saved is logged instead of failing the request.
+ *
+ * @param request - The request that made the change
+ * @param record - What changed
+ */
+export async function recordAudit(request: NextRequest, record: AuditRecord): Promise<void> {
+  try {
+    const row = record.after || record.before;
+    const siteId =
+      record.siteId !== undefined ? record.siteId : ((row?.webflow_site_id as string | null | undefined) ?? null);
+    const workspaceId = siteId
+      ? null
+      : record.workspaceId ?? ((row?.workspace_id as string | null | undefined) ?? null);
+    const user = await jwt.getAuthUser(request);
+
+    const { error } = await supabaseClient.client.from("AuditLog").insert({
+      webflow_site_id: siteId,
+      workspace_id: workspaceId,
+      actor_id: user?.id || null,
+      actor: user?.email || user?.id || null,
+      action: record.action,
+      target_type: record.targetType,
+      target_id: String(record.targetId),
+      summary: summarizeChange(record.before, record.after),
+      ...getRequestOrigin(request),
+    });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Error recording ${record.action} of ${record.targetType} ${record.targetId} in the audit log:`, error);
+  }
+}
+
+/**
+ * Lists a site's audit log, newest first, including the changes to library
+ * files of its workspace.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @param filters - Narrow the entries and page through them
+ * @returns A page of entries, and the cursor of the next page or null if this is the last
+ */
+export async function listAuditEntries(
+  webflowSiteId: string,
+  filters: AuditFilters = {}
+): Promise<{ entries: AuditEntry[]; next_cursor: number | null }> {
+  const limit = Math.min(Math.max(Math.floor(filters.limit || DEFAULT_AUDIT_PAGE_SIZE), 1), MAX_AUDIT_PAGE_SIZE);
+  const site = await supabaseClient.getSiteById(webflowSiteId);
+
+  let query = supabaseClient.client.from("AuditLog").select("*");
+  query = site?.workspace_id
+    ? query.or(`webflow_site_id.eq.${webflowSiteId},workspace_id.eq.${site.workspace_id}`)
+    : query.eq("webflow_site_id", webflowSiteId);
+
+  if (filters.action) query = query.eq("action", filters.action);
+  if (filters.actor) query = query.eq("actor", filters.actor);
+  if (filters.targetType) query = query.eq("target_type", filters.targetType);
+  if (filters.targetId) query = query.eq("target_id", filters.targetId);
+  if (filters.before) query = query.lt("id", filters.before);
+
+  // One extra entry tells whether there is a next page
+  const { data, error } = await query.order("id", { ascending: false }).limit(limit + 1);
+
+  if (error) {
+    console.error("Error retrieving audit log from Supabase:", error);
+    throw error;
+  }
+
+  const entries = ((data || []) as AuditEntry[]).slice(0, limit);
+  return {
+    entries,
+    next_cursor: (data?.length ?? 0) > limit ? entries[entries.length - 1].id : null,
+  };
+}
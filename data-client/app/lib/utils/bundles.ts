@@ -0,0 +1,251 @@
+import supabaseClient from "./supabase";
+import { parseAssignedFileIds } from "./assignments";
+import { COMPILED_LANGUAGES, type FileLanguage } from "./compiler";
+import type { LoadStrategy } from "./loaderScript";
+import type { LoaderLocation, LoaderType } from "./loaderCache";
+
+/**
+ * Bundle Artifact Utility
+ * -----------------------
+ * Builds the per-location bundle artifacts stored on page and site rows
+ * (`head_bundle`/`body_bundle`): the minified, served code of the files live
+ * in each location, in assignment order. The loader worker serves live code
+ * from the artifact without querying files, falling back to the Files table
+ * when the artifact is missing or was built from other assignments.
+ *
+ * Artifacts are rebuilt when assignments are published and when a file they
+ * include is updated, restored or deleted. An artifact that fails to rebuild
+ * after a file change is cleared, so the worker reads the changed file instead
+ * of serving its old code.
+ */
+
+export interface BundledFile {
+  id: number;
+  name: string;
+  /** Served language: TypeScript and SCSS files are bundled as JS and CSS */
+  language: "html" | "css" | "js";
+  code: string;
+  load_strategy: LoadStrategy | null;
+  load_selector: string | null;
+}
+
+export interface LocationBundle {
+  /** The live assignment the artifact was built from */
+  file_ids: number[];
+  files: BundledFile[];
+  original_size: number;
+  minified_size: number;
+  built_at: string;
+}
+
+export interface BundleRebuildReport {
+  rebuilt: { id: string; type: LoaderType }[];
+  /** Rows that failed to rebuild; their artifacts were cleared */
+  failed: { id: string; type: LoaderType; error: string }[];
+  error: string | null;
+}
+
+const TABLES: Record<LoaderType, string> = {
+  page: "Pages",
+  site: "Sites",
+};
+
+/**
+ * Builds the artifact for one location from its live file assignment.
+ * Files saved before minification existed are bundled as written.
+ *
+ * @param assignment - The row's `head_files` or `body_files` value
+ */
+export async function buildLocationBundle(assignment: unknown): Promise<LocationBundle> {
+  const fileIds = parseAssignedFileIds(assignment);
+  const bundle: LocationBundle = {
+    file_ids: fileIds,
+    files: [],
+    original_size: 0,
+    minified_size: 0,
+    built_at: new Date().toISOString(),
+  };
+
+  if (fileIds.length === 0) {
+    return bundle;
+  }
+
+  const { data: files, error } = await supabaseClient.client
+    .from("Files")
+    .select("id, name, language, code, compiled_code, minified_code, original_size, minified_size, load_strategy, load_selector")
+    .in("id", fileIds);
+
+  if (error) {
+    console.error("Error retrieving files to bundle from Supabase:", error);
+    throw error;
+  }
+
+  // Keep the assignment order; IDs of deleted files are skipped
+  const filesById = new Map((files || []).map((file) => [Number(file.id), file]));
+  for (const id of fileIds) {
+    const file = filesById.get(id);
+    if (!file) continue;
+
+    const language = file.language as FileLanguage;
+    // Compiled code is also set for scripts bundled with the files they import
+    const servedCode = file.compiled_code ?? (COMPILED_LANGUAGES[language] ? "" : file.code ?? "");
+    const code = file.minified_code ?? servedCode;
+
+    bundle.files.push({
+      id,
+      name: file.name,
+      language: COMPILED_LANGUAGES[language] ?? (language as BundledFile["language"]),
+      code,
+      load_strategy: file.load_strategy ?? null,
+      load_selector: file.load_selector ?? null,
+    });
+    bundle.original_size += file.original_size ?? Buffer.byteLength(servedCode, "utf8");
+    bundle.minified_size += file.minified_size ?? Buffer.byteLength(code, "utf8");
+  }
+
+  return bundle;
+}
+
+/**
+ * Rebuilds the artifacts of the given locations of a page or site row.
+ *
+ * @param type - Whether the row is a page or a site
+ * @param id - Supabase row ID
+ * @param locations - Which locations to rebuild (both by default)
+ */
+export async function rebuildTargetBundles(
+  type: LoaderType,
+  id: string | number,
+  locations: LoaderLocation[] = ["head", "body"]
+) {
+  const table = TABLES[type];
+
+  const { data: row, error } = await supabaseClient.client
+    .from(table)
+    .select("head_files, body_files")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    console.error(`Error retrieving ${type} to bundle from Supabase:`, error);
+    throw error;
+  }
+
+  const fields: Partial<Record<`${LoaderLocation}_bundle`, LocationBundle>> = {};
+  for (const location of locations) {
+    fields[`${location}_bundle`] = await buildLocationBundle(row[`${location}_files`]);
+  }
+
+  const { error: updateError } = await supabaseClient.client
+    .from(table)
+    .update(fields)
+    .eq("id", id);
+
+  if (updateError) {
+    console.error(`Error storing ${type} bundle in Supabase:`, updateError);
+    throw updateError;
+  }
+
+  return fields;
+}
+
+/**
+ * Clears the artifacts of the given locations of a page or site row, so the
+ * worker builds them from the Files table until they are rebuilt.
+ *
+ * @param type - Whether the row is a page or a site
+ * @param id - Supabase row ID
+ * @param locations - Which locations to clear
+ */
+async function clearTargetBundles(type: LoaderType, id: string, locations: LoaderLocation[]) {
+  const fields: Partial<Record<`${LoaderLocation}_bundle`, null>> = {};
+  for (const location of locations) {
+    fields[`${location}_bundle`] = null;
+  }
+
+  const { error } = await supabaseClient.client
+    .from(TABLES[type])
+    .update(fields)
+    .eq("id", id);
+
+  if (error) {
+    console.error(`Error clearing ${type} bundle in Supabase:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Clears the artifacts of every page and of the site row of a site, when the
+ * rows using a file cannot be looked up.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ */
+async function clearSiteBundles(webflowSiteId: string) {
+  for (const table of Object.values(TABLES)) {
+    const { error } = await supabaseClient.client
+      .from(table)
+      .update({ head_bundle: null, body_bundle: null })
+      .eq("webflow_site_id", webflowSiteId);
+
+    if (error) {
+      console.error(`Error clearing bundles of ${table} in Supabase:`, error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Rebuilds the artifacts of every page and site location that includes a file.
+ *
+ * Never throws, so a failed rebuild does not fail the change that triggered
+ * it. The artifacts of a row that fails to rebuild are cleared and the row is
+ * reported in `failed`; the worker then serves the file from the Files table.
+ * If the rows cannot be looked up, every artifact of the site is cleared.
+ * `error` is set when the change may still be served from a stale artifact.
+ *
+ * @param fileId - Primary key ID of the file
+ * @param webflowSiteId - The Webflow site the file belongs to
+ */
+export async function rebuildBundlesForFile(
+  fileId: string | number,
+  webflowSiteId: string
+): Promise<BundleRebuildReport> {
+  const report: BundleRebuildReport = { rebuilt: [], failed: [], error: null };
+
+  let references: Awaited<ReturnType<typeof supabaseClient.getFileReferences>>;
+  try {
+    references = await supabaseClient.getFileReferences(fileId, webflowSiteId);
+  } catch (error) {
+    console.error(`Failed to look up bundles using file ${fileId}:`, error);
+    try {
+      await clearSiteBundles(webflowSiteId);
+      report.error = `Bundles using file ${fileId} could not be looked up; the site's bundles were cleared`;
+    } catch {
+      report.error = error instanceof Error ? error.message : "Failed to rebuild bundles";
+    }
+    return report;
+  }
+
+  const targets: { type: LoaderType; id: string; locations: LoaderLocation[] }[] = [
+    ...references.pages.map((page) => ({ type: "page" as const, id: page.id, locations: page.locations })),
+    ...(references.site ? [{ type: "site" as const, ...references.site }] : []),
+  ];
+
+  for (const target of targets) {
+    try {
+      await rebuildTargetBundles(target.type, target.id, target.locations);
+      report.rebuilt.push({ id: target.id, type: target.type });
+    } catch (error) {
+      console.error(`Failed to rebuild ${target.type} ${target.id} bundles using file ${fileId}:`, error);
+      const message = error instanceof Error ? error.message : "Failed to rebuild bundles";
+      report.failed.push({ id: target.id, type: target.type, error: message });
+      try {
+        await clearTargetBundles(target.type, target.id, target.locations);
+      } catch (clearError) {
+        report.error ??= clearError instanceof Error ? clearError.message : "Failed to clear bundles";
+      }
+    }
+  }
+
+  return report;
+}
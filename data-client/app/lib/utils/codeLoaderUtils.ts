@@ -1,5 +1,5 @@
 import { ScriptController } from "../controllers/scriptControllers";
-import { generateLoaderScript } from "./loaderScript";
+import { generateLoaderScript, ScriptMode } from "./loaderScript";
 
 /**
  * Attempts to register a script with Webflow, incrementing versions if duplicates are found
@@ -60,7 +60,8 @@ export async function registerCodeLoader({
   headFiles,
   bodyFiles,
   supabaseUrl,
-  supabaseKey
+  supabaseKey,
+  scriptMode = null
 }: {
   scriptController: ScriptController;
   pageId: string;
@@ -70,6 +71,7 @@ export async function registerCodeLoader({
   bodyFiles: string[];
   supabaseUrl: string;
   supabaseKey: string;
+  scriptMode?: ScriptMode | null;
 }) {
   const results = {
     head: { registered: false, scriptId: null as string | null, error: null as string | null },
@@ -88,7 +90,8 @@ export async function registerCodeLoader({
         type: 'page',
         location: 'head',
         supabaseUrl,
-        supabaseKey
+        supabaseKey,
+        scriptMode
       });
       
       const headDisplayName = `CodeHead${safePageId.substring(0, 8)}Cfw`;
@@ -134,7 +137,8 @@ export async function registerCodeLoader({
         type: 'page',
         location: 'body',
         supabaseUrl,
-        supabaseKey
+        supabaseKey,
+        scriptMode
       });
       
       const bodyDisplayName = `CodeBody${safePageId.substring(0, 8)}Cfw`;
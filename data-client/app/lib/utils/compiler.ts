@@ -0,0 +1,273 @@
+import { build, transform, type Message, type Plugin, type TransformFailure } from "esbuild";
+import { compileString, Exception as SassException } from "sass";
+
+/**
+ * Languages files can be written in. TypeScript and SCSS are compiled on save
+ * and served by the loader as JavaScript and CSS.
+ */
+export type FileLanguage = "html" | "css" | "js" | "ts" | "scss";
+
+export const FILE_LANGUAGES: FileLanguage[] = ["html", "css", "js", "ts", "scss"];
+
+/**
+ * The language each compiled language is served as.
+ */
+export const COMPILED_LANGUAGES: Partial<Record<FileLanguage, "js" | "css">> = {
+  ts: "js",
+  scss: "css",
+};
+
+/**
+ * Prefix of import specifiers that refer to other JavaScript and TypeScript
+ * files of the same site, e.g. `import { track } from "codone:analytics"`.
+ */
+export const CODONE_IMPORT_PREFIX = "codone:";
+
+/**
+ * A site file that other files can import.
+ */
+export interface ModuleSource {
+  id: number;
+  name: string;
+  language: FileLanguage;
+  code: string;
+}
+
+/**
+ * The name a file is imported by: its name without a .js or .ts extension.
+ */
+export function getModuleName(fileName: string): string {
+  return fileName.replace(/\.(js|ts)$/, "");
+}
+
+/**
+ * A compile error at a 1-based line and column of the source.
+ */
+export interface CompileDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Thrown when a TypeScript or SCSS file does not compile. Routes return the
+ * diagnostics to the editor with a 422 response.
+ */
+export class FileCompileError extends Error {
+  constructor(public diagnostics: CompileDiagnostic[]) {
+    super(diagnostics[0]?.message || "Compilation failed");
+    this.name = "FileCompileError";
+  }
+}
+
+function isTransformFailure(error: unknown): error is TransformFailure {
+  return error instanceof Error && Array.isArray((error as TransformFailure).errors);
+}
+
+// Errors in imported files are reported at the top of the file being saved
+function toDiagnostic(message: Message, sourcefile?: string): CompileDiagnostic {
+  const location = message.location;
+  if (sourcefile && location && location.file !== sourcefile) {
+    return { message: `${location.file}: ${message.text}`, line: 1, column: 1 };
+  }
+  return {
+    message: message.text,
+    line: location?.line ?? 1,
+    column: (location?.column ?? 0) + 1,
+  };
+}
+
+/**
+ * Type annotations are stripped without type checking, as Monaco already
+ * reports type errors while editing; syntax errors fail the compile.
+ */
+async function compileTypeScript(code: string): Promise<string> {
+  try {
+    const result = await transform(code, { loader: "ts", target: "es2020" });
+    return result.code;
+  } catch (error) {
+    if (isTransformFailure(error)) {
+      throw new FileCompileError(error.errors.map((message) => toDiagnostic(message)));
+    }
+    throw error;
+  }
+}
+
+function compileScss(code: string): string {
+  try {
+    return compileString(code, { syntax: "scss", style: "expanded" }).css;
+  } catch (error) {
+    if (error instanceof SassException) {
+      throw new FileCompileError([
+        {
+          message: error.sassMessage,
+          line: error.span.start.line + 1,
+          column: error.span.start.column + 1,
+        },
+      ]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Output of building a file on save: the compiled code for TypeScript and
+ * SCSS (or the bundle of a script that imports other files), the minified
+ * code the loader serves, and its size before and after minification in
+ * bytes. `dependencies` lists the IDs of every file bundled into it.
+ */
+export interface FileBuild {
+  compiled_code: string | null;
+  minified_code: string;
+  original_size: number;
+  minified_size: number;
+  dependencies: number[];
+}
+
+const ENTRY_SOURCEFILE = "input";
+
+/**
+ * Resolves `codone:` imports to the site's files and rejects any other
+ * import, which could not be loaded from the bundled script.
+ */
+function codoneImportsPlugin(modules: ModuleSource[], dependencies: Set<number>): Plugin {
+  const modulesByName = new Map(
+    modules
+      .filter((source) => source.language === "js" || source.language === "ts")
+      .map((source) => [getModuleName(source.name), source])
+  );
+
+  return {
+    name: "codone-imports",
+    setup(pluginBuild) {
+      pluginBuild.onResolve({ filter: /.*/ }, (args) => {
+        if (!args.path.startsWith(CODONE_IMPORT_PREFIX)) {
+          return { errors: [{ text: `Only "${CODONE_IMPORT_PREFIX}" imports of site files can be bundled; cannot import "${args.path}"` }] };
+        }
+        const name = args.path.slice(CODONE_IMPORT_PREFIX.length);
+        if (!modulesByName.has(name)) {
+          return { errors: [{ text: `No JavaScript or TypeScript file named "${name}" in this site` }] };
+        }
+        return { path: name, namespace: "codone" };
+      });
+
+      pluginBuild.onLoad({ filter: /.*/, namespace: "codone" }, (args) => {
+        const source = modulesByName.get(args.path)!;
+        dependencies.add(source.id);
+        return { contents: source.code, loader: source.language as "js" | "ts" };
+      });
+    },
+  };
+}
+
+/**
+ * Bundles a script with the site files it imports into a single script. The
+ * bundle is wrapped in a function so imported files' top-level names do not
+ * collide with other scripts on the page.
+ */
+async function bundleScript(
+  language: "js" | "ts",
+  code: string,
+  modules: ModuleSource[]
+): Promise<{ code: string; dependencies: number[] }> {
+  const dependencies = new Set<number>();
+  try {
+    const result = await build({
+      stdin: { contents: code, loader: language, sourcefile: ENTRY_SOURCEFILE },
+      bundle: true,
+      write: false,
+      format: "iife",
+      target: "es2020",
+      logLevel: "silent",
+      plugins: [codoneImportsPlugin(modules, dependencies)],
+    });
+    return { code: result.outputFiles[0].text, dependencies: [...dependencies] };
+  } catch (error) {
+    if (isTransformFailure(error)) {
+      throw new FileCompileError(error.errors.map((message) => toDiagnostic(message, ENTRY_SOURCEFILE)));
+    }
+    throw error;
+  }
+}
+
+function hasCodoneImports(code: string): boolean {
+  return new RegExp(`["']${CODONE_IMPORT_PREFIX}`).test(code);
+}
+
+/**
+ * Minifies served code. Scripts keep their top-level names since classic
+ * scripts share the page's global scope. HTML only has its comments removed.
+ *
+ * Code esbuild cannot parse is served as written; unlike TypeScript and SCSS,
+ * plain JavaScript and CSS have always been saved regardless of errors.
+ */
+export async function minifyCode(language: "html" | "css" | "js", code: string): Promise<string> {
+  if (language === "html") {
+    return code.replace(/<!--[\s\S]*?-->/g, "").trim();
+  }
+
+  try {
+    const result = await transform(code, { loader: language, minify: true });
+    return result.code.trim();
+  } catch (error) {
+    console.warn(`Serving unminified ${language}; it could not be parsed:`, error);
+    return code;
+  }
+}
+
+/**
+ * Compiles a file's source for the loader.
+ *
+ * @param language - The file's language
+ * @param code - Source code
+ * @returns The compiled JavaScript or CSS, or null for languages served as written
+ * @throws {FileCompileError} If the source does not compile
+ */
+export async function compileFile(language: FileLanguage, code: string): Promise<string | null> {
+  switch (language) {
+    case "ts":
+      return compileTypeScript(code);
+    case "scss":
+      return compileScss(code);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds a file's served output: bundles scripts with the site files they
+ * import, compiles TypeScript and SCSS, then minifies.
+ *
+ * @param language - The file's language
+ * @param code - Source code
+ * @param loadModules - Loads the site files `codone:` imports resolve to (excluding the file itself)
+ * @throws {FileCompileError} If the source does not compile or an import cannot be resolved
+ */
+export async function buildFile(
+  language: FileLanguage,
+  code: string,
+  loadModules: () => Promise<ModuleSource[]> = async () => []
+): Promise<FileBuild> {
+  let compiledCode: string | null;
+  let dependencies: number[] = [];
+
+  if ((language === "js" || language === "ts") && hasCodoneImports(code)) {
+    const bundle = await bundleScript(language, code, await loadModules());
+    compiledCode = bundle.code;
+    dependencies = bundle.dependencies;
+  } else {
+    compiledCode = await compileFile(language, code);
+  }
+
+  const servedCode = compiledCode ?? code;
+  const servedLanguage = COMPILED_LANGUAGES[language] ?? (language as "html" | "css" | "js");
+  const minifiedCode = await minifyCode(servedLanguage, servedCode);
+
+  return {
+    compiled_code: compiledCode,
+    minified_code: minifiedCode,
+    original_size: Buffer.byteLength(servedCode, "utf8"),
+    minified_size: Buffer.byteLength(minifiedCode, "utf8"),
+    dependencies,
+  };
+}
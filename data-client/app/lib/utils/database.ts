@@ -1,77 +1,50 @@
-import sqlite3 from "sqlite3";
-import { open } from "sqlite";
-import { Database as SQLiteDatabase } from "sqlite";
-import { mkdir } from "fs/promises";
+import {
+  AuthorizationRevokedError,
+  AuthorizationStatus,
+  createTokenStore,
+  TokenStore,
+} from "../services/TokenStore";
 
 /**
  * Database Utility
  * ---------------
- * This module provides functions to interact with a SQLite database.
- * It ensures a single connection to the database and manages tables for site and user authorizations.
- */
-
-/**
- * Gets or initializes the SQLite database connection.
- * Implements a singleton pattern to ensure only one database connection exists.
+ * This module provides functions to store and retrieve the Webflow
+ * authorizations of sites and users. They are kept in the token store
+ * selected by TOKEN_STORE (see services/TokenStore.ts): a local SQLite file
+ * by default, or Postgres for deployments with several instances.
  *
- * The function:
- * 1. Creates the database directory if it doesn't exist
- * 2. Establishes a connection to the SQLite database
- * 3. Initializes required tables:
- *    - SiteAuthorizations: Stores site ID and access token pairs
- *      - siteId: Unique identifier for a Webflow site (PRIMARY KEY)
- *      - accessToken: OAuth access token for that site
- *    - UserAuthorizations: Maps user IDs to their access tokens
- *      - id: Auto-incrementing primary key
- *      - userId: Identifier for the Webflow user
- *      - accessToken: OAuth access token for that user
- *
- * @returns Promise<SQLiteDatabase> The database connection instance
- * @throws Error if database initialization fails
+ * Access tokens are stored encrypted (see tokenCrypto.ts) alongside a hash
+ * for lookups, one row per site and per user. When Webflow rejects a token
+ * (a 401, e.g. because the app was uninstalled or its access revoked), every
+ * authorization using it is marked revoked with `revokeAccessToken`; its token
+ * is no longer handed out until the site or user authorizes the app again.
  */
 
-// Singleton pattern to maintain one database connection
-let db: SQLiteDatabase | null = null;
-
-async function getDb() {
-  // If a database doesn't exist, create one
-  if (!db) {
-    const dbPath = "./db/database.db";
-    const dbDir = "./db";
-
-    try {
-      // Ensure the directory exists
-      await mkdir(dbDir, { recursive: true });
+export { AuthorizationRevokedError };
+export type { AuthorizationStatus };
 
-      // Open SQLite database connection with specified file path and driver
-      db = await open({
-        filename: dbPath,
-        driver: sqlite3.Database,
-      });
+// Singleton pattern to maintain one token store per server instance
+let store: Promise<TokenStore> | null = null;
 
-      // Create tables for SiteAuthorizations and UserAuthorizations if they don't exist
-      await db.exec(`
-        CREATE TABLE IF NOT EXISTS siteAuthorizations (
-          siteId TEXT PRIMARY KEY,
-          accessToken TEXT
-        );
-        
-        CREATE TABLE IF NOT EXISTS userAuthorizations (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          userId TEXT,
-          accessToken TEXT
-        );
-      `);
-    } catch (error) {
-      console.error("Error initializing database:", error);
+/**
+ * Gets or creates the configured token store.
+ *
+ * @returns Promise<TokenStore> The token store instance
+ * @throws Error if the token store is misconfigured
+ */
+function getStore(): Promise<TokenStore> {
+  if (!store) {
+    store = createTokenStore().catch((error) => {
+      store = null;
+      console.error("Error initializing token store:", error);
       throw error;
-    }
+    });
   }
-  return db;
+  return store;
 }
 
 /**
- * Inserts a new site authorization into the database.
+ * Inserts or replaces the authorization of a site, clearing a revocation.
  *
  * @param {string} siteId - The unique identifier for the Webflow site
  * @param {string} accessToken - The OAuth access token for the site
@@ -81,16 +54,11 @@ export async function insertSiteAuthorization(
   siteId: string,
   accessToken: string
 ) {
-  const db = await getDb();
-  await db.run(
-    "REPLACE INTO siteAuthorizations (siteId, accessToken) VALUES (?, ?)",
-    [siteId, accessToken]
-  );
-  console.log("Site authorization pairing updated.");
+  await (await getStore()).insertSiteAuthorization(siteId, accessToken);
 }
 
 /**
- * Inserts a new user authorization into the database.
+ * Inserts or replaces the authorization of a user, clearing a revocation.
  *
  * @param {string} userId - The unique identifier for the Webflow user
  * @param {string} accessToken - The OAuth access token for the user
@@ -100,12 +68,7 @@ export async function insertUserAuthorization(
   userId: string,
   accessToken: string
 ) {
-  const db = await getDb();
-  await db.run(
-    "REPLACE INTO userAuthorizations (userId, accessToken) VALUES (?, ?)",
-    [userId, accessToken]
-  );
-  console.log("User access token pairing updated.");
+  await (await getStore()).insertUserAuthorization(userId, accessToken);
 }
 
 /**
@@ -113,22 +76,13 @@ export async function insertUserAuthorization(
  *
  * @param {string} siteId - The unique identifier for the Webflow site
  * @returns {Promise<string>} The access token for the site
+ * @throws {AuthorizationRevokedError} If Webflow revoked the site's token
  * @throws Error if no access token is found or the site does not exist
  */
 export async function getAccessTokenFromSiteId(
   siteId: string
 ): Promise<string> {
-  const db = await getDb();
-  const row = await db.get(
-    "SELECT accessToken FROM siteAuthorizations WHERE siteId = ?",
-    [siteId]
-  );
-
-  if (!row?.accessToken) {
-    throw new Error("No access token found or site does not exist");
-  }
-
-  return row.accessToken;
+  return (await getStore()).getAccessTokenFromSiteId(siteId);
 }
 
 /**
@@ -136,22 +90,36 @@ export async function getAccessTokenFromSiteId(
  *
  * @param {string} userId - The unique identifier for the Webflow user
  * @returns {Promise<string>} The access token for the user
+ * @throws {AuthorizationRevokedError} If Webflow revoked the user's token
  * @throws Error if no access token is found or the user does not exist
  */
 export async function getAccessTokenFromUserId(
   userId: string
 ): Promise<string> {
-  const db = await getDb();
-  const row = await db.get(
-    "SELECT accessToken FROM userAuthorizations WHERE userId = ?",
-    [userId]
-  );
+  return (await getStore()).getAccessTokenFromUserId(userId);
+}
 
-  if (!row?.accessToken) {
-    throw new Error("No access token found or user does not exist");
-  }
+/**
+ * Retrieves the state of a user's authorization.
+ *
+ * @param {string} userId - The unique identifier for the Webflow user
+ * @returns {Promise<AuthorizationStatus | null>} The authorization's timestamps, or null if the user has none
+ */
+export async function getUserAuthorizationStatus(
+  userId: string
+): Promise<AuthorizationStatus | null> {
+  return (await getStore()).getUserAuthorizationStatus(userId);
+}
 
-  return row.accessToken;
+/**
+ * Marks every site and user authorization using a token as revoked, after
+ * Webflow rejected it.
+ *
+ * @param {string} accessToken - The rejected OAuth access token
+ * @returns {Promise<number>} The number of authorizations marked
+ */
+export async function revokeAccessToken(accessToken: string): Promise<number> {
+  return (await getStore()).revokeAccessToken(accessToken);
 }
 
 /**
@@ -160,10 +128,7 @@ export async function getAccessTokenFromUserId(
  * @returns {Promise<void>}
  */
 export async function clearDatabase() {
-  const db = await getDb();
-  await db.run("DELETE FROM siteAuthorizations");
-  await db.run("DELETE FROM userAuthorizations");
-  console.log("Database cleared successfully");
+  await (await getStore()).clear();
 }
 
 const database = {
@@ -171,6 +136,8 @@ const database = {
   getAccessTokenFromUserId,
   insertSiteAuthorization,
   insertUserAuthorization,
+  getUserAuthorizationStatus,
+  revokeAccessToken,
   clearDatabase,
 };
 
@@ -0,0 +1,138 @@
+import supabaseClient from "./supabase";
+import { buildFile, FileCompileError, type CompileDiagnostic, type FileLanguage } from "./compiler";
+import { rebuildBundlesForFile, type BundleRebuildReport } from "./bundles";
+import { purgeLoaderCacheForFile, type FilePurgeReport } from "./loaderCache";
+import { publishFileChanges } from "./liveReload";
+
+/**
+ * File Change Utility
+ * -------------------
+ * Propagates a saved, restored or deleted file to everything built from it:
+ * the scripts that bundle it through `codone:` imports, the bundle artifacts
+ * of pages and sites using the file or those scripts, and the loader worker's
+ * cached bundles for them. Workspace library files propagate to every site
+ * they are linked into. Pages open in live reload mode are notified last.
+ */
+
+export interface DependentRebuildReport {
+  /** IDs of the importing files that were rebuilt */
+  rebuilt: number[];
+  /** Importing files that no longer build; they keep serving their last build */
+  failed: { id: number; name: string; error: string; diagnostics: CompileDiagnostic[] }[];
+  error: string | null;
+}
+
+export interface FileChangeReport {
+  dependents: DependentRebuildReport;
+  bundles: BundleRebuildReport;
+  purge: FilePurgeReport;
+}
+
+/**
+ * Rebuilds every file that bundles a file through its imports. Dependencies
+ * are recorded transitively, so files importing it indirectly are included,
+ * as are files of other sites importing a library file.
+ *
+ * Never throws, so a failed rebuild does not fail the change that triggered it.
+ *
+ * @param fileId - Primary key ID of the changed file
+ */
+export async function rebuildDependentFiles(fileId: string | number): Promise<DependentRebuildReport> {
+  const report: DependentRebuildReport = { rebuilt: [], failed: [], error: null };
+
+  try {
+    const { data: dependents, error } = await supabaseClient.client
+      .from("Files")
+      .select("id, webflow_site_id, workspace_id, name, language, code")
+      .contains("dependencies", [Number(fileId)]);
+
+    if (error) {
+      console.error("Error retrieving dependent files from Supabase:", error);
+      throw error;
+    }
+
+    for (const dependent of dependents || []) {
+      const id = Number(dependent.id);
+      try {
+        const build = await buildFile(dependent.language as FileLanguage, dependent.code || "", () =>
+          supabaseClient.getModulesForFile(dependent)
+        );
+
+        const { error: updateError } = await supabaseClient.client
+          .from("Files")
+          .update(build)
+          .eq("id", id);
+
+        if (updateError) {
+          throw updateError;
+        }
+        report.rebuilt.push(id);
+      } catch (error) {
+        report.failed.push({
+          id,
+          name: dependent.name,
+          error: error instanceof Error ? error.message : "Failed to rebuild file",
+          diagnostics: error instanceof FileCompileError ? error.diagnostics : [],
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to rebuild files importing file ${fileId}:`, error);
+    report.error = error instanceof Error ? error.message : "Failed to rebuild dependent files";
+  }
+
+  return report;
+}
+
+/**
+ * Applies a file change downstream: rebuilds the files importing it, then
+ * rebuilds the bundle artifacts and purges the cached bundles that include
+ * the file or any rebuilt dependent, on every site serving them, and
+ * notifies the live reload clients of those sites.
+ *
+ * Never throws; failures are reported per step.
+ *
+ * @param fileId - Primary key ID of the changed file
+ * @param webflowSiteIds - Sites serving the file; looked up when omitted, so
+ *   pass them for a deleted file
+ */
+export async function applyFileChange(
+  fileId: string | number,
+  webflowSiteIds?: string[]
+): Promise<FileChangeReport> {
+  const dependents = await rebuildDependentFiles(fileId);
+  const report: FileChangeReport = {
+    dependents,
+    bundles: { rebuilt: [], failed: [], error: null },
+    purge: { results: [], error: null },
+  };
+  const changedFileIds = new Map<string, number[]>();
+
+  for (const id of [fileId, ...dependents.rebuilt]) {
+    let siteIds: string[];
+    try {
+      siteIds = id === fileId && webflowSiteIds ? webflowSiteIds : await supabaseClient.getFileSiteIds(id);
+    } catch (error) {
+      report.bundles.error ??= error instanceof Error ? error.message : "Failed to look up sites using the file";
+      continue;
+    }
+
+    for (const webflowSiteId of siteIds) {
+      const bundles = await rebuildBundlesForFile(id, webflowSiteId);
+      const purge = await purgeLoaderCacheForFile(id, webflowSiteId);
+
+      report.bundles.rebuilt.push(...bundles.rebuilt);
+      report.bundles.failed.push(...bundles.failed);
+      report.bundles.error ??= bundles.error;
+      report.purge.results.push(...purge.results);
+      report.purge.error ??= purge.error;
+      changedFileIds.set(webflowSiteId, [...(changedFileIds.get(webflowSiteId) || []), Number(id)]);
+    }
+  }
+
+  for (const [webflowSiteId, fileIds] of changedFileIds) {
+    publishFileChanges(webflowSiteId, fileIds);
+  }
+
+  return report;
+}
@@ -0,0 +1,89 @@
+/**
+ * File Library Utility
+ * --------------------
+ * Folders and tags used to organize a site's files. A folder is a
+ * slash-separated path such as `components/forms`; files outside any folder
+ * have no folder. Tags are free-form labels, matched case-insensitively.
+ */
+
+const MAX_FOLDER_LENGTH = 255;
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS = 20;
+
+// Characters PostgREST filters treat specially, plus path separators
+const INVALID_FOLDER_SEGMENT = /[\\"*%,()]|^\.{1,2}$/;
+
+/**
+ * Filters for listing a site's files.
+ */
+export interface FileListFilters {
+  /** Files in this folder or its subfolders; null for files outside any folder */
+  folder?: string | null;
+  /** Files having every one of these tags */
+  tags?: string[];
+}
+
+/**
+ * Thrown when a folder path or tag list is invalid. Routes return the message
+ * with a 400 response.
+ */
+export class FileOrganizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FileOrganizationError";
+  }
+}
+
+/**
+ * Normalizes a folder path: trims each segment and drops empty ones, so
+ * ` /components//forms/ ` becomes `components/forms`.
+ *
+ * @param value - Folder path from a request
+ * @returns The normalized path, or null for no folder
+ * @throws {FileOrganizationError} If the path is not a string or has an invalid segment
+ */
+export function normalizeFolder(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new FileOrganizationError("folder must be a string");
+  }
+
+  const segments = value.split("/").map((segment) => segment.trim()).filter(Boolean);
+  const invalid = segments.find((segment) => INVALID_FOLDER_SEGMENT.test(segment));
+  if (invalid) {
+    throw new FileOrganizationError(`Invalid folder name: ${invalid}`);
+  }
+
+  const folder = segments.join("/");
+  if (folder.length > MAX_FOLDER_LENGTH) {
+    throw new FileOrganizationError(`folder must be at most ${MAX_FOLDER_LENGTH} characters`);
+  }
+  return folder || null;
+}
+
+/**
+ * Normalizes a tag list: trims and lowercases each tag and removes duplicates.
+ *
+ * @param value - Tags from a request
+ * @throws {FileOrganizationError} If the value is not an array of valid tags
+ */
+export function normalizeTags(value: unknown): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string")) {
+    throw new FileOrganizationError("tags must be an array of strings");
+  }
+
+  const tags = [...new Set(value.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (tags.length > MAX_TAGS) {
+    throw new FileOrganizationError(`A file can have at most ${MAX_TAGS} tags`);
+  }
+  const tooLong = tags.find((tag) => tag.length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    throw new FileOrganizationError(`Tags must be at most ${MAX_TAG_LENGTH} characters: ${tooLong}`);
+  }
+  return tags;
+}
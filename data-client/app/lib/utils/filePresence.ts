@@ -0,0 +1,93 @@
+import supabaseClient from "./supabase";
+
+/**
+ * File Presence Utility
+ * ---------------------
+ * Tracks who has a file open in the editor. The designer sends a heartbeat
+ * while a file is open and gets back the other users seen within
+ * `FILE_EDITOR_TIMEOUT_SECONDS`, so it can show them and warn before a save
+ * would conflict. Editors that closed without saying so drop out once they
+ * time out.
+ */
+
+export const FILE_EDITOR_TIMEOUT_SECONDS = 45;
+
+export interface FileEditor {
+  /** User email or ID */
+  editor: string;
+  last_seen_at: string;
+}
+
+/**
+ * Records that a user has a file open and lists the other users who do.
+ * Stale rows of the file are removed on the way.
+ *
+ * @param fileId - Primary key ID of the file
+ * @param editor - The user's email or ID
+ * @returns The other editors of the file, and the file's current `updated_at`
+ *   so editors notice saves made by others; null if the file does not exist
+ */
+export async function touchFileEditor(
+  fileId: string,
+  editor: string
+): Promise<{ editors: FileEditor[]; updated_at: string } | null> {
+  const { data: file, error: fileError } = await supabaseClient.client
+    .from("Files")
+    .select("id, updated_at")
+    .eq("id", fileId)
+    .maybeSingle();
+
+  if (fileError) {
+    console.error("Error retrieving file from Supabase:", fileError);
+    throw fileError;
+  }
+  if (!file) {
+    return null;
+  }
+
+  const now = Date.now();
+  const { error: upsertError } = await supabaseClient.client
+    .from("FileEditors")
+    .upsert({ file_id: fileId, editor, last_seen_at: new Date(now).toISOString() });
+
+  if (upsertError) {
+    console.error("Error recording file editor in Supabase:", upsertError);
+    throw upsertError;
+  }
+
+  const cutoff = new Date(now - FILE_EDITOR_TIMEOUT_SECONDS * 1000).toISOString();
+  await supabaseClient.client.from("FileEditors").delete().eq("file_id", fileId).lt("last_seen_at", cutoff);
+
+  const { data, error } = await supabaseClient.client
+    .from("FileEditors")
+    .select("editor, last_seen_at")
+    .eq("file_id", fileId)
+    .neq("editor", editor)
+    .order("editor");
+
+  if (error) {
+    console.error("Error retrieving file editors from Supabase:", error);
+    throw error;
+  }
+
+  return { editors: data || [], updated_at: file.updated_at };
+}
+
+/**
+ * Removes a user from a file's editors, e.g. when they close it.
+ *
+ * @param fileId - Primary key ID of the file
+ * @param editor - The user's email or ID
+ */
+export async function removeFileEditor(fileId: string, editor: string): Promise<void> {
+  const { error } = await supabaseClient.client
+    .from("FileEditors")
+    .delete()
+    .eq("file_id", fileId)
+    .eq("editor", editor);
+
+  if (error) {
+    console.error("Error removing file editor from Supabase:", error);
+    throw error;
+  }
+}
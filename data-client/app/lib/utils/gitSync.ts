@@ -0,0 +1,416 @@
+import { execFile } from "child_process";
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import supabaseClient from "./supabase";
+import { CODONE_IMPORT_PREFIX, FILE_LANGUAGES, getModuleName, type FileLanguage } from "./compiler";
+import {
+  exportSite,
+  importSite,
+  parseSiteArchive,
+  SITE_ARCHIVE_VERSION,
+  SiteArchiveError,
+  type ArchivedAssignments,
+  type ArchivedFile,
+  type SiteArchive,
+  type SiteImportReport,
+} from "./siteTransfer";
+import type { LoadStrategy, ScriptMode } from "./loaderScript";
+
+/**
+ * Git Sync Utility
+ * ----------------
+ * Mirrors sites into a git repository (`GIT_SYNC_REMOTE`, a URL or the path
+ * of a local or self-hosted repository) on `GIT_SYNC_BRANCH` (default
+ * `main`). Each site is a directory named after its Webflow site ID:
+ *
+ *   <siteId>/codone.json          manifest: file settings and page assignments
+ *   <siteId>/files/<folder>/<file> one file per snippet, in its folder
+ *
+ * Pulling commits the site's current files and live assignments to the
+ * repository; pushing imports a commit into the site like a site archive
+ * (see siteTransfer). Files added to `files/` without a manifest entry are
+ * picked up by their extension.
+ */
+
+const execFileAsync = promisify(execFile);
+
+export const GIT_MANIFEST = "codone.json";
+
+const FILES_DIR = "files";
+
+export interface GitSyncConfig {
+  remote: string;
+  branch: string;
+}
+
+interface ManifestFile {
+  name: string;
+  language: FileLanguage;
+  load_strategy: LoadStrategy | null;
+  load_selector: string | null;
+  tags: string[];
+}
+
+interface ManifestAssignments {
+  /** Paths of the assigned files, relative to the site directory */
+  head_files: string[];
+  body_files: string[];
+  script_mode: ScriptMode | null;
+}
+
+export interface GitManifest {
+  version: typeof SITE_ARCHIVE_VERSION;
+  /** File settings keyed by path relative to the site directory */
+  files: Record<string, ManifestFile>;
+  site: ManifestAssignments;
+  pages: (ManifestAssignments & { slug: string; name: string })[];
+}
+
+export interface GitPullResult {
+  branch: string;
+  /** The commit the branch points at after the pull */
+  commit: string | null;
+  /** Whether the site differed from the repository and a commit was pushed */
+  changed: boolean;
+}
+
+/**
+ * Thrown when git sync is not configured or a git command fails. Routes
+ * return the message with a 502 response.
+ */
+export class GitSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitSyncError";
+  }
+}
+
+/**
+ * Reads the repository to sync with from the environment.
+ *
+ * @throws {GitSyncError} If `GIT_SYNC_REMOTE` is not set
+ */
+export function getGitSyncConfig(): GitSyncConfig {
+  const remote = process.env.GIT_SYNC_REMOTE;
+  if (!remote) {
+    throw new GitSyncError("GIT_SYNC_REMOTE is not configured");
+  }
+  return { remote, branch: process.env.GIT_SYNC_BRANCH || "main" };
+}
+
+/**
+ * Commits a site's files and live assignments to its directory of the
+ * repository and pushes the commit. The directory is rewritten, so files
+ * deleted in Codone are deleted from the repository.
+ *
+ * @param webflowSiteId - The Webflow site to pull from Codone
+ * @param author - Who pulled, recorded as the commit author
+ * @param config - Repository to sync with; read from the environment by default
+ * @returns The branch and commit, or null if the site does not exist
+ * @throws {GitSyncError} If a git command fails
+ */
+export async function pullSiteToGit(
+  webflowSiteId: string,
+  author: string | null = null,
+  config: GitSyncConfig = getGitSyncConfig()
+): Promise<GitPullResult | null> {
+  const archive = await exportSite(webflowSiteId);
+  if (!archive) {
+    return null;
+  }
+
+  return withWorkingCopy(config, async (dir, hasBranch) => {
+    await writeSiteTree(path.join(dir, webflowSiteId), archive);
+    await git(dir, "add", "--all", "--", webflowSiteId);
+
+    const { stdout: status } = await git(dir, "status", "--porcelain", "--", webflowSiteId);
+    if (!status.trim()) {
+      return { branch: config.branch, commit: hasBranch ? await revParse(dir, "HEAD") : null, changed: false };
+    }
+
+    await git(
+      dir,
+      "commit",
+      "--quiet",
+      "-m",
+      `Sync site ${webflowSiteId} from Codone`,
+      ...(author ? ["--author", formatAuthor(author)] : [])
+    );
+    await git(dir, "push", "--quiet", "origin", `HEAD:refs/heads/${config.branch}`);
+
+    return { branch: config.branch, commit: await revParse(dir, "HEAD"), changed: true };
+  });
+}
+
+/**
+ * Imports a site's directory at a commit of the repository into the site:
+ * files are upserted by name and assignments saved as drafts, as for a site
+ * archive import.
+ *
+ * @param webflowSiteId - The Webflow site to push to Codone
+ * @param commit - Commit to import; the head of the sync branch by default
+ * @param author - Who pushed, recorded on file revisions
+ * @param config - Repository to sync with; read from the environment by default
+ * @returns The imported commit and the import report, or null if the site does not exist
+ * @throws {GitSyncError} If the commit or the site's directory does not exist, or a git command fails
+ * @throws {SiteArchiveError} If the manifest or files are invalid
+ * @throws {FileCompileError} If a file does not build on the site
+ */
+export async function pushSiteFromGit(
+  webflowSiteId: string,
+  commit: string | null = null,
+  author: string | null = null,
+  config: GitSyncConfig = getGitSyncConfig()
+): Promise<(SiteImportReport & { commit: string }) | null> {
+  if (!(await supabaseClient.getSiteById(webflowSiteId))) {
+    return null;
+  }
+
+  const { archive, sha } = await withWorkingCopy(config, async (dir, hasBranch) => {
+    if (!hasBranch && !commit) {
+      throw new GitSyncError(`Branch ${config.branch} does not exist in the repository`);
+    }
+    if (commit) {
+      // Commits off the sync branch have to be fetched by ID
+      await git(dir, "fetch", "--quiet", "origin", commit).catch(() => undefined);
+      await git(dir, "checkout", "--quiet", "--detach", commit);
+    }
+    return {
+      archive: await readSiteTree(path.join(dir, webflowSiteId), webflowSiteId),
+      sha: await revParse(dir, "HEAD"),
+    };
+  });
+
+  const report = await importSite(webflowSiteId, parseSiteArchive(archive), author);
+  return report && { commit: sha, ...report };
+}
+
+/**
+ * Writes a site archive as a site directory, replacing its contents.
+ *
+ * @param siteDir - The site's directory in a working copy
+ * @param archive - The exported site
+ */
+export async function writeSiteTree(siteDir: string, archive: SiteArchive): Promise<void> {
+  await rm(siteDir, { recursive: true, force: true });
+
+  const pathsById = new Map<number, string>();
+  const files: GitManifest["files"] = {};
+
+  for (const file of archive.files) {
+    const filePath = getFilePath(file, new Set(pathsById.values()));
+    pathsById.set(file.id, filePath);
+    files[filePath] = {
+      name: file.name,
+      language: file.language,
+      load_strategy: file.load_strategy,
+      load_selector: file.load_selector,
+      tags: file.tags,
+    };
+
+    const target = path.join(siteDir, filePath);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file.code);
+  }
+
+  const manifest: GitManifest = {
+    version: SITE_ARCHIVE_VERSION,
+    files,
+    site: toManifestAssignments(archive.site, pathsById),
+    pages: archive.pages.map((page) => ({
+      slug: page.slug,
+      name: page.name,
+      ...toManifestAssignments(page, pathsById),
+    })),
+  };
+
+  await mkdir(siteDir, { recursive: true });
+  await writeFile(path.join(siteDir, GIT_MANIFEST), `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+/**
+ * Reads a site directory as a site archive. Files without a manifest entry
+ * are named after their path and typed by their extension; files with an
+ * unknown extension are skipped.
+ *
+ * @param siteDir - The site's directory in a working copy
+ * @param webflowSiteId - The site the directory belongs to
+ * @throws {GitSyncError} If the directory has no manifest
+ * @throws {SiteArchiveError} If the manifest is not valid JSON
+ */
+export async function readSiteTree(siteDir: string, webflowSiteId: string): Promise<SiteArchive> {
+  let manifest: GitManifest;
+  try {
+    manifest = JSON.parse(await readFile(path.join(siteDir, GIT_MANIFEST), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new GitSyncError(`The repository has no ${webflowSiteId}/${GIT_MANIFEST}`);
+    }
+    throw new SiteArchiveError(`${GIT_MANIFEST} is not valid JSON`);
+  }
+
+  const files: ArchivedFile[] = [];
+  const idsByPath = new Map<string, number>();
+
+  for (const filePath of await listFiles(siteDir, FILES_DIR)) {
+    const entry = manifest.files?.[filePath];
+    const language = entry?.language ?? (path.extname(filePath).slice(1) as FileLanguage);
+    if (!FILE_LANGUAGES.includes(language)) continue;
+
+    const folder = path.posix.dirname(path.posix.relative(FILES_DIR, filePath));
+    const id = files.length + 1;
+    idsByPath.set(filePath, id);
+    files.push({
+      id,
+      name: entry?.name ?? path.posix.basename(filePath),
+      language,
+      code: await readFile(path.join(siteDir, filePath), "utf8"),
+      load_strategy: entry?.load_strategy ?? null,
+      load_selector: entry?.load_selector ?? null,
+      folder: folder === "." ? null : folder,
+      tags: entry?.tags ?? [],
+      dependencies: [],
+    });
+  }
+
+  // Files are imported after the files they import, resolved by module name
+  const idsByModule = new Map(
+    files.filter((file) => file.language === "js" || file.language === "ts")
+      .map((file) => [getModuleName(file.name), file.id])
+  );
+  const importPattern = new RegExp(`["']${CODONE_IMPORT_PREFIX}([^"']+)["']`, "g");
+  for (const file of files) {
+    file.dependencies = [...file.code.matchAll(importPattern)]
+      .map((match) => idsByModule.get(match[1]))
+      .filter((id): id is number => id !== undefined && id !== file.id);
+  }
+
+  const toAssignments = (assignments?: Partial<ManifestAssignments>): ArchivedAssignments => ({
+    head_files: (assignments?.head_files || []).map((p) => idsByPath.get(p)).filter((id): id is number => id !== undefined),
+    body_files: (assignments?.body_files || []).map((p) => idsByPath.get(p)).filter((id): id is number => id !== undefined),
+    script_mode: assignments?.script_mode ?? null,
+  });
+
+  return {
+    version: SITE_ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    source_site_id: webflowSiteId,
+    files,
+    site: toAssignments(manifest.site),
+    pages: (manifest.pages || []).map((page) => ({ slug: page.slug, name: page.name, ...toAssignments(page) })),
+  };
+}
+
+/**
+ * Clones the sync branch into a temporary directory for the duration of
+ * `task`. An empty repository or a missing branch yields an empty working
+ * copy on a new branch.
+ */
+async function withWorkingCopy<T>(
+  config: GitSyncConfig,
+  task: (dir: string, hasBranch: boolean) => Promise<T>
+): Promise<T> {
+  const dir = await mkdtemp(path.join(tmpdir(), "codone-git-"));
+  try {
+    await git(dir, "init", "--quiet");
+    await git(dir, "remote", "add", "origin", config.remote);
+    const { stdout } = await git(dir, "ls-remote", "--heads", "origin", config.branch);
+    const hasBranch = stdout.trim().length > 0;
+
+    if (hasBranch) {
+      await git(dir, "fetch", "--quiet", "origin", config.branch);
+      await git(dir, "checkout", "--quiet", "-b", config.branch, "FETCH_HEAD");
+    } else {
+      await git(dir, "checkout", "--quiet", "--orphan", config.branch);
+    }
+
+    return await task(dir, hasBranch);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Runs a git command in a working copy, without prompting for credentials.
+ *
+ * @throws {GitSyncError} If the command fails
+ */
+async function git(cwd: string, ...args: string[]) {
+  try {
+    return await execFileAsync(
+      "git",
+      ["-c", "user.name=Codone", "-c", "user.email=codone@localhost", ...args],
+      { cwd, env: { ...process.env, GIT_TERMINAL_PROMPT: "0" }, maxBuffer: 64 * 1024 * 1024 }
+    );
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new GitSyncError(`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+/**
+ * Resolves a ref of a working copy to its commit ID.
+ */
+async function revParse(cwd: string, ref: string): Promise<string> {
+  const { stdout } = await git(cwd, "rev-parse", ref);
+  return stdout.trim();
+}
+
+/**
+ * Formats a Codone user as a git author; users known only by ID get a
+ * placeholder address.
+ */
+function formatAuthor(author: string): string {
+  return author.includes("@") ? `${author.split("@")[0]} <${author}>` : `${author} <${author}@codone.invalid>`;
+}
+
+/**
+ * Returns the path of a file in the site directory: its folder under
+ * `files/`, its name with the language's extension, and its ID if another
+ * file already took the path.
+ */
+function getFilePath(file: ArchivedFile, taken: Set<string>): string {
+  const baseName = file.name.replace(/[/\\]/g, "-");
+  const name = baseName.endsWith(`.${file.language}`) ? baseName : `${baseName}.${file.language}`;
+  const filePath = path.posix.join(FILES_DIR, file.folder || "", name);
+  return taken.has(filePath) ? filePath.replace(/(\.[^.]+)$/, `~${file.id}$1`) : filePath;
+}
+
+/**
+ * Converts archived assignments to manifest assignments by file path.
+ */
+function toManifestAssignments(assignments: ArchivedAssignments, pathsById: Map<number, string>): ManifestAssignments {
+  const toPaths = (ids: number[]) => ids.map((id) => pathsById.get(id)).filter((p): p is string => p !== undefined);
+  return {
+    head_files: toPaths(assignments.head_files),
+    body_files: toPaths(assignments.body_files),
+    script_mode: assignments.script_mode,
+  };
+}
+
+/**
+ * Lists the files below a directory of the site directory as sorted POSIX
+ * paths relative to the site directory.
+ */
+async function listFiles(siteDir: string, dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(path.join(siteDir, dir), { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const paths: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.posix.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      paths.push(...(await listFiles(siteDir, entryPath)));
+    } else if (entry.isFile()) {
+      paths.push(entryPath);
+    }
+  }
+  return paths.sort();
+}
@@ -105,6 +105,35 @@ const verifyAuth = async (request: NextRequest) => {
   }
 };
 
+/**
+ * Resolves the user encoded in the request's session token
+ *
+ * @param request - Incoming Next.js request
+ * @returns Promise<User | null> - The session's user if the token is valid, null otherwise
+ *
+ * Used by routes that need to attribute a change to a user (e.g. file revisions)
+ * in addition to authorizing it with verifyAuth.
+ */
+const getAuthUser = async (request: NextRequest): Promise<User | null> => {
+  const authHeader = request.headers.get("authorization");
+  const sessionToken = authHeader?.split(" ")[1];
+
+  if (!sessionToken) {
+    return null;
+  }
+
+  try {
+    const secret = new TextEncoder().encode(process.env.WEBFLOW_CLIENT_SECRET);
+    const { payload } = (await jwtVerify(sessionToken, secret)) as {
+      payload: JWTPayload;
+    };
+
+    return payload.user ?? null;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Retrieves Webflow access token for a specific site
  *
@@ -139,6 +168,7 @@ const getAccessToken = async (request: NextRequest) => {
 const jwtUtils = {
   createSessionToken,
   verifyAuth,
+  getAuthUser,
   getAccessToken,
 };
 
@@ -0,0 +1,233 @@
+import supabaseClient from "./supabase";
+import type { LoaderType } from "./loaderCache";
+import { parseAssignedFileIds } from "./assignments";
+
+/**
+ * Workspace Library Utility
+ * -------------------------
+ * Files in a workspace's shared library belong to no site (`workspace_id` is
+ * set instead of `webflow_site_id`). They are linked into sites through
+ * `SiteFileLinks`, after which the site lists them with its own files and
+ * can assign them to pages like any other file. Saving a library file
+ * propagates to every linked site; forking replaces the link with a
+ * site-local copy.
+ */
+
+const ASSIGNMENT_COLUMNS = ["head_files", "body_files", "draft_head_files", "draft_body_files"] as const;
+
+type AssignmentColumn = (typeof ASSIGNMENT_COLUMNS)[number];
+
+const TABLES: Record<LoaderType, string> = {
+  page: "Pages",
+  site: "Sites",
+};
+
+/**
+ * Thrown when a library operation conflicts with the site's current state,
+ * e.g. unlinking a file its pages still use. Routes return the message with
+ * a 409 response.
+ */
+export class LibraryConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LibraryConflictError";
+  }
+}
+
+/**
+ * Returns the workspace a site belongs to.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @throws {LibraryConflictError} If the site is unknown or was authorized before workspaces were recorded
+ */
+export async function getSiteWorkspaceId(webflowSiteId: string): Promise<string> {
+  const site = await supabaseClient.getSiteById(webflowSiteId);
+  if (!site?.workspace_id) {
+    throw new LibraryConflictError("The site has no workspace; authorize the app for the site again");
+  }
+  return site.workspace_id;
+}
+
+/**
+ * Retrieves a library file of a workspace.
+ *
+ * @returns The file, or null if it does not exist or is not in the workspace's library
+ */
+async function getWorkspaceFile(workspaceId: string, fileId: string | number) {
+  const { data, error } = await supabaseClient.client
+    .from("Files")
+    .select("*")
+    .eq("id", fileId)
+    .eq("workspace_id", workspaceId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error retrieving library file from Supabase:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Links a library file into a site. Linking an already linked file is a no-op.
+ *
+ * @param webflowSiteId - The Webflow site to link the file into
+ * @param fileId - Primary key ID of the library file
+ * @returns The linked file, or null if it is not in the site's workspace library
+ */
+export async function linkLibraryFile(webflowSiteId: string, fileId: string | number) {
+  const workspaceId = await getSiteWorkspaceId(webflowSiteId);
+  const file = await getWorkspaceFile(workspaceId, fileId);
+  if (!file) {
+    return null;
+  }
+
+  const { error } = await supabaseClient.client
+    .from("SiteFileLinks")
+    .upsert({ webflow_site_id: webflowSiteId, file_id: file.id }, { onConflict: "webflow_site_id,file_id" });
+
+  if (error) {
+    console.error("Error linking library file in Supabase:", error);
+    throw error;
+  }
+
+  return file;
+}
+
+/**
+ * Unlinks a library file from a site.
+ *
+ * @param webflowSiteId - The Webflow site to unlink the file from
+ * @param fileId - Primary key ID of the library file
+ * @returns Whether the file was linked
+ * @throws {LibraryConflictError} If a live or draft assignment of the site still uses the file
+ */
+export async function unlinkLibraryFile(webflowSiteId: string, fileId: string | number) {
+  const rows = await getAssignmentRows(webflowSiteId);
+  if (rows.some(({ row }) => ASSIGNMENT_COLUMNS.some((column) => parseAssignedFileIds(row[column]).includes(Number(fileId))))) {
+    throw new LibraryConflictError("The file is still assigned to pages or site-wide code of this site");
+  }
+
+  const { data, error } = await supabaseClient.client
+    .from("SiteFileLinks")
+    .delete()
+    .eq("webflow_site_id", webflowSiteId)
+    .eq("file_id", fileId)
+    .select("file_id");
+
+  if (error) {
+    console.error("Error unlinking library file in Supabase:", error);
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Forks a linked library file into a site-local copy: the copy takes the
+ * file's place in every live and draft assignment of the site, and the
+ * library file is unlinked. Later library changes no longer reach the site.
+ *
+ * @param webflowSiteId - The Webflow site the file is linked into
+ * @param fileId - Primary key ID of the library file
+ * @param author - Who forked the file, recorded on the copy's first revision
+ * @returns The copy, or null if the file is not linked into the site
+ * @throws {FileCompileError} If the code does not build against the site's files
+ */
+export async function forkLibraryFile(
+  webflowSiteId: string,
+  fileId: string | number,
+  author: string | null = null
+) {
+  const linkedFileIds = await supabaseClient.getLinkedFileIds(webflowSiteId);
+  if (!linkedFileIds.includes(Number(fileId))) {
+    return null;
+  }
+
+  const workspaceId = await getSiteWorkspaceId(webflowSiteId);
+  const file = await getWorkspaceFile(workspaceId, fileId);
+  if (!file) {
+    return null;
+  }
+
+  const copy = await supabaseClient.insertFile(webflowSiteId, file.name, file.language, file.code || "", author, {
+    folder: file.folder,
+    tags: file.tags,
+  });
+  const forked = file.load_strategy
+    ? await supabaseClient.updateFile(String(copy.id), {
+        load_strategy: file.load_strategy,
+        load_selector: file.load_selector,
+      })
+    : copy;
+
+  await replaceAssignedFile(webflowSiteId, Number(file.id), Number(forked.id));
+
+  const { error } = await supabaseClient.client
+    .from("SiteFileLinks")
+    .delete()
+    .eq("webflow_site_id", webflowSiteId)
+    .eq("file_id", file.id);
+
+  if (error) {
+    console.error("Error unlinking forked library file in Supabase:", error);
+    throw error;
+  }
+
+  return forked;
+}
+
+/**
+ * Retrieves the site row and page rows of a site with their assignments.
+ */
+async function getAssignmentRows(webflowSiteId: string) {
+  const [pages, site] = await Promise.all([
+    supabaseClient.getPagesBySiteId(webflowSiteId),
+    supabaseClient.getSiteById(webflowSiteId),
+  ]);
+
+  return [
+    ...pages.map((row) => ({ type: "page" as LoaderType, row })),
+    ...(site ? [{ type: "site" as LoaderType, row: site }] : []),
+  ];
+}
+
+/**
+ * Replaces a file ID in every live and draft assignment of a site, keeping
+ * each column's storage format (arrays on pages, JSON text on the site row)
+ * and each entry's form (an ID or an `{ id }` object).
+ */
+async function replaceAssignedFile(webflowSiteId: string, fromId: number, toId: number) {
+  const replaceId = (id: unknown) => (typeof id === "number" ? toId : String(toId));
+
+  for (const { type, row } of await getAssignmentRows(webflowSiteId)) {
+    const fields: Partial<Record<AssignmentColumn, unknown>> = {};
+
+    for (const column of ASSIGNMENT_COLUMNS) {
+      const value = row[column];
+      if (!parseAssignedFileIds(value).includes(fromId)) continue;
+
+      const entries = typeof value === "string" ? JSON.parse(value) : value;
+      const replaced = (entries as unknown[]).map((entry) => {
+        if (parseAssignedFileIds([entry])[0] !== fromId) return entry;
+        return typeof entry === "object" && entry !== null
+          ? { ...entry, id: replaceId((entry as { id?: unknown }).id) }
+          : replaceId(entry);
+      });
+      fields[column] = typeof value === "string" ? JSON.stringify(replaced) : replaced;
+    }
+
+    if (Object.keys(fields).length === 0) continue;
+
+    const { error } = await supabaseClient.client
+      .from(TABLES[type])
+      .update(fields)
+      .eq("id", row.id);
+
+    if (error) {
+      console.error(`Error replacing forked file in ${type} assignments:`, error);
+      throw error;
+    }
+  }
+}
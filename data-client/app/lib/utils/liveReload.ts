@@ -0,0 +1,208 @@
+import { EventEmitter } from "events";
+import supabaseClient from "./supabase";
+import { LOADER_BASE_URL } from "./loaderScript";
+
+/**
+ * Live Reload Utility
+ * -------------------
+ * In development, saved files are pushed to the published site's open pages
+ * without a refresh:
+ *
+ * 1. The designer registers the dev server's client script
+ *    (`/api/dev/live/client` at its public ngrok URL, or the URL it was
+ *    reached at) on the site for `LIVE_RELOAD_HOURS`.
+ * 2. A browser opts in by opening a page with `?codone=dev`. Its loaders then
+ *    request manifests with `dev=1`, get the registered script back from the
+ *    worker and insert it.
+ * 3. The client subscribes to `/api/dev/live/events` (server-sent events).
+ *    `applyFileChange` publishes every saved file once its bundles are rebuilt
+ *    and purged; the client then fetches fresh manifests, swaps stylesheets,
+ *    replaces HTML fragments and runs changed scripts again.
+ *
+ * Only registered scripts can be loaded, so a crafted link cannot point the
+ * loader at another host. Changes are published in-process, so live reload
+ * needs the single long-running process of `npm run dev`.
+ */
+
+export const LIVE_RELOAD_HOURS = 12;
+
+export interface FileChangeEvent {
+  /** IDs of the saved file and the files rebuilt because they import it */
+  fileIds: number[];
+}
+
+type FileChangeListener = (event: FileChangeEvent) => void;
+
+// Route handlers and the utilities they import may be bundled separately in
+// development, so the emitter lives on the global object to be shared.
+const globalForLiveReload = globalThis as typeof globalThis & { codoneLiveReload?: EventEmitter };
+const events = (globalForLiveReload.codoneLiveReload ??= new EventEmitter().setMaxListeners(0));
+
+/**
+ * Returns the public URL of this dev server: `DEV_SERVER_URL`, which the dev
+ * script sets to the ngrok tunnel, or else the origin of the request.
+ *
+ * @param requestOrigin - Origin the request reached the server at
+ */
+export function getDevServerUrl(requestOrigin: string): string {
+  return (process.env.DEV_SERVER_URL || requestOrigin).replace(/\/+$/, "");
+}
+
+/**
+ * Registers a dev server's live reload client on a site.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @param devServerUrl - Public URL of the dev server
+ * @returns The client URL and when the registration lapses, or null if the site does not exist
+ */
+export async function enableLiveReload(webflowSiteId: string, devServerUrl: string) {
+  const expiresAt = new Date(Date.now() + LIVE_RELOAD_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabaseClient.client
+    .from("Sites")
+    .update({ live_reload_url: `${devServerUrl}/api/dev/live/client`, live_reload_expires_at: expiresAt })
+    .eq("webflow_site_id", webflowSiteId)
+    .select("live_reload_url, live_reload_expires_at")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error registering live reload in Supabase:", error);
+    throw error;
+  }
+
+  return data && { clientUrl: data.live_reload_url as string, expiresAt: data.live_reload_expires_at as string };
+}
+
+/**
+ * Removes a site's live reload registration; pages that opted in stop
+ * loading the client.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ */
+export async function disableLiveReload(webflowSiteId: string): Promise<void> {
+  const { error } = await supabaseClient.client
+    .from("Sites")
+    .update({ live_reload_url: null, live_reload_expires_at: null })
+    .eq("webflow_site_id", webflowSiteId);
+
+  if (error) {
+    console.error("Error removing live reload registration from Supabase:", error);
+    throw error;
+  }
+}
+
+/**
+ * Notifies the live reload clients of a site that files changed.
+ *
+ * @param webflowSiteId - The Webflow site serving the files
+ * @param fileIds - IDs of the changed files
+ */
+export function publishFileChanges(webflowSiteId: string, fileIds: number[]): void {
+  events.emit(webflowSiteId, { fileIds } satisfies FileChangeEvent);
+}
+
+/**
+ * Subscribes to the file changes of a site.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @param listener - Called with each change
+ * @returns A function that unsubscribes the listener
+ */
+export function subscribeToFileChanges(webflowSiteId: string, listener: FileChangeListener): () => void {
+  events.on(webflowSiteId, listener);
+  return () => {
+    events.off(webflowSiteId, listener);
+  };
+}
+
+/**
+ * Browser client inserted by loaders that opted into live reload. Loaders
+ * record their manifest query in `window.codoneDev`; on each change the
+ * client fetches those manifests again and, where the content hash changed:
+ *
+ * - inserts the new stylesheet next to the old one and removes the old one
+ *   once it loaded, so the page does not flash unstyled,
+ * - replaces the contents of injected HTML fragments that changed,
+ * - inserts scripts whose code changed again, after dispatching a
+ *   `codone:reload` event on `window` so scripts can clean up (remove
+ *   listeners, timers or elements) before they run a second time.
+ */
+export const LIVE_RELOAD_CLIENT = `(() => {
+  if (window.codoneLiveReload) return;
+  window.codoneLiveReload = true;
+
+  const server = new URL(document.currentScript.src).origin;
+  const loader = ${JSON.stringify(LOADER_BASE_URL)};
+  const siteId = document.documentElement.getAttribute("data-wf-site");
+  if (!siteId) {
+    console.warn("Codone live reload: the page has no data-wf-site attribute");
+    return;
+  }
+
+  const elements = (selector, prefix) =>
+    [...document.querySelectorAll(selector)].filter((el) => (el.href || el.src || "").startsWith(prefix));
+  const withVersion = (src, v) => {
+    const url = new URL(src);
+    url.searchParams.set("v", v);
+    return url.href;
+  };
+  const text = (src) => fetch(src).then((r) => (r.ok ? r.text() : null), () => null);
+
+  async function reload(query) {
+    const manifest = await fetch(loader + "manifest" + query).then((r) => r.json());
+
+    for (const link of elements("link[rel=stylesheet]", loader + "bundle.css" + query + "&v=")) {
+      const href = withVersion(link.href, manifest.v);
+      if (href === link.href) continue;
+      if (!manifest.css) {
+        link.remove();
+        continue;
+      }
+      const next = link.cloneNode();
+      next.href = href;
+      next.onload = next.onerror = () => link.remove();
+      link.after(next);
+    }
+
+    for (const file of manifest.html || []) {
+      for (const container of document.querySelectorAll('.codone-injected-container[data-codone-file="' + file.id + '"]')) {
+        if (container.innerHTML !== file.code) container.innerHTML = file.code;
+      }
+    }
+
+    const scripts = [
+      ...elements("script", loader + "bundle.js" + query + "&v="),
+      ...elements("script", loader + "file.js" + query + "&v="),
+    ];
+    for (const script of scripts) {
+      const src = withVersion(script.src, manifest.v);
+      if (src === script.src) continue;
+      const [before, after] = await Promise.all([text(script.src), text(src)]);
+      if (after === null || before === after) {
+        // Setting the source of a script that already ran does not run it again
+        script.src = src;
+        continue;
+      }
+      window.dispatchEvent(new CustomEvent("codone:reload", { detail: { src } }));
+      const next = document.createElement("script");
+      if (script.type) next.type = script.type;
+      next.async = false;
+      next.src = src;
+      script.replaceWith(next);
+    }
+  }
+
+  let queue = Promise.resolve();
+  const reloadAll = () => {
+    queue = queue.then(() =>
+      Promise.all((window.codoneDev || []).map((query) =>
+        reload(query).catch((error) => console.error("Codone live reload failed:", error))
+      ))
+    );
+  };
+
+  const source = new EventSource(server + "/api/dev/live/events?siteId=" + encodeURIComponent(siteId));
+  source.addEventListener("open", () => console.info("Codone live reload connected to " + server));
+  source.addEventListener("change", reloadAll);
+})();
+`;
@@ -0,0 +1,157 @@
+import { LOADER_BASE_URL } from "./loaderScript";
+import supabaseClient from "./supabase";
+
+/**
+ * Loader Cache Utility
+ * --------------------
+ * Purges bundled code cached by the Cloudflare loader worker so changes to
+ * files and assignments go live without waiting for CACHE_TTL to expire.
+ *
+ * Requires LOADER_PURGE_SECRET to match the worker's PURGE_SECRET.
+ */
+
+export type LoaderLocation = "head" | "body";
+
+export type LoaderType = "page" | "site";
+
+export interface PurgeResult {
+  id: string;
+  type: LoaderType;
+  location: LoaderLocation;
+  purged: boolean;
+  error: string | null;
+}
+
+export interface FilePurgeReport {
+  results: PurgeResult[];
+  // Set when the pages and site using the file could not be looked up
+  error: string | null;
+}
+
+/**
+ * Sends a PURGE for one cache entry described by `query`.
+ */
+async function purge(
+  query: string,
+  id: string | number,
+  location: LoaderLocation,
+  type: LoaderType
+): Promise<PurgeResult> {
+  const result: PurgeResult = { id: String(id), type, location, purged: false, error: null };
+  const purgeSecret = process.env.LOADER_PURGE_SECRET;
+
+  if (!purgeSecret) {
+    result.error = "LOADER_PURGE_SECRET is not configured";
+    return result;
+  }
+
+  // The worker derives its cache key from the same parameters
+  const url = `${LOADER_BASE_URL}?${query}&location=${location}&type=${type}`;
+
+  try {
+    const response = await fetch(url, {
+      method: "PURGE",
+      headers: { "X-Purge-Secret": purgeSecret },
+    });
+
+    if (response.ok) {
+      result.purged = true;
+    } else if (response.status !== 404) {
+      result.error = `Purge failed with status ${response.status}`;
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  if (result.error) {
+    console.error(`Failed to purge loader cache for ${type} ${id} (${location}):`, result.error);
+  }
+
+  return result;
+}
+
+/**
+ * Purges the cached files of one loader target and location.
+ *
+ * A cache miss is not an error: the next request simply fetches fresh code.
+ *
+ * @param id - The ID the loader requests code for (Supabase page or site row ID)
+ * @param location - Which loader to purge ('head' or 'body')
+ * @param type - Whether the ID is a page or a site ('page' by default)
+ */
+export async function purgeLoaderCache(
+  id: string | number,
+  location: LoaderLocation,
+  type: LoaderType = "page"
+): Promise<PurgeResult> {
+  return purge(`pageId=${id}`, id, location, type);
+}
+
+/**
+ * Purges a page's cached files as served in combined site + page bundles,
+ * which site loaders request by Webflow page ID.
+ *
+ * @param webflowPageId - The Webflow page ID
+ */
+export async function purgeCombinedLoaderCacheForPage(webflowPageId: string) {
+  return Promise.all([
+    purge(`webflowPageId=${webflowPageId}`, webflowPageId, "head", "page"),
+    purge(`webflowPageId=${webflowPageId}`, webflowPageId, "body", "page"),
+  ]);
+}
+
+/**
+ * Purges the cached head and body files for a loader target.
+ *
+ * @param id - The ID the loader requests code for (Supabase page or site row ID)
+ * @param type - Whether the ID is a page or a site ('page' by default)
+ */
+export async function purgeLoaderCacheForTarget(id: string | number, type: LoaderType = "page") {
+  return Promise.all([
+    purgeLoaderCache(id, "head", type),
+    purgeLoaderCache(id, "body", type),
+  ]);
+}
+
+/**
+ * Purges every cache entry that bundles a file: the page and combined-bundle
+ * entries of each page using it, and the site entry if it is site-wide code.
+ * Only the locations the file is assigned to are purged.
+ *
+ * Never throws, so a failed purge does not fail the change that triggered it.
+ *
+ * @param fileId - Primary key ID of the file
+ * @param webflowSiteId - The Webflow site the file belongs to
+ */
+export async function purgeLoaderCacheForFile(
+  fileId: string | number,
+  webflowSiteId: string
+): Promise<FilePurgeReport> {
+  let references;
+  try {
+    references = await supabaseClient.getFileReferences(fileId, webflowSiteId);
+  } catch (error) {
+    console.error(`Failed to look up references to file ${fileId}:`, error);
+    return {
+      results: [],
+      error: error instanceof Error ? error.message : "Failed to look up file references",
+    };
+  }
+
+  const purges: Promise<PurgeResult>[] = [];
+  for (const page of references.pages) {
+    for (const location of page.locations) {
+      purges.push(purgeLoaderCache(page.id, location, "page"));
+      if (page.webflow_page_id) {
+        purges.push(purge(`webflowPageId=${page.webflow_page_id}`, page.webflow_page_id, location, "page"));
+      }
+    }
+  }
+  if (references.site) {
+    for (const location of references.site.locations) {
+      purges.push(purgeLoaderCache(references.site.id, location, "site"));
+    }
+  }
+
+  return { results: await Promise.all(purges), error: null };
+}
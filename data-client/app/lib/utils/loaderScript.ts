@@ -1,15 +1,68 @@
+/**
+ * Base URL of the Cloudflare worker that serves bundled file code.
+ */
+export const LOADER_BASE_URL = "https://loader.codone-loader.workers.dev/";
+
 /**
  * Generates a JavaScript loader that will fetch code from Supabase Edge Function
  * and inject it into the current page.
+ *
+ * Visiting a page with `?codone=preview` sets a `codone_preview` cookie so the
+ * loader requests draft file assignments; `?codone=live` clears it.
+ * `?codone=dev` sets a `codone_dev` session cookie for live reload: the loader
+ * asks the manifest for the live reload client registered on the site and
+ * inserts it (see liveReload.ts); `?codone=live` clears it too.
+ *
+ * The loader asks the worker's manifest endpoint for the current content hash
+ * and then inserts `<link rel="stylesheet">` and `<script src>` tags for the
+ * worker's `bundle.css`/`bundle.js` with `&v=<hash>`, so the browser caches
+ * them like any other asset. Versioned bundles are cached for a year, so new
+ * code is picked up as soon as the manifest changes without cache purges.
+ * HTML files come with the manifest and are inserted in assignment order.
+ *
+ * `scriptMode` controls how the script bundle runs: by default it executes as
+ * soon as it loads, in order with other Codone scripts; 'defer' waits until
+ * the document is parsed, 'async' runs unordered and 'module' loads it as an
+ * ES module.
+ *
+ * Script files with their own load strategy are listed separately in the
+ * manifest and inserted one by one from the worker's `file.js`: 'defer',
+ * 'async' and 'module' as above, 'idle' once the browser is idle
+ * (`requestIdleCallback`), 'interaction' on the first pointer, key or scroll
+ * event and 'visible' when the element matching the file's selector scrolls
+ * into view.
+ *
+ * Site loaders run on every page and also send the Webflow page ID (from the
+ * `data-wf-page` attribute), so the worker returns site and page files in one
+ * bundle. They flag their location as loaded, and page loaders for that
+ * location then skip their own request.
  */
+export type ScriptMode = 'defer' | 'async' | 'module';
+
+export const SCRIPT_MODES: ScriptMode[] = ['defer', 'async', 'module'];
+
+export type LoadStrategy = ScriptMode | 'idle' | 'interaction' | 'visible';
+
+export const LOAD_STRATEGIES: LoadStrategy[] = [...SCRIPT_MODES, 'idle', 'interaction', 'visible'];
+
 export interface LoaderConfig {
   id: string | number;
   type: 'page' | 'site';
   location: 'head' | 'body';
   supabaseUrl: string;
   supabaseKey: string;
+  scriptMode?: ScriptMode | null;
 }
 
+// Statements that configure the script element `s` and insert it into `t`.
+// `D` runs a callback once the document is parsed.
+const SCRIPT_INSERTION: Record<ScriptMode | 'default', string> = {
+  default: `s.async=false;t.appendChild(s)`,
+  defer: `s.async=false;D(()=>t.appendChild(s))`,
+  async: `t.appendChild(s)`,
+  module: `s.type='module';t.appendChild(s)`,
+};
+
 export const generateLoaderScript = (config: LoaderConfig): string => {
   // Convert the ID to a number if it's numeric, otherwise keep it as a string
   const isNumericId = !isNaN(Number(config.id));
@@ -25,34 +78,59 @@ export const generateLoaderScript = (config: LoaderConfig): string => {
   
   // Ensure we're using the correct ID format
   const idValue = isNumericId ? Number(config.id) : `"${config.id}"`;
+
+  // Site loaders request the combined bundle; page loaders only run when no site loader did
+  const isSite = config.type === 'site';
+  const claim = isSite
+    ? `const w=d.documentElement.getAttribute('data-wf-page');if(w)L[c.location]=1;`
+    : `if(L[c.location])return;`;
+  const target = isSite
+    ? `siteId=\${c.id}\${w?'&webflowPageId='+w:''}`
+    : `pageId=\${c.id}&type=page`;
   
   // Minified version of the loader script to stay under 2000 characters
   return `(function(){
 const c={id:${idValue},type:"${config.type}",location:"${config.location}"};
-const newBaseUrl="https://loader.codone-loader.workers.dev/";
-fetch(\`\${newBaseUrl}?pageId=\${c.id}&location=\${c.location}\`,{
-method:'GET',
-headers: {'Content-Type': 'application/json'}
-}).then(r=>{
+const d=document;
+const newBaseUrl="${LOADER_BASE_URL}";
+const L=window.codoneLoaded=window.codoneLoaded||{};
+${claim}
+const q=new URLSearchParams(location.search).get('codone');
+const K=(n,k='codone_'+n+'=')=>(q==n?d.cookie=k+'1;path=/':q=='live'&&(d.cookie=k+';path=/;max-age=0'),RegExp('(^|; )'+k+1).test(d.cookie));
+const p=K('preview');
+const a=\`?${target}&location=\${c.location}\${p?'&preview=1':''}\`;
+fetch(newBaseUrl+'manifest'+a+(K('dev')?'&dev=1':'')).then(r=>{
 if(!r.ok)throw new Error('Load failed: '+r.status);
 return r.json()
-}).then(d=>{
-if(d.css){
-const s=document.createElement('style');
-s.textContent=d.css;
-document.head.appendChild(s);
+}).then(m=>{
+const t=c.location==='head'?d.head:d.body;
+const b=a+'&v='+m.v;
+const D=i=>d.readyState==='loading'?d.addEventListener('DOMContentLoaded',i):i();
+m.dev&&(window.codoneDev||=[]).push(a)<2&&d.head.append(Object.assign(d.createElement('script'),{src:m.dev}));
+if(m.css){
+const l=d.createElement('link');
+l.rel='stylesheet';
+l.href=newBaseUrl+'bundle.css'+b;
+d.head.appendChild(l);
 }
-if(d.html){
-const h=document.createElement('div');
+(m.html||[]).forEach(f=>{
+const h=d.createElement('div');
 h.className="codone-injected-container";
-h.innerHTML=d.html;
-c.location==='head'?document.head.appendChild(h):document.body.appendChild(h);
-}
-if(d.js){
-const j=document.createElement('script');
-j.textContent=d.js;
-c.location==='head'?document.head.appendChild(j):document.body.appendChild(j);
+h.dataset.codoneFile=f.id;
+h.innerHTML=f.code;
+t.appendChild(h);
+});
+if(m.js){
+const s=d.createElement('script');
+s.src=newBaseUrl+'bundle.js'+b;
+${SCRIPT_INSERTION[config.scriptMode || 'default']};
 }
+(m.scripts||[]).forEach(f=>{
+const s=d.createElement('script'),g=f.strategy,i=()=>t.appendChild(s);
+s.src=newBaseUrl+'file.js'+b+'&file='+f.id;
+if(g==='module')s.type='module';
+g==='defer'?(s.async=false,D(i)):g==='idle'?(window.requestIdleCallback||setTimeout)(i):g==='interaction'?['pointerdown','keydown','scroll'].forEach(n=>addEventListener(n,i,{once:true,passive:true})):g==='visible'?D(()=>{const v=d.querySelector(f.selector);v&&new IntersectionObserver((z,o)=>{if(z[0].isIntersecting){o.disconnect();i()}}).observe(v)}):i();
+});
 }).catch(e=>console.error('Codone error:',e));
 })();`
 }; 
\ No newline at end of file
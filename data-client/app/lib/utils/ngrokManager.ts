@@ -77,6 +77,8 @@ export async function setupDevEnvironment(): Promise<string> {
     const ngrokUrl = process.env.NGROK_AUTH_TOKEN
       ? await startNgrok(PORT)
       : null;
+    // Registered for live reload, so pages of the published site can reach this server
+    process.env.DEV_SERVER_URL ||= ngrokUrl || localUrl;
 
     const baseUrl = ngrokUrl
       ? `${ngrokUrl}/api/auth/callback`
@@ -0,0 +1,383 @@
+import type { NextRequest } from "next/server";
+import supabaseClient from "./supabase";
+import jwt from "./jwt";
+import { parseAssignedFileIds } from "./assignments";
+
+/**
+ * Site Access Utility
+ * -------------------
+ * `jwt.verifyAuth` only proves that a session belongs to some Webflow user.
+ * Routes acting on a site, or on a file, page or revision of one, also check
+ * that the session's user has a role on that site allowing the action; the
+ * data client talks to Supabase with the service role, so these checks are
+ * what keeps one customer's sites apart from another's.
+ *
+ * `Sites.owner`, the Webflow user ID of whoever authorized the app for the
+ * site, is an admin of it; other users get a role by accepting an invite
+ * (see siteMembers.ts), which adds them to `SiteMembers`. A workspace library
+ * file is accessible with the best role the user has on a site of its
+ * workspace.
+ *
+ * Files and pages that do not exist pass the checks, so routes keep
+ * answering them with their own not-found responses.
+ */
+
+/**
+ * Roles on a site, from least to most privileged; each role can do
+ * everything the roles before it can:
+ * - viewer: browse files, pages, revisions and assignments
+ * - editor: change code and draft assignments
+ * - publisher: make assignments live
+ * - admin: manage the site's members
+ */
+export const SITE_ROLES = ["viewer", "editor", "publisher", "admin"] as const;
+
+export type SiteRole = (typeof SITE_ROLES)[number];
+
+/**
+ * Thrown when the session's user has no access to the site a request
+ * targets. Routes return the message with a 403 response.
+ */
+export class SiteAccessError extends Error {
+  constructor(message = "You do not have access to this site") {
+    super(message);
+    this.name = "SiteAccessError";
+  }
+}
+
+/**
+ * Thrown when an update sets a field the route does not update. Routes
+ * return the message with a 400 response.
+ */
+export class UpdateFieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UpdateFieldError";
+  }
+}
+
+/**
+ * Columns that tie a row to its site, workspace or owner. Updates through the
+ * API may not set them, so rows cannot be moved into another customer's site.
+ */
+const OWNERSHIP_COLUMNS = ["id", "webflow_site_id", "workspace_id", "owner"];
+
+/**
+ * Returns the Webflow user ID of the request's session.
+ *
+ * @throws {SiteAccessError} If the request has no valid session
+ */
+async function getSessionUserId(request: NextRequest): Promise<string> {
+  const user = await jwt.getAuthUser(request);
+  if (!user?.id) {
+    throw new SiteAccessError("The session has no user");
+  }
+  return user.id;
+}
+
+/**
+ * Whether a value is one of the site roles.
+ */
+export function isSiteRole(value: unknown): value is SiteRole {
+  return SITE_ROLES.includes(value as SiteRole);
+}
+
+/**
+ * Whether a role allows what the required role allows.
+ *
+ * @param role - The user's role, null if they have none
+ * @param required - The least privileged role allowed
+ */
+export function hasRole(role: SiteRole | null | undefined, required: SiteRole): boolean {
+  return Boolean(role) && SITE_ROLES.indexOf(role as SiteRole) >= SITE_ROLES.indexOf(required);
+}
+
+/**
+ * Returns the more privileged of two roles.
+ */
+function higherRole(a: SiteRole | null | undefined, b: SiteRole | null | undefined): SiteRole | null {
+  if (!a || !b) return a || b || null;
+  return hasRole(a, b) ? a : b;
+}
+
+/**
+ * Thrown for a user whose role falls short of the required one.
+ */
+function roleError(required: SiteRole): SiteAccessError {
+  return new SiteAccessError(`This requires the ${required} role on the site`);
+}
+
+/**
+ * Lists the sites a user has a role on: the sites they own as admin and the
+ * sites they are a member of.
+ *
+ * @param userId - Webflow user ID
+ * @returns The user's role by Webflow site ID
+ */
+export async function getSiteRoles(userId: string): Promise<Map<string, SiteRole>> {
+  const [owned, memberships] = await Promise.all([
+    supabaseClient.client.from("Sites").select("webflow_site_id").eq("owner", userId),
+    supabaseClient.client.from("SiteMembers").select("webflow_site_id, role").eq("user_id", userId),
+  ]);
+
+  const error = owned.error || memberships.error;
+  if (error) {
+    console.error("Error retrieving the user's sites from Supabase:", error);
+    throw error;
+  }
+
+  const roles = new Map<string, SiteRole>();
+  for (const membership of memberships.data || []) {
+    roles.set(membership.webflow_site_id, membership.role as SiteRole);
+  }
+  for (const site of owned.data || []) {
+    roles.set(site.webflow_site_id, "admin");
+  }
+  return roles;
+}
+
+/**
+ * Lists the Webflow site IDs a user has access to.
+ *
+ * @param userId - Webflow user ID
+ */
+export async function getAccessibleSiteIds(userId: string): Promise<string[]> {
+  return [...(await getSiteRoles(userId)).keys()];
+}
+
+/**
+ * Returns a user's role on a site: admin for its owner, otherwise their
+ * membership's role.
+ *
+ * @param userId - Webflow user ID
+ * @param webflowSiteId - The Webflow site ID
+ * @returns The role, or null if the user has none or the site does not exist
+ */
+export async function getSiteRole(userId: string, webflowSiteId: string): Promise<SiteRole | null> {
+  const { data: site, error } = await supabaseClient.client
+    .from("Sites")
+    .select("owner")
+    .eq("webflow_site_id", webflowSiteId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error retrieving site owner from Supabase:", error);
+    throw error;
+  }
+  if (!site) {
+    return null;
+  }
+  if (site.owner === userId) {
+    return "admin";
+  }
+
+  const { data: membership, error: membershipError } = await supabaseClient.client
+    .from("SiteMembers")
+    .select("role")
+    .eq("webflow_site_id", webflowSiteId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (membershipError) {
+    console.error("Error retrieving site membership from Supabase:", membershipError);
+    throw membershipError;
+  }
+
+  return isSiteRole(membership?.role) ? membership.role : null;
+}
+
+/**
+ * Checks that the request's user has a role on a site allowing what `role` allows.
+ *
+ * @param request - The incoming request
+ * @param webflowSiteId - The Webflow site ID
+ * @param role - The least privileged role allowed
+ * @returns The user's Webflow user ID
+ * @throws {SiteAccessError} If the user has no access to the site or a lesser role
+ */
+export async function requireSiteAccess(
+  request: NextRequest,
+  webflowSiteId: string,
+  role: SiteRole = "viewer"
+): Promise<string> {
+  const userId = await getSessionUserId(request);
+  const siteRole = await getSiteRole(userId, webflowSiteId);
+  if (!siteRole) {
+    throw new SiteAccessError();
+  }
+  if (!hasRole(siteRole, role)) {
+    throw roleError(role);
+  }
+  return userId;
+}
+
+/**
+ * Checks that the request's user has a role allowing what `role` allows on
+ * the site of a file, or for a workspace library file, on a site of its
+ * workspace.
+ *
+ * @param request - The incoming request
+ * @param fileId - Primary key ID of the file
+ * @param role - The least privileged role allowed
+ * @throws {SiteAccessError} If the user has no access to the file or a lesser role
+ */
+export async function requireFileAccess(
+  request: NextRequest,
+  fileId: string | number,
+  role: SiteRole = "viewer"
+): Promise<void> {
+  const userId = await getSessionUserId(request);
+
+  const { data: file, error } = await supabaseClient.client
+    .from("Files")
+    .select("webflow_site_id, workspace_id")
+    .eq("id", fileId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error retrieving file owner from Supabase:", error);
+    throw error;
+  }
+  if (!file) {
+    return;
+  }
+
+  let fileRole: SiteRole | null = null;
+  if (file.webflow_site_id) {
+    fileRole = await getSiteRole(userId, file.webflow_site_id);
+  } else if (file.workspace_id) {
+    const { data: sites, error: sitesError } = await supabaseClient.client
+      .from("Sites")
+      .select("webflow_site_id")
+      .eq("workspace_id", file.workspace_id);
+
+    if (sitesError) {
+      console.error("Error retrieving workspace sites from Supabase:", sitesError);
+      throw sitesError;
+    }
+
+    const roles = await getSiteRoles(userId);
+    for (const site of sites || []) {
+      fileRole = higherRole(fileRole, roles.get(site.webflow_site_id));
+    }
+  }
+
+  if (!fileRole) {
+    throw new SiteAccessError("You do not have access to this file");
+  }
+  if (!hasRole(fileRole, role)) {
+    throw roleError(role);
+  }
+}
+
+/**
+ * Checks that the request's user has a role allowing what `role` allows on
+ * the site of a page.
+ *
+ * @param request - The incoming request
+ * @param pageId - Primary key ID of the page
+ * @param role - The least privileged role allowed
+ * @returns The Webflow site ID of the page, or null if the page does not exist
+ * @throws {SiteAccessError} If the user has no access to the page or a lesser role
+ */
+export async function requirePageAccess(
+  request: NextRequest,
+  pageId: string | number,
+  role: SiteRole = "viewer"
+): Promise<string | null> {
+  const userId = await getSessionUserId(request);
+
+  const { data: page, error } = await supabaseClient.client
+    .from("Pages")
+    .select("webflow_site_id")
+    .eq("id", pageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error retrieving page owner from Supabase:", error);
+    throw error;
+  }
+
+  if (!page) {
+    return null;
+  }
+  const pageRole = await getSiteRole(userId, page.webflow_site_id);
+  if (!pageRole) {
+    throw new SiteAccessError("You do not have access to this page");
+  }
+  if (!hasRole(pageRole, role)) {
+    throw roleError(role);
+  }
+  return page.webflow_site_id;
+}
+
+/**
+ * Checks that files can be assigned to a site or its pages: each must be a
+ * file of the site or a library file linked into it, so assignments cannot
+ * serve another site's code. IDs of deleted files are left to the bundles,
+ * which skip them.
+ *
+ * @param webflowSiteId - The Webflow site being assigned to
+ * @param assignments - head_files or body_files values, read with parseAssignedFileIds
+ * @throws {SiteAccessError} If a file belongs to no site the assignment can use
+ */
+export async function requireAssignableFiles(
+  webflowSiteId: string,
+  ...assignments: unknown[]
+): Promise<void> {
+  // IDs that are not integers match no file, for the worker either
+  const ids = [...new Set(assignments.flatMap(parseAssignedFileIds).filter(Number.isInteger))];
+  if (ids.length === 0) {
+    return;
+  }
+
+  const { data, error } = await supabaseClient.client
+    .from("Files")
+    .select("id, webflow_site_id")
+    .in("id", ids);
+
+  if (error) {
+    console.error("Error retrieving assigned files from Supabase:", error);
+    throw error;
+  }
+
+  const others = (data || []).filter((file) => file.webflow_site_id !== webflowSiteId);
+  if (others.length === 0) {
+    return;
+  }
+
+  const linked = new Set(await supabaseClient.getLinkedFileIds(webflowSiteId));
+  const foreign = others.map((file) => Number(file.id)).filter((id) => !linked.has(id));
+  if (foreign.length > 0) {
+    throw new SiteAccessError(`Files ${foreign.join(", ")} are not files of this site`);
+  }
+}
+
+/**
+ * Checks that an update only sets fields the route updates. Other columns,
+ * such as draft assignments, bundles and publish times, are written by the
+ * routes that validate them.
+ *
+ * @param fields - Fields of an update
+ * @param updatable - The fields the route updates
+ * @throws {UpdateFieldError} If the update sets any other field
+ */
+export function requireUpdatableFields(fields: Record<string, unknown>, updatable: readonly string[]): void {
+  const others = Object.keys(fields).filter((field) => !updatable.includes(field));
+  if (others.length > 0) {
+    throw new UpdateFieldError(`${others.join(", ")} cannot be updated; updatable fields are ${updatable.join(", ")}`);
+  }
+}
+
+/**
+ * Checks that an update leaves the columns tying a row to its site or owner alone.
+ *
+ * @param fields - Fields of a file, page or site update
+ * @throws {SiteAccessError} If the update sets one of them
+ */
+export function requireUnchangedOwnership(fields: Record<string, unknown>): void {
+  const field = OWNERSHIP_COLUMNS.find((column) => column in fields);
+  if (field) {
+    throw new SiteAccessError(`${field} cannot be changed`);
+  }
+}
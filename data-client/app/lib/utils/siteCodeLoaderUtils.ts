@@ -1,5 +1,5 @@
 import { ScriptController } from "../controllers/scriptControllers";
-import { generateLoaderScript } from "./loaderScript";
+import { generateLoaderScript, ScriptMode } from "./loaderScript";
 
 /**
  * Attempts to register a script with Webflow, incrementing versions if duplicates are found
@@ -59,7 +59,8 @@ export async function registerSiteCodeLoader({
   headFiles,
   bodyFiles,
   supabaseUrl,
-  supabaseKey
+  supabaseKey,
+  scriptMode = null
 }: {
   scriptController: ScriptController;
   siteId: string | number;
@@ -68,6 +69,7 @@ export async function registerSiteCodeLoader({
   bodyFiles: string[];
   supabaseUrl: string;
   supabaseKey: string;
+  scriptMode?: ScriptMode | null;
 }) {
   const results = {
     head: { registered: false, scriptId: null as string | null, error: null as string | null },
@@ -105,7 +107,8 @@ export async function registerSiteCodeLoader({
         type: 'site',
         location: 'head',
         supabaseUrl,
-        supabaseKey
+        supabaseKey,
+        scriptMode
       });
       
       const headDisplayName = `SiteHead${safeSiteId.substring(0, 8)}`;
@@ -161,7 +164,8 @@ export async function registerSiteCodeLoader({
         type: 'site',
         location: 'body',
         supabaseUrl,
-        supabaseKey
+        supabaseKey,
+        scriptMode
       });
       
       const bodyDisplayName = `SiteBody${safeSiteId.substring(0, 8)}`;
@@ -0,0 +1,295 @@
+import { createHash, randomBytes } from "crypto";
+import supabaseClient from "./supabase";
+import { isSiteRole, SITE_ROLES, SiteAccessError, type SiteRole } from "./siteAccess";
+
+/**
+ * Site Members Utility
+ * --------------------
+ * Besides its owner, a site can have members with a role on it (see
+ * `SITE_ROLES` in siteAccess.ts). Admins invite people by email; an invite
+ * carries a random token that is shown once, and whoever signs in with the
+ * invited email accepts it with that token to become a member. Only a hash
+ * of the token is stored.
+ */
+
+const INVITE_TTL_DAYS = 7;
+
+const MEMBER_COLUMNS = "user_id, email, role, invited_by, created_at";
+const INVITE_COLUMNS = "id, email, role, invited_by, created_at, expires_at";
+
+export interface SiteMember {
+  /** Webflow user ID */
+  user_id: string;
+  email: string | null;
+  role: SiteRole;
+  invited_by: string | null;
+  created_at: string;
+}
+
+export interface SiteInvite {
+  id: number;
+  email: string;
+  role: SiteRole;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * Thrown for a membership change that is not valid, e.g. an unknown role.
+ * Routes return the message with a 400 response.
+ */
+export class SiteMemberError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiteMemberError";
+  }
+}
+
+function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * @throws {SiteMemberError} If the value is not a site role
+ */
+function parseRole(role: unknown): SiteRole {
+  if (!isSiteRole(role)) {
+    throw new SiteMemberError(`role must be one of: ${SITE_ROLES.join(", ")}`);
+  }
+  return role;
+}
+
+/**
+ * @throws {SiteMemberError} If the value is not an email address
+ */
+function parseEmail(email: unknown): string {
+  const normalized = typeof email === "string" ? email.trim().toLowerCase() : "";
+  if (!/^[^\s@]+@[^\s@]+$/.test(normalized)) {
+    throw new SiteMemberError("email must be an email address");
+  }
+  return normalized;
+}
+
+/**
+ * Lists the owner and members of a site.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @returns The owner's Webflow user ID and the members, oldest first
+ */
+export async function listSiteMembers(
+  webflowSiteId: string
+): Promise<{ owner: string | null; members: SiteMember[] }> {
+  const site = await supabaseClient.getSiteById(webflowSiteId);
+
+  const { data, error } = await supabaseClient.client
+    .from("SiteMembers")
+    .select(MEMBER_COLUMNS)
+    .eq("webflow_site_id", webflowSiteId)
+    .order("created_at");
+
+  if (error) {
+    console.error("Error retrieving site members from Supabase:", error);
+    throw error;
+  }
+
+  return { owner: site?.owner ?? null, members: (data || []) as SiteMember[] };
+}
+
+/**
+ * Lists the pending invites of a site that have not expired.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ */
+export async function listSiteInvites(webflowSiteId: string): Promise<SiteInvite[]> {
+  const { data, error } = await supabaseClient.client
+    .from("SiteInvites")
+    .select(INVITE_COLUMNS)
+    .eq("webflow_site_id", webflowSiteId)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at");
+
+  if (error) {
+    console.error("Error retrieving site invites from Supabase:", error);
+    throw error;
+  }
+
+  return (data || []) as SiteInvite[];
+}
+
+/**
+ * Invites an email address to a site. Inviting an address again replaces
+ * its pending invite, so only the newest token works.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @param email - Email address of the invitee
+ * @param role - Role the invitee gets on accepting
+ * @param invitedBy - Email or ID of the inviting user
+ * @returns The invite and its token, which is not retrievable later
+ * @throws {SiteMemberError} If the email or role is not valid
+ */
+export async function createSiteInvite(
+  webflowSiteId: string,
+  email: unknown,
+  role: unknown,
+  invitedBy: string | null
+): Promise<{ invite: SiteInvite; token: string }> {
+  const token = randomBytes(24).toString("base64url");
+  const now = Date.now();
+
+  const { data, error } = await supabaseClient.client
+    .from("SiteInvites")
+    .upsert(
+      {
+        webflow_site_id: webflowSiteId,
+        email: parseEmail(email),
+        role: parseRole(role),
+        token_hash: hashInviteToken(token),
+        invited_by: invitedBy,
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(now + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      { onConflict: "webflow_site_id,email" }
+    )
+    .select(INVITE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("Error creating site invite in Supabase:", error);
+    throw error;
+  }
+
+  return { invite: data as SiteInvite, token };
+}
+
+/**
+ * Withdraws a pending invite.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @param inviteId - Primary key ID of the invite
+ * @returns Whether the site had the invite
+ */
+export async function revokeSiteInvite(webflowSiteId: string, inviteId: string | number): Promise<boolean> {
+  const { data, error } = await supabaseClient.client
+    .from("SiteInvites")
+    .delete()
+    .eq("id", inviteId)
+    .eq("webflow_site_id", webflowSiteId)
+    .select("id");
+
+  if (error) {
+    console.error("Error removing site invite from Supabase:", error);
+    throw error;
+  }
+
+  return Boolean(data?.length);
+}
+
+/**
+ * Accepts an invite, making the user a member of its site with its role.
+ * The invite is used up; accepting as the site's owner keeps them owner.
+ *
+ * @param token - The invite token
+ * @param user - The session's user, who must have the invited email
+ * @returns The site and the user's membership, or null if no pending invite has the token
+ * @throws {SiteAccessError} If the invite was sent to another email address
+ */
+export async function acceptSiteInvite(
+  token: string,
+  user: { id: string; email: string }
+): Promise<{ webflow_site_id: string; member: SiteMember } | null> {
+  const { data: invite, error } = await supabaseClient.client
+    .from("SiteInvites")
+    .select(`${INVITE_COLUMNS}, webflow_site_id`)
+    .eq("token_hash", hashInviteToken(token))
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error retrieving site invite from Supabase:", error);
+    throw error;
+  }
+  if (!invite) {
+    return null;
+  }
+  if (invite.email !== user.email?.trim().toLowerCase()) {
+    throw new SiteAccessError("This invite was sent to another email address");
+  }
+
+  const site = await supabaseClient.getSiteById(invite.webflow_site_id);
+  const member: SiteMember = {
+    user_id: user.id,
+    email: invite.email,
+    role: site?.owner === user.id ? "admin" : invite.role,
+    invited_by: invite.invited_by,
+    created_at: new Date().toISOString(),
+  };
+
+  if (site?.owner !== user.id) {
+    const { error: memberError } = await supabaseClient.client
+      .from("SiteMembers")
+      .upsert({ webflow_site_id: invite.webflow_site_id, ...member });
+
+    if (memberError) {
+      console.error("Error adding site member in Supabase:", memberError);
+      throw memberError;
+    }
+  }
+
+  await supabaseClient.client.from("SiteInvites").delete().eq("id", invite.id);
+
+  return { webflow_site_id: invite.webflow_site_id, member };
+}
+
+/**
+ * Changes a member's role.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @param userId - Webflow user ID of the member
+ * @param role - The new role
+ * @returns The updated member, or null if the user is not a member of the site
+ * @throws {SiteMemberError} If the role is not valid
+ */
+export async function updateSiteMemberRole(
+  webflowSiteId: string,
+  userId: string,
+  role: unknown
+): Promise<SiteMember | null> {
+  const { data, error } = await supabaseClient.client
+    .from("SiteMembers")
+    .update({ role: parseRole(role) })
+    .eq("webflow_site_id", webflowSiteId)
+    .eq("user_id", userId)
+    .select(MEMBER_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating site member in Supabase:", error);
+    throw error;
+  }
+
+  return data as SiteMember | null;
+}
+
+/**
+ * Removes a member from a site.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ * @param userId - Webflow user ID of the member
+ * @returns Whether the user was a member of the site
+ */
+export async function removeSiteMember(webflowSiteId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabaseClient.client
+    .from("SiteMembers")
+    .delete()
+    .eq("webflow_site_id", webflowSiteId)
+    .eq("user_id", userId)
+    .select("user_id");
+
+  if (error) {
+    console.error("Error removing site member from Supabase:", error);
+    throw error;
+  }
+
+  return Boolean(data?.length);
+}
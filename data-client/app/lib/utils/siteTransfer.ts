@@ -0,0 +1,370 @@
+import { WebflowClient } from "webflow-api";
+import supabaseClient from "./supabase";
+import { parseAssignedFileIds } from "./assignments";
+import database from "./database";
+import { FILE_LANGUAGES, FileCompileError, type FileLanguage } from "./compiler";
+import { LOAD_STRATEGIES, SCRIPT_MODES, type LoadStrategy, type ScriptMode } from "./loaderScript";
+import { applyFileChange, type FileChangeReport } from "./fileChanges";
+import { FileOrganizationError, normalizeFolder, normalizeTags } from "./fileLibrary";
+
+/**
+ * Site Transfer Utility
+ * ---------------------
+ * Exports a site's files and live file assignments to a JSON archive and
+ * imports such an archive into another site, e.g. from a staging clone to
+ * production. Page assignments are keyed by page slug, since page IDs
+ * differ between sites. Imported assignments are saved as drafts, to be
+ * previewed and published like any other assignment change.
+ */
+
+export const SITE_ARCHIVE_VERSION = 1;
+
+export interface ArchivedFile {
+  /** ID of the file on the exporting site, referenced by the assignments */
+  id: number;
+  name: string;
+  language: FileLanguage;
+  code: string;
+  load_strategy: LoadStrategy | null;
+  load_selector: string | null;
+  folder: string | null;
+  tags: string[];
+  /** Archived files this file imports through `codone:` imports */
+  dependencies: number[];
+}
+
+export interface ArchivedAssignments {
+  head_files: number[];
+  body_files: number[];
+  script_mode: ScriptMode | null;
+}
+
+export interface ArchivedPage extends ArchivedAssignments {
+  slug: string;
+  name: string;
+}
+
+export interface SiteArchive {
+  version: typeof SITE_ARCHIVE_VERSION;
+  exported_at: string;
+  source_site_id: string;
+  files: ArchivedFile[];
+  site: ArchivedAssignments;
+  pages: ArchivedPage[];
+}
+
+export interface SiteImportReport extends FileChangeReport {
+  /** Target file IDs; files are matched to the target site's own files by name */
+  files: { created: number[]; updated: number[] };
+  /** Archived page slugs with and without a page of that slug on the target site */
+  pages: { matched: string[]; unmatched: string[]; error: string | null };
+  /** Whether the site-wide assignments were imported */
+  site: boolean;
+}
+
+/**
+ * Thrown when an import body is not a valid site archive. Routes return the
+ * message with a 400 response.
+ */
+export class SiteArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiteArchiveError";
+  }
+}
+
+/**
+ * Exports a site's files and its live site and page assignments. Workspace
+ * library files linked into the site are exported as regular files. Pages
+ * are synced from Webflow first so their slugs are current; pages without a
+ * known slug are left out.
+ *
+ * @param webflowSiteId - The Webflow site to export
+ * @returns The archive, or null if the site does not exist
+ */
+export async function exportSite(webflowSiteId: string): Promise<SiteArchive | null> {
+  const site = await supabaseClient.getSiteById(webflowSiteId);
+  if (!site) {
+    return null;
+  }
+
+  const syncError = await syncPages(webflowSiteId);
+  if (syncError) {
+    console.warn(`Exporting site ${webflowSiteId} with stored page slugs:`, syncError);
+  }
+
+  const [files, pages] = await Promise.all([
+    supabaseClient.getFilesBySiteId(webflowSiteId),
+    supabaseClient.getPagesBySiteId(webflowSiteId),
+  ]);
+  const fileIds = new Set(files.map((file) => Number(file.id)));
+
+  return {
+    version: SITE_ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    source_site_id: webflowSiteId,
+    files: files.map((file) => ({
+      id: Number(file.id),
+      name: file.name,
+      language: file.language,
+      code: file.code || "",
+      load_strategy: file.load_strategy ?? null,
+      load_selector: file.load_selector ?? null,
+      folder: file.folder ?? null,
+      tags: file.tags || [],
+      dependencies: (file.dependencies || []).map(Number).filter((id: number) => fileIds.has(id)),
+    })),
+    site: toArchivedAssignments(site),
+    pages: pages
+      .filter((page) => typeof page.slug === "string")
+      .map((page) => ({ slug: page.slug, name: page.name, ...toArchivedAssignments(page) })),
+  };
+}
+
+/**
+ * Validates an import body as a site archive.
+ *
+ * @throws {SiteArchiveError} If the body is not a site archive of a supported version
+ */
+export function parseSiteArchive(value: unknown): SiteArchive {
+  const archive = value as SiteArchive;
+  if (!archive || typeof archive !== "object") {
+    throw new SiteArchiveError("The archive must be a JSON object");
+  }
+  if (archive.version !== SITE_ARCHIVE_VERSION) {
+    throw new SiteArchiveError(`Unsupported archive version ${archive.version}; expected ${SITE_ARCHIVE_VERSION}`);
+  }
+  if (!Array.isArray(archive.files) || !Array.isArray(archive.pages) || !archive.site) {
+    throw new SiteArchiveError("The archive must contain files, site and pages");
+  }
+
+  for (const file of archive.files) {
+    if (!Number.isInteger(file?.id) || typeof file.name !== "string" || !file.name) {
+      throw new SiteArchiveError("Every archived file needs a numeric id and a name");
+    }
+    if (!FILE_LANGUAGES.includes(file.language)) {
+      throw new SiteArchiveError(`File "${file.name}" has unsupported language "${file.language}"`);
+    }
+    if (file.load_strategy != null && !LOAD_STRATEGIES.includes(file.load_strategy)) {
+      throw new SiteArchiveError(`File "${file.name}" has unsupported load_strategy "${file.load_strategy}"`);
+    }
+    try {
+      file.folder = normalizeFolder(file.folder);
+      file.tags = normalizeTags(file.tags);
+    } catch (error) {
+      if (error instanceof FileOrganizationError) {
+        throw new SiteArchiveError(`File "${file.name}": ${error.message}`);
+      }
+      throw error;
+    }
+    file.code = typeof file.code === "string" ? file.code : "";
+    file.dependencies = Array.isArray(file.dependencies) ? file.dependencies : [];
+  }
+
+  const fileIds = new Set(archive.files.map((file) => file.id));
+  const checkAssignments = (assignments: ArchivedAssignments, target: string) => {
+    for (const column of ["head_files", "body_files"] as const) {
+      const ids = assignments[column];
+      if (!Array.isArray(ids) || ids.some((id) => !fileIds.has(id))) {
+        throw new SiteArchiveError(`${column} of ${target} must list archived file IDs`);
+      }
+    }
+    if (assignments.script_mode != null && !SCRIPT_MODES.includes(assignments.script_mode)) {
+      throw new SiteArchiveError(`${target} has unsupported script_mode "${assignments.script_mode}"`);
+    }
+  };
+
+  checkAssignments(archive.site, "the site");
+  for (const page of archive.pages) {
+    if (typeof page?.slug !== "string") {
+      throw new SiteArchiveError("Every archived page needs a slug");
+    }
+    checkAssignments(page, `page "${page.slug}"`);
+  }
+
+  return archive;
+}
+
+/**
+ * Imports an archive into a site. Archived files replace the code and
+ * settings of the site's own files of the same name and are created
+ * otherwise; files importing other files are imported after them. The site's
+ * assignments and those of pages with a matching slug are saved as drafts
+ * and their script modes set. Updated files are rebuilt and purged
+ * downstream as on save.
+ *
+ * @param webflowSiteId - The Webflow site to import into
+ * @param archive - A validated archive
+ * @param author - Who imported the archive, recorded on file revisions
+ * @returns What was imported, or null if the site does not exist
+ * @throws {FileCompileError} If an archived file does not build on the site;
+ *   files imported before it are kept
+ */
+export async function importSite(
+  webflowSiteId: string,
+  archive: SiteArchive,
+  author: string | null = null
+): Promise<SiteImportReport | null> {
+  const site = await supabaseClient.getSiteById(webflowSiteId);
+  if (!site) {
+    return null;
+  }
+
+  const report: SiteImportReport = {
+    files: { created: [], updated: [] },
+    pages: { matched: [], unmatched: [], error: await syncPages(webflowSiteId) },
+    site: false,
+    dependents: { rebuilt: [], failed: [], error: null },
+    bundles: { rebuilt: [], failed: [], error: null },
+    purge: { results: [], error: null },
+  };
+
+  // Only the site's own files are replaced; linked library files stay shared
+  const siteFiles = (await supabaseClient.getFilesBySiteId(webflowSiteId))
+    .filter((file) => file.webflow_site_id === webflowSiteId);
+  const existingByName = new Map(siteFiles.map((file) => [file.name as string, Number(file.id)]));
+  const idMap = new Map<number, number>();
+
+  for (const file of orderByDependencies(archive.files)) {
+    const settings = { load_strategy: file.load_strategy, load_selector: file.load_selector };
+    const existingId = existingByName.get(file.name);
+    try {
+      if (existingId !== undefined) {
+        await supabaseClient.updateFile(String(existingId), {
+          language: file.language,
+          code: file.code,
+          folder: file.folder,
+          tags: file.tags,
+          ...settings,
+        }, author);
+        idMap.set(file.id, existingId);
+        report.files.updated.push(existingId);
+      } else {
+        const created = await supabaseClient.insertFile(webflowSiteId, file.name, file.language, file.code, author, {
+          folder: file.folder,
+          tags: file.tags,
+        });
+        if (file.load_strategy) {
+          await supabaseClient.updateFile(String(created.id), settings);
+        }
+        idMap.set(file.id, Number(created.id));
+        existingByName.set(file.name, Number(created.id));
+        report.files.created.push(Number(created.id));
+      }
+    } catch (error) {
+      if (error instanceof FileCompileError) {
+        throw new FileCompileError(
+          error.diagnostics.map((diagnostic) => ({ ...diagnostic, message: `${file.name}: ${diagnostic.message}` }))
+        );
+      }
+      throw error;
+    }
+  }
+
+  const mapIds = (ids: number[]) => ids.map((id) => idMap.get(id)).filter((id): id is number => id !== undefined);
+
+  // The site row stores assignments as JSON text, pages as arrays
+  await updateRow("Sites", site.id, {
+    draft_head_files: JSON.stringify(mapIds(archive.site.head_files)),
+    draft_body_files: JSON.stringify(mapIds(archive.site.body_files)),
+    script_mode: archive.site.script_mode,
+  });
+  report.site = true;
+
+  const pagesBySlug = new Map(
+    (await supabaseClient.getPagesBySiteId(webflowSiteId))
+      .filter((page) => typeof page.slug === "string")
+      .map((page) => [page.slug as string, page])
+  );
+  for (const archived of archive.pages) {
+    const page = pagesBySlug.get(archived.slug);
+    if (!page) {
+      report.pages.unmatched.push(archived.slug);
+      continue;
+    }
+    await updateRow("Pages", page.id, {
+      draft_head_files: mapIds(archived.head_files),
+      draft_body_files: mapIds(archived.body_files),
+      script_mode: archived.script_mode,
+    });
+    report.pages.matched.push(archived.slug);
+  }
+
+  // Updated files may already be live; created ones are only in drafts so far
+  for (const id of report.files.updated) {
+    const changes = await applyFileChange(id, [webflowSiteId]);
+    report.dependents.rebuilt.push(...changes.dependents.rebuilt);
+    report.dependents.failed.push(...changes.dependents.failed);
+    report.dependents.error ??= changes.dependents.error;
+    report.bundles.rebuilt.push(...changes.bundles.rebuilt);
+    report.bundles.failed.push(...changes.bundles.failed);
+    report.bundles.error ??= changes.bundles.error;
+    report.purge.results.push(...changes.purge.results);
+    report.purge.error ??= changes.purge.error;
+  }
+
+  return report;
+}
+
+/**
+ * Syncs a site's pages from Webflow with the site's stored access token.
+ *
+ * @returns The error message if the sync failed, null otherwise
+ */
+async function syncPages(webflowSiteId: string): Promise<string | null> {
+  try {
+    const accessToken = await database.getAccessTokenFromSiteId(webflowSiteId);
+    await supabaseClient.syncPagesForSite(webflowSiteId, new WebflowClient({ accessToken }));
+    return null;
+  } catch (error) {
+    console.error(`Error syncing pages of site ${webflowSiteId}:`, error);
+    return error instanceof Error ? error.message : "Failed to sync pages from Webflow";
+  }
+}
+
+/**
+ * Returns the live assignments and script mode of a page or site row.
+ */
+function toArchivedAssignments(row: { head_files?: unknown; body_files?: unknown; script_mode?: ScriptMode | null }) {
+  return {
+    head_files: parseAssignedFileIds(row.head_files),
+    body_files: parseAssignedFileIds(row.body_files),
+    script_mode: row.script_mode ?? null,
+  };
+}
+
+/**
+ * Orders archived files so every file comes after the archived files it
+ * imports, which must exist on the target site for it to build.
+ */
+function orderByDependencies(files: ArchivedFile[]): ArchivedFile[] {
+  const ordered: ArchivedFile[] = [];
+  const placed = new Set<number>();
+  const archivedIds = new Set(files.map((file) => file.id));
+  let pending = files;
+
+  while (pending.length > 0) {
+    const ready = pending.filter((file) =>
+      file.dependencies.every((id) => placed.has(id) || !archivedIds.has(id))
+    );
+    // Imports form no cycles when bundled; if an archive claims one, keep its order
+    const next = ready.length > 0 ? ready : pending;
+    next.forEach((file) => placed.add(file.id));
+    ordered.push(...next);
+    pending = pending.filter((file) => !placed.has(file.id));
+  }
+
+  return ordered;
+}
+
+/**
+ * Updates a page or site row by its Supabase ID.
+ */
+async function updateRow(table: "Pages" | "Sites", id: string | number, fields: Record<string, unknown>) {
+  const { error } = await supabaseClient.client.from(table).update(fields).eq("id", id);
+
+  if (error) {
+    console.error(`Error importing assignments into ${table}:`, error);
+    throw error;
+  }
+}
@@ -8,6 +8,10 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import type { LoadStrategy, ScriptMode } from './loaderScript';
+import { buildFile, type FileBuild, type FileLanguage, type ModuleSource } from './compiler';
+import type { FileListFilters } from './fileLibrary';
+import { parseAssignedFileIds } from './assignments';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -32,6 +36,7 @@ interface SiteData {
   pages?: any[];
   head_files?: string;
   body_files?: string;
+  workspace_id?: string | null;
 }
 
 /**
@@ -70,6 +75,7 @@ export async function insertSite(
     pages?: any[];
     head_files?: string;
     body_files?: string;
+    workspace_id?: string | null;
   } = {
     webflow_site_id: webflowSiteId,
     owner
@@ -78,6 +84,7 @@ export async function insertSite(
   // Only include site data fields that are provided (non-null, non-undefined)
   // This ensures we don't overwrite existing data with null values during an update
   if (siteData.pages !== undefined) siteRecord.pages = siteData.pages;
+  if (siteData.workspace_id !== undefined) siteRecord.workspace_id = siteData.workspace_id;
   
   // Handle head_files
   if (siteData.head_files !== undefined) {
@@ -310,16 +317,19 @@ export async function syncPagesForSite(webflowSiteId: string, webflowClient: any
         webflow_site_id: webflowSiteId,
         webflow_page_id: page.id,
         name: pageName,
+        slug: page.slug ?? null,
         head_files: [],
         body_files: []
       });
     } else {
-      // Existing page - only update name if it changed while preserving head_files and body_files
+      // Existing page - only update name and slug if they changed while preserving head_files and body_files
       const existingPage = existingPageMap.get(page.id);
-      if (existingPage && existingPage.name !== pageName) {
+      const slug = page.slug ?? null;
+      if (existingPage && (existingPage.name !== pageName || existingPage.slug !== slug)) {
         updatedPages.push({
           ...existingPage,
-          name: pageName
+          name: pageName,
+          slug
           // Existing head_files and body_files are preserved by using the spread operator
         });
       }
@@ -446,26 +456,80 @@ function extractPageName(page: any): string {
  *
  * @param webflowSiteId - The Webflow site the file belongs to
  * @param name - Display name for the file
- * @param language - Programming language (html | css | js)
+ * @param language - Programming language (html | css | js | ts | scss)
  * @param code - Initial source code (optional, defaults to empty string)
+ * @param author - Who created the file, recorded on its first revision
+ * @param organization - Folder and tags to file it under
+ * @throws {FileCompileError} If the code does not compile or imports a missing file
  */
 export async function insertFile(
   webflowSiteId: string,
   name: string,
-  language: "html" | "css" | "js",
-  code: string = ""
+  language: FileLanguage,
+  code: string = "",
+  author: string | null = null,
+  organization: { folder?: string | null; tags?: string[] } = {}
 ) {
   if (!webflowSiteId || !name || !language) {
     throw new Error("webflowSiteId, name and language are required");
   }
 
+  const build = await buildFile(language, code, () => getSiteModules(webflowSiteId));
+  return insertFileRecord({ webflow_site_id: webflowSiteId }, name, language, code, build, author, organization);
+}
+
+/**
+ * Inserts a new file into a workspace's shared library. Library files are
+ * served on the sites they are linked into and can only import other
+ * library files of the workspace.
+ *
+ * @param workspaceId - The Webflow workspace the library belongs to
+ * @param name - Display name for the file
+ * @param language - Programming language (html | css | js | ts | scss)
+ * @param code - Initial source code (optional, defaults to empty string)
+ * @param author - Who created the file, recorded on its first revision
+ * @param organization - Folder and tags to file it under
+ * @throws {FileCompileError} If the code does not compile or imports a missing file
+ */
+export async function insertLibraryFile(
+  workspaceId: string,
+  name: string,
+  language: FileLanguage,
+  code: string = "",
+  author: string | null = null,
+  organization: { folder?: string | null; tags?: string[] } = {}
+) {
+  if (!workspaceId || !name || !language) {
+    throw new Error("workspaceId, name and language are required");
+  }
+
+  const build = await buildFile(language, code, () => getWorkspaceModules(workspaceId));
+  return insertFileRecord({ workspace_id: workspaceId }, name, language, code, build, author, organization);
+}
+
+/**
+ * Inserts a built file owned by a site or a workspace library and records
+ * its first revision.
+ */
+async function insertFileRecord(
+  scope: { webflow_site_id: string } | { workspace_id: string },
+  name: string,
+  language: FileLanguage,
+  code: string,
+  build: FileBuild,
+  author: string | null,
+  organization: { folder?: string | null; tags?: string[] }
+) {
   const { data, error } = await supabase
     .from("Files")
     .insert({
-      webflow_site_id: webflowSiteId,
+      ...scope,
       name,
       language,
       code,
+      folder: organization.folder ?? null,
+      tags: organization.tags ?? [],
+      ...build,
     })
     .select()
     .single();
@@ -475,24 +539,75 @@ export async function insertFile(
     throw error;
   }
 
+  await insertFileRevision(data, author);
+
   return data;
 }
 
 /**
- * Retrieves all files for a given Webflow site.
+ * Retrieves the files for a given Webflow site, including the workspace
+ * library files linked into it, optionally only those in a folder (including
+ * its subfolders) or having all of the given tags.
  *
  * @param webflowSiteId - The Webflow site ID to filter by
+ * @param filters - Normalized folder and tag filters
  */
-export async function getFilesBySiteId(webflowSiteId: string) {
+export async function getFilesBySiteId(webflowSiteId: string, filters: FileListFilters = {}) {
   if (!webflowSiteId) {
     throw new Error("webflowSiteId is required");
   }
 
-  const { data, error } = await supabase
-    .from("Files")
-    .select("*")
-    .eq("webflow_site_id", webflowSiteId)
-    .order("created_at", { ascending: false });
+  const linkedFileIds = await getLinkedFileIds(webflowSiteId);
+  const [siteFiles, linkedFiles] = await Promise.all([
+    listFiles("webflow_site_id", webflowSiteId, filters),
+    linkedFileIds.length > 0 ? listFiles("id", linkedFileIds, filters) : [],
+  ]);
+
+  return [...siteFiles, ...linkedFiles].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+/**
+ * Retrieves the files of a workspace's shared library, with the same filters
+ * as getFilesBySiteId.
+ *
+ * @param workspaceId - The Webflow workspace ID to filter by
+ * @param filters - Normalized folder and tag filters
+ */
+export async function getLibraryFiles(workspaceId: string, filters: FileListFilters = {}) {
+  if (!workspaceId) {
+    throw new Error("workspaceId is required");
+  }
+
+  return listFiles("workspace_id", workspaceId, filters);
+}
+
+/**
+ * Lists files matching a column value (or any of a list of IDs) and the
+ * folder and tag filters, newest first.
+ */
+async function listFiles(
+  column: "webflow_site_id" | "workspace_id" | "id",
+  value: string | number[],
+  filters: FileListFilters
+) {
+  let query = supabase.from("Files").select("*");
+  query = Array.isArray(value) ? query.in(column, value) : query.eq(column, value);
+
+  if (filters.folder === null) {
+    query = query.is("folder", null);
+  } else if (filters.folder !== undefined) {
+    // Escape LIKE's underscore wildcard; the backslash itself is doubled inside
+    // PostgREST's quoted values. Folder paths cannot contain the other special characters.
+    const prefix = filters.folder.replace(/_/g, "\\\\_");
+    query = query.or(`folder.eq."${filters.folder}",folder.like."${prefix}/*"`);
+  }
+  if (filters.tags?.length) {
+    query = query.contains("tags", filters.tags);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false });
 
   if (error) {
     console.error("Error retrieving files from Supabase:", error);
@@ -502,35 +617,393 @@ export async function getFilesBySiteId(webflowSiteId: string) {
   return data || [];
 }
 
+/**
+ * Retrieves the JavaScript and TypeScript files of a site that `codone:`
+ * imports can resolve to: its own files and the library files linked into it.
+ *
+ * @param webflowSiteId - The Webflow site ID to filter by
+ * @param excludeFileId - A file to leave out, usually the one being built
+ */
+export async function getSiteModules(
+  webflowSiteId: string,
+  excludeFileId?: string | number
+): Promise<ModuleSource[]> {
+  if (!webflowSiteId) {
+    throw new Error("webflowSiteId is required");
+  }
+
+  const linkedFileIds = await getLinkedFileIds(webflowSiteId);
+  const scope = linkedFileIds.length > 0
+    ? `webflow_site_id.eq.${webflowSiteId},id.in.(${linkedFileIds.join(",")})`
+    : `webflow_site_id.eq.${webflowSiteId}`;
+
+  return getModules(scope, excludeFileId);
+}
+
+/**
+ * Retrieves the JavaScript and TypeScript files of a workspace library that
+ * `codone:` imports in library files can resolve to.
+ *
+ * @param workspaceId - The Webflow workspace ID to filter by
+ * @param excludeFileId - A file to leave out, usually the one being built
+ */
+export async function getWorkspaceModules(
+  workspaceId: string,
+  excludeFileId?: string | number
+): Promise<ModuleSource[]> {
+  if (!workspaceId) {
+    throw new Error("workspaceId is required");
+  }
+
+  return getModules(`workspace_id.eq.${workspaceId}`, excludeFileId);
+}
+
+/**
+ * Retrieves the files a file's `codone:` imports resolve to, depending on
+ * whether it belongs to a site or a workspace library.
+ *
+ * @param file - The file's ID and owning site or workspace
+ */
+export async function getModulesForFile(file: {
+  id: string | number;
+  webflow_site_id: string | null;
+  workspace_id?: string | null;
+}): Promise<ModuleSource[]> {
+  return file.webflow_site_id
+    ? getSiteModules(file.webflow_site_id, file.id)
+    : getWorkspaceModules(file.workspace_id || "", file.id);
+}
+
+async function getModules(scope: string, excludeFileId?: string | number): Promise<ModuleSource[]> {
+  let query = supabase
+    .from("Files")
+    .select("id, name, language, code")
+    .or(scope)
+    .in("language", ["js", "ts"]);
+  if (excludeFileId !== undefined) {
+    query = query.neq("id", excludeFileId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error retrieving site modules from Supabase:", error);
+    throw error;
+  }
+
+  return (data || []).map((file) => ({
+    id: Number(file.id),
+    name: file.name,
+    language: file.language as FileLanguage,
+    code: file.code || "",
+  }));
+}
+
+/**
+ * File fields whose changes are captured in `FileRevisions`.
+ */
+const REVISIONED_FILE_FIELDS = ["name", "language", "code"] as const;
+
+/**
+ * Columns returned when listing revisions. Code is omitted to keep
+ * history listings small; fetch a single revision to get its code.
+ */
+const FILE_REVISION_SUMMARY_COLUMNS =
+  "id, file_id, webflow_site_id, name, language, author, restored_from, created_at";
+
+/**
+ * Thrown when a save is based on an older version of a file than the one
+ * stored, i.e. someone else saved it in the meantime. Carries the stored
+ * file so the editor can merge; routes return it with a 409 response.
+ */
+export class FileConflictError extends Error {
+  constructor(public readonly file: Record<string, unknown>) {
+    super("The file was changed by someone else since it was opened");
+    this.name = "FileConflictError";
+  }
+}
+
 /**
  * Updates a file record by ID.
  *
+ * Changes to name, language or code are recorded as a new immutable revision
+ * in the `FileRevisions` table so earlier versions can be restored. Load
+ * strategy, folder and tag changes are not revisioned. The file is rebuilt (bundled with the
+ * files it imports, TypeScript and SCSS compiled, then minified) whenever its
+ * code or language changes. Files importing it are not rebuilt here.
+ *
+ * With `baseUpdatedAt`, the file is only updated if its `updated_at` still
+ * matches, so edits made from an older version do not silently overwrite
+ * newer changes.
+ *
  * @param fileId - Primary key ID of the file
  * @param fields - Partial fields to update (e.g., { code })
+ * @param author - Who made the change (user email or ID), if known
+ * @param baseUpdatedAt - The `updated_at` of the version the change was made to, if known
+ * @throws {FileCompileError} If the file's code does not compile; nothing is saved
+ * @throws {FileConflictError} If the file changed since `baseUpdatedAt`; nothing is saved
  */
 export async function updateFile(
   fileId: string,
-  fields: Partial<{ name: string; language: string; code: string }>
+  fields: Partial<{
+    name: string;
+    language: FileLanguage;
+    code: string;
+    load_strategy: LoadStrategy | null;
+    load_selector: string | null;
+    folder: string | null;
+    tags: string[];
+  }>,
+  author: string | null = null,
+  baseUpdatedAt: string | null = null
 ) {
   if (!fileId) {
     throw new Error("fileId is required");
   }
 
+  const isRevisioned = REVISIONED_FILE_FIELDS.some((field) => field in fields);
+  const buildFields = await withBuildOutput(fileId, fields);
+
+  // Files created before revision history existed have no snapshot yet;
+  // record their current state first so this save can be undone
+  if (isRevisioned) {
+    await ensureBaselineRevision(fileId);
+  }
+
+  let query = supabase.from("Files").update(buildFields).eq("id", fileId);
+  if (baseUpdatedAt) {
+    query = query.eq("updated_at", baseUpdatedAt);
+  }
+  const { data, error } = await query.select().maybeSingle();
+
+  if (error) {
+    console.error("Error updating file in Supabase:", error);
+    throw error;
+  }
+
+  if (!data) {
+    const { data: current, error: currentError } = await supabase
+      .from("Files")
+      .select("*")
+      .eq("id", fileId)
+      .single();
+
+    if (currentError) {
+      console.error("Error retrieving file from Supabase:", currentError);
+      throw currentError;
+    }
+    throw new FileConflictError(current);
+  }
+
+  if (isRevisioned) {
+    await insertFileRevision(data, author);
+  }
+
+  return data;
+}
+
+/**
+ * Adds the build output to a file update that changes its code or language,
+ * reading whichever of the two is not being updated from the file.
+ */
+async function withBuildOutput<T extends { language?: FileLanguage; code?: string }>(
+  fileId: string,
+  fields: T
+): Promise<T & Partial<FileBuild>> {
+  if (fields.language === undefined && fields.code === undefined) {
+    return fields;
+  }
+
   const { data, error } = await supabase
     .from("Files")
-    .update(fields)
+    .select("id, webflow_site_id, workspace_id, language, code")
     .eq("id", fileId)
-    .select()
     .single();
 
   if (error) {
-    console.error("Error updating file in Supabase:", error);
+    console.error("Error retrieving file to build from Supabase:", error);
+    throw error;
+  }
+
+  const language = fields.language ?? (data.language as FileLanguage);
+  const code = fields.code ?? (data.code as string);
+  const build = await buildFile(language, code || "", () => getModulesForFile(data));
+
+  return { ...fields, ...build };
+}
+
+/**
+ * Records an immutable snapshot of a file in the `FileRevisions` table.
+ *
+ * @param file - The file row to snapshot
+ * @param author - Who made the change (user email or ID), if known
+ * @param restoredFrom - ID of the revision this snapshot was restored from, if any
+ */
+export async function insertFileRevision(
+  file: { id: string | number; webflow_site_id: string | null; name: string; language: string; code: string | null },
+  author: string | null = null,
+  restoredFrom: string | number | null = null
+) {
+  const { data, error } = await supabase
+    .from("FileRevisions")
+    .insert({
+      file_id: file.id,
+      webflow_site_id: file.webflow_site_id,
+      name: file.name,
+      language: file.language,
+      code: file.code ?? "",
+      author,
+      restored_from: restoredFrom,
+    })
+    .select(FILE_REVISION_SUMMARY_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("Error inserting file revision into Supabase:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Snapshots a file's current state if it has no revisions yet.
+ *
+ * @param fileId - Primary key ID of the file
+ */
+async function ensureBaselineRevision(fileId: string) {
+  const { count, error } = await supabase
+    .from("FileRevisions")
+    .select("id", { count: "exact", head: true })
+    .eq("file_id", fileId);
+
+  if (error) {
+    console.error("Error counting file revisions in Supabase:", error);
+    throw error;
+  }
+
+  if (count) return;
+
+  const { data: file, error: fileError } = await supabase
+    .from("Files")
+    .select("*")
+    .eq("id", fileId)
+    .single();
+
+  if (fileError) {
+    console.error("Error retrieving file from Supabase:", fileError);
+    throw fileError;
+  }
+
+  await insertFileRevision(file);
+}
+
+/**
+ * Lists the revisions of a file, newest first. Code is not included.
+ *
+ * @param fileId - Primary key ID of the file
+ */
+export async function getFileRevisions(fileId: string) {
+  if (!fileId) {
+    throw new Error("fileId is required");
+  }
+
+  const { data, error } = await supabase
+    .from("FileRevisions")
+    .select(FILE_REVISION_SUMMARY_COLUMNS)
+    .eq("file_id", fileId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (error) {
+    console.error("Error retrieving file revisions from Supabase:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Retrieves a single revision of a file, including its code.
+ *
+ * @param fileId - Primary key ID of the file
+ * @param revisionId - Primary key ID of the revision
+ * @returns The revision or null if it does not exist for this file
+ */
+export async function getFileRevision(fileId: string, revisionId: string) {
+  if (!fileId || !revisionId) {
+    throw new Error("fileId and revisionId are required");
+  }
+
+  const { data, error } = await supabase
+    .from("FileRevisions")
+    .select("*")
+    .eq("file_id", fileId)
+    .eq("id", revisionId)
+    .single();
+
+  // PGRST116 is the error code for "no rows returned"
+  if (error && error.code !== "PGRST116") {
+    console.error("Error retrieving file revision from Supabase:", error);
     throw error;
   }
 
   return data;
 }
 
+/**
+ * Restores a file to the name, language and code of one of its revisions.
+ * The restore itself is recorded as a new revision pointing at the source.
+ *
+ * @param fileId - Primary key ID of the file
+ * @param revisionId - Primary key ID of the revision to restore
+ * @param author - Who performed the restore, if known
+ * @returns The updated file and the new revision, or null if the revision does not exist
+ * @throws {FileCompileError} If the revision's code no longer compiles or imports a missing file
+ */
+export async function restoreFileRevision(
+  fileId: string,
+  revisionId: string,
+  author: string | null = null
+) {
+  const revision = await getFileRevision(fileId, revisionId);
+  if (!revision) {
+    return null;
+  }
+
+  const { data: owner, error: ownerError } = await supabase
+    .from("Files")
+    .select("id, webflow_site_id, workspace_id")
+    .eq("id", fileId)
+    .single();
+
+  if (ownerError) {
+    console.error("Error retrieving file to restore from Supabase:", ownerError);
+    throw ownerError;
+  }
+
+  const { data: file, error } = await supabase
+    .from("Files")
+    .update({
+      name: revision.name,
+      language: revision.language,
+      code: revision.code,
+      ...(await buildFile(revision.language, revision.code || "", () => getModulesForFile(owner))),
+    })
+    .eq("id", fileId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error restoring file revision in Supabase:", error);
+    throw error;
+  }
+
+  const newRevision = await insertFileRevision(file, author, revision.id);
+
+  return { file, revision: newRevision };
+}
+
 /**
  * Updates a page record by ID.
  *
@@ -539,7 +1012,14 @@ export async function updateFile(
  */
 export async function updatePage(
   pageId: string,
-  fields: Partial<{ head_files: string[]; body_files: string[]; name: string }>
+  fields: Partial<{
+    head_files: string[];
+    body_files: string[];
+    draft_head_files: string[] | null;
+    draft_body_files: string[] | null;
+    name: string;
+    script_mode: ScriptMode | null;
+  }>
 ) {
   if (!pageId) {
     throw new Error("pageId is required");
@@ -560,6 +1040,220 @@ export async function updatePage(
   return data;
 }
 
+/**
+ * Builds the update that promotes a row's draft assignments to live.
+ * Returns null when the row has no pending draft.
+ */
+function buildPublishFields(row: {
+  head_files?: unknown;
+  body_files?: unknown;
+  draft_head_files?: unknown;
+  draft_body_files?: unknown;
+}) {
+  if (row.draft_head_files == null && row.draft_body_files == null) {
+    return null;
+  }
+
+  return {
+    head_files: row.draft_head_files ?? row.head_files,
+    body_files: row.draft_body_files ?? row.body_files,
+    draft_head_files: null,
+    draft_body_files: null,
+    published_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Publishes a page's draft file assignments, making them live.
+ *
+ * @param pageId - Primary key ID of the page
+ * @returns The page and whether anything was published
+ */
+export async function publishPage(pageId: string) {
+  if (!pageId) {
+    throw new Error("pageId is required");
+  }
+
+  const { data: page, error } = await supabase
+    .from("Pages")
+    .select("*")
+    .eq("id", pageId)
+    .single();
+
+  if (error) {
+    console.error("Error retrieving page from Supabase:", error);
+    throw error;
+  }
+
+  const publishFields = buildPublishFields(page);
+  if (!publishFields) {
+    return { page, published: false };
+  }
+
+  const { data, error: updateError } = await supabase
+    .from("Pages")
+    .update(publishFields)
+    .eq("id", pageId)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error("Error publishing page in Supabase:", updateError);
+    throw updateError;
+  }
+
+  return { page: data, published: true };
+}
+
+/**
+ * Publishes a site's draft site-wide file assignments, making them live.
+ *
+ * @param webflowSiteId - The unique identifier for the Webflow site
+ * @returns The site and whether anything was published
+ */
+export async function publishSite(webflowSiteId: string) {
+  if (!webflowSiteId) {
+    throw new Error("webflowSiteId is required");
+  }
+
+  const { data: site, error } = await supabase
+    .from("Sites")
+    .select("*")
+    .eq("webflow_site_id", webflowSiteId)
+    .single();
+
+  if (error) {
+    console.error("Error retrieving site from Supabase:", error);
+    throw error;
+  }
+
+  const publishFields = buildPublishFields(site);
+  if (!publishFields) {
+    return { site, published: false };
+  }
+
+  const { data, error: updateError } = await supabase
+    .from("Sites")
+    .update(publishFields)
+    .eq("webflow_site_id", webflowSiteId)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error("Error publishing site in Supabase:", updateError);
+    throw updateError;
+  }
+
+  return { site: data, published: true };
+}
+
+/**
+ * Returns the locations ('head'/'body') where a row's live assignments include the file.
+ */
+function getAssignedLocations(
+  row: { head_files?: unknown; body_files?: unknown },
+  fileId: number
+) {
+  const locations: ("head" | "body")[] = [];
+  if (parseAssignedFileIds(row.head_files).includes(fileId)) locations.push("head");
+  if (parseAssignedFileIds(row.body_files).includes(fileId)) locations.push("body");
+  return locations;
+}
+
+/**
+ * Finds the pages and site whose live head/body assignments include a file.
+ * Draft assignments are ignored since previews are never cached.
+ *
+ * @param fileId - Primary key ID of the file
+ * @param webflowSiteId - The Webflow site the file belongs to
+ * @returns Referencing pages and the site, each with the locations they use the file in
+ */
+export async function getFileReferences(fileId: string | number, webflowSiteId: string) {
+  if (!webflowSiteId) {
+    throw new Error("webflowSiteId is required");
+  }
+
+  const id = Number(fileId);
+  const [pages, site] = await Promise.all([
+    getPagesBySiteId(webflowSiteId),
+    getSiteById(webflowSiteId),
+  ]);
+
+  const pageReferences = pages
+    .map((page) => ({
+      id: String(page.id),
+      webflow_page_id: page.webflow_page_id as string,
+      locations: getAssignedLocations(page, id),
+    }))
+    .filter((page) => page.locations.length > 0);
+
+  const siteLocations = site ? getAssignedLocations(site, id) : [];
+
+  return {
+    pages: pageReferences,
+    site: site && siteLocations.length > 0
+      ? { id: String(site.id), locations: siteLocations }
+      : null,
+  };
+}
+
+/**
+ * Returns the IDs of the workspace library files linked into a site.
+ *
+ * @param webflowSiteId - The Webflow site ID
+ */
+export async function getLinkedFileIds(webflowSiteId: string): Promise<number[]> {
+  const { data, error } = await supabase
+    .from("SiteFileLinks")
+    .select("file_id")
+    .eq("webflow_site_id", webflowSiteId);
+
+  if (error) {
+    console.error("Error retrieving linked library files from Supabase:", error);
+    throw error;
+  }
+
+  return (data || []).map((link) => Number(link.file_id));
+}
+
+/**
+ * Returns the sites a file is served on: the site that owns it, or every
+ * site a workspace library file is linked into.
+ *
+ * @param fileId - Primary key ID of the file
+ * @returns Webflow site IDs, empty if the file does not exist
+ */
+export async function getFileSiteIds(fileId: string | number): Promise<string[]> {
+  const { data: file, error } = await supabase
+    .from("Files")
+    .select("webflow_site_id")
+    .eq("id", fileId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error retrieving file from Supabase:", error);
+    throw error;
+  }
+  if (!file) {
+    return [];
+  }
+  if (file.webflow_site_id) {
+    return [file.webflow_site_id];
+  }
+
+  const { data: links, error: linksError } = await supabase
+    .from("SiteFileLinks")
+    .select("webflow_site_id")
+    .eq("file_id", fileId);
+
+  if (linksError) {
+    console.error("Error retrieving library file links from Supabase:", linksError);
+    throw linksError;
+  }
+
+  return (links || []).map((link) => link.webflow_site_id as string);
+}
+
 /**
  * Supabase client and utility functions for site operations
  */
@@ -571,9 +1265,23 @@ const supabaseClient = {
   getPagesBySiteId,
   syncPagesForSite,
   insertFile,
+  insertLibraryFile,
   getFilesBySiteId,
+  getLibraryFiles,
+  getSiteModules,
+  getWorkspaceModules,
+  getModulesForFile,
+  getLinkedFileIds,
+  getFileSiteIds,
   updateFile,
   updatePage,
+  insertFileRevision,
+  getFileRevisions,
+  getFileRevision,
+  restoreFileRevision,
+  publishPage,
+  publishSite,
+  getFileReferences,
   client: supabase
 };
 
@@ -0,0 +1,97 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+/**
+ * Token Encryption Utility
+ * ------------------------
+ * Webflow access tokens are stored encrypted with AES-256-GCM under the key
+ * in TOKEN_ENCRYPTION_KEY (32 bytes, base64 or hex encoded; generate one with
+ * `openssl rand -base64 32`). An encrypted token is stored as
+ * `v1:<base64 of IV, auth tag and ciphertext>`, so a tampered value or one
+ * encrypted under another key fails to decrypt instead of yielding garbage.
+ *
+ * Tokens are looked up by their SHA-256 hash, e.g. to mark every
+ * authorization using a revoked token.
+ */
+
+const FORMAT_VERSION = "v1";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Thrown when tokens cannot be encrypted or decrypted: the key is missing or
+ * malformed, or a stored token was encrypted under another key.
+ */
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenEncryptionError";
+  }
+}
+
+/**
+ * Reads the encryption key from the environment.
+ *
+ * @throws {TokenEncryptionError} If TOKEN_ENCRYPTION_KEY is not a 32-byte key
+ */
+function getEncryptionKey(): Buffer {
+  const value = process.env.TOKEN_ENCRYPTION_KEY?.trim();
+  if (!value) {
+    throw new TokenEncryptionError("TOKEN_ENCRYPTION_KEY is not set");
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== 32) {
+    throw new TokenEncryptionError("TOKEN_ENCRYPTION_KEY must be 32 bytes, base64 or hex encoded");
+  }
+  return key;
+}
+
+/**
+ * Encrypts a token for storage.
+ *
+ * @param token - The plaintext token
+ * @returns The encrypted token
+ * @throws {TokenEncryptionError} If the key is not configured
+ */
+export function encryptToken(token: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return `${FORMAT_VERSION}:${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64")}`;
+}
+
+/**
+ * Decrypts a stored token.
+ *
+ * @param value - A token returned by `encryptToken`
+ * @returns The plaintext token
+ * @throws {TokenEncryptionError} If the key is not configured or the value does not decrypt with it
+ */
+export function decryptToken(value: string): string {
+  const [version, payload] = value.split(":");
+  if (version !== FORMAT_VERSION || !payload) {
+    throw new TokenEncryptionError("The stored token is not encrypted");
+  }
+
+  const data = Buffer.from(payload, "base64");
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString("utf8");
+  } catch (error) {
+    if (error instanceof TokenEncryptionError) {
+      throw error;
+    }
+    throw new TokenEncryptionError("The stored token does not decrypt with TOKEN_ENCRYPTION_KEY");
+  }
+}
+
+/**
+ * Hashes a token for lookups, so stored tokens can be found without decrypting them.
+ *
+ * @param token - The plaintext token
+ * @returns The SHA-256 hex digest
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { WebflowError } from "webflow-api";
+import database, { AuthorizationRevokedError } from "./database";
+
+/**
+ * Webflow Authorization Utility
+ * -----------------------------
+ * Webflow answers requests made with a revoked access token (the app was
+ * uninstalled or its access withdrawn) with 401. Routes calling Webflow pass
+ * such errors here: the token's authorizations are marked revoked, so later
+ * requests stop using it, and the route responds 401 with
+ * `reauthorize: true`, which the Designer Extension answers by asking the
+ * user to authorize the app again.
+ */
+
+/**
+ * Whether an error is Webflow rejecting the access token.
+ *
+ * @param error - An error thrown by the Webflow client, or a raw API response
+ */
+export function isRevokedTokenError(error: unknown): boolean {
+  if (error instanceof WebflowError) {
+    return error.statusCode === 401;
+  }
+  return error instanceof Response && error.status === 401;
+}
+
+/**
+ * Marks the authorizations using an access token revoked if Webflow rejected it.
+ *
+ * @param error - The error of a Webflow request made with the token
+ * @param accessToken - The token the request was made with
+ * @returns Whether the token was rejected
+ */
+export async function revokeIfRejected(error: unknown, accessToken: string | null | undefined): Promise<boolean> {
+  if (!accessToken || !isRevokedTokenError(error)) {
+    return false;
+  }
+  try {
+    await database.revokeAccessToken(accessToken);
+  } catch (revokeError) {
+    console.error("Error marking the Webflow authorization revoked:", revokeError);
+  }
+  return true;
+}
+
+/**
+ * The response for a request whose Webflow authorization was revoked.
+ */
+export function reauthorizeResponse(message = new AuthorizationRevokedError().message) {
+  return NextResponse.json({ error: message, reauthorize: true }, { status: 401 });
+}
+
+/**
+ * Responds to a failed Webflow request: if Webflow rejected the access token,
+ * marks it revoked and returns the 401 asking the user to authorize again.
+ *
+ * @param error - The error of a Webflow request made with the token
+ * @param accessToken - The token the request was made with
+ * @returns The 401 response, or null if the error is not a rejected token
+ */
+export async function handleRevokedToken(
+  error: unknown,
+  accessToken: string | null | undefined
+): Promise<NextResponse | null> {
+  return (await revokeIfRejected(error, accessToken)) ? reauthorizeResponse() : null;
+}
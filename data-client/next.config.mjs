@@ -9,8 +9,9 @@ async headers() {
     const currentEnv = process.env.NODE_ENV || 'development';
     
     return [
+    // Every API route except the live reload endpoints below
     {
-        source: "/api/:path*",
+        source: "/api/:path((?!dev/live/).*)",
         headers: [
         { key: "Access-Control-Allow-Credentials", value: "true" },
         {
@@ -28,6 +29,14 @@ async headers() {
         },
         ],
     },
+    // Live reload events and client are requested from pages of the published
+    // site, on any origin and without credentials
+    {
+        source: "/api/dev/live/:path+",
+        headers: [
+        { key: "Access-Control-Allow-Origin", value: "*" },
+        ],
+    },
     ];
 },
 
@@ -43,6 +52,11 @@ async rewrites() {
 eslint: {
     ignoreDuringBuilds: true,
 },
+
+// The file compilers ship native and Dart-compiled code that must not be bundled
+experimental: {
+    serverComponentsExternalPackages: ["esbuild", "sass"],
+},
 };
 
 export default nextConfig;
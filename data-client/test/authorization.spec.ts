@@ -0,0 +1,596 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "../app/lib/utils/jwt";
+import * as fileRoute from "../app/api/files/[fileId]/route";
+import * as libraryLinkRoute from "../app/api/library/[fileId]/link/route";
+import * as filesRoute from "../app/api/files/route";
+import * as pageRoute from "../app/api/pages/[pageId]/route";
+import * as pagePublishRoute from "../app/api/pages/[pageId]/publish/route";
+import * as auditRoute from "../app/api/audit/route";
+import * as acceptInviteRoute from "../app/api/invites/accept/route";
+import * as siteInvitesRoute from "../app/api/sites/[siteId]/invites/route";
+import * as siteMemberRoute from "../app/api/sites/[siteId]/members/[userId]/route";
+import * as siteMembersRoute from "../app/api/sites/[siteId]/members/route";
+import * as siteRoute from "../app/api/sites/[siteId]/route";
+import * as sitePublishRoute from "../app/api/sites/[siteId]/publish/route";
+import * as supabaseSitesRoute from "../app/api/supabase-sites/route";
+import * as supabaseSiteRoute from "../app/api/supabase-sites/site/route";
+import { registerCodeLoader } from "../app/lib/utils/codeLoaderUtils";
+import type { Row } from "./supabaseFake";
+
+// Answers the Supabase client's requests; see supabaseFake.ts
+const supabase = await vi.hoisted(async () => {
+  const { installSupabaseFake } = await import("./supabaseFake");
+  return installSupabaseFake();
+});
+
+// Sessions resolve to a Webflow access token without the SQLite database
+vi.mock("../app/lib/utils/database", () => ({
+  default: {
+    getAccessTokenFromUserId: async (userId: string) => `webflow-token-${userId}`,
+  },
+}));
+
+// Assigning files registers the code loader with Webflow
+vi.mock("../app/lib/utils/codeLoaderUtils", () => ({
+  registerCodeLoader: vi.fn(async () => []),
+}));
+
+// Alice owns site-a in workspace ws-a, Bob owns site-b in workspace ws-b.
+// File 30 is a library file of Bob's workspace; file 40 is a library file of
+// Alice's workspace linked into site-a. Vera, Ed and Pat are a viewer, an
+// editor and a publisher of site-a.
+function seed() {
+  supabase.writes.length = 0;
+  Object.assign(supabase.tables, {
+    Sites: [
+      { id: 1, webflow_site_id: "site-a", owner: "user-a", workspace_id: "ws-a", pages: [], head_files: [], body_files: [] },
+      { id: 2, webflow_site_id: "site-b", owner: "user-b", workspace_id: "ws-b", pages: [], head_files: [], body_files: [] },
+    ],
+    Files: [
+      { id: 10, webflow_site_id: "site-a", workspace_id: null, name: "alice.js", language: "js", code: "alice()" },
+      { id: 20, webflow_site_id: "site-b", workspace_id: null, name: "bob.js", language: "js", code: "bob()" },
+      { id: 30, webflow_site_id: null, workspace_id: "ws-b", name: "bob-library.js", language: "js", code: "lib()" },
+      { id: 40, webflow_site_id: null, workspace_id: "ws-a", name: "alice-library.js", language: "js", code: "lib()" },
+    ],
+    SiteFileLinks: [{ webflow_site_id: "site-a", file_id: 40 }],
+    Pages: [
+      { id: 100, webflow_site_id: "site-a", webflow_page_id: "page-a", name: "Alice Home", head_files: [], body_files: [] },
+      { id: 200, webflow_site_id: "site-b", webflow_page_id: "page-b", name: "Bob Home", head_files: [], body_files: [] },
+    ],
+    SiteMembers: [
+      { webflow_site_id: "site-a", user_id: "user-v", email: "user-v@example.com", role: "viewer" },
+      { webflow_site_id: "site-a", user_id: "user-e", email: "user-e@example.com", role: "editor" },
+      { webflow_site_id: "site-a", user_id: "user-p", email: "user-p@example.com", role: "publisher" },
+    ],
+    SiteInvites: [],
+    AuditLog: [],
+  });
+}
+
+async function sessionFor(userId: string) {
+  const { sessionToken } = await jwt.createSessionToken({ id: userId, email: `${userId}@example.com` });
+  return sessionToken;
+}
+
+function request(path: string, token: string, method = "GET", body?: unknown) {
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+let alice: string;
+
+beforeEach(async () => {
+  seed();
+  vi.mocked(registerCodeLoader).mockClear();
+  alice = await sessionFor("user-a");
+});
+
+describe("files", () => {
+  it("returns the owner's file", async () => {
+    const res = await fileRoute.GET(request("/api/files/10", alice), { params: { fileId: "10" } });
+    expect(res.status).toBe(200);
+    expect((await res.json()).file.name).toBe("alice.js");
+  });
+
+  it("rejects reading a file of another user's site", async () => {
+    const res = await fileRoute.GET(request("/api/files/20", alice), { params: { fileId: "20" } });
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects updating a file of another user's site", async () => {
+    const res = await fileRoute.PUT(request("/api/files/20", alice, "PUT", { code: "stolen()" }), {
+      params: { fileId: "20" },
+    });
+    expect(res.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+    expect(supabase.tables.Files.find((file) => file.id === 20)?.code).toBe("bob()");
+  });
+
+  it("rejects deleting a file of another user's site", async () => {
+    const res = await fileRoute.DELETE(request("/api/files/20", alice, "DELETE"), { params: { fileId: "20" } });
+    expect(res.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("rejects moving the owner's file into another site", async () => {
+    const res = await fileRoute.PUT(request("/api/files/10", alice, "PUT", { webflow_site_id: "site-b" }), {
+      params: { fileId: "10" },
+    });
+    expect(res.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("rejects setting built code or unknown fields directly", async () => {
+    for (const fields of [
+      { minified_code: "injected()" },
+      { compiled_code: "injected()" },
+      { updated_at: "2100-01-01T00:00:00Z" },
+      { color: "red" },
+    ]) {
+      const res = await fileRoute.PUT(request("/api/files/10", alice, "PUT", fields), { params: { fileId: "10" } });
+      expect(res.status).toBe(400);
+    }
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("gives access to library files of the user's workspaces only", async () => {
+    const own = await fileRoute.GET(request("/api/files/40", alice), { params: { fileId: "40" } });
+    expect(own.status).toBe(200);
+
+    const foreign = await fileRoute.GET(request("/api/files/30", alice), { params: { fileId: "30" } });
+    expect(foreign.status).toBe(403);
+  });
+
+  it("rejects listing and creating files on another user's site", async () => {
+    const list = await filesRoute.GET(request("/api/files?siteId=site-b", alice));
+    expect(list.status).toBe(403);
+
+    const create = await filesRoute.POST(
+      request("/api/files", alice, "POST", { siteId: "site-b", name: "planted.js", language: "js", code: "planted()" })
+    );
+    expect(create.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("rejects a valid session of a user without a site", async () => {
+    const mallory = await sessionFor("user-m");
+    const res = await fileRoute.GET(request("/api/files/10", mallory), { params: { fileId: "10" } });
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("pages", () => {
+  it("returns the owner's page", async () => {
+    const res = await pageRoute.GET(request("/api/pages/100", alice), { params: { pageId: "100" } });
+    expect(res.status).toBe(200);
+    expect((await res.json()).page.name).toBe("Alice Home");
+  });
+
+  it("rejects reading a page of another user's site", async () => {
+    const res = await pageRoute.GET(request("/api/pages/200", alice), { params: { pageId: "200" } });
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects updating a page of another user's site", async () => {
+    const res = await pageRoute.PUT(request("/api/pages/200", alice, "PUT", { head_files: [10] }), {
+      params: { pageId: "200" },
+    });
+    expect(res.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+    expect(registerCodeLoader).not.toHaveBeenCalled();
+  });
+
+  it("rejects assigning files of another user's site or workspace", async () => {
+    for (const fileId of [20, 30]) {
+      const res = await pageRoute.PUT(request("/api/pages/100", alice, "PUT", { body_files: [10, fileId] }), {
+        params: { pageId: "100" },
+      });
+      expect(res.status).toBe(403);
+    }
+    expect(supabase.writes).toEqual([]);
+    expect(registerCodeLoader).not.toHaveBeenCalled();
+  });
+
+  it("rejects setting draft assignments or bundles directly", async () => {
+    for (const body of [
+      { draft_head_files: [20] },
+      { draft_body_files: [10] },
+      { head_bundle: { file_ids: [20], files: [] } },
+      { body_bundle: null },
+    ]) {
+      const res = await pageRoute.PUT(request("/api/pages/100", alice, "PUT", body), { params: { pageId: "100" } });
+      expect(res.status).toBe(400);
+    }
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("rejects files of another site assigned as objects or JSON text", async () => {
+    for (const body of [{ head_files: [{ id: 20 }] }, { body_files: [10, { id: "30" }] }, { head_files: "[20]" }]) {
+      const res = await pageRoute.PUT(request("/api/pages/100", alice, "PUT", body), { params: { pageId: "100" } });
+      expect(res.status).toBe(403);
+    }
+    expect(supabase.writes).toEqual([]);
+    expect(registerCodeLoader).not.toHaveBeenCalled();
+  });
+
+  it("assigns the site's files and linked library files", async () => {
+    const res = await pageRoute.PUT(request("/api/pages/100", alice, "PUT", { head_files: [10, 40] }), {
+      params: { pageId: "100" },
+    });
+    expect(res.status).toBe(200);
+    expect(supabase.tables.Pages.find((page) => page.id === 100)?.draft_head_files).toEqual([10, 40]);
+    expect(registerCodeLoader).toHaveBeenCalledOnce();
+  });
+});
+
+describe("sites", () => {
+  it("returns the owner's site", async () => {
+    const res = await siteRoute.GET(request("/api/sites/site-a", alice), { params: { siteId: "site-a" } });
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects reading or updating another user's site", async () => {
+    const read = await siteRoute.GET(request("/api/sites/site-b", alice), { params: { siteId: "site-b" } });
+    expect(read.status).toBe(403);
+
+    const update = await siteRoute.PUT(request("/api/sites/site-b", alice, "PUT", { head_files: [10] }), {
+      params: { siteId: "site-b" },
+    });
+    expect(update.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("rejects setting draft assignments, bundles or live reload directly", async () => {
+    for (const body of [
+      { draft_head_files: [20] },
+      { draft_body_files: "[20]" },
+      { body_bundle: { file_ids: [20], files: [] } },
+      { live_reload_url: "https://attacker.example/live.js" },
+    ]) {
+      const res = await siteRoute.PUT(request("/api/sites/site-a", alice, "PUT", body), {
+        params: { siteId: "site-a" },
+      });
+      expect(res.status).toBe(400);
+    }
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("rejects files of another site assigned as objects or JSON text", async () => {
+    for (const body of [{ body_files: [{ id: 20 }] }, { head_files: "[30]" }]) {
+      const res = await siteRoute.PUT(request("/api/sites/site-a", alice, "PUT", body), {
+        params: { siteId: "site-a" },
+      });
+      expect(res.status).toBe(403);
+    }
+
+    const create = await supabaseSitesRoute.POST(
+      request("/api/supabase-sites", alice, "POST", { webflow_site_id: "site-a", head_files: "[20]" })
+    );
+    expect(create.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("rejects handing the owner's site to another user", async () => {
+    const res = await siteRoute.PUT(request("/api/sites/site-a", alice, "PUT", { owner: "user-b" }), {
+      params: { siteId: "site-a" },
+    });
+    expect(res.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+});
+
+describe("supabase-sites", () => {
+  it("lists only the user's sites", async () => {
+    const res = await supabaseSitesRoute.GET(request("/api/supabase-sites", alice));
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    expect(data.map((site: Row) => site.webflow_site_id)).toEqual(["site-a"]);
+  });
+
+  it("rejects reading another user's site", async () => {
+    const own = await supabaseSiteRoute.GET(request("/api/supabase-sites/site?id=site-a", alice));
+    expect(own.status).toBe(200);
+
+    const foreign = await supabaseSiteRoute.GET(request("/api/supabase-sites/site?id=site-b", alice));
+    expect(foreign.status).toBe(403);
+  });
+
+  it("rejects updating another user's site", async () => {
+    const res = await supabaseSitesRoute.POST(
+      request("/api/supabase-sites", alice, "POST", { webflow_site_id: "site-b", owner: "user-a", pages: [] })
+    );
+    expect(res.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("makes the creator the owner of a new site", async () => {
+    const res = await supabaseSitesRoute.POST(
+      request("/api/supabase-sites", alice, "POST", { webflow_site_id: "site-c", owner: "user-b" })
+    );
+    expect(res.status).toBe(200);
+    expect(supabase.writes).toEqual([
+      { method: "POST", table: "Sites", body: expect.objectContaining({ webflow_site_id: "site-c", owner: "user-a" }) },
+    ]);
+  });
+});
+
+describe("roles", () => {
+  it("lets viewers browse but not change files", async () => {
+    const vera = await sessionFor("user-v");
+
+    const read = await fileRoute.GET(request("/api/files/10", vera), { params: { fileId: "10" } });
+    expect(read.status).toBe(200);
+
+    const library = await fileRoute.GET(request("/api/files/40", vera), { params: { fileId: "40" } });
+    expect(library.status).toBe(200);
+
+    const update = await fileRoute.PUT(request("/api/files/10", vera, "PUT", { code: "changed()" }), {
+      params: { fileId: "10" },
+    });
+    expect(update.status).toBe(403);
+    expect((await update.json()).error).toBe("This requires the editor role on the site");
+
+    const remove = await fileRoute.DELETE(request("/api/files/10", vera, "DELETE"), { params: { fileId: "10" } });
+    expect(remove.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("lets editors draft assignments but not publish them", async () => {
+    const ed = await sessionFor("user-e");
+
+    const draft = await pageRoute.PUT(request("/api/pages/100", ed, "PUT", { head_files: [10] }), {
+      params: { pageId: "100" },
+    });
+    expect(draft.status).toBe(200);
+    expect(supabase.tables.Pages.find((page) => page.id === 100)?.draft_head_files).toEqual([10]);
+
+    supabase.writes.length = 0;
+    const publish = await pagePublishRoute.POST(request("/api/pages/100/publish", ed, "POST"), {
+      params: { pageId: "100" },
+    });
+    expect(publish.status).toBe(403);
+    expect((await publish.json()).error).toBe("This requires the publisher role on the site");
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("lets only publishing make assignments live", async () => {
+    const ed = await sessionFor("user-e");
+    const live = [
+      { head_bundle: { file_ids: [10], files: [{ id: 10, code: "changed()" }] } },
+      { body_bundle: null },
+      { published_at: "2025-06-01T00:00:00Z" },
+    ];
+
+    for (const body of live) {
+      const page = await pageRoute.PUT(request("/api/pages/100", ed, "PUT", body), { params: { pageId: "100" } });
+      expect(page.status).toBe(400);
+
+      const site = await siteRoute.PUT(request("/api/sites/site-a", ed, "PUT", body), {
+        params: { siteId: "site-a" },
+      });
+      expect(site.status).toBe(400);
+    }
+    expect(supabase.writes).toEqual([]);
+
+    const publish = await sitePublishRoute.POST(request("/api/sites/site-a/publish", ed, "POST"), {
+      params: { siteId: "site-a" },
+    });
+    expect(publish.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+  });
+
+  it("lists the sites the user is a member of", async () => {
+    const vera = await sessionFor("user-v");
+    const res = await supabaseSitesRoute.GET(request("/api/supabase-sites", vera));
+    const { data } = await res.json();
+    expect(data.map((site: Row) => site.webflow_site_id)).toEqual(["site-a"]);
+  });
+
+  it("reports the user's role with the site's members", async () => {
+    const pat = await sessionFor("user-p");
+    const res = await siteMembersRoute.GET(request("/api/sites/site-a/members", pat), { params: { siteId: "site-a" } });
+    expect(res.status).toBe(200);
+    const { role, owner, members } = await res.json();
+    expect(role).toBe("publisher");
+    expect(owner).toBe("user-a");
+    expect(members.map((member: Row) => member.user_id)).toEqual(["user-v", "user-e", "user-p"]);
+
+    const owners = await siteMembersRoute.GET(request("/api/sites/site-a/members", alice), {
+      params: { siteId: "site-a" },
+    });
+    expect((await owners.json()).role).toBe("admin");
+  });
+
+  it("lets only admins change other members", async () => {
+    const ed = await sessionFor("user-e");
+    const promote = await siteMemberRoute.PUT(
+      request("/api/sites/site-a/members/user-e", ed, "PUT", { role: "admin" }),
+      { params: { siteId: "site-a", userId: "user-e" } }
+    );
+    expect(promote.status).toBe(403);
+
+    const removeOther = await siteMemberRoute.DELETE(request("/api/sites/site-a/members/user-v", ed, "DELETE"), {
+      params: { siteId: "site-a", userId: "user-v" },
+    });
+    expect(removeOther.status).toBe(403);
+    expect(supabase.writes).toEqual([]);
+
+    const leave = await siteMemberRoute.DELETE(request("/api/sites/site-a/members/user-e", ed, "DELETE"), {
+      params: { siteId: "site-a", userId: "user-e" },
+    });
+    expect(leave.status).toBe(200);
+
+    const demote = await siteMemberRoute.PUT(
+      request("/api/sites/site-a/members/user-p", alice, "PUT", { role: "viewer" }),
+      { params: { siteId: "site-a", userId: "user-p" } }
+    );
+    expect(demote.status).toBe(200);
+    expect(supabase.tables.SiteMembers.map((member) => [member.user_id, member.role])).toEqual([
+      ["user-v", "viewer"],
+      ["user-p", "viewer"],
+    ]);
+  });
+});
+
+describe("library", () => {
+  it("refuses to unlink a file the site still assigns, in any entry form", async () => {
+    const unlink = () =>
+      libraryLinkRoute.DELETE(request("/api/library/40/link", alice, "DELETE", { siteId: "site-a" }), {
+        params: { fileId: "40" },
+      });
+
+    supabase.tables.Pages[0].draft_head_files = [{ id: 40 }];
+    expect((await unlink()).status).toBe(409);
+
+    supabase.tables.Pages[0].draft_head_files = null;
+    supabase.tables.Sites[0].body_files = '[{"id":"40"}]';
+    expect((await unlink()).status).toBe(409);
+    expect(supabase.tables.SiteFileLinks).toEqual([{ webflow_site_id: "site-a", file_id: 40 }]);
+  });
+});
+
+describe("invites", () => {
+  async function invite(token: string, body: Row) {
+    return siteInvitesRoute.POST(request("/api/sites/site-a/invites", token, "POST", body), {
+      params: { siteId: "site-a" },
+    });
+  }
+
+  function accept(token: string, inviteToken: string) {
+    return acceptInviteRoute.POST(request("/api/invites/accept", token, "POST", { token: inviteToken }));
+  }
+
+  it("makes the invited user a member with the invite's role", async () => {
+    const created = await invite(alice, { email: "User-C@example.com", role: "editor" });
+    expect(created.status).toBe(201);
+    const { invite: pending, token } = await created.json();
+    expect(pending).toMatchObject({ email: "user-c@example.com", role: "editor", invited_by: "user-a@example.com" });
+    expect(supabase.tables.SiteInvites[0].token_hash).not.toBe(token);
+
+    const carol = await sessionFor("user-c");
+    const before = await fileRoute.GET(request("/api/files/10", carol), { params: { fileId: "10" } });
+    expect(before.status).toBe(403);
+
+    const accepted = await accept(carol, token);
+    expect(accepted.status).toBe(200);
+    expect((await accepted.json()).member).toMatchObject({ user_id: "user-c", role: "editor" });
+    expect(supabase.tables.SiteInvites).toEqual([]);
+
+    const after = await fileRoute.GET(request("/api/files/10", carol), { params: { fileId: "10" } });
+    expect(after.status).toBe(200);
+
+    const again = await accept(carol, token);
+    expect(again.status).toBe(404);
+  });
+
+  it("rejects invites accepted with another email", async () => {
+    const { token } = await (await invite(alice, { email: "user-c@example.com", role: "admin" })).json();
+    const mallory = await sessionFor("user-m");
+    const res = await accept(mallory, token);
+    expect(res.status).toBe(403);
+    expect(supabase.tables.SiteMembers.some((member) => member.user_id === "user-m")).toBe(false);
+  });
+
+  it("rejects expired invites", async () => {
+    const { token } = await (await invite(alice, { email: "user-c@example.com", role: "viewer" })).json();
+    supabase.tables.SiteInvites[0].expires_at = new Date(Date.now() - 1000).toISOString();
+    const res = await accept(await sessionFor("user-c"), token);
+    expect(res.status).toBe(404);
+  });
+
+  it("lets only admins invite, with a known role", async () => {
+    const pat = await sessionFor("user-p");
+    const denied = await invite(pat, { email: "user-c@example.com", role: "viewer" });
+    expect(denied.status).toBe(403);
+
+    const invalid = await invite(alice, { email: "user-c@example.com", role: "owner" });
+    expect(invalid.status).toBe(400);
+    expect(supabase.tables.SiteInvites).toEqual([]);
+  });
+});
+
+describe("audit", () => {
+  it("records who changed a page's assignments and from where", async () => {
+    const ed = await sessionFor("user-e");
+    const req = request("/api/pages/100", ed, "PUT", { head_files: [10] });
+    req.headers.set("Origin", "https://designer.example.com");
+    req.headers.set("X-Forwarded-For", "203.0.113.7, 10.0.0.1");
+    const res = await pageRoute.PUT(req, { params: { pageId: "100" } });
+    expect(res.status).toBe(200);
+
+    expect(supabase.tables.AuditLog).toEqual([
+      expect.objectContaining({
+        webflow_site_id: "site-a",
+        actor_id: "user-e",
+        actor: "user-e@example.com",
+        action: "page.update",
+        target_type: "page",
+        target_id: "100",
+        summary: { before: {}, after: { draft_head_files: [10] } },
+        origin: "https://designer.example.com",
+        ip_address: "203.0.113.7",
+      }),
+    ]);
+  });
+
+  it("lists workspace library changes for the workspace's sites only", async () => {
+    const link = await libraryLinkRoute.DELETE(
+      request("/api/library/40/link", alice, "DELETE", { siteId: "site-a" }),
+      { params: { fileId: "40" } }
+    );
+    expect(link.status).toBe(200);
+    supabase.tables.AuditLog.push({
+      id: 2,
+      webflow_site_id: null,
+      workspace_id: "ws-a",
+      action: "file.create",
+      target_type: "file",
+      target_id: "40",
+    });
+
+    const res = await auditRoute.GET(request("/api/audit?siteId=site-a", alice));
+    expect(res.status).toBe(200);
+    const { entries, next_cursor } = await res.json();
+    expect(entries.map((entry: Row) => entry.action)).toEqual(["file.create", "library.unlink"]);
+    expect(next_cursor).toBeNull();
+
+    const bob = await sessionFor("user-b");
+    const other = await auditRoute.GET(request("/api/audit?siteId=site-b", bob));
+    expect((await other.json()).entries).toEqual([]);
+  });
+
+  it("filters and pages through the log", async () => {
+    supabase.tables.AuditLog = Array.from({ length: 5 }, (_, index) => ({
+      id: index + 1,
+      webflow_site_id: "site-a",
+      action: index % 2 ? "page.publish" : "file.update",
+      target_type: index % 2 ? "page" : "file",
+      target_id: "1",
+    }));
+    const vera = await sessionFor("user-v");
+
+    const first = await (await auditRoute.GET(request("/api/audit?siteId=site-a&limit=2", vera))).json();
+    expect(first.entries.map((entry: Row) => entry.id)).toEqual([5, 4]);
+    expect(first.next_cursor).toBe(4);
+
+    const second = await (
+      await auditRoute.GET(request(`/api/audit?siteId=site-a&limit=2&before=${first.next_cursor}`, vera))
+    ).json();
+    expect(second.entries.map((entry: Row) => entry.id)).toEqual([3, 2]);
+
+    const updates = await (await auditRoute.GET(request("/api/audit?siteId=site-a&action=file.update", vera))).json();
+    expect(updates.entries.map((entry: Row) => entry.id)).toEqual([5, 3, 1]);
+
+    const invalid = await auditRoute.GET(request("/api/audit?siteId=site-a&limit=500", vera));
+    expect(invalid.status).toBe(400);
+  });
+
+  it("rejects reading another user's audit log", async () => {
+    const res = await auditRoute.GET(request("/api/audit?siteId=site-b", alice));
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,164 @@
+import { execFileSync } from "child_process";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "../app/lib/utils/jwt";
+import { pullSiteToGit, pushSiteFromGit, readSiteTree, type GitSyncConfig } from "../app/lib/utils/gitSync";
+import * as gitPushRoute from "../app/api/sites/[siteId]/git/push/route";
+
+// Answers the Supabase client's requests; see supabaseFake.ts
+const supabase = await vi.hoisted(async () => {
+  const { installSupabaseFake } = await import("./supabaseFake");
+  return installSupabaseFake();
+});
+
+// Sessions resolve to a Webflow access token without the SQLite database;
+// page slugs are not synced from Webflow, the stored ones are used
+vi.mock("../app/lib/utils/database", () => ({
+  default: {
+    getAccessTokenFromUserId: async (userId: string) => `webflow-token-${userId}`,
+    getAccessTokenFromSiteId: async () => {
+      throw new Error("No access token found or site does not exist");
+    },
+  },
+}));
+
+// Site site-s, owned by Ann, has a stylesheet assigned site-wide and a script
+// assigned to its home page.
+function seed() {
+  supabase.writes.length = 0;
+  Object.assign(supabase.tables, {
+    Sites: [{ id: 1, webflow_site_id: "site-s", owner: "user-a", head_files: "[10]", body_files: "[]" }],
+    Files: [
+      { id: 10, webflow_site_id: "site-s", name: "styles.css", language: "css", code: "body{}", folder: "theme" },
+      { id: 11, webflow_site_id: "site-s", name: "main.js", language: "js", code: "main()" },
+    ],
+    FileRevisions: [],
+    SiteFileLinks: [],
+    SiteMembers: [],
+    AuditLog: [],
+    Pages: [{ id: 100, webflow_site_id: "site-s", webflow_page_id: "page-s", slug: "home", head_files: [], body_files: [11] }],
+  });
+}
+
+function git(cwd: string, ...args: string[]) {
+  return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@localhost", ...args], { cwd })
+    .toString()
+    .trim();
+}
+
+let dir: string;
+let config: GitSyncConfig;
+
+beforeEach(async () => {
+  seed();
+  dir = await mkdtemp(join(tmpdir(), "git-sync-"));
+  config = { remote: join(dir, "remote.git"), branch: "main" };
+  git(dir, "init", "--quiet", "--bare", config.remote);
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Clones the sync branch, lets `change` edit the working copy and pushes the
+ * result as a new commit.
+ */
+async function commitToRemote(change: (siteDir: string) => Promise<void>) {
+  const clone = join(dir, "clone");
+  await rm(clone, { recursive: true, force: true });
+  git(dir, "clone", "--quiet", "--branch", config.branch, config.remote, clone);
+  await change(join(clone, "site-s"));
+  git(clone, "add", "--all");
+  git(clone, "commit", "--quiet", "-m", "Edit in git");
+  git(clone, "push", "--quiet", "origin", config.branch);
+  return git(clone, "rev-parse", "HEAD");
+}
+
+describe("pull", () => {
+  it("commits the site's tree and pushes it", async () => {
+    const result = await pullSiteToGit("site-s", "ann@example.com", config);
+
+    expect(result).toMatchObject({ branch: "main", changed: true });
+    expect(result?.commit).toBe(git(config.remote, "rev-parse", "main"));
+    expect(git(config.remote, "log", "-1", "--format=%an <%ae>", "main")).toBe("ann <ann@example.com>");
+    expect(git(config.remote, "show", "main:site-s/files/theme/styles.css")).toBe("body{}");
+    expect(git(config.remote, "show", "main:site-s/files/main.js")).toBe("main()");
+
+    const manifest = JSON.parse(git(config.remote, "show", "main:site-s/codone.json"));
+    expect(manifest.site.head_files).toEqual(["files/theme/styles.css"]);
+    expect(manifest.pages).toEqual([expect.objectContaining({ slug: "home", body_files: ["files/main.js"] })]);
+  });
+
+  it("pushes nothing when the repository is up to date", async () => {
+    const first = await pullSiteToGit("site-s", null, config);
+    const second = await pullSiteToGit("site-s", null, config);
+
+    expect(second).toEqual({ branch: "main", commit: first?.commit, changed: false });
+  });
+});
+
+describe("push", () => {
+  it("imports the tree at the head of the branch", async () => {
+    await pullSiteToGit("site-s", null, config);
+    await commitToRemote(async (siteDir) => {
+      await writeFile(join(siteDir, "files/main.js"), "edited()");
+      // Files without a manifest entry are typed by their extension
+      await writeFile(join(siteDir, "files/extra.css"), "p{}");
+    });
+
+    const result = await pushSiteFromGit("site-s", null, null, config);
+
+    expect(result?.commit).toBe(git(config.remote, "rev-parse", "main"));
+    expect(result?.files.updated).toEqual(expect.arrayContaining([10, 11]));
+    expect(supabase.tables.Files.find((file) => file.id === 11)?.code).toBe("edited()");
+    expect(supabase.tables.Files.find((file) => file.name === "extra.css")).toMatchObject({
+      webflow_site_id: "site-s",
+      code: "p{}",
+    });
+  });
+
+  it("round-trips a pull back into the site at an earlier commit", async () => {
+    const pulled = await pullSiteToGit("site-s", null, config);
+    await commitToRemote((siteDir) => writeFile(join(siteDir, "files/main.js"), "edited()"));
+
+    const result = await pushSiteFromGit("site-s", pulled!.commit, null, config);
+
+    expect(result?.commit).toBe(pulled?.commit);
+    expect(supabase.tables.Files.find((file) => file.id === 11)?.code).toBe("main()");
+    expect(supabase.tables.Sites[0].draft_head_files).toBe("[10]");
+    expect(supabase.tables.Pages[0].draft_body_files).toEqual([11]);
+  });
+
+  it("skips symlinks in the site's tree", async () => {
+    const siteDir = join(dir, "site-s");
+    await mkdir(join(siteDir, "files"), { recursive: true });
+    await writeFile(join(siteDir, "codone.json"), JSON.stringify({ version: 1, files: {}, site: {}, pages: [] }));
+    await writeFile(join(siteDir, "files/main.js"), "main()");
+    await symlink("/etc/passwd", join(siteDir, "files/passwd.js"));
+
+    const archive = await readSiteTree(siteDir, "site-s");
+
+    expect(archive.files.map((file) => file.name)).toEqual(["main.js"]);
+  });
+
+  it("rejects a commit that is not a commit hash", async () => {
+    const { sessionToken } = await jwt.createSessionToken({ id: "user-a", email: "ann@example.com" });
+
+    for (const commit of ["main", "--upload-pack=touch /tmp/pwned", "HEAD~1"]) {
+      const res = await gitPushRoute.POST(
+        new NextRequest("http://localhost/api/sites/site-s/git/push", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${sessionToken}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ commit }),
+        }),
+        { params: { siteId: "site-s" } }
+      );
+      expect(res.status).toBe(400);
+    }
+    expect(supabase.writes).toEqual([]);
+  });
+});
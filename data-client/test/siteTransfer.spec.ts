@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { exportSite, importSite, parseSiteArchive } from "../app/lib/utils/siteTransfer";
+
+// Answers the Supabase client's requests; see supabaseFake.ts
+const supabase = await vi.hoisted(async () => {
+  const { installSupabaseFake } = await import("./supabaseFake");
+  return installSupabaseFake();
+});
+
+// Page slugs are not synced from Webflow; the stored ones are used
+vi.mock("../app/lib/utils/database", () => ({
+  default: {
+    getAccessTokenFromSiteId: async () => {
+      throw new Error("No access token found or site does not exist");
+    },
+  },
+}));
+
+// Staging (site-s) is exported into production (site-p), which already has a
+// file of the same name as one of staging's files.
+function seed() {
+  supabase.writes.length = 0;
+  Object.assign(supabase.tables, {
+    Sites: [
+      { id: 1, webflow_site_id: "site-s", head_files: '[{"id":10}]', body_files: "[]" },
+      { id: 2, webflow_site_id: "site-p", head_files: "[]", body_files: "[]" },
+    ],
+    Files: [
+      { id: 10, webflow_site_id: "site-s", name: "styles.css", language: "css", code: "body{}" },
+      { id: 11, webflow_site_id: "site-s", name: "main.js", language: "js", code: "main()" },
+      { id: 20, webflow_site_id: "site-p", name: "main.js", language: "js", code: "old()" },
+    ],
+    FileRevisions: [],
+    SiteFileLinks: [],
+    Pages: [
+      { id: 100, webflow_site_id: "site-s", webflow_page_id: "page-s", slug: "home", head_files: [], body_files: [{ id: 11 }, 10] },
+      { id: 200, webflow_site_id: "site-p", webflow_page_id: "page-p", slug: "home", head_files: [], body_files: [] },
+    ],
+  });
+}
+
+beforeEach(seed);
+
+describe("site transfer", () => {
+  it("exports assignments of file IDs and { id } objects alike", async () => {
+    const archive = await exportSite("site-s");
+
+    expect(archive?.site).toMatchObject({ head_files: [10], body_files: [] });
+    expect(archive?.pages).toEqual([expect.objectContaining({ slug: "home", head_files: [], body_files: [11, 10] })]);
+  });
+
+  it("imports an export into another site as drafts", async () => {
+    const archive = parseSiteArchive(JSON.parse(JSON.stringify(await exportSite("site-s"))));
+    const report = await importSite("site-p", archive);
+
+    const created = supabase.tables.Files.find((file) => file.webflow_site_id === "site-p" && file.name === "styles.css");
+    expect(report?.files).toEqual({ created: [created?.id], updated: [20] });
+    expect(supabase.tables.Files.find((file) => file.id === 20)?.code).toBe("main()");
+
+    expect(supabase.tables.Sites[1].draft_head_files).toBe(JSON.stringify([created?.id]));
+    expect(supabase.tables.Pages[1].draft_body_files).toEqual([20, created?.id]);
+    expect(report?.pages).toMatchObject({ matched: ["home"], unmatched: [] });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * An in-memory stand-in for Supabase's REST API, for specs calling routes and
+ * utilities that use the service-role client. It answers the filters,
+ * ordering, upserts and single-row reads those make from plain row arrays
+ * and records every write.
+ */
+
+export type Row = Record<string, unknown>;
+
+export interface Write {
+  method: string;
+  table: string;
+  body: unknown;
+}
+
+export interface SupabaseFake {
+  tables: Record<string, Row[]>;
+  writes: Write[];
+}
+
+/**
+ * Replaces `fetch` with the fake. The Supabase client binds `fetch` when it
+ * is created on import, so specs install the fake in `vi.hoisted`, before any
+ * module is loaded.
+ */
+export function installSupabaseFake(): SupabaseFake {
+  const tables: Record<string, Row[]> = {};
+  const writes: Write[] = [];
+  // Upserts without `on_conflict` merge on the primary key
+  const primaryKeys: Record<string, string[]> = { SiteMembers: ["webflow_site_id", "user_id"] };
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  const matches = (row: Row, column: string, filter: string) => {
+    const [operator, ...rest] = filter.split(".");
+    const value = rest.join(".");
+    const cell = row[column];
+    const compare =
+      typeof cell === "number" ? cell - Number(value) : String(cell ?? "").localeCompare(value);
+    switch (operator) {
+      case "eq":
+        return String(cell) === value;
+      case "neq":
+        return String(cell) !== value;
+      case "is":
+        return value === "null" ? cell == null : String(cell) === value;
+      case "gt":
+        return compare > 0;
+      case "lt":
+        return compare < 0;
+      case "in":
+        return value
+          .replace(/^\(|\)$/g, "")
+          .split(",")
+          .map((item) => item.replace(/^"|"$/g, ""))
+          .includes(String(cell));
+      default:
+        return true;
+    }
+  };
+
+  const fetchFake = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const table = url.pathname.replace("/rest/v1/", "");
+    const method = init?.method ?? "GET";
+    const headers = new Headers(init?.headers);
+    const single = headers.get("Accept") === "application/vnd.pgrst.object+json";
+    const rows = (tables[table] ??= []);
+
+    const filters = [...url.searchParams].filter(
+      ([key]) => !["select", "order", "limit", "offset", "on_conflict", "columns", "or"].includes(key)
+    );
+    // `or=(column.operator.value,...)` matches rows matching any of its filters
+    const alternatives = url.searchParams
+      .getAll("or")
+      .map((group) => group.replace(/^\(|\)$/g, "").split(",").map((filter) => filter.split(/\.([\s\S]*)/)));
+    const isMatch = (row: Row) =>
+      filters.every(([column, filter]) => matches(row, column, filter)) &&
+      alternatives.every((group) => group.some(([column, filter]) => matches(row, column, filter)));
+
+    let result: Row[];
+    if (method === "GET" || method === "HEAD") {
+      result = rows.filter(isMatch);
+      const [orderColumn, direction] = url.searchParams.get("order")?.split(",")[0].split(".") ?? [];
+      if (orderColumn) {
+        const sign = direction === "desc" ? -1 : 1;
+        const compare = (a: unknown, b: unknown) =>
+          typeof a === "number" && typeof b === "number" ? a - b : String(a ?? "").localeCompare(String(b ?? ""));
+        result = [...result].sort((a, b) => sign * compare(a[orderColumn], b[orderColumn]));
+      }
+      const limit = url.searchParams.get("limit");
+      if (limit) result = result.slice(0, Number(limit));
+    } else {
+      const body = init?.body ? JSON.parse(String(init.body)) : null;
+      writes.push({ method, table, body });
+      if (method === "PATCH") {
+        result = rows.filter(isMatch);
+        result.forEach((row) => Object.assign(row, body));
+      } else if (method === "DELETE") {
+        result = rows.filter(isMatch);
+        tables[table] = rows.filter((row) => !isMatch(row));
+      } else {
+        const conflict = url.searchParams.get("on_conflict")?.split(",") ?? primaryKeys[table] ?? ["id"];
+        const upsert = headers.get("Prefer")?.includes("resolution=merge-duplicates");
+        result = [body].flat().map((values: Row) => {
+          const existing = upsert && rows.find((row) => conflict.every((column) => row[column] === values[column]));
+          if (existing) return Object.assign(existing, values);
+          const row = { id: Math.max(0, ...rows.map((other) => Number(other.id) || 0)) + 1, ...values };
+          rows.push(row);
+          return row;
+        });
+      }
+    }
+
+    if (single) {
+      return result.length === 1
+        ? json(result[0])
+        : json(
+            {
+              code: "PGRST116",
+              message: "JSON object requested, multiple (or no) rows returned",
+              details: `The result contains ${result.length} rows`,
+            },
+            406
+          );
+    }
+    return json(result);
+  };
+
+  globalThis.fetch = fetchFake as typeof fetch;
+  return { tables, writes };
+}
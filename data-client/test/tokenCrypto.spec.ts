@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { decryptToken, encryptToken, hashToken, TokenEncryptionError } from "../app/lib/utils/tokenCrypto";
+
+describe("token encryption", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("decrypts what it encrypted without storing the token in the clear", () => {
+    const encrypted = encryptToken("webflow-access-token");
+
+    expect(encrypted).toMatch(/^v1:/);
+    expect(encrypted).not.toContain("webflow-access-token");
+    expect(encryptToken("webflow-access-token")).not.toBe(encrypted);
+    expect(decryptToken(encrypted)).toBe("webflow-access-token");
+  });
+
+  it("rejects tampered tokens, tokens of another key and plaintext", () => {
+    const encrypted = encryptToken("webflow-access-token");
+    const data = Buffer.from(encrypted.slice(3), "base64");
+    data[data.length - 1] ^= 1;
+
+    expect(() => decryptToken(`v1:${data.toString("base64")}`)).toThrow(TokenEncryptionError);
+    expect(() => decryptToken("webflow-access-token")).toThrow(TokenEncryptionError);
+
+    vi.stubEnv("TOKEN_ENCRYPTION_KEY", "ab".repeat(32));
+    expect(() => decryptToken(encrypted)).toThrow(TokenEncryptionError);
+  });
+
+  it("requires a 32-byte key", () => {
+    vi.stubEnv("TOKEN_ENCRYPTION_KEY", "");
+    expect(() => encryptToken("webflow-access-token")).toThrow("TOKEN_ENCRYPTION_KEY is not set");
+
+    vi.stubEnv("TOKEN_ENCRYPTION_KEY", "c2hvcnQ=");
+    expect(() => encryptToken("webflow-access-token")).toThrow(TokenEncryptionError);
+  });
+
+  it("hashes tokens for lookups", () => {
+    expect(hashToken("webflow-access-token")).toBe(hashToken("webflow-access-token"));
+    expect(hashToken("webflow-access-token")).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.spec.ts"],
+    // The Supabase client is created on import, so tests provide its URL;
+    // requests to it are answered by the fake in the tests
+    env: {
+      NEXT_PUBLIC_SUPABASE_URL: "https://supabase.test",
+      WEBFLOW_CLIENT_SECRET: "test-client-secret",
+      TOKEN_ENCRYPTION_KEY: "dGVzdC10b2tlbi1lbmNyeXB0aW9uLWtleS0zMi1ieXQ=",
+    },
+  },
+});
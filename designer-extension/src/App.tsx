@@ -1,5 +1,6 @@
 import { useEffect, useState, useRef } from "react";
 import { ThemeProvider, Box } from "@mui/material";
+import { useQueryClient } from "@tanstack/react-query";
 
 // Components
 import { Dashboard } from "./components/Dashboard";
@@ -37,7 +38,18 @@ type AuthPhase = "MEMBERSTACK_LOGIN" | "WEBFLOW_AUTHORIZE" | "AUTHENTICATED";
 function AppContent() {
   const [authPhase, setAuthPhase] = useState<AuthPhase>("MEMBERSTACK_LOGIN");
   const [hasClickedFetch, setHasClickedFetch] = useState(false);
-  const { user, sessionToken, exchangeAndVerifyIdToken, logout, isAuthLoading } = useAuth();
+  const {
+    user,
+    sessionToken,
+    exchangeAndVerifyIdToken,
+    logout,
+    isAuthLoading,
+    getAuthorizationStatus,
+    expireSession,
+  } = useAuth();
+  const queryClient = useQueryClient();
+  const [authorizationRevoked, setAuthorizationRevoked] = useState(false);
+  const isCheckingAuthorization = useRef(false);
   const { sites, isLoading: sitesLoading, isError: sitesIsError, error: sitesError, fetchSites } = useSites(
     sessionToken,
     hasClickedFetch
@@ -69,6 +81,49 @@ function AppContent() {
 
   }, [sessionToken, authPhase, exchangeAndVerifyIdToken, isAuthLoading]);
 
+  // Requests fail with 401 once Webflow revokes the app's access. When one
+  // fails, ask the Data Client whether that is why, and if so have the user
+  // authorize the app again.
+  useEffect(() => {
+    if (!sessionToken) {
+      return;
+    }
+
+    const checkAuthorization = async () => {
+      if (isCheckingAuthorization.current) {
+        return;
+      }
+      isCheckingAuthorization.current = true;
+      try {
+        if ((await getAuthorizationStatus()) === "revoked") {
+          console.log("Webflow authorization was revoked. Asking the user to authorize again.");
+          hasAttemptedTokenExchange.current = true;
+          setAuthorizationRevoked(true);
+          setAuthPhase("WEBFLOW_AUTHORIZE");
+          expireSession();
+        }
+      } finally {
+        isCheckingAuthorization.current = false;
+      }
+    };
+
+    const unsubscribeQueries = queryClient.getQueryCache().subscribe((event) => {
+      if (event.type === "updated" && event.action.type === "error") {
+        checkAuthorization();
+      }
+    });
+    const unsubscribeMutations = queryClient.getMutationCache().subscribe((event) => {
+      if (event.type === "updated" && event.action.type === "error") {
+        checkAuthorization();
+      }
+    });
+
+    return () => {
+      unsubscribeQueries();
+      unsubscribeMutations();
+    };
+  }, [sessionToken, queryClient, getAuthorizationStatus, expireSession]);
+
   // Handle the fetch sites button click
   const handleFetchSites = () => {
     setHasClickedFetch(true);
@@ -86,6 +141,7 @@ function AppContent() {
     hasAttemptedTokenExchange.current = false;
     exchangeAndVerifyIdToken().then(token => {
       if (token) {
+        setAuthorizationRevoked(false);
         setAuthPhase("AUTHENTICATED");
       }
     });
@@ -107,13 +163,17 @@ function AppContent() {
           onFetchSites={handleFetchSites}
           logout={() => {
             logout();
+            setAuthorizationRevoked(false);
             setAuthPhase("MEMBERSTACK_LOGIN");
             hasAttemptedTokenExchange.current = false;
           }}
           setHasClickedFetch={setHasClickedFetch}
         />
       ) : authPhase === "WEBFLOW_AUTHORIZE" ? (
-        <WebflowAuthorizeScreen onAuthorized={handleWebflowAuthorizationCompleted} />
+        <WebflowAuthorizeScreen
+          onAuthorized={handleWebflowAuthorizationCompleted}
+          revoked={authorizationRevoked}
+        />
       ) : (
         <AuthScreen onAuth={handleMemberstackLoginSuccess} />
       )}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  IconButton,
+  List,
+  ListItem,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import { useAuth } from "../hooks/useAuth";
+import { useAuditLog } from "../hooks/useAuditLog";
+import { AuditEntry, AuditTargetType } from "../types/types";
+
+interface ActivityPanelProps {
+  siteId: string;
+}
+
+const TARGET_LABELS: Record<AuditTargetType, string> = {
+  file: "File",
+  page: "Page",
+  site: "Site",
+  custom_code: "Custom code",
+};
+
+/**
+ * Describes what an entry changed: the fields of its summary, or for code
+ * the new length.
+ */
+function describeChange(entry: AuditEntry): string {
+  const { before, after } = entry.summary;
+  const fields = Object.keys(after || before || {});
+  if (fields.length === 0) {
+    return "No field changes";
+  }
+  return fields
+    .map((field) => {
+      const value = (after || before)?.[field];
+      if (field === "code" && value && typeof value === "object" && "length" in value) {
+        return `code (${(value as { length: number }).length} chars)`;
+      }
+      return field;
+    })
+    .join(", ");
+}
+
+/**
+ * Dashboard card listing the site's audit log: who changed which file, page,
+ * site or custom code script, and when. Filterable by target type and user.
+ */
+export function ActivityPanel({ siteId }: ActivityPanelProps) {
+  const { sessionToken } = useAuth();
+  const [targetType, setTargetType] = useState<AuditTargetType | "">("");
+  // The user filter applies on Enter or blur rather than on each keystroke
+  const [actorInput, setActorInput] = useState("");
+  const [actor, setActor] = useState("");
+
+  const {
+    entries,
+    isLoading,
+    isError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useAuditLog(siteId, sessionToken || "", { targetType, actor });
+
+  return (
+    <Card
+      elevation={0}
+      sx={{
+        borderRadius: 2,
+        border: '1px solid',
+        borderColor: 'divider',
+        bgcolor: 'background.paper'
+      }}
+    >
+      <CardContent sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+          <Typography variant="h3" color="text.primary" sx={{ flexGrow: 1 }}>
+            Activity
+          </Typography>
+          <Select
+            size="small"
+            value={targetType}
+            displayEmpty
+            onChange={(e) => setTargetType(e.target.value as AuditTargetType | "")}
+            sx={{ minWidth: 130, fontSize: '0.8rem' }}
+          >
+            <MenuItem value="">All changes</MenuItem>
+            {(Object.keys(TARGET_LABELS) as AuditTargetType[]).map((type) => (
+              <MenuItem key={type} value={type}>{TARGET_LABELS[type]}</MenuItem>
+            ))}
+          </Select>
+          <TextField
+            size="small"
+            placeholder="User email"
+            value={actorInput}
+            onChange={(e) => setActorInput(e.target.value)}
+            onBlur={() => setActor(actorInput.trim())}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") setActor(actorInput.trim());
+            }}
+            sx={{ width: 180, '& input': { fontSize: '0.8rem' } }}
+          />
+          <Tooltip title="Refresh">
+            <IconButton size="small" onClick={() => refetch()} sx={{ color: 'text.secondary' }}>
+              <RefreshIcon sx={{ fontSize: '1.1rem' }} />
+            </IconButton>
+          </Tooltip>
+        </Box>
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : isError ? (
+          <Typography color="error" variant="body2">
+            Failed to load activity.
+          </Typography>
+        ) : entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No activity yet. Changes to files, pages and the site appear here.
+          </Typography>
+        ) : (
+          <List dense disablePadding sx={{ maxHeight: 360, overflowY: 'auto' }}>
+            {entries.map((entry) => (
+              <ListItem
+                key={entry.id}
+                disableGutters
+                sx={{
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: 1.5,
+                  borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+                }}
+              >
+                <Chip
+                  label={entry.action}
+                  size="small"
+                  sx={{ height: 20, fontSize: '0.7rem', fontFamily: 'monospace', bgcolor: 'rgba(67, 83, 255, 0.2)', color: '#73AFFF' }}
+                />
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography sx={{ fontSize: '0.8rem', color: 'text.primary' }}>
+                    {TARGET_LABELS[entry.target_type] || entry.target_type} {entry.target_id}
+                    <Box component="span" sx={{ color: 'text.secondary' }}> · {describeChange(entry)}</Box>
+                  </Typography>
+                  <Tooltip title={[entry.origin, entry.ip_address, entry.user_agent].filter(Boolean).join(" · ") || "Unknown origin"}>
+                    <Typography sx={{ fontSize: '0.75rem', color: 'text.secondary', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                      {entry.actor || "Unknown user"} · {new Date(entry.created_at).toLocaleString()}
+                    </Typography>
+                  </Tooltip>
+                </Box>
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {hasNextPage && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+            <Button size="small" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
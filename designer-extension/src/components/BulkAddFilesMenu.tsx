@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Button, ListSubheader, Menu, MenuItem, Typography } from "@mui/material";
+import FolderIcon from "@mui/icons-material/Folder";
+import LocalOfferIcon from "@mui/icons-material/LocalOffer";
+import PlaylistAddIcon from "@mui/icons-material/PlaylistAdd";
+import { SiteFile } from "../types/types";
+import { getAllTags, getFolderPaths, isInFolder } from "../utils/fileLibrary";
+
+interface BulkAddFilesMenuProps {
+  files: SiteFile[];
+  /** IDs already in the location; they are not added again */
+  assignedIds: string[];
+  /** Called with the IDs of the files to append, in library order */
+  onAdd: (fileIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Adds every file of a folder (including subfolders) or with a tag to a
+ * head or body location in one step.
+ */
+export function BulkAddFilesMenu({ files, assignedIds, onAdd, disabled = false }: BulkAddFilesMenuProps) {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const folders = getFolderPaths(files);
+  const tags = getAllTags(files);
+  if (folders.length === 0 && tags.length === 0) return null;
+
+  const unassigned = files.filter((file) => !assignedIds.includes(String(file.id)));
+  const byFolder = (folder: string) => unassigned.filter((file) => isInFolder(file, folder));
+  const byTag = (tag: string) => unassigned.filter((file) => file.tags?.includes(tag));
+
+  const handleAdd = (matches: SiteFile[]) => {
+    onAdd(matches.map((file) => String(file.id)));
+    setAnchorEl(null);
+  };
+
+  const renderItem = (key: string, icon: JSX.Element, label: string, matches: SiteFile[]) => (
+    <MenuItem
+      key={key}
+      disabled={matches.length === 0}
+      onClick={() => handleAdd(matches)}
+      sx={{ gap: 1, fontSize: '0.85rem' }}
+    >
+      {icon}
+      <Typography variant="body2" noWrap sx={{ flex: 1 }}>{label}</Typography>
+      <Typography variant="caption" sx={{ color: 'rgba(255, 255, 255, 0.5)' }}>
+        {matches.length === 0 ? 'all added' : `+${matches.length}`}
+      </Typography>
+    </MenuItem>
+  );
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<PlaylistAddIcon fontSize="small" />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={disabled}
+        sx={{ mt: 1, color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.8rem', '&:hover': { color: 'white' } }}
+      >
+        Add folder or tag
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        PaperProps={{
+          sx: {
+            maxHeight: 320,
+            minWidth: 220,
+            backgroundColor: '#1c1c1c',
+            border: '1px solid rgba(255, 255, 255, 0.07)',
+          }
+        }}
+      >
+        {folders.length > 0 && <ListSubheader sx={{ bgcolor: '#1c1c1c', lineHeight: '32px' }}>Folders</ListSubheader>}
+        {folders.map((folder) =>
+          renderItem(`folder:${folder}`, <FolderIcon sx={{ fontSize: '1rem', color: '#73AFFF' }} />, folder, byFolder(folder))
+        )}
+        {tags.length > 0 && <ListSubheader sx={{ bgcolor: '#1c1c1c', lineHeight: '32px' }}>Tags</ListSubheader>}
+        {tags.map((tag) =>
+          renderItem(`tag:${tag}`, <LocalOfferIcon sx={{ fontSize: '1rem', color: 'rgba(255, 255, 255, 0.6)' }} />, tag, byTag(tag))
+        )}
+      </Menu>
+    </>
+  );
+}
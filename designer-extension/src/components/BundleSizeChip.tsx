@@ -0,0 +1,44 @@
+import { Chip, Tooltip } from "@mui/material";
+import { SiteFile } from "../types/types";
+import { formatBytes } from "../utils/formatBytes";
+
+interface BundleSizeChipProps {
+  /** IDs of the files in one head or body location */
+  fileIds: string[];
+  files: SiteFile[];
+}
+
+/**
+ * Shows the minified size of the code injected in one location, with the
+ * size before minification in the tooltip. Files saved before minification
+ * existed have no sizes and are left out of the totals.
+ */
+export function BundleSizeChip({ fileIds, files }: BundleSizeChipProps) {
+  const sized = fileIds
+    .map((id) => files.find((file) => String(file.id) === String(id)))
+    .filter((file): file is SiteFile => file?.minified_size != null);
+
+  if (sized.length === 0) return null;
+
+  const original = sized.reduce((total, file) => total + (file.original_size ?? 0), 0);
+  const minified = sized.reduce((total, file) => total + (file.minified_size ?? 0), 0);
+  const saved = original > 0 ? Math.round((1 - minified / original) * 100) : 0;
+
+  return (
+    <Tooltip title={`${formatBytes(original)} before minification (${saved}% smaller)`}>
+      <Chip
+        label={formatBytes(minified)}
+        size="small"
+        sx={{
+          height: 22,
+          backgroundColor: 'rgba(67, 83, 255, 0.15)',
+          color: '#73AFFF',
+          fontWeight: 500,
+          fontSize: '0.7rem',
+          px: 0.5,
+          borderRadius: '4px'
+        }}
+      />
+    </Tooltip>
+  );
+}
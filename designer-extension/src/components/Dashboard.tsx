@@ -25,6 +25,7 @@ import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import LanguageIcon from '@mui/icons-material/Language';
 import { FilesSection } from "./FilesSection";
 import { PageFileManager } from "./PageFileManager";
+import { ActivityPanel } from "./ActivityPanel";
 import { useDevTools } from "../hooks/useDevTools";
 
 interface DashboardProps {
@@ -74,6 +75,9 @@ export function Dashboard({
   const [selectedSiteId, setSelectedSiteId] = useState<string | null>(null);
   const [apiStatus, setApiStatus] = useState<"checking" | "ok" | "error">("checking");
   const [devMode] = useState(import.meta.env.MODE === 'development');
+  const [cliLoginCopied, setCliLoginCopied] = useState(false);
+  const [liveReloadUntil, setLiveReloadUntil] = useState<string | null>(null);
+  const [liveReloadError, setLiveReloadError] = useState<string | null>(null);
   
   // Get the current site automatically on load
   useEffect(() => {
@@ -91,6 +95,15 @@ export function Dashboard({
       return () => clearTimeout(timer);
     }
   }, [syncSuccess]);
+
+  useEffect(() => {
+    if (cliLoginCopied) {
+      const timer = setTimeout(() => {
+        setCliLoginCopied(false);
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [cliLoginCopied]);
   
   // Debug function to check site details
   const handleDebugSites = async () => {
@@ -178,6 +191,41 @@ export function Dashboard({
     window.location.reload(); // Refresh to show login screen
   };
 
+  // Copy a `codone login` command with the session token for the CLI
+  const handleCopyCliLogin = async () => {
+    if (!sessionToken) return;
+    const site = currentSite ? ` --site ${currentSite.id}` : "";
+    await navigator.clipboard.writeText(`codone login --api ${base_url}${site} --token ${sessionToken}`);
+    setCliLoginCopied(true);
+  };
+
+  // Register (or remove) this dev server for live reload on the current site
+  const handleToggleLiveReload = async () => {
+    if (!currentSite || !sessionToken) return;
+    setLiveReloadError(null);
+
+    try {
+      const response = await fetch(`${base_url}/api/dev/live`, {
+        method: liveReloadUntil ? "DELETE" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionToken}`,
+        },
+        body: JSON.stringify({ siteId: currentSite.id }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed: ${response.statusText}`);
+      }
+
+      setLiveReloadUntil(liveReloadUntil ? null : result.expiresAt);
+    } catch (error) {
+      console.error("Live reload error:", error);
+      setLiveReloadError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   // Check API connection in development mode
   useEffect(() => {
     // Only check in development mode
@@ -461,6 +509,13 @@ export function Dashboard({
           </Card>
         </Grid>
 
+        {/* Recent changes to the site's code and assignments */}
+        {currentSite && (
+          <Grid item xs={12}>
+            <ActivityPanel siteId={currentSite.id} />
+          </Grid>
+        )}
+
         {/* Development Tools */}
         <Grid item xs={12} mt={2}>
           <Card 
@@ -506,7 +561,46 @@ export function Dashboard({
                 >
                   Log Storage
                 </Button>
+
+                <Tooltip title="Copies a login command for the codone CLI, including your session token">
+                  <span>
+                    <Button 
+                      variant="outlined" 
+                      onClick={handleCopyCliLogin}
+                      disabled={!sessionToken}
+                      size="small"
+                      sx={{ borderColor: 'divider', color: 'text.secondary' }}
+                    >
+                      {cliLoginCopied ? "Copied" : "Copy CLI Login"}
+                    </Button>
+                  </span>
+                </Tooltip>
+
+                {devMode && (
+                  <Button 
+                    variant="outlined" 
+                    onClick={handleToggleLiveReload}
+                    disabled={!currentSite || !sessionToken}
+                    size="small"
+                    sx={{ borderColor: 'divider', color: 'text.secondary' }}
+                  >
+                    {liveReloadUntil ? "Disable Live Reload" : "Enable Live Reload"}
+                  </Button>
+                )}
               </Box>
+
+              {liveReloadUntil && (
+                <Alert severity="info" sx={{ mt: 2 }}>
+                  Live reload is on until {new Date(liveReloadUntil).toLocaleTimeString()}. Open the published site with{" "}
+                  <code>?codone=dev</code> to apply saved files without refreshing; <code>?codone=live</code> turns it off
+                  in that browser.
+                </Alert>
+              )}
+              {liveReloadError && (
+                <Alert severity="error" sx={{ mt: 2 }}>
+                  {liveReloadError}
+                </Alert>
+              )}
             </CardContent>
           </Card>
         </Grid>
@@ -0,0 +1,104 @@
+import { useMemo } from "react";
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material";
+import { SiteFile } from "../types/types";
+import { mergeText } from "../utils/mergeText";
+
+interface FileConflictDialogProps {
+  /** Version saved by someone else since the file was opened; the dialog is open while set */
+  theirs: SiteFile | null;
+  /** Code the unsaved changes were made to */
+  base: string;
+  /** The unsaved code in the editor */
+  mine: string;
+  isSaving: boolean;
+  onClose: () => void;
+  /** Merge both versions into the editor, to review and save */
+  onMerge: (code: string) => void;
+  /** Save the unsaved code over their version */
+  onOverwrite: () => void;
+  /** Drop the unsaved changes and continue from their version */
+  onDiscard: () => void;
+}
+
+/**
+ * Shown when saving a file someone else saved in the meantime. Offers to
+ * merge the two versions, overwrite theirs or discard the local changes.
+ */
+export function FileConflictDialog({
+  theirs,
+  base,
+  mine,
+  isSaving,
+  onClose,
+  onMerge,
+  onOverwrite,
+  onDiscard,
+}: FileConflictDialogProps) {
+  const merge = useMemo(() => (theirs ? mergeText(base, mine, theirs.code || "") : null), [theirs, base, mine]);
+  const savedAt = theirs?.updated_at ? new Date(theirs.updated_at).toLocaleString() : null;
+
+  return (
+    <Dialog
+      open={Boolean(theirs)}
+      onClose={onClose}
+      fullWidth
+      maxWidth="sm"
+      sx={{
+        '& .MuiPaper-root': {
+          borderRadius: 2,
+          bgcolor: '#292929'
+        }
+      }}
+    >
+      <DialogTitle sx={{
+        fontSize: "1.1rem",
+        fontWeight: 600,
+        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+        p: 2.5
+      }}>
+        {theirs?.name} was changed
+      </DialogTitle>
+      <DialogContent sx={{ p: 3, mt: 1 }}>
+        <Typography sx={{ mb: 2 }}>
+          Someone else saved this file{savedAt ? ` at ${savedAt}` : ""} while you were editing it, so your changes were not saved.
+        </Typography>
+        {merge && (
+          <Alert severity={merge.conflicts ? "warning" : "success"}>
+            {merge.conflicts
+              ? `${merge.conflicts} part(s) were changed in both versions. Merging marks them with both versions between <<<<<<< and >>>>>>> lines; keep the right code and remove the markers before saving.`
+              : "Your changes and theirs touch different lines and can be merged automatically."}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 2.5, borderTop: "1px solid rgba(255, 255, 255, 0.1)" }}>
+        <Button onClick={onDiscard} sx={{ color: "#F48771", mr: "auto" }}>
+          Discard Mine
+        </Button>
+        <Button onClick={onOverwrite} disabled={isSaving} sx={{ color: "rgba(255, 255, 255, 0.7)" }}>
+          {isSaving ? <CircularProgress size={20} /> : "Overwrite Theirs"}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => merge && onMerge(merge.code)}
+          sx={{
+            bgcolor: '#4353ff',
+            '&:hover': {
+              bgcolor: '#3444F0'
+            }
+          }}
+        >
+          Merge and Review
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
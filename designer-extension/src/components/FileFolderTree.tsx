@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Box, IconButton, InputBase, List, ListItemButton, Tooltip, Typography } from "@mui/material";
+import FolderIcon from "@mui/icons-material/Folder";
+import FolderOpenIcon from "@mui/icons-material/FolderOpen";
+import InboxIcon from "@mui/icons-material/Inbox";
+import AllInboxIcon from "@mui/icons-material/AllInbox";
+import CreateNewFolderIcon from "@mui/icons-material/CreateNewFolder";
+import { getFolderName, normalizeFolder, UNFILED } from "../utils/fileLibrary";
+
+/**
+ * Drag data type carrying the ID of a file row dropped on a folder.
+ */
+export const FILE_DRAG_TYPE = "application/x-codone-file-id";
+
+interface FileFolderTreeProps {
+  /** Every folder path, sorted so each folder follows its parent */
+  folders: string[];
+  /** Selected folder, UNFILED, or null for all files */
+  selected: string | null;
+  onSelect: (folder: string | null) => void;
+  /** Called when a file row is dropped on a folder (null to move it out of any folder) */
+  onMoveFile: (fileId: string, folder: string | null) => void;
+  /** Called with the full path of a folder created inside the selected one */
+  onCreateFolder: (folder: string) => void;
+}
+
+/**
+ * Folder sidebar of the files library. Selecting a folder lists its files
+ * and subfolders' files; file rows can be dragged onto a folder to move them.
+ */
+export function FileFolderTree({ folders, selected, onSelect, onMoveFile, onCreateFolder }: FileFolderTreeProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+
+  const parentFolder = selected && selected !== UNFILED ? selected : "";
+
+  const handleCreateFolder = () => {
+    const name = normalizeFolder(newFolderName || "");
+    if (name) {
+      onCreateFolder(parentFolder ? `${parentFolder}/${name}` : name);
+    }
+    setNewFolderName(null);
+  };
+
+  // Drop target props for a folder row; UNFILED moves the file out of any folder
+  const dropProps = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(FILE_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDropTarget(folder);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const fileId = e.dataTransfer.getData(FILE_DRAG_TYPE);
+      if (fileId) {
+        onMoveFile(fileId, folder === UNFILED ? null : folder);
+      }
+    },
+  });
+
+  const itemSx = (folder: string | null, depth = 0) => ({
+    py: 0.5,
+    pl: 1.5 + depth * 1.5,
+    pr: 1,
+    gap: 1,
+    borderRadius: 1,
+    color: selected === folder ? "white" : "rgba(255, 255, 255, 0.7)",
+    outline: folder !== null && dropTarget === folder ? "1px dashed #4353ff" : "none",
+    bgcolor: folder !== null && dropTarget === folder ? "rgba(67, 83, 255, 0.15)" : undefined,
+  });
+
+  const labelSx = { fontSize: "0.8rem", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" };
+
+  return (
+    <Box sx={{ width: 200, flexShrink: 0 }}>
+      <Box sx={{ display: "flex", alignItems: "center", mb: 1 }}>
+        <Typography sx={{ flex: 1, fontSize: "0.75rem", fontWeight: 600, color: "rgba(255, 255, 255, 0.5)", textTransform: "uppercase" }}>
+          Folders
+        </Typography>
+        <Tooltip title={parentFolder ? `New folder in ${parentFolder}` : "New folder"}>
+          <IconButton
+            size="small"
+            onClick={() => setNewFolderName("")}
+            sx={{ color: "rgba(255, 255, 255, 0.7)", padding: "4px", '&:hover': { color: "white" } }}
+          >
+            <CreateNewFolderIcon sx={{ fontSize: "1rem" }} />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {newFolderName !== null && (
+        <InputBase
+          autoFocus
+          placeholder="Folder name"
+          value={newFolderName}
+          onChange={(e) => setNewFolderName(e.target.value)}
+          onBlur={handleCreateFolder}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCreateFolder();
+            if (e.key === "Escape") setNewFolderName(null);
+          }}
+          sx={{
+            width: "100%",
+            mb: 1,
+            px: 1,
+            fontSize: "0.8rem",
+            color: "white",
+            bgcolor: "rgba(255, 255, 255, 0.05)",
+            border: "1px solid #4353ff",
+            borderRadius: 1,
+          }}
+        />
+      )}
+
+      <List dense disablePadding>
+        <ListItemButton selected={selected === null} onClick={() => onSelect(null)} sx={itemSx(null)}>
+          <AllInboxIcon sx={{ fontSize: "1rem" }} />
+          <Typography sx={labelSx}>All files</Typography>
+        </ListItemButton>
+        <ListItemButton
+          selected={selected === UNFILED}
+          onClick={() => onSelect(UNFILED)}
+          sx={itemSx(UNFILED)}
+          {...dropProps(UNFILED)}
+        >
+          <InboxIcon sx={{ fontSize: "1rem" }} />
+          <Typography sx={labelSx}>Unfiled</Typography>
+        </ListItemButton>
+        {folders.map((folder) => {
+          const isSelected = selected === folder;
+          const FolderItemIcon = isSelected ? FolderOpenIcon : FolderIcon;
+          return (
+            <Tooltip key={folder} title={folder} placement="right" enterDelay={800}>
+              <ListItemButton
+                selected={isSelected}
+                onClick={() => onSelect(folder)}
+                sx={itemSx(folder, folder.split("/").length - 1)}
+                {...dropProps(folder)}
+              >
+                <FolderItemIcon sx={{ fontSize: "1rem", color: "#73AFFF" }} />
+                <Typography sx={labelSx}>{getFolderName(folder)}</Typography>
+              </ListItemButton>
+            </Tooltip>
+          );
+        })}
+      </List>
+    </Box>
+  );
+}
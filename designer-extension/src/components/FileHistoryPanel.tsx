@@ -0,0 +1,283 @@
+import { useState } from "react";
+import {
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Tooltip,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import RestoreIcon from "@mui/icons-material/Restore";
+import CompareIcon from "@mui/icons-material/Compare";
+import { useFileRevisions } from "../hooks/useFileRevisions";
+import { FileRevision, SiteFile } from "../types/types";
+
+interface FileHistoryPanelProps {
+  siteId: string;
+  file: SiteFile;
+  sessionToken: string;
+  onClose: () => void;
+  onRestored: (file: SiteFile) => void;
+  /** Called with a revision (including its code) to diff the editor against it */
+  onCompare?: (revision: FileRevision) => void;
+}
+
+/**
+ * Side panel listing the saved revisions of a file, with a read-only
+ * preview of the selected revision, compare and restore actions.
+ */
+export function FileHistoryPanel({ siteId, file, sessionToken, onClose, onRestored, onCompare }: FileHistoryPanelProps) {
+  const {
+    revisions,
+    isLoading,
+    isError,
+    fetchRevision,
+    restoreRevision,
+    isRestoring,
+  } = useFileRevisions(siteId, file.id, sessionToken);
+
+  // Revision currently previewed (with code)
+  const [preview, setPreview] = useState<FileRevision | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  // Restore confirmation dialog state
+  const [revisionToRestore, setRevisionToRestore] = useState<FileRevision | null>(null);
+
+  const handleSelect = async (revision: FileRevision) => {
+    setPreviewLoading(true);
+    try {
+      setPreview(await fetchRevision(revision.id));
+    } catch (error) {
+      console.error("Error fetching file revision:", error);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleCompare = async (revision: FileRevision) => {
+    if (!onCompare) return;
+    try {
+      onCompare(await fetchRevision(revision.id));
+    } catch (error) {
+      console.error("Error fetching file revision:", error);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!revisionToRestore) return;
+    try {
+      const { file: restoredFile } = await restoreRevision(revisionToRestore.id);
+      setRevisionToRestore(null);
+      setPreview(null);
+      onRestored(restoredFile);
+    } catch (error) {
+      console.error("Error restoring file revision:", error);
+    }
+  };
+
+  return (
+    <Box sx={{
+      width: 320,
+      flexShrink: 0,
+      display: "flex",
+      flexDirection: "column",
+      bgcolor: "#252525",
+      borderLeft: "1px solid rgba(255, 255, 255, 0.1)",
+      height: "100%",
+    }}>
+      <Box sx={{
+        display: "flex",
+        alignItems: "center",
+        px: 2,
+        py: 1,
+        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+      }}>
+        <Typography sx={{ fontWeight: 600, fontSize: "0.9rem", flexGrow: 1 }}>
+          History
+        </Typography>
+        <IconButton size="small" onClick={onClose} sx={{ color: "rgba(255, 255, 255, 0.7)" }}>
+          <CloseIcon sx={{ fontSize: "1rem" }} />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ flex: 1, overflowY: "auto" }}>
+        {isLoading ? (
+          <Box sx={{ textAlign: "center", py: 4 }}>
+            <CircularProgress size={20} />
+          </Box>
+        ) : isError ? (
+          <Typography color="error" sx={{ p: 2, fontSize: "0.85rem" }}>
+            Failed to load history.
+          </Typography>
+        ) : revisions.length === 0 ? (
+          <Typography color="text.secondary" sx={{ p: 2, fontSize: "0.85rem" }}>
+            No revisions yet. Each save records a revision.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {revisions.map((revision, index) => (
+              <ListItemButton
+                key={revision.id}
+                selected={preview?.id === revision.id}
+                onClick={() => handleSelect(revision)}
+                sx={{
+                  display: "flex",
+                  alignItems: "flex-start",
+                  gap: 1,
+                  borderBottom: "1px solid rgba(255, 255, 255, 0.05)",
+                }}
+              >
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography sx={{ fontSize: "0.8rem", color: "white" }}>
+                    {new Date(revision.created_at).toLocaleString()}
+                  </Typography>
+                  <Typography sx={{ fontSize: "0.75rem", color: "rgba(255, 255, 255, 0.5)", overflow: "hidden", textOverflow: "ellipsis" }}>
+                    {revision.author || "Unknown author"}
+                  </Typography>
+                  <Box sx={{ display: "flex", gap: 0.5, mt: 0.5 }}>
+                    {index === 0 && (
+                      <Chip label="Current" size="small" sx={{ height: 18, fontSize: "0.65rem", bgcolor: "rgba(67, 83, 255, 0.2)", color: "#73AFFF" }} />
+                    )}
+                    {revision.restored_from && (
+                      <Chip label="Restored" size="small" sx={{ height: 18, fontSize: "0.65rem", bgcolor: "rgba(255, 255, 255, 0.08)" }} />
+                    )}
+                  </Box>
+                </Box>
+                {onCompare && (
+                  <Tooltip title="Compare with working copy">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleCompare(revision);
+                      }}
+                      sx={{
+                        color: "rgba(255, 255, 255, 0.7)",
+                        '&:hover': {
+                          color: "white",
+                          backgroundColor: "rgba(255, 255, 255, 0.1)"
+                        },
+                        padding: '4px'
+                      }}
+                    >
+                      <CompareIcon sx={{ fontSize: "1rem" }} />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {index > 0 && (
+                  <Tooltip title="Restore this revision">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setRevisionToRestore(revision);
+                      }}
+                      sx={{
+                        color: "rgba(255, 255, 255, 0.7)",
+                        '&:hover': {
+                          color: "white",
+                          backgroundColor: "rgba(255, 255, 255, 0.1)"
+                        },
+                        padding: '4px'
+                      }}
+                    >
+                      <RestoreIcon sx={{ fontSize: "1rem" }} />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+      </Box>
+
+      {(previewLoading || preview) && (
+        <Box sx={{
+          maxHeight: "40%",
+          overflow: "auto",
+          borderTop: "1px solid rgba(255, 255, 255, 0.1)",
+          bgcolor: "#1E1E1E",
+        }}>
+          {previewLoading ? (
+            <Box sx={{ textAlign: "center", py: 2 }}>
+              <CircularProgress size={16} />
+            </Box>
+          ) : (
+            <Box
+              component="pre"
+              sx={{
+                m: 0,
+                p: 1.5,
+                fontSize: "0.75rem",
+                fontFamily: '"Fira Code", ui-monospace, SFMono-Regular, monospace',
+                color: "#D4D4D4",
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-word",
+              }}
+            >
+              {preview?.code || ""}
+            </Box>
+          )}
+        </Box>
+      )}
+
+      {/* Restore Confirmation Dialog */}
+      <Dialog
+        open={Boolean(revisionToRestore)}
+        onClose={() => setRevisionToRestore(null)}
+        maxWidth="xs"
+        sx={{
+          '& .MuiPaper-root': {
+            borderRadius: 2,
+            bgcolor: '#292929'
+          }
+        }}
+      >
+        <DialogTitle sx={{
+          fontSize: "1.1rem",
+          fontWeight: 600,
+          borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+          p: 2.5
+        }}>
+          Restore Revision
+        </DialogTitle>
+        <DialogContent sx={{ p: 3, mt: 1 }}>
+          <Typography>
+            Restore <strong>{file.name}</strong> to the version saved on{" "}
+            {revisionToRestore ? new Date(revisionToRestore.created_at).toLocaleString() : ""}?
+            The current version stays in the history and unsaved edits in the editor are replaced.
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ p: 2.5, borderTop: "1px solid rgba(255, 255, 255, 0.1)" }}>
+          <Button
+            onClick={() => setRevisionToRestore(null)}
+            sx={{ color: "rgba(255, 255, 255, 0.7)" }}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleRestore}
+            disabled={isRestoring}
+            sx={{
+              bgcolor: '#4353ff',
+              '&:hover': {
+                bgcolor: '#3444F0'
+              }
+            }}
+          >
+            {isRestoring ? <CircularProgress size={20} /> : "Restore"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import {
+  Autocomplete,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from "@mui/material";
+import { SiteFile } from "../types/types";
+import { normalizeFolder } from "../utils/fileLibrary";
+
+interface FileOrganizeDialogProps {
+  /** File being organized; the dialog is open while set */
+  file: SiteFile | null;
+  /** Existing folders and tags, offered as suggestions */
+  folders: string[];
+  tags: string[];
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (fields: { folder: string | null; tags: string[] }) => void;
+}
+
+const fieldSx = {
+  '& .MuiOutlinedInput-notchedOutline': {
+    borderColor: 'rgba(255, 255, 255, 0.2)'
+  },
+  '&:hover .MuiOutlinedInput-notchedOutline': {
+    borderColor: 'rgba(255, 255, 255, 0.3)'
+  },
+  '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+    borderColor: '#4353ff'
+  }
+};
+
+/**
+ * Edits the folder and tags of a file. New folders and tags can be typed in.
+ */
+export function FileOrganizeDialog({ file, folders, tags, isSaving, onClose, onSave }: FileOrganizeDialogProps) {
+  const [folder, setFolder] = useState("");
+  const [fileTags, setFileTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    setFolder(file?.folder || "");
+    setFileTags(file?.tags || []);
+  }, [file]);
+
+  const handleSave = () => {
+    onSave({
+      folder: normalizeFolder(folder) || null,
+      tags: [...new Set(fileTags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))],
+    });
+  };
+
+  return (
+    <Dialog
+      open={Boolean(file)}
+      onClose={onClose}
+      fullWidth
+      maxWidth="xs"
+      sx={{
+        '& .MuiPaper-root': {
+          borderRadius: 2,
+          bgcolor: '#292929'
+        }
+      }}
+    >
+      <DialogTitle sx={{
+        fontSize: "1.1rem",
+        fontWeight: 600,
+        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+        p: 2.5
+      }}>
+        Organize {file?.name}
+      </DialogTitle>
+      <DialogContent sx={{ p: 3, mt: 1 }}>
+        <Autocomplete
+          freeSolo
+          options={folders}
+          inputValue={folder}
+          onInputChange={(_e, value) => setFolder(value)}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Folder"
+              placeholder="e.g. components/forms"
+              helperText="Leave empty to keep the file outside any folder"
+              sx={{ my: 2, ...fieldSx }}
+            />
+          )}
+        />
+        <Autocomplete
+          multiple
+          freeSolo
+          options={tags}
+          value={fileTags}
+          onChange={(_e, value) => setFileTags(value)}
+          renderTags={(value, getTagProps) =>
+            value.map((tag, index) => {
+              const { key, ...tagProps } = getTagProps({ index });
+              return <Chip key={key} label={tag} size="small" {...tagProps} />;
+            })
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Tags"
+              placeholder="Type a tag and press Enter"
+              sx={fieldSx}
+            />
+          )}
+        />
+      </DialogContent>
+      <DialogActions sx={{ p: 2.5, borderTop: "1px solid rgba(255, 255, 255, 0.1)" }}>
+        <Button onClick={onClose} sx={{ color: "rgba(255, 255, 255, 0.7)" }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={isSaving}
+          sx={{
+            bgcolor: '#4353ff',
+            '&:hover': {
+              bgcolor: '#3444F0'
+            }
+          }}
+        >
+          {isSaving ? <CircularProgress size={20} /> : "Save"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -18,16 +18,19 @@ import {
 import CloseIcon from '@mui/icons-material/Close';
 import { useFilePages } from '../hooks/useFilePages';
 import { SiteFile } from '../types/types';
+import { getFileDependencies, isModuleFile } from '../utils/codoneImports';
 
 interface FilePagesModalProps {
   open: boolean;
   onClose: () => void;
   file: SiteFile | null;
+  /** All files of the site, used to show what the file imports and is imported by */
+  files: SiteFile[];
   siteId: string;
   sessionToken: string;
 }
 
-export function FilePagesModal({ open, onClose, file, siteId, sessionToken }: FilePagesModalProps) {
+export function FilePagesModal({ open, onClose, file, files, siteId, sessionToken }: FilePagesModalProps) {
   const {
     pages,
     isLoading,
@@ -43,6 +46,11 @@ export function FilePagesModal({ open, onClose, file, siteId, sessionToken }: Fi
     }
   }, [open, file?.id]);
   
+  const dependencies = useMemo(
+    () => (file && isModuleFile(file) ? getFileDependencies(file, files) : null),
+    [file, files]
+  );
+
   // Get location display info
   const getLocationInfo = (location: "head" | "body") => {
     if (location === "head") {
@@ -223,7 +231,65 @@ export function FilePagesModal({ open, onClose, file, siteId, sessionToken }: Fi
             </Box>
           </Box>
         )}
+        {dependencies && (
+          <Box sx={{ px: 3, pb: 3 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1.5, color: 'rgba(255, 255, 255, 0.7)' }}>
+              Dependencies
+            </Typography>
+            <Box sx={{
+              border: "1px solid rgba(255, 255, 255, 0.1)",
+              borderRadius: 1,
+              p: 2,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 1.5
+            }}>
+              <DependencyRow label="Imports">
+                {dependencies.imports.map((dependency) => (
+                  <Chip key={dependency.id} label={dependency.name} size="small" sx={dependencyChipSx} />
+                ))}
+                {dependencies.unresolved.map((name) => (
+                  <Tooltip key={name} title="No JavaScript or TypeScript file with this name; saving will fail">
+                    <Chip
+                      label={`codone:${name}`}
+                      size="small"
+                      sx={{ ...dependencyChipSx, bgcolor: 'rgba(255, 80, 80, 0.1)', color: '#ff5252' }}
+                    />
+                  </Tooltip>
+                ))}
+              </DependencyRow>
+              <DependencyRow label="Imported by">
+                {dependencies.importedBy.map((dependent) => (
+                  <Chip key={dependent.id} label={dependent.name} size="small" sx={dependencyChipSx} />
+                ))}
+              </DependencyRow>
+            </Box>
+          </Box>
+        )}
       </DialogContent>
     </Dialog>
   );
-} 
\ No newline at end of file
+}
+
+const dependencyChipSx = {
+  bgcolor: 'rgba(255, 255, 255, 0.08)',
+  color: 'white',
+  fontSize: '0.75rem'
+};
+
+// A labelled row of file chips, with a placeholder when it is empty
+function DependencyRow({ label, children }: { label: string; children: React.ReactNode[] }) {
+  const items = children.flat();
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <Typography sx={{ width: 100, fontSize: '0.8rem', color: 'rgba(255, 255, 255, 0.5)' }}>
+        {label}
+      </Typography>
+      {items.length > 0 ? items : (
+        <Typography sx={{ fontSize: '0.8rem', color: 'rgba(255, 255, 255, 0.4)' }}>
+          None
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Box,
   Card,
@@ -23,6 +23,10 @@ import {
   FormControl,
   InputLabel,
   Tooltip,
+  Chip,
+  Alert,
+  Checkbox,
+  FormControlLabel,
 } from "@mui/material";
 import EditIcon from "@mui/icons-material/Edit";
 import DeleteIcon from "@mui/icons-material/Delete";
@@ -31,14 +35,32 @@ import SearchIcon from "@mui/icons-material/Search";
 import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
 import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
 import PagesIcon from "@mui/icons-material/Layers";
-import { useFiles } from "../hooks/useFiles";
-import { FileLanguage, SiteFile } from "../types/types";
+import HistoryIcon from "@mui/icons-material/History";
+import CompareIcon from "@mui/icons-material/Compare";
+import LocalOfferIcon from "@mui/icons-material/LocalOffer";
+import CallSplitIcon from "@mui/icons-material/CallSplit";
+import LinkOffIcon from "@mui/icons-material/LinkOff";
+import LocalLibraryIcon from "@mui/icons-material/LocalLibrary";
+import { FileCompileError, FileConflictError, useFiles } from "../hooks/useFiles";
+import { useLibrary } from "../hooks/useLibrary";
+import { useFileEditors } from "../hooks/useFileEditors";
+import { useSiteRole } from "../hooks/useSiteRole";
+import { CompileDiagnostic, FileLanguage, SiteFile } from "../types/types";
 import { useAuth } from "../hooks/useAuth";
-import { MonacoCodeEditor } from "./MonacoCodeEditor";
+import { DiffBase, MonacoCodeEditor } from "./MonacoCodeEditor";
 import { FilePagesModal } from "./FilePagesModal";
+import { FileHistoryPanel } from "./FileHistoryPanel";
+import { LoadSettings, LoadStrategySelect } from "./LoadStrategySelect";
+import { formatBytes } from "../utils/formatBytes";
+import { FileFolderTree, FILE_DRAG_TYPE } from "./FileFolderTree";
+import { FileOrganizeDialog } from "./FileOrganizeDialog";
+import { LibraryDialog } from "./LibraryDialog";
+import { FileConflictDialog } from "./FileConflictDialog";
+import { CONFLICT_START } from "../utils/mergeText";
+import { getAllTags, getFolderPaths, isInFolder, isLibraryFile } from "../utils/fileLibrary";
 
 // Define sort types and directions
-type SortField = "name" | "language" | "created_at" | null;
+type SortField = "name" | "language" | "minified_size" | "created_at" | null;
 type SortDirection = "asc" | "desc" | null;
 
 interface FilesSectionProps {
@@ -57,11 +79,29 @@ export function FilesSection({ siteId }: FilesSectionProps) {
     deleteFile,
     isDeleting,
   } = useFiles(siteId, sessionToken || "");
+  const {
+    createLibraryFile,
+    isCreating: isCreatingLibraryFile,
+    unlinkFile,
+    forkFile,
+    isForking,
+  } = useLibrary(siteId, sessionToken || "");
+  // Viewers can browse and open files; changing them takes an editor, and
+  // forking, which changes live assignments, a publisher
+  const { hasRole } = useSiteRole(siteId, sessionToken || "");
+  const canEdit = hasRole("editor");
+  const canPublish = hasRole("publisher");
 
   // Dialog state for creating a file
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [newFileName, setNewFileName] = useState("");
   const [newFileLanguage, setNewFileLanguage] = useState<FileLanguage>("html");
+  // Whether the new file goes into the workspace library (linked into this site)
+  const [newFileInLibrary, setNewFileInLibrary] = useState(false);
+
+  // Workspace library dialog, and the last failed unlink or fork
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
 
   // Delete confirmation dialog state
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
@@ -70,10 +110,51 @@ export function FilesSection({ siteId }: FilesSectionProps) {
   // Editor state
   const [editingFile, setEditingFile] = useState<SiteFile | null>(null);
   const [editingCode, setEditingCode] = useState<string>("");
+  const [editingLoad, setEditingLoad] = useState<LoadSettings>({ load_strategy: null, load_selector: null });
+  // Errors from the last save of a file that did not compile or bundle
+  const [compileErrors, setCompileErrors] = useState<CompileDiagnostic[]>([]);
+  // Files the edited code can import through `codone:` imports; library
+  // files can only import other library files
+  const editorModules = useMemo(
+    () => files.filter((file) =>
+      file.id !== editingFile?.id && (!editingFile || !isLibraryFile(editingFile) || isLibraryFile(file))
+    ),
+    [files, editingFile]
+  );
+
+  // Version someone else saved while the file was being edited, on a conflicting save
+  const [conflictingFile, setConflictingFile] = useState<SiteFile | null>(null);
+  // Other users with the file open, and when it was last saved by anyone
+  const { editors, updatedAt } = useFileEditors(editingFile?.id ?? null, sessionToken || "");
+  const isOutdated = Boolean(
+    editingFile?.updated_at && updatedAt && new Date(updatedAt) > new Date(editingFile.updated_at)
+  );
+  // Merged code keeps conflict markers until the conflicts are resolved
+  const hasConflictMarkers = editingCode.split("\n").includes(CONFLICT_START);
+
+  // Revision history panel state; restoreCount remounts the editor so the
+  // restored code becomes its new baseline for unsaved-change detection
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [restoreCount, setRestoreCount] = useState(0);
+
+  // Code the editor is diffed against (last saved code or a revision), if any
+  const [diffBase, setDiffBase] = useState<DiffBase | null>(null);
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState("");
   const [languageFilter, setLanguageFilter] = useState<FileLanguage | "all">("all");
+  // Files must have every selected tag
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+
+  // Folder shown in the list (UNFILED for files outside any folder, null for all
+  // files), and folders created in the UI that no file has been moved into yet
+  const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
+  const [createdFolders, setCreatedFolders] = useState<string[]>([]);
+  const folders = useMemo(() => getFolderPaths(files, createdFolders), [files, createdFolders]);
+  const allTags = useMemo(() => getAllTags(files), [files]);
+
+  // File whose folder and tags are being edited
+  const [organizingFile, setOrganizingFile] = useState<SiteFile | null>(null);
   
   // Sorting state
   const [sortField, setSortField] = useState<SortField>(null);
@@ -89,17 +170,20 @@ export function FilesSection({ siteId }: FilesSectionProps) {
   const handleCreate = async () => {
     if (!newFileName.trim()) return;
     try {
-      const { file } = await createFile({
+      // New files go into the folder being viewed
+      const payload = {
         name: newFileName,
         language: newFileLanguage,
-      }) as any;
+        folder: selectedFolder || null,
+      };
+      const { file } = await (newFileInLibrary ? createLibraryFile(payload) : createFile(payload)) as any;
       // Open editor for the new file
       if (file) {
-        setEditingFile(file);
-        setEditingCode(file.code || "");
+        openEditor(file);
       }
       setNewFileName("");
       setNewFileLanguage("html");
+      setNewFileInLibrary(false);
       closeCreate();
     } catch (error) {
       /* eslint-disable no-console */
@@ -107,20 +191,93 @@ export function FilesSection({ siteId }: FilesSectionProps) {
     }
   };
 
-  const handleSaveCode = async () => {
-    if (!editingFile) return;
+  const openEditor = (file: SiteFile) => {
+    setEditingFile(file);
+    setEditingCode(file.code || "");
+    setEditingLoad({
+      load_strategy: file.load_strategy ?? null,
+      load_selector: file.load_selector ?? null,
+    });
+    setCompileErrors([]);
+  };
+
+  // Only scripts have a load strategy
+  const isScript = editingFile?.language === "js" || editingFile?.language === "ts";
+  const isMissingSelector = isScript && editingLoad.load_strategy === "visible" && !editingLoad.load_selector;
+
+  // Saves the editor's code, as an edit of the version it was opened at
+  // unless another base version is given
+  const handleSaveCode = async (baseUpdatedAt = editingFile?.updated_at) => {
+    if (!editingFile || isMissingSelector || hasConflictMarkers) return;
     try {
       await updateFile({
         fileId: editingFile.id,
-        fields: { code: editingCode },
+        fields: isScript ? { code: editingCode, ...editingLoad } : { code: editingCode },
+        baseUpdatedAt,
       });
-      setEditingFile(null);
-      setEditingCode("");
+      closeEditor();
     } catch (error) {
+      if (error instanceof FileCompileError) {
+        // Keep the editor open with the errors marked in the code
+        setCompileErrors(error.diagnostics);
+        setConflictingFile(null);
+        return;
+      }
+      if (error instanceof FileConflictError) {
+        setConflictingFile(error.file);
+        return;
+      }
       console.error("Error saving file:", error);
     }
   };
 
+  // Continue from their version with both sets of changes, shown as a diff
+  // against their version to review before saving
+  const handleMergeConflict = (code: string) => {
+    if (!conflictingFile) return;
+    setEditingFile(conflictingFile);
+    setEditingCode(code);
+    setCompileErrors([]);
+    setDiffBase({ label: "Their version", code: conflictingFile.code || "" });
+    setConflictingFile(null);
+  };
+
+  // A successful save closes the editor; a newer conflicting save reopens the dialog
+  const handleOverwriteConflict = () => {
+    if (!conflictingFile) return;
+    handleSaveCode(conflictingFile.updated_at);
+  };
+
+  const handleDiscardForConflict = () => {
+    if (!conflictingFile) return;
+    handleRevisionRestored(conflictingFile);
+    setConflictingFile(null);
+  };
+
+  const closeEditor = () => {
+    setEditingFile(null);
+    setEditingCode("");
+    setCompileErrors([]);
+    setHistoryOpen(false);
+    setDiffBase(null);
+    setConflictingFile(null);
+  };
+
+  // Toggle the diff between the working buffer and the last saved code
+  const toggleSavedDiff = () => {
+    if (diffBase) {
+      setDiffBase(null);
+    } else if (editingFile) {
+      setDiffBase({ label: "Last saved", code: editingFile.code || "" });
+    }
+  };
+
+  const handleRevisionRestored = (file: SiteFile) => {
+    openEditor(file);
+    setRestoreCount((count) => count + 1);
+    setDiffBase(null);
+  };
+
   // Handle file deletion
   const openDeleteConfirm = (file: SiteFile) => {
     setFileToDelete(file);
@@ -142,6 +299,51 @@ export function FilesSection({ siteId }: FilesSectionProps) {
     }
   };
 
+  // Unlinking and forking only affect this site; the library file itself stays
+  const handleUnlink = async (file: SiteFile) => {
+    setLibraryError(null);
+    try {
+      await unlinkFile(file.id);
+    } catch (error) {
+      setLibraryError(error instanceof Error ? error.message : "Failed to unlink library file");
+    }
+  };
+
+  const handleFork = async (file: SiteFile) => {
+    setLibraryError(null);
+    try {
+      await forkFile(file.id);
+    } catch (error) {
+      setLibraryError(error instanceof Error ? error.message : "Failed to fork library file");
+    }
+  };
+
+  // Move a file dropped on a folder in the sidebar
+  const handleMoveFile = async (fileId: string, folder: string | null) => {
+    const file = files.find((f) => String(f.id) === fileId);
+    if (!file || (file.folder || null) === folder) return;
+    try {
+      await updateFile({ fileId: file.id, fields: { folder } });
+    } catch (error) {
+      console.error("Error moving file:", error);
+    }
+  };
+
+  const handleCreateFolder = (folder: string) => {
+    setCreatedFolders((prev) => (prev.includes(folder) ? prev : [...prev, folder]));
+    setSelectedFolder(folder);
+  };
+
+  const handleSaveOrganization = async (fields: { folder: string | null; tags: string[] }) => {
+    if (!organizingFile) return;
+    try {
+      await updateFile({ fileId: organizingFile.id, fields });
+      setOrganizingFile(null);
+    } catch (error) {
+      console.error("Error organizing file:", error);
+    }
+  };
+
   // Handle sorting
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -172,13 +374,31 @@ export function FilesSection({ siteId }: FilesSectionProps) {
     ) : null;
   };
 
-  const languageOptions: FileLanguage[] = ["html", "css", "js"];
+  const languageOptions: FileLanguage[] = ["html", "css", "js", "ts", "scss"];
+
+  // Get language color for a file
+  const getLanguageColor = (language: FileLanguage) => {
+    switch (language) {
+      case 'html':
+        return { main: '#E34C26', light: 'rgba(227, 76, 38, 0.15)' };
+      case 'css':
+        return { main: '#264DE4', light: 'rgba(38, 77, 228, 0.15)' };
+      case 'ts':
+        return { main: '#3178C6', light: 'rgba(49, 120, 198, 0.15)' };
+      case 'scss':
+        return { main: '#CD6799', light: 'rgba(205, 103, 153, 0.15)' };
+      default:
+        return { main: '#F7DF1E', light: 'rgba(247, 223, 30, 0.15)' };
+    }
+  };
 
-  // Filter files based on search query and language filter
+  // Filter files based on search query, language, folder and tag filters
   let filteredFiles = files.filter(file => {
     const matchesSearch = file.name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesLanguage = languageFilter === "all" || file.language === languageFilter;
-    return matchesSearch && matchesLanguage;
+    const matchesFolder = selectedFolder === null || isInFolder(file, selectedFolder);
+    const matchesTags = tagFilter.every((tag) => file.tags?.includes(tag));
+    return matchesSearch && matchesLanguage && matchesFolder && matchesTags;
   });
   
   // Sort files if sort field is set
@@ -239,24 +459,33 @@ export function FilesSection({ siteId }: FilesSectionProps) {
         <Box sx={{ p: 3, bgcolor: "rgba(255, 255, 255, 0.05)" }}>
           <Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
             <Typography variant="h3" sx={{ fontWeight: 600, color: "white" }}>Site Files</Typography>
-            <Button 
-              variant="contained" 
-              onClick={openCreate} 
-              disabled={isCreating}
-              sx={{
-                bgcolor: '#006acc',
-                '&:hover': {
-                  bgcolor: '#0088ff'
-                },
-                fontWeight: 500,
-                px: 1.8,
-                py: 0.8,
-                fontSize: '0.85rem',
-                boxShadow: '0px 0.5px 1px 0px rgba(0, 0, 0, 0.8),0px 0.5px 0.5px 0px rgba(255, 255, 255, 0.20) inset'
-              }}
-            >
-              New File
-            </Button>
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <Button
+                onClick={() => setIsLibraryOpen(true)}
+                startIcon={<LocalLibraryIcon fontSize="small" />}
+                sx={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '0.85rem', '&:hover': { color: 'white' } }}
+              >
+                Library
+              </Button>
+              <Button 
+                variant="contained" 
+                onClick={openCreate} 
+                disabled={isCreating || !canEdit}
+                sx={{
+                  bgcolor: '#006acc',
+                  '&:hover': {
+                    bgcolor: '#0088ff'
+                  },
+                  fontWeight: 500,
+                  px: 1.8,
+                  py: 0.8,
+                  fontSize: '0.85rem',
+                  boxShadow: '0px 0.5px 1px 0px rgba(0, 0, 0, 0.8),0px 0.5px 0.5px 0px rgba(255, 255, 255, 0.20) inset'
+                }}
+              >
+                New File
+              </Button>
+            </Box>
           </Box>
         </Box>
 
@@ -321,245 +550,402 @@ export function FilesSection({ siteId }: FilesSectionProps) {
               <MenuItem value="html">HTML</MenuItem>
               <MenuItem value="css">CSS</MenuItem>
               <MenuItem value="js">JavaScript</MenuItem>
+              <MenuItem value="ts">TypeScript</MenuItem>
+              <MenuItem value="scss">SCSS</MenuItem>
             </Select>
           </FormControl>
+          {allTags.length > 0 && (
+            <FormControl size="small" sx={{ minWidth: 140, maxWidth: 240 }}>
+              <Select
+                multiple
+                displayEmpty
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value as string[])}
+                renderValue={(selected) => selected.length === 0 ? "All Tags" : selected.join(", ")}
+                sx={{
+                  bgcolor: 'rgba(255, 255, 255, 0.05)',
+                  color: 'white',
+                  '& .MuiOutlinedInput-notchedOutline': {
+                    borderColor: 'rgba(255, 255, 255, 0.1)',
+                  },
+                  '&:hover .MuiOutlinedInput-notchedOutline': {
+                    borderColor: 'rgba(255, 255, 255, 0.2)',
+                  },
+                  '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+                    borderColor: '#4353ff',
+                  },
+                }}
+              >
+                {allTags.map((tag) => (
+                  <MenuItem key={tag} value={tag}>{tag}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
         </Box>
 
-        <Box sx={{ p: 3 }}>
-          {isLoading ? (
-            <Box sx={{ textAlign: "center", py: 6 }}>
-              <CircularProgress size={24} />
-            </Box>
-          ) : filteredFiles.length === 0 ? (
-            <Box sx={{ 
-              textAlign: "center", 
-              py: 6, 
-              backgroundColor: "rgba(255, 255, 255, 0.02)", 
-              borderRadius: 2,
-              border: "1px dashed rgba(255, 255, 255, 0.15)"
-            }}>
-              <Typography color="text.secondary">
-                {files.length === 0 
-                  ? "No files found for this site."
-                  : "No files match your search criteria."}
-              </Typography>
-              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
-                {files.length === 0 
-                  ? "Click \"New File\" to create your first file."
-                  : "Try adjusting your search or filter."}
-              </Typography>
-            </Box>
-          ) : (
-            <Box sx={{ 
-              border: "1px solid rgba(255, 255, 255, 0.1)", 
-              borderRadius: 1, 
-              overflow: "hidden" 
-            }}>
-              <Table size="small" sx={{ 
-                tableLayout: "fixed",
-                '& .MuiList-root': {
-                  paddingTop: 0,
-                  paddingBottom: 0
-                },
-                '& .MuiTableBody-root': {
-                  borderBottom: 'none'
-                },
-                margin: 0,
-                border: 'none'
+        <Box sx={{ p: 3, display: "flex", gap: 3 }}>
+          <FileFolderTree
+            folders={folders}
+            selected={selectedFolder}
+            onSelect={setSelectedFolder}
+            onMoveFile={handleMoveFile}
+            onCreateFolder={handleCreateFolder}
+          />
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            {libraryError && (
+              <Alert severity="error" onClose={() => setLibraryError(null)} sx={{ mb: 2 }}>
+                {libraryError}
+              </Alert>
+            )}
+            {isLoading ? (
+              <Box sx={{ textAlign: "center", py: 6 }}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : filteredFiles.length === 0 ? (
+              <Box sx={{ 
+                textAlign: "center", 
+                py: 6, 
+                backgroundColor: "rgba(255, 255, 255, 0.02)", 
+                borderRadius: 2,
+                border: "1px dashed rgba(255, 255, 255, 0.15)"
               }}>
-                <TableHead>
-                  <TableRow sx={{ backgroundColor: "rgba(255, 255, 255, 0.03)" }}>
-                    <TableCell 
-                      onClick={() => handleSort("name")}
-                      sx={{ 
-                        fontWeight: 600, 
-                        color: "rgba(255, 255, 255, 0.7)", 
-                        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
-                        fontSize: "0.8rem",
-                        width: "40%",
-                        cursor: "pointer",
-                        userSelect: "none",
-                        '&:hover': {
-                          color: "white"
-                        }
-                      }}
-                    >
-                      <Box sx={{ display: "flex", alignItems: "center" }}>
-                        Name {getSortIcon("name")}
-                      </Box>
-                    </TableCell>
-                    <TableCell 
-                      onClick={() => handleSort("language")}
-                      sx={{ 
-                        fontWeight: 600, 
-                        color: "rgba(255, 255, 255, 0.7)", 
-                        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
-                        fontSize: "0.8rem",
-                        width: "20%",
-                        cursor: "pointer",
-                        userSelect: "none",
-                        '&:hover': {
-                          color: "white"
-                        }
-                      }}
-                    >
-                      <Box sx={{ display: "flex", alignItems: "center" }}>
-                        Language {getSortIcon("language")}
-                      </Box>
-                    </TableCell>
-                    <TableCell 
-                      onClick={() => handleSort("created_at")}
-                      sx={{ 
-                        fontWeight: 600, 
-                        color: "rgba(255, 255, 255, 0.7)", 
-                        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
-                        fontSize: "0.8rem",
-                        width: "30%",
-                        cursor: "pointer",
-                        userSelect: "none",
-                        '&:hover': {
-                          color: "white"
-                        }
-                      }}
-                    >
-                      <Box sx={{ display: "flex", alignItems: "center" }}>
-                        Created {getSortIcon("created_at")}
-                      </Box>
-                    </TableCell>
-                    <TableCell align="right" sx={{ 
-                      fontWeight: 600, 
-                      color: "rgba(255, 255, 255, 0.7)", 
-                      borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
-                      fontSize: "0.8rem",
-                      width: "10%"
-                    }}>
-                      Actions
-                    </TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {filteredFiles.map((file, index) => (
-                    <TableRow 
-                      key={file.id} 
-                      hover
-                      sx={{ 
-                        '&:hover': { 
-                          backgroundColor: "rgba(255, 255, 255, 0.05)" 
-                        },
-                        transition: "background-color 0.2s ease"
-                      }}
-                    >
+                <Typography color="text.secondary">
+                  {files.length === 0 
+                    ? "No files found for this site."
+                    : "No files match your search criteria."}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  {files.length === 0 
+                    ? "Click \"New File\" to create your first file."
+                    : "Try adjusting your search or filter."}
+                </Typography>
+              </Box>
+            ) : (
+              <Box sx={{ 
+                border: "1px solid rgba(255, 255, 255, 0.1)", 
+                borderRadius: 1, 
+                overflow: "hidden" 
+              }}>
+                <Table size="small" sx={{ 
+                  tableLayout: "fixed",
+                  '& .MuiList-root': {
+                    paddingTop: 0,
+                    paddingBottom: 0
+                  },
+                  '& .MuiTableBody-root': {
+                    borderBottom: 'none'
+                  },
+                  margin: 0,
+                  border: 'none'
+                }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: "rgba(255, 255, 255, 0.03)" }}>
                       <TableCell 
+                        onClick={() => handleSort("name")}
                         sx={{ 
-                          py: 1.5, 
-                          color: "white",
-                          fontWeight: 500,
-                          borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)",
-                          overflow: "hidden",
-                          textOverflow: "ellipsis"
+                          fontWeight: 600, 
+                          color: "rgba(255, 255, 255, 0.7)", 
+                          borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+                          fontSize: "0.8rem",
+                          width: "35%",
+                          cursor: "pointer",
+                          userSelect: "none",
+                          '&:hover': {
+                            color: "white"
+                          }
                         }}
                       >
-                        {file.name}
+                        <Box sx={{ display: "flex", alignItems: "center" }}>
+                          Name {getSortIcon("name")}
+                        </Box>
                       </TableCell>
-                      <TableCell sx={{ 
-                        py: 1.5,
-                        borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)"
-                      }}>
-                        <Box sx={{ 
-                          bgcolor: file.language === 'html' 
-                            ? 'rgba(227, 76, 38, 0.15)' 
-                            : file.language === 'css' 
-                            ? 'rgba(38, 77, 228, 0.15)' 
-                            : 'rgba(247, 223, 30, 0.15)', 
-                          color: file.language === 'html' 
-                            ? '#E34C26' 
-                            : file.language === 'css' 
-                            ? '#264DE4' 
-                            : '#F7DF1E', 
-                          display: "inline-block", 
-                          px: 1, 
-                          py: 0.5, 
-                          borderRadius: 1,
-                          fontSize: "0.7rem",
-                          fontWeight: 600,
-                          letterSpacing: "0.5px"
-                        }}>
-                          {file.language.toUpperCase()}
+                      <TableCell 
+                        onClick={() => handleSort("language")}
+                        sx={{ 
+                          fontWeight: 600, 
+                          color: "rgba(255, 255, 255, 0.7)", 
+                          borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+                          fontSize: "0.8rem",
+                          width: "15%",
+                          cursor: "pointer",
+                          userSelect: "none",
+                          '&:hover': {
+                            color: "white"
+                          }
+                        }}
+                      >
+                        <Box sx={{ display: "flex", alignItems: "center" }}>
+                          Language {getSortIcon("language")}
                         </Box>
                       </TableCell>
-                      <TableCell sx={{ 
-                        py: 1.5, 
-                        color: "rgba(255, 255, 255, 0.6)",
-                        fontSize: "0.85rem",
-                        borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)"
-                      }}>
-                        {new Date(file.created_at).toLocaleDateString()}
+                      <TableCell 
+                        onClick={() => handleSort("minified_size")}
+                        sx={{ 
+                          fontWeight: 600, 
+                          color: "rgba(255, 255, 255, 0.7)", 
+                          borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+                          fontSize: "0.8rem",
+                          width: "15%",
+                          cursor: "pointer",
+                          userSelect: "none",
+                          '&:hover': {
+                            color: "white"
+                          }
+                        }}
+                      >
+                        <Box sx={{ display: "flex", alignItems: "center" }}>
+                          Size {getSortIcon("minified_size")}
+                        </Box>
+                      </TableCell>
+                      <TableCell 
+                        onClick={() => handleSort("created_at")}
+                        sx={{ 
+                          fontWeight: 600, 
+                          color: "rgba(255, 255, 255, 0.7)", 
+                          borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+                          fontSize: "0.8rem",
+                          width: "20%",
+                          cursor: "pointer",
+                          userSelect: "none",
+                          '&:hover': {
+                            color: "white"
+                          }
+                        }}
+                      >
+                        <Box sx={{ display: "flex", alignItems: "center" }}>
+                          Created {getSortIcon("created_at")}
+                        </Box>
                       </TableCell>
                       <TableCell align="right" sx={{ 
-                        borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)"
+                        fontWeight: 600, 
+                        color: "rgba(255, 255, 255, 0.7)", 
+                        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+                        fontSize: "0.8rem",
+                        width: "15%"
                       }}>
-                        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
-                          <Tooltip title="Edit file">
-                            <IconButton
-                              size="small"
-                              onClick={() => {
-                                setEditingFile(file);
-                                setEditingCode(file.code || "");
-                              }}
-                              sx={{
-                                color: "rgba(255, 255, 255, 0.7)",
-                                '&:hover': {
-                                  color: "white",
-                                  backgroundColor: "rgba(255, 255, 255, 0.1)"
-                                },
-                                mr: 1,
-                                padding: '4px'
-                              }}
-                            >
-                              <EditIcon sx={{ fontSize: '1rem' }} />
-                            </IconButton>
-                          </Tooltip>
-                          <Tooltip title="View pages using this file">
-                            <IconButton
-                              size="small"
-                              onClick={() => handleOpenFilePagesModal(file)}
-                              sx={{
-                                color: "rgba(115, 175, 255, 0.7)",
-                                '&:hover': {
-                                  color: "#4353ff",
-                                  backgroundColor: "rgba(67, 83, 255, 0.1)"
-                                },
-                                mr: 1,
-                                padding: '4px'
-                              }}
-                            >
-                              <PagesIcon sx={{ fontSize: '1rem' }} />
-                            </IconButton>
-                          </Tooltip>
-                          <Tooltip title="Delete file">
-                            <IconButton
-                              size="small"
-                              onClick={() => openDeleteConfirm(file)}
-                              sx={{
-                                color: "rgba(255, 130, 130, 0.7)",
-                                '&:hover': {
-                                  color: "#ff5252",
-                                  backgroundColor: "rgba(255, 80, 80, 0.1)"
-                                },
-                                padding: '4px'
-                              }}
-                            >
-                              <DeleteIcon sx={{ fontSize: '1rem' }} />
-                            </IconButton>
-                          </Tooltip>
-                        </Box>
+                        Actions
                       </TableCell>
                     </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </Box>
-          )}
+                  </TableHead>
+                  <TableBody>
+                    {filteredFiles.map((file, index) => (
+                      <TableRow 
+                        key={file.id} 
+                        hover
+                        draggable={canEdit}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData(FILE_DRAG_TYPE, String(file.id));
+                          e.dataTransfer.effectAllowed = "move";
+                        }}
+                        sx={{ 
+                          cursor: "grab",
+                          '&:hover': { 
+                            backgroundColor: "rgba(255, 255, 255, 0.05)" 
+                          },
+                          transition: "background-color 0.2s ease"
+                        }}
+                      >
+                        <TableCell 
+                          sx={{ 
+                            py: 1.5, 
+                            color: "white",
+                            fontWeight: 500,
+                            borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)",
+                            overflow: "hidden",
+                            textOverflow: "ellipsis"
+                          }}
+                        >
+                          {file.name}
+                          {isLibraryFile(file) && (
+                            <Tooltip title="Linked from the workspace library; saving it updates every linked site">
+                              <Chip
+                                icon={<LocalLibraryIcon sx={{ fontSize: "0.8rem !important" }} />}
+                                label="Library"
+                                size="small"
+                                sx={{ ml: 1, height: 18, fontSize: "0.65rem", bgcolor: "rgba(115, 175, 255, 0.15)", color: "#73AFFF" }}
+                              />
+                            </Tooltip>
+                          )}
+                          {(file.tags?.length || (selectedFolder === null && file.folder)) ? (
+                            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, mt: 0.5 }}>
+                              {selectedFolder === null && file.folder && (
+                                <Typography component="span" sx={{ fontSize: "0.7rem", color: "rgba(255, 255, 255, 0.4)", mr: 0.5 }}>
+                                  {file.folder}/
+                                </Typography>
+                              )}
+                              {file.tags?.map((tag) => (
+                                <Chip
+                                  key={tag}
+                                  label={tag}
+                                  size="small"
+                                  onClick={() => setTagFilter((prev) => (prev.includes(tag) ? prev : [...prev, tag]))}
+                                  sx={{ height: 18, fontSize: "0.65rem", bgcolor: "rgba(255, 255, 255, 0.08)", color: "rgba(255, 255, 255, 0.8)" }}
+                                />
+                              ))}
+                            </Box>
+                          ) : null}
+                        </TableCell>
+                        <TableCell sx={{ 
+                          py: 1.5,
+                          borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)"
+                        }}>
+                          <Box sx={{ 
+                            bgcolor: getLanguageColor(file.language).light, 
+                            color: getLanguageColor(file.language).main, 
+                            display: "inline-block", 
+                            px: 1, 
+                            py: 0.5, 
+                            borderRadius: 1,
+                            fontSize: "0.7rem",
+                            fontWeight: 600,
+                            letterSpacing: "0.5px"
+                          }}>
+                            {file.language.toUpperCase()}
+                          </Box>
+                        </TableCell>
+                        <TableCell sx={{ 
+                          py: 1.5, 
+                          color: "rgba(255, 255, 255, 0.6)",
+                          fontSize: "0.85rem",
+                          borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)"
+                        }}>
+                          {file.minified_size != null ? (
+                            <Tooltip title={`${formatBytes(file.original_size ?? 0)} before minification`}>
+                              <span>{formatBytes(file.minified_size)}</span>
+                            </Tooltip>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell sx={{ 
+                          py: 1.5, 
+                          color: "rgba(255, 255, 255, 0.6)",
+                          fontSize: "0.85rem",
+                          borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)"
+                        }}>
+                          {new Date(file.created_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell align="right" sx={{ 
+                          borderBottom: index === filteredFiles.length - 1 ? "none" : "1px solid rgba(255, 255, 255, 0.05)"
+                        }}>
+                          <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                            <Tooltip title={canEdit ? "Edit file" : "View file"}>
+                              <IconButton
+                                size="small"
+                                onClick={() => openEditor(file)}
+                                sx={{
+                                  color: "rgba(255, 255, 255, 0.7)",
+                                  '&:hover': {
+                                    color: "white",
+                                    backgroundColor: "rgba(255, 255, 255, 0.1)"
+                                  },
+                                  mr: 1,
+                                  padding: '4px'
+                                }}
+                              >
+                                <EditIcon sx={{ fontSize: '1rem' }} />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Folder and tags">
+                              <IconButton
+                                size="small"
+                                disabled={!canEdit}
+                                onClick={() => setOrganizingFile(file)}
+                                sx={{
+                                  color: "rgba(255, 255, 255, 0.7)",
+                                  '&:hover': {
+                                    color: "white",
+                                    backgroundColor: "rgba(255, 255, 255, 0.1)"
+                                  },
+                                  mr: 1,
+                                  padding: '4px'
+                                }}
+                              >
+                                <LocalOfferIcon sx={{ fontSize: '1rem' }} />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="View pages using this file">
+                              <IconButton
+                                size="small"
+                                onClick={() => handleOpenFilePagesModal(file)}
+                                sx={{
+                                  color: "rgba(115, 175, 255, 0.7)",
+                                  '&:hover': {
+                                    color: "#4353ff",
+                                    backgroundColor: "rgba(67, 83, 255, 0.1)"
+                                  },
+                                  mr: 1,
+                                  padding: '4px'
+                                }}
+                              >
+                                <PagesIcon sx={{ fontSize: '1rem' }} />
+                              </IconButton>
+                            </Tooltip>
+                            {isLibraryFile(file) && (
+                              <Tooltip title="Fork into a copy owned by this site">
+                                <IconButton
+                                  size="small"
+                                  disabled={isForking || !canPublish}
+                                  onClick={() => handleFork(file)}
+                                  sx={{
+                                    color: "rgba(255, 255, 255, 0.7)",
+                                    '&:hover': {
+                                      color: "white",
+                                      backgroundColor: "rgba(255, 255, 255, 0.1)"
+                                    },
+                                    mr: 1,
+                                    padding: '4px'
+                                  }}
+                                >
+                                  <CallSplitIcon sx={{ fontSize: '1rem' }} />
+                                </IconButton>
+                              </Tooltip>
+                            )}
+                            {isLibraryFile(file) ? (
+                              <Tooltip title="Unlink from this site">
+                                <IconButton
+                                  size="small"
+                                  disabled={!canEdit}
+                                  onClick={() => handleUnlink(file)}
+                                  sx={{
+                                    color: "rgba(255, 130, 130, 0.7)",
+                                    '&:hover': {
+                                      color: "#ff5252",
+                                      backgroundColor: "rgba(255, 80, 80, 0.1)"
+                                    },
+                                    padding: '4px'
+                                  }}
+                                >
+                                  <LinkOffIcon sx={{ fontSize: '1rem' }} />
+                                </IconButton>
+                              </Tooltip>
+                            ) : (
+                              <Tooltip title="Delete file">
+                                <IconButton
+                                  size="small"
+                                  disabled={!canEdit}
+                                  onClick={() => openDeleteConfirm(file)}
+                                  sx={{
+                                    color: "rgba(255, 130, 130, 0.7)",
+                                    '&:hover': {
+                                      color: "#ff5252",
+                                      backgroundColor: "rgba(255, 80, 80, 0.1)"
+                                    },
+                                    padding: '4px'
+                                  }}
+                                >
+                                  <DeleteIcon sx={{ fontSize: '1rem' }} />
+                                </IconButton>
+                              </Tooltip>
+                            )}
+                          </Box>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </Box>
         </Box>
       </CardContent>
 
@@ -627,6 +1013,17 @@ export function FilesSection({ siteId }: FilesSectionProps) {
               </MenuItem>
             ))}
           </TextField>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={newFileInLibrary}
+                onChange={(e) => setNewFileInLibrary(e.target.checked)}
+                size="small"
+              />
+            }
+            label="Add to workspace library"
+            sx={{ mt: 1.5, color: "rgba(255, 255, 255, 0.7)", '& .MuiFormControlLabel-label': { fontSize: '0.85rem' } }}
+          />
         </DialogContent>
         <DialogActions sx={{ p: 2.5, borderTop: "1px solid rgba(255, 255, 255, 0.1)" }}>
           <Button 
@@ -638,7 +1035,7 @@ export function FilesSection({ siteId }: FilesSectionProps) {
           <Button 
             variant="contained" 
             onClick={handleCreate} 
-            disabled={isCreating || !newFileName.trim()}
+            disabled={isCreating || isCreatingLibraryFile || !newFileName.trim()}
             sx={{
               bgcolor: '#4353ff',
               '&:hover': {
@@ -646,7 +1043,7 @@ export function FilesSection({ siteId }: FilesSectionProps) {
               }
             }}
           >
-            {isCreating ? <CircularProgress size={20} /> : "Create"}
+            {isCreating || isCreatingLibraryFile ? <CircularProgress size={20} /> : "Create"}
           </Button>
         </DialogActions>
       </Dialog>
@@ -654,7 +1051,7 @@ export function FilesSection({ siteId }: FilesSectionProps) {
       {/* Editor Dialog */}
       <Dialog
         open={Boolean(editingFile)}
-        onClose={() => setEditingFile(null)}
+        onClose={closeEditor}
         fullScreen
         sx={{
           '& .MuiPaper-root': {
@@ -678,29 +1075,74 @@ export function FilesSection({ siteId }: FilesSectionProps) {
               px: 1, 
               py: 0.3, 
               borderRadius: 1, 
-              bgcolor: editingFile?.language === 'html' 
-                ? 'rgba(227, 76, 38, 0.15)' 
-                : editingFile?.language === 'css' 
-                ? 'rgba(38, 77, 228, 0.15)' 
-                : 'rgba(247, 223, 30, 0.15)',
-              color: editingFile?.language === 'html' 
-                ? '#E34C26' 
-                : editingFile?.language === 'css' 
-                ? '#264DE4' 
-                : '#F7DF1E',
+              bgcolor: getLanguageColor(editingFile?.language || 'html').light,
+              color: getLanguageColor(editingFile?.language || 'html').main,
               fontSize: '0.7rem',
               fontWeight: 600
             }}>
               {editingFile?.language.toUpperCase()}
             </Box>
           </Typography>
+          {editors.map(({ editor }) => (
+            <Tooltip key={editor} title={`${editor} also has this file open`}>
+              <Chip
+                size="small"
+                label={editor.split("@")[0]}
+                sx={{
+                  height: 22,
+                  fontSize: '0.7rem',
+                  bgcolor: 'rgba(255, 204, 0, 0.15)',
+                  color: '#FFCC00',
+                }}
+              />
+            </Tooltip>
+          ))}
           <Box sx={{ flexGrow: 1 }} />
+          {isScript && (
+            <LoadStrategySelect value={editingLoad} onChange={setEditingLoad} />
+          )}
+          <Button
+            variant="text"
+            size="small"
+            startIcon={<HistoryIcon fontSize="small" />}
+            onClick={() => setHistoryOpen((open) => !open)}
+            sx={{
+              color: historyOpen ? "white" : "rgba(255, 255, 255, 0.7)",
+              bgcolor: historyOpen ? "rgba(255, 255, 255, 0.1)" : "transparent",
+              '&:hover': {
+                bgcolor: "rgba(255, 255, 255, 0.1)",
+                color: "white"
+              },
+              px: 1.5,
+              py: 0.8
+            }}
+          >
+            History
+          </Button>
+          <Button
+            variant="text"
+            size="small"
+            startIcon={<CompareIcon fontSize="small" />}
+            onClick={toggleSavedDiff}
+            sx={{
+              color: diffBase ? "white" : "rgba(255, 255, 255, 0.7)",
+              bgcolor: diffBase ? "rgba(255, 255, 255, 0.1)" : "transparent",
+              '&:hover': {
+                bgcolor: "rgba(255, 255, 255, 0.1)",
+                color: "white"
+              },
+              px: 1.5,
+              py: 0.8
+            }}
+          >
+            {diffBase ? "Close Diff" : "Review Changes"}
+          </Button>
           <Button
             variant="contained"
             size="small"
             startIcon={isUpdating ? <CircularProgress size={16} /> : <SaveIcon fontSize="small" />}
-            onClick={handleSaveCode}
-            disabled={isUpdating}
+            onClick={() => handleSaveCode()}
+            disabled={isUpdating || isMissingSelector || hasConflictMarkers || !canEdit}
             sx={{
               bgcolor: '#4353ff',
               '&:hover': {
@@ -713,13 +1155,40 @@ export function FilesSection({ siteId }: FilesSectionProps) {
             Save
           </Button>
         </DialogTitle>
-        <DialogContent sx={{ p: 0 }}>
-          <MonacoCodeEditor
-            value={editingCode}
-            language={editingFile?.language || "html"}
-            onChange={(value) => setEditingCode(value)}
-            onDiscard={() => setEditingFile(null)}
-          />
+        {(isOutdated || hasConflictMarkers) && (
+          <Alert severity="warning" sx={{ borderRadius: 0 }}>
+            {hasConflictMarkers
+              ? "The merged code has conflicts marked with <<<<<<<, ======= and >>>>>>> lines. Keep the right version of each and remove the markers to save."
+              : "Someone else saved this file since you opened it. Saving will ask you to merge their changes with yours."}
+          </Alert>
+        )}
+        <DialogContent sx={{ p: 0, display: "flex" }}>
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <MonacoCodeEditor
+              key={`${editingFile?.id}-${restoreCount}`}
+              value={editingCode}
+              language={editingFile?.language || "html"}
+              onChange={(value) => setEditingCode(value)}
+              onDiscard={closeEditor}
+              diffBase={diffBase}
+              compileErrors={compileErrors}
+              modules={editorModules}
+              readOnly={!canEdit}
+            />
+          </Box>
+          {historyOpen && editingFile && (
+            <FileHistoryPanel
+              siteId={siteId}
+              file={editingFile}
+              sessionToken={sessionToken || ""}
+              onClose={() => setHistoryOpen(false)}
+              onRestored={handleRevisionRestored}
+              onCompare={(revision) => setDiffBase({
+                label: `Revision from ${new Date(revision.created_at).toLocaleString()}`,
+                code: revision.code || "",
+              })}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
@@ -772,11 +1241,39 @@ export function FilesSection({ siteId }: FilesSectionProps) {
         </DialogActions>
       </Dialog>
 
+      <FileConflictDialog
+        theirs={conflictingFile}
+        base={editingFile?.code || ""}
+        mine={editingCode}
+        isSaving={isUpdating}
+        onClose={() => setConflictingFile(null)}
+        onMerge={handleMergeConflict}
+        onOverwrite={handleOverwriteConflict}
+        onDiscard={handleDiscardForConflict}
+      />
+
+      <FileOrganizeDialog
+        file={organizingFile}
+        folders={folders}
+        tags={allTags}
+        isSaving={isUpdating}
+        onClose={() => setOrganizingFile(null)}
+        onSave={handleSaveOrganization}
+      />
+
+      <LibraryDialog
+        open={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        siteId={siteId}
+        sessionToken={sessionToken || ""}
+      />
+
       {/* File Pages Modal */}
       <FilePagesModal 
         open={filePagesModalOpen}
         onClose={() => setFilePagesModalOpen(false)}
         file={selectedFile}
+        files={files}
         siteId={siteId}
         sessionToken={sessionToken || ""}
       />
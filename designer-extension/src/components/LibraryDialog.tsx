@@ -0,0 +1,126 @@
+import { useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  Typography,
+} from "@mui/material";
+import LinkIcon from "@mui/icons-material/Link";
+import LinkOffIcon from "@mui/icons-material/LinkOff";
+import { LibraryFile } from "../types/types";
+import { useLibrary } from "../hooks/useLibrary";
+
+interface LibraryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  siteId: string;
+  sessionToken: string;
+}
+
+/**
+ * Lists the workspace library and links files into the site or unlinks them.
+ * Linked files show up in the site's files and update on every linked site
+ * when saved.
+ */
+export function LibraryDialog({ open, onClose, siteId, sessionToken }: LibraryDialogProps) {
+  const { libraryFiles, isLoading, error, linkFile, unlinkFile, isLinking } = useLibrary(siteId, sessionToken);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleToggle = async (file: LibraryFile) => {
+    setActionError(null);
+    try {
+      await (file.linked ? unlinkFile(file.id) : linkFile(file.id));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Failed to update the link");
+    }
+  };
+
+  const handleClose = () => {
+    setActionError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={handleClose}
+      fullWidth
+      maxWidth="sm"
+      sx={{
+        '& .MuiPaper-root': {
+          borderRadius: 2,
+          bgcolor: '#292929'
+        }
+      }}
+    >
+      <DialogTitle sx={{
+        fontSize: "1.1rem",
+        fontWeight: 600,
+        borderBottom: "1px solid rgba(255, 255, 255, 0.1)",
+        p: 2.5
+      }}>
+        Workspace Library
+      </DialogTitle>
+      <DialogContent sx={{ p: 3, mt: 1 }}>
+        {(actionError || error) && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {actionError || error?.message}
+          </Alert>
+        )}
+        {isLoading ? (
+          <Box sx={{ textAlign: "center", py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : libraryFiles.length === 0 ? (
+          <Typography color="text.secondary" sx={{ py: 2 }}>
+            The library is empty. Create a file with "Add to workspace library" checked to share it with the workspace's sites.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {libraryFiles.map((file) => (
+              <ListItem
+                key={file.id}
+                disableGutters
+                sx={{ gap: 1.5, borderBottom: "1px solid rgba(255, 255, 255, 0.05)" }}
+                secondaryAction={
+                  <Button
+                    size="small"
+                    disabled={isLinking}
+                    startIcon={file.linked ? <LinkOffIcon fontSize="small" /> : <LinkIcon fontSize="small" />}
+                    onClick={() => handleToggle(file)}
+                    sx={{ color: file.linked ? "rgba(255, 255, 255, 0.7)" : "#73AFFF", fontSize: "0.8rem" }}
+                  >
+                    {file.linked ? "Unlink" : "Link"}
+                  </Button>
+                }
+              >
+                <Box sx={{ minWidth: 0, pr: 12 }}>
+                  <Typography variant="body2" noWrap sx={{ color: "white", fontWeight: 500 }}>
+                    {file.name}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: "rgba(255, 255, 255, 0.5)" }}>
+                    {file.language.toUpperCase()}
+                    {file.folder ? ` · ${file.folder}/` : ""}
+                    {file.linked ? " · linked" : ""}
+                  </Typography>
+                </Box>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 2.5, borderTop: "1px solid rgba(255, 255, 255, 0.1)" }}>
+        <Button onClick={handleClose} sx={{ color: "rgba(255, 255, 255, 0.7)" }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
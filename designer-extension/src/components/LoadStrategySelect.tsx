@@ -0,0 +1,80 @@
+import { Box, FormControl, MenuItem, Select, TextField, Tooltip } from "@mui/material";
+import { LoadStrategy } from "../types/types";
+
+export interface LoadSettings {
+  load_strategy: LoadStrategy | null;
+  load_selector: string | null;
+}
+
+interface LoadStrategySelectProps {
+  value: LoadSettings;
+  onChange: (value: LoadSettings) => void;
+}
+
+const STRATEGY_OPTIONS: { value: LoadStrategy; label: string; description: string }[] = [
+  { value: "defer", label: "Defer", description: "Runs after the page is parsed" },
+  { value: "async", label: "Async", description: "Runs as soon as it loads, in any order" },
+  { value: "module", label: "Module", description: "Loads as an ES module" },
+  { value: "idle", label: "When idle", description: "Loads once the browser is idle" },
+  { value: "interaction", label: "On interaction", description: "Loads on the first click, key press or scroll" },
+  { value: "visible", label: "When visible", description: "Loads when an element scrolls into view" },
+];
+
+const inputSx = {
+  bgcolor: 'rgba(255, 255, 255, 0.05)',
+  color: 'white',
+  fontSize: '0.8rem',
+  '& .MuiOutlinedInput-notchedOutline': {
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  '&:hover .MuiOutlinedInput-notchedOutline': {
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+    borderColor: '#4353ff',
+  },
+};
+
+/**
+ * Picks when the loader runs a script file, with the selector to watch for
+ * the "visible" strategy.
+ */
+export function LoadStrategySelect({ value, onChange }: LoadStrategySelectProps) {
+  return (
+    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+      <Tooltip title="When this script runs on the page" placement="bottom">
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <Select
+            value={value.load_strategy || "bundle"}
+            onChange={(e) => {
+              const strategy = e.target.value === "bundle" ? null : e.target.value as LoadStrategy;
+              onChange({
+                load_strategy: strategy,
+                load_selector: strategy === "visible" ? value.load_selector : null,
+              });
+            }}
+            sx={inputSx}
+          >
+            <MenuItem value="bundle">In bundle</MenuItem>
+            {STRATEGY_OPTIONS.map((option) => (
+              <MenuItem key={option.value} value={option.value} title={option.description}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Tooltip>
+      {value.load_strategy === "visible" && (
+        <TextField
+          size="small"
+          placeholder="CSS selector, e.g. #pricing"
+          value={value.load_selector || ""}
+          onChange={(e) => onChange({ ...value, load_selector: e.target.value || null })}
+          error={!value.load_selector}
+          InputProps={{ sx: inputSx }}
+          sx={{ width: 200 }}
+        />
+      )}
+    </Box>
+  );
+}
@@ -1,35 +1,58 @@
 import { Editor, useMonaco } from '@monaco-editor/react';
 import { useEffect, useRef, useState } from 'react';
 import { Box, CircularProgress, Typography, Button, Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
-import { FileLanguage } from '../types/types';
+import { CompileDiagnostic, FileLanguage, SiteFile } from '../types/types';
 import * as monaco from 'monaco-editor';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { MonacoDiffEditor } from './MonacoDiffEditor';
+import { setCodoneModules } from '../monaco-worker';
 
 // Map FileLanguage to Monaco language IDs
 const languageMap: Record<FileLanguage, string> = {
   'html': 'html',
   'css': 'css',
-  'js': 'javascript'
+  'js': 'javascript',
+  'ts': 'typescript',
+  'scss': 'scss'
 };
 
+// Marker owner for errors reported by the server-side compiler
+const COMPILER_MARKER_OWNER = 'codone-compiler';
+
+/**
+ * Code the working buffer is compared against in diff mode
+ */
+export interface DiffBase {
+  label: string;
+  code: string;
+}
+
 interface MonacoCodeEditorProps {
   language: FileLanguage;
   value: string;
   onChange: (value: string) => void;
   onDiscard?: () => void;
+  /** When set, shows a side-by-side diff of the working buffer against this code */
+  diffBase?: DiffBase | null;
+  /** Errors from compiling the last saved TypeScript or SCSS code, marked in the editor */
+  compileErrors?: CompileDiagnostic[];
+  /** Other files of the site, which `codone:` imports in the code resolve to */
+  modules?: SiteFile[];
+  /** Prevents editing, e.g. for users who may only view the file */
+  readOnly?: boolean;
 }
 
-export function MonacoCodeEditor({ language, value, onChange, onDiscard }: MonacoCodeEditorProps) {
+export function MonacoCodeEditor({ language, value, onChange, onDiscard, diffBase, compileErrors = [], modules, readOnly = false }: MonacoCodeEditorProps) {
   const monaco = useMonaco();
   const editorRef = useRef<any>(null);
   const [errors, setErrors] = useState<monaco.editor.IMarker[]>([]);
   const [initialValue] = useState(value); // Store initial value to detect changes
   const [discardModalOpen, setDiscardModalOpen] = useState(false);
 
-  // Check if there are unsaved changes
+  // Check if there are unsaved changes. Compares the controlled value
+  // rather than the editor instance, which is unmounted in diff mode.
   const hasUnsavedChanges = () => {
-    const currentValue = editorRef.current?.getValue();
-    return currentValue !== initialValue;
+    return value !== initialValue;
   };
 
   // Handle back button click
@@ -95,6 +118,28 @@ export function MonacoCodeEditor({ language, value, onChange, onDiscard }: Monac
     }
   }, [monaco]);
 
+  // Make the site's files available to `codone:` imports for IntelliSense
+  useEffect(() => {
+    if (modules) {
+      setCodoneModules(modules);
+    }
+  }, [modules]);
+
+  // Mark compile errors in the code; they are replaced on the next save
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    monaco.editor.setModelMarkers(model, COMPILER_MARKER_OWNER, compileErrors.map((error) => ({
+      severity: monaco.MarkerSeverity.Error,
+      message: error.message,
+      startLineNumber: error.line,
+      startColumn: error.column,
+      endLineNumber: error.line,
+      endColumn: model.getLineMaxColumn(Math.min(error.line, model.getLineCount())),
+    })));
+  }, [monaco, compileErrors, diffBase]);
+
   // Update editor settings when language changes
   useEffect(() => {
     if (editorRef.current) {
@@ -118,13 +163,13 @@ export function MonacoCodeEditor({ language, value, onChange, onDiscard }: Monac
             snippetsPreventQuickSuggestions: false
           }
         });
-      } else if (language === 'css') {
+      } else if (language === 'css' || language === 'scss') {
         editor.updateOptions({
           ...baseSettings,
           formatOnType: true,
           colorDecorators: true
         });
-      } else if (language === 'js') {
+      } else if (language === 'js' || language === 'ts') {
         editor.updateOptions({
           ...baseSettings,
           autoIndent: 'full', 
@@ -218,6 +263,15 @@ export function MonacoCodeEditor({ language, value, onChange, onDiscard }: Monac
         </Button>
       </Box>
       
+      {diffBase ? (
+        <MonacoDiffEditor
+          language={languageMap[language]}
+          original={diffBase.code}
+          originalLabel={diffBase.label}
+          value={value}
+          onChange={onChange}
+        />
+      ) : (
       <Editor
         height="100%"
         width="100%"
@@ -227,6 +281,7 @@ export function MonacoCodeEditor({ language, value, onChange, onDiscard }: Monac
         theme="codone-dark"
         defaultValue={value}
         options={{
+          readOnly,
           fontSize: 14,
           fontFamily: '"Fira Code", ui-monospace, SFMono-Regular, monospace',
           minimap: { enabled: true },
@@ -265,7 +320,8 @@ export function MonacoCodeEditor({ language, value, onChange, onDiscard }: Monac
         onMount={handleEditorDidMount}
         loading={<CircularProgress size={40} sx={{ color: '#4353ff' }} />}
       />
-      <ErrorDisplay />
+      )}
+      {!diffBase && <ErrorDisplay />}
 
       {/* Discard Changes Confirmation Modal */}
       <Dialog
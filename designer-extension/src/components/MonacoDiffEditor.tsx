@@ -0,0 +1,272 @@
+import { DiffEditor, MonacoDiffEditor as MonacoDiffEditorInstance } from '@monaco-editor/react';
+import { useEffect, useRef, useState } from 'react';
+import { Box, Button, CircularProgress, Typography, Tooltip } from '@mui/material';
+import * as monaco from 'monaco-editor';
+import CheckIcon from '@mui/icons-material/Check';
+import UndoIcon from '@mui/icons-material/Undo';
+
+interface MonacoDiffEditorProps {
+  /** Monaco language ID (e.g. "javascript") */
+  language: string;
+  /** Code being compared against (last saved code or a stored revision) */
+  original: string;
+  /** Label describing the original side, e.g. "Last saved" */
+  originalLabel: string;
+  /** Working buffer; editable on the right-hand side */
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * A single changed region between the original and the working buffer.
+ * Line numbers follow Monaco's ILineChange conventions: an end line of 0
+ * means the region is empty on that side and the start line is the line
+ * it follows.
+ */
+interface Hunk {
+  key: string;
+  change: monaco.editor.ILineChange;
+  originalText: string | null;
+  modifiedText: string | null;
+}
+
+/**
+ * Returns the text of the inclusive line range, or null for an empty range.
+ */
+function getLinesText(model: monaco.editor.ITextModel, startLine: number, endLine: number) {
+  if (endLine === 0) return null;
+  return model.getValueInRange(
+    new monaco.Range(startLine, 1, endLine, model.getLineMaxColumn(endLine))
+  );
+}
+
+/**
+ * Builds the edit that replaces a hunk in the working buffer with the original text.
+ */
+function buildRevertEdit(
+  original: monaco.editor.ITextModel,
+  modified: monaco.editor.ITextModel,
+  change: monaco.editor.ILineChange
+): monaco.editor.IIdentifiedSingleEditOperation {
+  const originalText = getLinesText(original, change.originalStartLineNumber, change.originalEndLineNumber);
+  const { modifiedStartLineNumber: start, modifiedEndLineNumber: end } = change;
+
+  // Lines were removed from the working buffer: re-insert them after `start`
+  if (end === 0) {
+    if (start === 0) {
+      return { range: new monaco.Range(1, 1, 1, 1), text: `${originalText}\n`, forceMoveMarkers: true };
+    }
+    const column = modified.getLineMaxColumn(start);
+    return { range: new monaco.Range(start, column, start, column), text: `\n${originalText}`, forceMoveMarkers: true };
+  }
+
+  // Lines were changed: swap them for the original lines
+  if (originalText !== null) {
+    return {
+      range: new monaco.Range(start, 1, end, modified.getLineMaxColumn(end)),
+      text: originalText,
+      forceMoveMarkers: true,
+    };
+  }
+
+  // Lines were added: remove them along with their line break
+  if (end < modified.getLineCount()) {
+    return { range: new monaco.Range(start, 1, end + 1, 1), text: '', forceMoveMarkers: true };
+  }
+  if (start > 1) {
+    return {
+      range: new monaco.Range(start - 1, modified.getLineMaxColumn(start - 1), end, modified.getLineMaxColumn(end)),
+      text: '',
+      forceMoveMarkers: true,
+    };
+  }
+  return { range: modified.getFullModelRange(), text: '', forceMoveMarkers: true };
+}
+
+/**
+ * Side-by-side diff between a baseline and the working buffer, with a
+ * per-hunk review bar to accept or revert each change before saving.
+ */
+export function MonacoDiffEditor({ language, original, originalLabel, value, onChange }: MonacoDiffEditorProps) {
+  const diffEditorRef = useRef<MonacoDiffEditorInstance | null>(null);
+  const [hunks, setHunks] = useState<Hunk[]>([]);
+  // Hunks the reviewer kept, identified by their content so they stay
+  // accepted when edits elsewhere shift line numbers
+  const [acceptedKeys, setAcceptedKeys] = useState<Set<string>>(new Set());
+  const subscriptions = useRef<monaco.IDisposable[]>([]);
+  // Latest onChange, read from the content listener registered on mount
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const refreshHunks = () => {
+    const diffEditor = diffEditorRef.current;
+    const originalModel = diffEditor?.getOriginalEditor().getModel();
+    const modifiedModel = diffEditor?.getModifiedEditor().getModel();
+    if (!diffEditor || !originalModel || !modifiedModel) return;
+
+    const changes = diffEditor.getLineChanges() || [];
+    setHunks(changes.map((change) => {
+      const originalText = getLinesText(originalModel, change.originalStartLineNumber, change.originalEndLineNumber);
+      const modifiedText = getLinesText(modifiedModel, change.modifiedStartLineNumber, change.modifiedEndLineNumber);
+      return {
+        key: `${originalText ?? ''}\u0000${modifiedText ?? ''}`,
+        change,
+        originalText,
+        modifiedText,
+      };
+    }));
+  };
+
+  const handleMount = (diffEditor: MonacoDiffEditorInstance) => {
+    diffEditorRef.current = diffEditor;
+    const modifiedEditor = diffEditor.getModifiedEditor();
+
+    subscriptions.current.push(
+      diffEditor.onDidUpdateDiff(refreshHunks),
+      modifiedEditor.onDidChangeModelContent(() => onChangeRef.current(modifiedEditor.getValue()))
+    );
+    refreshHunks();
+  };
+
+  // Dispose listeners when the diff view closes
+  useEffect(() => {
+    return () => {
+      subscriptions.current.forEach((subscription) => subscription.dispose());
+      subscriptions.current = [];
+    };
+  }, []);
+
+  const revertHunk = (hunk: Hunk) => {
+    const diffEditor = diffEditorRef.current;
+    const originalModel = diffEditor?.getOriginalEditor().getModel();
+    const modifiedEditor = diffEditor?.getModifiedEditor();
+    const modifiedModel = modifiedEditor?.getModel();
+    if (!originalModel || !modifiedEditor || !modifiedModel) return;
+
+    modifiedEditor.pushUndoStop();
+    modifiedEditor.executeEdits('codone-diff-revert', [buildRevertEdit(originalModel, modifiedModel, hunk.change)]);
+    modifiedEditor.pushUndoStop();
+  };
+
+  const acceptHunk = (hunk: Hunk) => {
+    setAcceptedKeys((prev) => new Set(prev).add(hunk.key));
+  };
+
+  const revealHunk = (hunk: Hunk) => {
+    const line = Math.max(hunk.change.modifiedStartLineNumber, 1);
+    diffEditorRef.current?.getModifiedEditor().revealLineInCenter(line);
+  };
+
+  const pendingHunks = hunks.filter((hunk) => !acceptedKeys.has(hunk.key));
+
+  const describeHunk = (hunk: Hunk) => {
+    const { change } = hunk;
+    if (change.modifiedEndLineNumber === 0) {
+      return `Removed ${change.originalEndLineNumber - change.originalStartLineNumber + 1} line(s) after line ${change.modifiedStartLineNumber}`;
+    }
+    const range = change.modifiedStartLineNumber === change.modifiedEndLineNumber
+      ? `line ${change.modifiedStartLineNumber}`
+      : `lines ${change.modifiedStartLineNumber}-${change.modifiedEndLineNumber}`;
+    return change.originalEndLineNumber === 0 ? `Added ${range}` : `Changed ${range}`;
+  };
+
+  return (
+    <Box sx={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <Box sx={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 2,
+        px: 2,
+        py: 1,
+        mt: 6,
+        bgcolor: '#252525',
+        borderBottom: '1px solid rgba(255, 255, 255, 0.1)',
+      }}>
+        <Typography sx={{ fontSize: '0.8rem', color: 'rgba(255, 255, 255, 0.6)', flex: 1 }}>
+          {originalLabel} <Box component="span" sx={{ color: 'rgba(255, 255, 255, 0.4)' }}>vs.</Box> working copy
+        </Typography>
+        <Typography sx={{ fontSize: '0.8rem', color: pendingHunks.length ? '#FFCC00' : 'rgba(255, 255, 255, 0.6)' }}>
+          {hunks.length === 0
+            ? 'No changes'
+            : `${pendingHunks.length} of ${hunks.length} change(s) to review`}
+        </Typography>
+      </Box>
+
+      <Box sx={{ flex: 1, display: 'flex', minHeight: 0 }}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <DiffEditor
+            height="100%"
+            width="100%"
+            language={language}
+            original={original}
+            modified={value}
+            theme="codone-dark"
+            onMount={handleMount}
+            options={{
+              fontSize: 14,
+              fontFamily: '"Fira Code", ui-monospace, SFMono-Regular, monospace',
+              renderSideBySide: true,
+              originalEditable: false,
+              renderMarginRevertIcon: true,
+              automaticLayout: true,
+              scrollBeyondLastLine: false,
+              minimap: { enabled: false },
+              wordWrap: 'on',
+            }}
+            loading={<CircularProgress size={40} sx={{ color: '#4353ff' }} />}
+          />
+        </Box>
+
+        {pendingHunks.length > 0 && (
+          <Box sx={{
+            width: 260,
+            flexShrink: 0,
+            overflowY: 'auto',
+            bgcolor: '#252525',
+            borderLeft: '1px solid rgba(255, 255, 255, 0.1)',
+          }}>
+            {pendingHunks.map((hunk) => (
+              <Box
+                key={hunk.key}
+                sx={{
+                  px: 1.5,
+                  py: 1,
+                  borderBottom: '1px solid rgba(255, 255, 255, 0.05)',
+                }}
+              >
+                <Typography
+                  onClick={() => revealHunk(hunk)}
+                  sx={{ fontSize: '0.8rem', color: 'white', cursor: 'pointer', '&:hover': { textDecoration: 'underline' } }}
+                >
+                  {describeHunk(hunk)}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+                  <Tooltip title="Keep this change">
+                    <Button
+                      size="small"
+                      startIcon={<CheckIcon sx={{ fontSize: '0.9rem' }} />}
+                      onClick={() => acceptHunk(hunk)}
+                      sx={{ color: '#4CAF50', fontSize: '0.75rem', minWidth: 0, px: 1 }}
+                    >
+                      Accept
+                    </Button>
+                  </Tooltip>
+                  <Tooltip title={`Replace with ${originalLabel.toLowerCase()}`}>
+                    <Button
+                      size="small"
+                      startIcon={<UndoIcon sx={{ fontSize: '0.9rem' }} />}
+                      onClick={() => revertHunk(hunk)}
+                      sx={{ color: '#F48771', fontSize: '0.75rem', minWidth: 0, px: 1 }}
+                    >
+                      Revert
+                    </Button>
+                  </Tooltip>
+                </Box>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -33,9 +33,13 @@ import SaveIcon from "@mui/icons-material/Save";
 import CancelIcon from "@mui/icons-material/Cancel";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import SearchIcon from "@mui/icons-material/Search";
+import PublishIcon from "@mui/icons-material/Publish";
 import { useAuth } from "../hooks/useAuth";
 import { useFiles } from "../hooks/useFiles";
+import { BundleSizeChip } from "./BundleSizeChip";
+import { BulkAddFilesMenu } from "./BulkAddFilesMenu";
 import { usePages } from "../hooks/usePages";
+import { useSiteRole } from "../hooks/useSiteRole";
 
 interface PageFileManagerProps {
   siteId: string;
@@ -47,6 +51,24 @@ interface SupabasePage {
   name: string;
   head_files: string[];
   body_files: string[];
+  draft_head_files?: string[] | null;
+  draft_body_files?: string[] | null;
+  // True when head_files/body_files hold an unpublished draft
+  has_draft?: boolean;
+}
+
+/**
+ * Returns the page with its pending draft assignments (if any) in
+ * head_files/body_files, which is what this manager edits. Drafts are only
+ * served by the loader in preview mode until published.
+ */
+function toEditablePage(page: SupabasePage): SupabasePage {
+  return {
+    ...page,
+    head_files: page.draft_head_files ?? page.head_files,
+    body_files: page.draft_body_files ?? page.body_files,
+    has_draft: page.draft_head_files != null || page.draft_body_files != null,
+  };
 }
 
 export function PageFileManager({ siteId }: PageFileManagerProps) {
@@ -61,6 +83,11 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
     isLoading: filesLoading,
     apiDisabled,
   } = useFiles(siteId, sessionToken || "");
+  // Viewers see the assignments; editing the draft takes an editor and
+  // making it live a publisher
+  const { hasRole } = useSiteRole(siteId, sessionToken || "");
+  const canEdit = hasRole("editor");
+  const canPublish = hasRole("publisher");
 
   // Track API attempt to prevent repeated failures
   const [apiAttempted, setApiAttempted] = useState(false);
@@ -77,6 +104,9 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
 
   // Save status
   const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "success" | "error">("idle");
+
+  // Publish status
+  const [publishStatus, setPublishStatus] = useState<"idle" | "publishing" | "success" | "error">("idle");
   
   const [sbPages, setSbPages] = useState<SupabasePage[]>([]);
 
@@ -124,7 +154,7 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
         });
         if (!res.ok) throw new Error("Failed to fetch supabase pages");
         const j = await res.json();
-        setSbPages(j.pages || []);
+        setSbPages((j.pages || []).map(toEditablePage));
       } catch (e) {
         console.error("Error fetching Supabase pages:", e);
       }
@@ -328,6 +358,16 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
     }
   }, [saveStatus]);
 
+  // Resets publish status after success or error
+  useEffect(() => {
+    if (publishStatus === "success" || publishStatus === "error") {
+      const timer = setTimeout(() => {
+        setPublishStatus("idle");
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [publishStatus]);
+
   const saveChanges = async () => {
     if (!selectedPageId) return;
     
@@ -376,7 +416,7 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
       setSbPages(prev => {
         const newPages = prev.map(p => {
           if (p.id === sbPageId) {
-            return { ...p, head_files: headStr as any, body_files: bodyStr as any };
+            return { ...p, head_files: headStr as any, body_files: bodyStr as any, has_draft: true };
           }
           return p;
         });
@@ -391,6 +431,44 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
     }
   };
 
+  // Promote the saved draft to the live site
+  const publishChanges = async () => {
+    if (!selectedPageId) return;
+
+    const sbPageId = pageMapping[selectedPageId];
+    if (!sbPageId) {
+      console.error("Could not find Supabase page ID for Webflow page:", selectedPageId);
+      setPublishStatus("error");
+      return;
+    }
+
+    setPublishStatus("publishing");
+    try {
+      const response = await fetch(`${base_url}/api/pages/${sbPageId}/publish`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("Failed to publish page:", errorText);
+        setPublishStatus("error");
+        return;
+      }
+
+      const result = await response.json();
+      console.log("[PageFileManager.publishChanges] Publish response:", result);
+
+      setSbPages(prev => prev.map(p => (p.id === sbPageId ? toEditablePage(result.page) : p)));
+      setPublishStatus("success");
+    } catch (e) {
+      console.error("Error publishing changes:", e);
+      setPublishStatus("error");
+    }
+  };
+
   // Reset changes to original state
   const discardChanges = () => {
     if (!selectedPageId) return;
@@ -484,7 +562,12 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
   };
   
   // Determine if save button should be disabled
-  const isSaveDisabled = !selectedPageId || saveStatus === "saving" || !hasChanges();
+  const isSaveDisabled = !selectedPageId || saveStatus === "saving" || !hasChanges() || !canEdit;
+
+  // Publishing is possible once the draft is saved and differs from live
+  const selectedSbPage = selectedPageId ? sbPages.find(p => p.id === pageMapping[selectedPageId]) : undefined;
+  const hasPendingDraft = Boolean(selectedSbPage?.has_draft);
+  const isPublishDisabled = !hasPendingDraft || hasChanges() || publishStatus === "publishing" || !canPublish;
 
   // Get language color for a file
   const getLanguageColor = (language: string) => {
@@ -495,6 +578,10 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
         return { main: '#264DE4', light: 'rgba(38, 77, 228, 0.15)' };
       case 'js':
         return { main: '#F7DF1E', light: 'rgba(247, 223, 30, 0.15)' };
+      case 'ts':
+        return { main: '#3178C6', light: 'rgba(49, 120, 198, 0.15)' };
+      case 'scss':
+        return { main: '#CD6799', light: 'rgba(205, 103, 153, 0.15)' };
       default:
         return { main: '#4353ff', light: 'rgba(67, 83, 255, 0.15)' };
     }
@@ -567,7 +654,7 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
               <IconButton 
                 size="small" 
                 onClick={() => setList(moveUp(list, idx))} 
-                disabled={idx === 0}
+                disabled={idx === 0 || !canEdit}
                 sx={{
                   color: 'rgba(255, 255, 255, 0.6)',
                   '&:hover': { 
@@ -590,7 +677,7 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
               <IconButton 
                 size="small" 
                 onClick={() => setList(moveDown(list, idx))} 
-                disabled={idx === list.length - 1}
+                disabled={idx === list.length - 1 || !canEdit}
                 sx={{
                   color: 'rgba(255, 255, 255, 0.6)',
                   '&:hover': { 
@@ -609,22 +696,25 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
           </Tooltip>
           
           <Tooltip title="Remove from page">
-            <IconButton 
-              size="small" 
-              onClick={() => setList(list.filter((_, i) => i !== idx))}
-              sx={{
-                color: '#ff5252',
-                opacity: 0.7,
-                '&:hover': { 
-                  color: '#ff5252', 
-                  backgroundColor: 'rgba(255, 80, 80, 0.1)',
-                  opacity: 1
-                },
-                p: 0.75
-              }}
-            >
-              <CloseIcon fontSize="small" />
-            </IconButton>
+            <span>
+              <IconButton 
+                size="small" 
+                onClick={() => setList(list.filter((_, i) => i !== idx))}
+                disabled={!canEdit}
+                sx={{
+                  color: '#ff5252',
+                  opacity: 0.7,
+                  '&:hover': { 
+                    color: '#ff5252', 
+                    backgroundColor: 'rgba(255, 80, 80, 0.1)',
+                    opacity: 1
+                  },
+                  p: 0.75
+                }}
+              >
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </span>
           </Tooltip>
         </Stack>
       </Paper>
@@ -770,8 +860,37 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
                 }
               }}
             >
-              {saveStatus === "saving" ? "Saving..." : "Save changes"}
+              {saveStatus === "saving" ? "Saving..." : "Save draft"}
             </Button>
+            <Tooltip title={!canPublish ? "Publishing requires the publisher role" : hasPendingDraft ? "Make the saved draft live on the site" : "No unpublished changes"}>
+              <span>
+                <Button
+                  variant="contained"
+                  onClick={publishChanges}
+                  disabled={isPublishDisabled}
+                  startIcon={publishStatus === "publishing" ? <CircularProgress size={16} /> : <PublishIcon />}
+                  sx={{
+                    backgroundColor: '#4353ff',
+                    color: 'white',
+                    py: 0.8,
+                    px: 2,
+                    fontWeight: 500,
+                    textTransform: 'none',
+                    fontSize: '0.85rem',
+                    borderRadius: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#3444F0',
+                    },
+                    '&.Mui-disabled': {
+                      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                      color: 'rgba(255, 255, 255, 0.3)'
+                    }
+                  }}
+                >
+                  {publishStatus === "publishing" ? "Publishing..." : "Publish"}
+                </Button>
+              </span>
+            </Tooltip>
           </Box>
         </Box>
         
@@ -940,7 +1059,55 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
               }
             }}
           >
-            Changes saved successfully
+            Draft saved. Preview it by adding ?codone=preview to the page URL, then publish to make it live.
+          </Alert>
+        )}
+
+        {publishStatus === "success" && (
+          <Alert 
+            severity="success" 
+            sx={{ 
+              mb: 3, 
+              backgroundColor: alpha('#4caf50', 0.1),
+              color: '#81c784',
+              '& .MuiAlert-icon': {
+                color: '#81c784'
+              }
+            }}
+          >
+            Changes published to the live site
+          </Alert>
+        )}
+
+        {publishStatus === "error" && (
+          <Alert 
+            severity="error" 
+            sx={{ 
+              mb: 3,
+              backgroundColor: alpha('#f44336', 0.1),
+              color: '#e57373',
+              '& .MuiAlert-icon': {
+                color: '#e57373'
+              }
+            }}
+          >
+            Failed to publish changes
+          </Alert>
+        )}
+
+        {hasPendingDraft && !hasChanges() && publishStatus === "idle" && saveStatus === "idle" && (
+          <Alert 
+            severity="info" 
+            sx={{ 
+              mb: 3,
+              backgroundColor: alpha('#4353ff', 0.1),
+              color: '#73AFFF',
+              '& .MuiAlert-icon': {
+                color: '#73AFFF'
+              }
+            }}
+          >
+            This page has unpublished changes. Add ?codone=preview to the page URL to preview them.
           </Alert>
         )}
         
@@ -1000,19 +1167,22 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
                   &lt;head&gt; Files
                 </Typography>
               </Box>
-              <Chip 
-                label={`${headList.length} ${headList.length === 1 ? 'file' : 'files'}`} 
-                size="small" 
-                sx={{ 
-                  height: 22, 
-                  backgroundColor: 'rgba(255, 255, 255, 0.08)',
-                  color: 'rgba(255, 255, 255, 0.9)',
-                  fontWeight: 500,
-                  fontSize: '0.7rem',
-                  px: 0.5,
-                  borderRadius: '4px'
-                }} 
-              />
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <BundleSizeChip fileIds={headList} files={files} />
+                <Chip 
+                  label={`${headList.length} ${headList.length === 1 ? 'file' : 'files'}`} 
+                  size="small" 
+                  sx={{ 
+                    height: 22, 
+                    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+                    color: 'rgba(255, 255, 255, 0.9)',
+                    fontWeight: 500,
+                    fontSize: '0.7rem',
+                    px: 0.5,
+                    borderRadius: '4px'
+                  }} 
+                />
+              </Box>
             </Box>
             
             <Box sx={{ p: 2, height: '100%' }}>
@@ -1041,6 +1211,7 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
               <FormControl 
                 fullWidth 
                 size="small" 
+                disabled={!canEdit}
                 sx={{ 
                   mt: headList.length > 0 ? 2 : 3,
                 }}
@@ -1207,6 +1378,12 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
                     })}
                 </Select>
               </FormControl>
+              <BulkAddFilesMenu
+                files={files}
+                assignedIds={headList}
+                disabled={!canEdit}
+                onAdd={(ids) => setHeadList([...headList, ...ids])}
+              />
             </Box>
           </Paper>
           
@@ -1244,19 +1421,22 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
                   &lt;body&gt; Files
                 </Typography>
               </Box>
-              <Chip 
-                label={`${bodyList.length} ${bodyList.length === 1 ? 'file' : 'files'}`} 
-                size="small" 
-                sx={{ 
-                  height: 22, 
-                  backgroundColor: 'rgba(255, 255, 255, 0.08)',
-                  color: 'rgba(255, 255, 255, 0.9)',
-                  fontWeight: 500,
-                  fontSize: '0.7rem',
-                  px: 0.5,
-                  borderRadius: '4px'
-                }} 
-              />
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <BundleSizeChip fileIds={bodyList} files={files} />
+                <Chip 
+                  label={`${bodyList.length} ${bodyList.length === 1 ? 'file' : 'files'}`} 
+                  size="small" 
+                  sx={{ 
+                    height: 22, 
+                    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+                    color: 'rgba(255, 255, 255, 0.9)',
+                    fontWeight: 500,
+                    fontSize: '0.7rem',
+                    px: 0.5,
+                    borderRadius: '4px'
+                  }} 
+                />
+              </Box>
             </Box>
             
             <Box sx={{ p: 2, height: '100%' }}>
@@ -1285,6 +1465,7 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
               <FormControl 
                 fullWidth 
                 size="small" 
+                disabled={!canEdit}
                 sx={{ 
                   mt: bodyList.length > 0 ? 2 : 3,
                 }}
@@ -1451,6 +1632,12 @@ export function PageFileManager({ siteId }: PageFileManagerProps) {
                     })}
                 </Select>
               </FormControl>
+              <BulkAddFilesMenu
+                files={files}
+                assignedIds={bodyList}
+                disabled={!canEdit}
+                onAdd={(ids) => setBodyList([...bodyList, ...ids])}
+              />
             </Box>
           </Paper>
         </Box>
@@ -30,11 +30,14 @@ import ArrowUpwardIcon from "@mui/icons-material/ArrowUpward";
 import ArrowDownwardIcon from "@mui/icons-material/ArrowDownward";
 import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
 import SaveIcon from "@mui/icons-material/Save";
+import PublishIcon from "@mui/icons-material/Publish";
 import CancelIcon from "@mui/icons-material/Cancel";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import { green } from "@mui/material/colors";
 import { useAuth } from "../hooks/useAuth";
 import { useFiles } from "../hooks/useFiles";
+import { useSiteRole } from "../hooks/useSiteRole";
+import { BundleSizeChip } from "./BundleSizeChip";
 
 interface SiteWideCodeManagerProps {
   siteId: string;
@@ -56,6 +59,9 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
   const { sessionToken } = useAuth();
   const [isLoading, setIsLoading] = useState(true);
   const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "success" | "error">("idle");
+  const [publishStatus, setPublishStatus] = useState<"idle" | "publishing" | "success" | "error">("idle");
+  // True when the saved assignments are a draft not yet served to visitors
+  const [hasPendingDraft, setHasPendingDraft] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [siteCode, setSiteCode] = useState<SiteCodeData>({
     head_code: [],
@@ -77,6 +83,11 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
     isLoading: filesLoading,
     apiDisabled,
   } = useFiles(siteId, sessionToken || "");
+  // Viewers see the assignments; editing the draft takes an editor and
+  // making it live a publisher
+  const { hasRole } = useSiteRole(siteId, sessionToken || "");
+  const canEdit = hasRole("editor");
+  const canPublish = hasRole("publisher");
   
   const base_url = import.meta.env.VITE_NEXTJS_API_URL;
 
@@ -136,6 +147,17 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
         }
         
         if (currentSite) {
+          // Edit the pending draft when there is one, otherwise the live assignments
+          const siteHasDraft = currentSite.draft_head_files != null || currentSite.draft_body_files != null;
+          if (siteHasDraft) {
+            currentSite = {
+              ...currentSite,
+              head_files: currentSite.draft_head_files ?? currentSite.head_files,
+              body_files: currentSite.draft_body_files ?? currentSite.body_files,
+            };
+          }
+          setHasPendingDraft(siteHasDraft);
+
           // Check for alternate field names (backward compatibility)
           const headCodeField = 
             currentSite.head_code !== undefined ? 'head_code' : 
@@ -361,17 +383,16 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
       const headIdsForSave = siteCode.head_code.map(file => Number(file.id));
       const bodyIdsForSave = siteCode.body_code.map(file => Number(file.id));
       
-      // Update Supabase
-      const response = await fetch(`${base_url}/api/supabase-sites`, {
-        method: "POST",
+      // Save as a draft; it goes live once published
+      const response = await fetch(`${base_url}/api/sites/${siteId}`, {
+        method: "PUT",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${sessionToken}`,
         },
         body: JSON.stringify({
-          webflow_site_id: siteId,
-          head_code: headIdsForSave,
-          body_code: bodyIdsForSave,
+          head_files: headIdsForSave,
+          body_files: bodyIdsForSave,
         }),
       });
       
@@ -381,6 +402,7 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
       
       // Update original state to match current state
       setOriginalSiteCode(JSON.parse(JSON.stringify(siteCode)));
+      setHasPendingDraft(true);
       
       setSaveStatus("success");
       
@@ -395,6 +417,38 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
     }
   };
   
+  // Promote the saved draft to the live site
+  const publishChanges = async () => {
+    if (!siteId) return;
+    
+    try {
+      setPublishStatus("publishing");
+      
+      const response = await fetch(`${base_url}/api/sites/${siteId}/publish`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Failed to publish site code: ${response.statusText}`);
+      }
+      
+      setHasPendingDraft(false);
+      setPublishStatus("success");
+      
+      // Reset success status after a delay
+      setTimeout(() => {
+        setPublishStatus("idle");
+      }, 3000);
+    } catch (error) {
+      console.error("Error publishing site code:", error);
+      setErrorMessage(error instanceof Error ? error.message : "Unknown error occurred");
+      setPublishStatus("error");
+    }
+  };
+  
   // Discard changes
   const discardChanges = () => {
     // Reset to original state
@@ -444,6 +498,10 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
         return { main: '#264de4', light: 'rgba(38, 77, 228, 0.12)' };
       case 'html':
         return { main: '#e34c26', light: 'rgba(227, 76, 38, 0.12)' };
+      case 'ts':
+        return { main: '#3178c6', light: 'rgba(49, 120, 198, 0.12)' };
+      case 'scss':
+        return { main: '#cd6799', light: 'rgba(205, 103, 153, 0.12)' };
       default:
         return { main: '#aaa', light: 'rgba(170, 170, 170, 0.12)' };
     }
@@ -519,7 +577,7 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
               <IconButton 
                 size="small" 
                 onClick={() => setList(moveUp(list, idx))} 
-                disabled={idx === 0}
+                disabled={idx === 0 || !canEdit}
                 sx={{
                   color: 'rgba(255, 255, 255, 0.6)',
                   '&:hover': { 
@@ -542,7 +600,7 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
               <IconButton 
                 size="small" 
                 onClick={() => setList(moveDown(list, idx))} 
-                disabled={idx === list.length - 1}
+                disabled={idx === list.length - 1 || !canEdit}
                 sx={{
                   color: 'rgba(255, 255, 255, 0.6)',
                   '&:hover': { 
@@ -561,22 +619,25 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
           </Tooltip>
           
           <Tooltip title="Remove">
-            <IconButton 
-              size="small" 
-              onClick={() => handleRemoveFile(location, file.id)}
-              sx={{
-                color: '#ff5252',
-                opacity: 0.7,
-                '&:hover': { 
-                  color: '#ff5252', 
-                  backgroundColor: 'rgba(255, 80, 80, 0.1)',
-                  opacity: 1
-                },
-                p: 0.75
-              }}
-            >
-              <CloseIcon fontSize="small" />
-            </IconButton>
+            <span>
+              <IconButton 
+                size="small" 
+                onClick={() => handleRemoveFile(location, file.id)}
+                disabled={!canEdit}
+                sx={{
+                  color: '#ff5252',
+                  opacity: 0.7,
+                  '&:hover': { 
+                    color: '#ff5252', 
+                    backgroundColor: 'rgba(255, 80, 80, 0.1)',
+                    opacity: 1
+                  },
+                  p: 0.75
+                }}
+              >
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </span>
           </Tooltip>
         </Stack>
       </Paper>
@@ -645,7 +706,8 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
   }
 
   // Determine if save button should be disabled
-  const isSaveDisabled = saveStatus === "saving" || !hasChanges();
+  const isSaveDisabled = saveStatus === "saving" || !hasChanges() || !canEdit;
+  const isPublishDisabled = !hasPendingDraft || hasChanges() || publishStatus === "publishing" || !canPublish;
 
   return (
     <Box>
@@ -666,7 +728,27 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
           sx={{ mb: 2 }}
           onClose={() => setSaveStatus("idle")}
         >
-          Site-wide code updated successfully
+          Site-wide code saved as a draft. Preview it by adding ?codone=preview to a page URL, then publish to make it live.
+        </Alert>
+      )}
+      
+      {publishStatus === "error" && (
+        <Alert 
+          severity="error" 
+          sx={{ mb: 2 }}
+          onClose={() => setPublishStatus("idle")}
+        >
+          {errorMessage || "Failed to publish site-wide code"}
+        </Alert>
+      )}
+      
+      {publishStatus === "success" && (
+        <Alert 
+          severity="success" 
+          sx={{ mb: 2 }}
+          onClose={() => setPublishStatus("idle")}
+        >
+          Site-wide code published
         </Alert>
       )}
       
@@ -732,14 +814,43 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
                 }
               }}
             >
-              {saveStatus === "saving" ? "Saving..." : "Save changes"}
+              {saveStatus === "saving" ? "Saving..." : "Save draft"}
             </Button>
+            <Tooltip title={!canPublish ? "Publishing requires the publisher role" : hasPendingDraft ? "Make the saved draft live on the site" : "No unpublished changes"}>
+              <span>
+                <Button 
+                  variant="contained" 
+                  onClick={publishChanges} 
+                  disabled={isPublishDisabled}
+                  startIcon={publishStatus === "publishing" ? <CircularProgress size={16} /> : <PublishIcon />}
+                  sx={{
+                    backgroundColor: '#4353ff',
+                    color: 'white',
+                    py: 0.6,
+                    px: 1.8,
+                    fontWeight: 500,
+                    textTransform: 'none',
+                    fontSize: '0.85rem',
+                    borderRadius: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#3444F0',
+                    },
+                    '&.Mui-disabled': {
+                      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                      color: 'rgba(255, 255, 255, 0.3)'
+                    }
+                  }}
+                >
+                  {publishStatus === "publishing" ? "Publishing..." : "Publish"}
+                </Button>
+              </span>
+            </Tooltip>
           </Box>
         </Box>
         
         <Stack direction="row" spacing={2} alignItems="center">
           {/* File selector with custom styling */}
-          <FormControl sx={{ flex: 1 }}>
+          <FormControl sx={{ flex: 1 }} disabled={!canEdit}>
             <Select
               displayEmpty
               value={selectedFileId}
@@ -852,7 +963,7 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
           </FormControl>
           
           {/* Location selector with custom styling */}
-          <FormControl sx={{ minWidth: 120 }}>
+          <FormControl sx={{ minWidth: 120 }} disabled={!canEdit}>
             <Select
               value={selectedLocation}
               onChange={(e) => setSelectedLocation(e.target.value as "header" | "footer")}
@@ -898,7 +1009,7 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
             variant="contained"
             startIcon={<AddIcon />}
             onClick={handleAddFile}
-            disabled={!selectedFileId}
+            disabled={!selectedFileId || !canEdit}
             sx={{ 
               minWidth: 100,
               height: '40px',
@@ -935,19 +1046,22 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
             <Typography variant="subtitle1" sx={{ fontWeight: 500, color: 'white' }}>
               Head Code
             </Typography>
-            <Chip 
-              label={`${siteCode.head_code.length} ${siteCode.head_code.length === 1 ? 'file' : 'files'}`} 
-              size="small" 
-              sx={{ 
-                height: 22, 
-                backgroundColor: 'rgba(255, 255, 255, 0.08)',
-                color: 'rgba(255, 255, 255, 0.9)',
-                fontWeight: 500,
-                fontSize: '0.7rem',
-                px: 0.5,
-                borderRadius: '4px'
-              }} 
-            />
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <BundleSizeChip fileIds={siteCode.head_code.map((script) => script.id)} files={files} />
+              <Chip 
+                label={`${siteCode.head_code.length} ${siteCode.head_code.length === 1 ? 'file' : 'files'}`} 
+                size="small" 
+                sx={{ 
+                  height: 22, 
+                  backgroundColor: 'rgba(255, 255, 255, 0.08)',
+                  color: 'rgba(255, 255, 255, 0.9)',
+                  fontWeight: 500,
+                  fontSize: '0.7rem',
+                  px: 0.5,
+                  borderRadius: '4px'
+                }} 
+              />
+            </Box>
           </Box>
           <Typography variant="body2" sx={{ color: 'rgba(255, 255, 255, 0.6)', mb: 2 }}>
             Files added to the site's head (inside &lt;head&gt; tag)
@@ -971,19 +1085,22 @@ export function SiteWideCodeManager({ siteId }: SiteWideCodeManagerProps) {
             <Typography variant="subtitle1" sx={{ fontWeight: 500, color: 'white' }}>
               Body Code
             </Typography>
-            <Chip 
-              label={`${siteCode.body_code.length} ${siteCode.body_code.length === 1 ? 'file' : 'files'}`} 
-              size="small" 
-              sx={{ 
-                height: 22, 
-                backgroundColor: 'rgba(255, 255, 255, 0.08)',
-                color: 'rgba(255, 255, 255, 0.9)',
-                fontWeight: 500,
-                fontSize: '0.7rem',
-                px: 0.5,
-                borderRadius: '4px'
-              }} 
-            />
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <BundleSizeChip fileIds={siteCode.body_code.map((script) => script.id)} files={files} />
+              <Chip 
+                label={`${siteCode.body_code.length} ${siteCode.body_code.length === 1 ? 'file' : 'files'}`} 
+                size="small" 
+                sx={{ 
+                  height: 22, 
+                  backgroundColor: 'rgba(255, 255, 255, 0.08)',
+                  color: 'rgba(255, 255, 255, 0.9)',
+                  fontWeight: 500,
+                  fontSize: '0.7rem',
+                  px: 0.5,
+                  borderRadius: '4px'
+                }} 
+              />
+            </Box>
           </Box>
           <Typography variant="body2" sx={{ color: 'rgba(255, 255, 255, 0.6)', mb: 2 }}>
             Files added to the end of the site's body (before closing &lt;/body&gt; tag)
@@ -9,8 +9,15 @@ import { useState } from "react";
  * signaling that token exchange can be attempted.
  *
  * @param onAuthorized - Callback function to run when the auth window is closed.
+ * @param revoked - Whether Webflow revoked an earlier authorization, e.g. because the app was uninstalled.
  */
-export function WebflowAuthorizeScreen({ onAuthorized }: { onAuthorized: () => void }) {
+export function WebflowAuthorizeScreen({
+  onAuthorized,
+  revoked = false,
+}: {
+  onAuthorized: () => void;
+  revoked?: boolean;
+}) {
   const base_url = import.meta.env.VITE_NEXTJS_API_URL;
   const [isAuthorizing, setIsAuthorizing] = useState(false);
 
@@ -77,7 +84,7 @@ export function WebflowAuthorizeScreen({ onAuthorized }: { onAuthorized: () => v
             fontSize: { xs: '1.75rem', sm: '2rem' }
           }}
         >
-          Authorize Access
+          {revoked ? "Authorization Revoked" : "Authorize Access"}
         </Typography>
 
         <Typography
@@ -85,7 +92,9 @@ export function WebflowAuthorizeScreen({ onAuthorized }: { onAuthorized: () => v
           color="text.secondary"
           sx={{ mb: 3 }}
         >
-          To continue, please authorize Codone to access your Webflow sites.
+          {revoked
+            ? "Webflow no longer authorizes Codone to access your sites. Please authorize it again to continue."
+            : "To continue, please authorize Codone to access your Webflow sites."}
         </Typography>
 
         <Button
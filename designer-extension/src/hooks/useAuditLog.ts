@@ -0,0 +1,55 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { AuditEntry, AuditTargetType } from "../types/types";
+
+const base_url = import.meta.env.VITE_NEXTJS_API_URL;
+
+interface AuditLogPage {
+  entries: AuditEntry[];
+  next_cursor: number | null;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  actor?: string;
+  targetType?: AuditTargetType | "";
+}
+
+/**
+ * Custom hook for a site's audit log, newest first, loaded a page at a time.
+ */
+export function useAuditLog(siteId: string, sessionToken: string, filters: AuditLogFilters = {}) {
+  const auditQuery = useInfiniteQuery<AuditLogPage>({
+    queryKey: ["auditLog", siteId, filters],
+    enabled: Boolean(siteId && sessionToken),
+    retry: false,
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ siteId, limit: "25" });
+      if (filters.action) params.set("action", filters.action);
+      if (filters.actor) params.set("actor", filters.actor);
+      if (filters.targetType) params.set("target_type", filters.targetType);
+      if (pageParam) params.set("before", String(pageParam));
+
+      const res = await fetch(`${base_url}/api/audit?${params}`, {
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+      if (!res.ok) {
+        throw new Error("Failed to fetch activity");
+      }
+      return res.json();
+    },
+  });
+
+  return {
+    entries: auditQuery.data?.pages.flatMap((page) => page.entries) || [],
+    isLoading: auditQuery.isLoading,
+    isError: auditQuery.isError,
+    refetch: auditQuery.refetch,
+    fetchNextPage: auditQuery.fetchNextPage,
+    hasNextPage: auditQuery.hasNextPage,
+    isFetchingNextPage: auditQuery.isFetchingNextPage,
+  };
+}
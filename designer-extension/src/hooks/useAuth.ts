@@ -1,6 +1,6 @@
 import { useQueryClient, useQuery, useMutation } from "@tanstack/react-query";
 import { jwtDecode } from "jwt-decode";
-import { User, DecodedToken } from "../types/types";
+import { User, DecodedToken, AuthorizationStatus } from "../types/types";
 
 const base_url = import.meta.env.VITE_NEXTJS_API_URL;
 
@@ -33,6 +33,8 @@ interface AuthState {
  * - isAuthLoading: Loading state
  * - exchangeAndVerifyIdToken: Exchange ID token for session token
  * - logout: Clear authentication state
+ * - getAuthorizationStatus: Whether the user's Webflow authorization is active, revoked or missing
+ * - expireSession: Clear the session so the user authorizes again, without logging out
  */
 export function useAuth() {
   const queryClient = useQueryClient();
@@ -253,11 +255,45 @@ export function useAuth() {
     queryClient.clear();
   };
 
+  // Function to check whether Webflow still authorizes the app for the user
+  const getAuthorizationStatus = async (): Promise<AuthorizationStatus | null> => {
+    if (!authState?.sessionToken) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${base_url}/api/auth/status`, {
+        headers: { Authorization: `Bearer ${authState.sessionToken}` },
+      });
+      if (!response.ok) {
+        return null;
+      }
+      const data = await response.json();
+      return data.status;
+    } catch (error) {
+      console.error("Error checking authorization status:", error);
+      return null;
+    }
+  };
+
+  // Function to drop a session whose Webflow authorization was revoked.
+  // Unlike logout, the user stays signed in and only authorizes the app again.
+  const expireSession = () => {
+    localStorage.removeItem("wf_hybrid_user");
+    queryClient.setQueryData<AuthState>(["auth"], {
+      user: { firstName: "", email: "" },
+      sessionToken: "",
+    });
+    queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== "auth" });
+  };
+
   return {
     user: authState?.user || { firstName: "", email: "" },
     sessionToken: authState?.sessionToken || "",
     isAuthLoading,
     exchangeAndVerifyIdToken,
     logout,
+    getAuthorizationStatus,
+    expireSession,
   };
 }
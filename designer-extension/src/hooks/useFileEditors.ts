@@ -0,0 +1,61 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileEditor } from "../types/types";
+
+const base_url = import.meta.env.VITE_NEXTJS_API_URL;
+
+// The API drops editors it has not heard from in 45 seconds
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+interface FileEditorsResponse {
+  editors: FileEditor[];
+  updated_at: string;
+}
+
+/**
+ * Custom hook announcing that the user has a file open in the editor, while
+ * `fileId` is set. Returns the other users who have it open and the file's
+ * latest `updated_at`, refreshed with every heartbeat, so the editor can tell
+ * when someone else saved it.
+ */
+export function useFileEditors(fileId: string | null, sessionToken: string) {
+  const editorsQuery = useQuery<FileEditorsResponse>({
+    queryKey: ["fileEditors", fileId],
+    enabled: Boolean(fileId && sessionToken),
+    refetchInterval: HEARTBEAT_INTERVAL_MS,
+    refetchIntervalInBackground: true,
+    gcTime: 0,
+    retry: false,
+    queryFn: async () => {
+      const res = await fetch(`${base_url}/api/files/${fileId}/editors`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+      if (!res.ok) {
+        throw new Error("Failed to update file editors");
+      }
+      return res.json();
+    },
+  });
+
+  // Leave the file's editors when it is closed
+  useEffect(() => {
+    if (!fileId || !sessionToken) return;
+    return () => {
+      fetch(`${base_url}/api/files/${fileId}/editors`, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+        keepalive: true,
+      }).catch((error) => console.error("Error leaving file editors:", error));
+    };
+  }, [fileId, sessionToken]);
+
+  return {
+    editors: editorsQuery.data?.editors || [],
+    updatedAt: editorsQuery.data?.updated_at ?? null,
+  };
+}
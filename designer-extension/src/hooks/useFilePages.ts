@@ -46,13 +46,17 @@ export function useFilePages(siteId: string, fileId: string | null, sessionToken
       const pagesUsingFile: PageInfo[] = [];
       
       sitePages.forEach((page: any) => {
+        // Pending drafts take precedence over the live assignments
+        const pageHeadFiles = page.draft_head_files ?? page.head_files;
+        const pageBodyFiles = page.draft_body_files ?? page.body_files;
+
         // Check head_files
         let headFiles = [];
-        if (Array.isArray(page.head_files)) {
-          headFiles = page.head_files;
-        } else if (typeof page.head_files === 'string') {
+        if (Array.isArray(pageHeadFiles)) {
+          headFiles = pageHeadFiles;
+        } else if (typeof pageHeadFiles === 'string') {
           try {
-            headFiles = JSON.parse(page.head_files);
+            headFiles = JSON.parse(pageHeadFiles);
           } catch (e) {
             headFiles = [];
           }
@@ -60,11 +64,11 @@ export function useFilePages(siteId: string, fileId: string | null, sessionToken
         
         // Check body_files
         let bodyFiles = [];
-        if (Array.isArray(page.body_files)) {
-          bodyFiles = page.body_files;
-        } else if (typeof page.body_files === 'string') {
+        if (Array.isArray(pageBodyFiles)) {
+          bodyFiles = pageBodyFiles;
+        } else if (typeof pageBodyFiles === 'string') {
           try {
-            bodyFiles = JSON.parse(page.body_files);
+            bodyFiles = JSON.parse(pageBodyFiles);
           } catch (e) {
             bodyFiles = [];
           }
@@ -128,15 +132,16 @@ export function useFilePages(siteId: string, fileId: string | null, sessionToken
       const { page } = await response.json();
       console.log("[useFilePages.removeFileFromPage] Current page data:", page);
       
-      // Parse current files
+      // Parse current files, starting from the pending draft if there is one
       let files: string[] = [];
       const filesKey = location === "head" ? "head_files" : "body_files";
+      const currentFiles = page[`draft_${filesKey}`] ?? page[filesKey];
       
-      if (Array.isArray(page[filesKey])) {
-        files = page[filesKey].map((id: any) => String(id));
-      } else if (typeof page[filesKey] === 'string') {
+      if (Array.isArray(currentFiles)) {
+        files = currentFiles.map((id: any) => String(id));
+      } else if (typeof currentFiles === 'string') {
         try {
-          files = JSON.parse(page[filesKey]).map((id: any) => String(id));
+          files = JSON.parse(currentFiles).map((id: any) => String(id));
         } catch (e) {
           files = [];
         }
@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileRevision, SiteFile } from "../types/types";
+
+const base_url = import.meta.env.VITE_NEXTJS_API_URL;
+
+interface RestoreRevisionResponse {
+  file: SiteFile;
+  revision: FileRevision;
+}
+
+/**
+ * Custom hook for browsing and restoring the revision history of a file.
+ */
+export function useFileRevisions(siteId: string, fileId: string | null, sessionToken: string) {
+  const queryClient = useQueryClient();
+
+  // Fetch revision summaries (without code), newest first
+  const revisionsQuery = useQuery<FileRevision[]>({
+    queryKey: ["fileRevisions", fileId],
+    enabled: Boolean(fileId && sessionToken),
+    retry: false,
+    queryFn: async () => {
+      const res = await fetch(`${base_url}/api/files/${fileId}/revisions`, {
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+      if (!res.ok) {
+        throw new Error("Failed to fetch file revisions");
+      }
+      const data = await res.json();
+      return data.revisions as FileRevision[];
+    },
+  });
+
+  // Fetch a single revision including its code
+  const fetchRevision = async (revisionId: string): Promise<FileRevision> => {
+    const res = await fetch(`${base_url}/api/files/${fileId}/revisions/${revisionId}`, {
+      headers: {
+        Authorization: `Bearer ${sessionToken}`,
+      },
+    });
+    if (!res.ok) {
+      throw new Error("Failed to fetch file revision");
+    }
+    const data = await res.json();
+    return data.revision as FileRevision;
+  };
+
+  // Restore the file to a revision
+  const restoreMutation = useMutation<RestoreRevisionResponse, Error, string>({
+    mutationFn: async (revisionId) => {
+      const res = await fetch(`${base_url}/api/files/${fileId}/revisions/${revisionId}/restore`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+      if (!res.ok) {
+        throw new Error("Failed to restore file revision");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["fileRevisions", fileId] });
+      queryClient.invalidateQueries({ queryKey: ["files", siteId] });
+    },
+  });
+
+  return {
+    revisions: revisionsQuery.data || [],
+    isLoading: revisionsQuery.isLoading,
+    isError: revisionsQuery.isError,
+    error: revisionsQuery.error,
+    refetch: revisionsQuery.refetch,
+    fetchRevision,
+    restoreRevision: restoreMutation.mutateAsync,
+    isRestoring: restoreMutation.isPending,
+  };
+}
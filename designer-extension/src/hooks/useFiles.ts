@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { SiteFile, FileLanguage } from "../types/types";
+import { SiteFile, FileLanguage, LoadStrategy, CompileDiagnostic } from "../types/types";
 import { useState, useEffect } from "react";
 
 const base_url = import.meta.env.VITE_NEXTJS_API_URL;
@@ -12,17 +12,58 @@ interface CreateFilePayload {
   name: string;
   language: FileLanguage;
   code?: string;
+  folder?: string | null;
+  tags?: string[];
 }
 
 interface UpdateFilePayload {
   fileId: string;
-  fields: Partial<{ name: string; language: FileLanguage; code: string }>;
+  /** `updated_at` of the version the change was made to; the save fails with a FileConflictError if the file changed since */
+  baseUpdatedAt?: string;
+  fields: Partial<{
+    name: string;
+    language: FileLanguage;
+    code: string;
+    load_strategy: LoadStrategy | null;
+    load_selector: string | null;
+    folder: string | null;
+    tags: string[];
+  }>;
 }
 
 interface DeleteFilePayload {
   fileId: string;
 }
 
+/**
+ * Thrown when a file does not compile, or its imports cannot be bundled, on save.
+ */
+export class FileCompileError extends Error {
+  constructor(public diagnostics: CompileDiagnostic[]) {
+    super(diagnostics[0]?.message || "Compilation failed");
+    this.name = "FileCompileError";
+  }
+}
+
+// Turns the API's 422 response for code that does not compile into a FileCompileError
+async function throwIfCompileFailed(res: Response) {
+  if (res.status === 422) {
+    const data = await res.json();
+    throw new FileCompileError(data.diagnostics || []);
+  }
+}
+
+/**
+ * Thrown when a save is based on an older version of the file than the one
+ * stored; carries the stored file to merge with.
+ */
+export class FileConflictError extends Error {
+  constructor(public file: SiteFile) {
+    super("The file was changed by someone else since it was opened");
+    this.name = "FileConflictError";
+  }
+}
+
 /**
  * Custom hook for fetching and mutating Files linked to a Webflow site.
  */
@@ -96,6 +137,7 @@ export function useFiles(siteId: string, sessionToken: string) {
         }),
       });
       if (!res.ok) {
+        await throwIfCompileFailed(res);
         throw new Error("Failed to create file");
       }
       return res.json();
@@ -107,7 +149,7 @@ export function useFiles(siteId: string, sessionToken: string) {
 
   // Update a file
   const updateMutation = useMutation<{ file: SiteFile }, Error, UpdateFilePayload>({
-    mutationFn: async ({ fileId, fields }) => {
+    mutationFn: async ({ fileId, fields, baseUpdatedAt }) => {
       if (apiDisabled) return { file: {} as SiteFile };
       
       const res = await fetch(`${base_url}/api/files/${fileId}`, {
@@ -116,15 +158,22 @@ export function useFiles(siteId: string, sessionToken: string) {
           "Content-Type": "application/json",
           Authorization: `Bearer ${sessionToken}`,
         },
-        body: JSON.stringify(fields),
+        body: JSON.stringify({ ...fields, base_updated_at: baseUpdatedAt }),
       });
       if (!res.ok) {
+        await throwIfCompileFailed(res);
+        if (res.status === 409) {
+          const data = await res.json();
+          throw new FileConflictError(data.file);
+        }
         throw new Error("Failed to update file");
       }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { fileId }) => {
       queryClient.invalidateQueries({ queryKey: ["files", siteId] });
+      // Each save records a new revision
+      queryClient.invalidateQueries({ queryKey: ["fileRevisions", fileId] });
     },
   });
 
@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileLanguage, LibraryFile, SiteFile } from "../types/types";
+import { FileCompileError } from "./useFiles";
+
+const base_url = import.meta.env.VITE_NEXTJS_API_URL;
+
+interface CreateLibraryFilePayload {
+  name: string;
+  language: FileLanguage;
+  code?: string;
+  folder?: string | null;
+  tags?: string[];
+}
+
+// Turns an error response into an Error carrying the API's message, e.g. why a file cannot be unlinked
+async function throwResponseError(res: Response, fallback: string): Promise<never> {
+  if (res.status === 422) {
+    const data = await res.json();
+    throw new FileCompileError(data.diagnostics || []);
+  }
+  const data = await res.json().catch(() => ({}));
+  throw new Error(data.error || fallback);
+}
+
+/**
+ * Custom hook for the workspace file library of a site: listing it, linking
+ * and unlinking files, and forking a linked file into a site-local copy.
+ */
+export function useLibrary(siteId: string, sessionToken: string) {
+  const queryClient = useQueryClient();
+
+  // Linking, unlinking and forking change which files the site lists
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["library", siteId] });
+    queryClient.invalidateQueries({ queryKey: ["files", siteId] });
+  };
+
+  const libraryQuery = useQuery<LibraryFile[]>({
+    queryKey: ["library", siteId],
+    enabled: Boolean(siteId && sessionToken),
+    retry: false,
+    queryFn: async () => {
+      const res = await fetch(`${base_url}/api/library?siteId=${siteId}`, {
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+      if (!res.ok) {
+        await throwResponseError(res, "Failed to fetch library files");
+      }
+      const data = await res.json();
+      return data.files as LibraryFile[];
+    },
+  });
+
+  // Create a library file, linked into the site
+  const createMutation = useMutation<{ file: LibraryFile }, Error, CreateLibraryFilePayload>({
+    mutationFn: async (payload) => {
+      const res = await fetch(`${base_url}/api/library`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionToken}`,
+        },
+        body: JSON.stringify({ siteId, ...payload }),
+      });
+      if (!res.ok) {
+        await throwResponseError(res, "Failed to create library file");
+      }
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  // Link or unlink a library file
+  const linkMutation = useMutation<void, Error, { fileId: string; linked: boolean }>({
+    mutationFn: async ({ fileId, linked }) => {
+      const res = await fetch(`${base_url}/api/library/${fileId}/link`, {
+        method: linked ? "POST" : "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionToken}`,
+        },
+        body: JSON.stringify({ siteId }),
+      });
+      if (!res.ok) {
+        await throwResponseError(res, linked ? "Failed to link library file" : "Failed to unlink library file");
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  // Replace a linked library file with a site-local copy
+  const forkMutation = useMutation<{ file: SiteFile }, Error, string>({
+    mutationFn: async (fileId) => {
+      const res = await fetch(`${base_url}/api/files/${fileId}/fork`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionToken}`,
+        },
+        body: JSON.stringify({ siteId }),
+      });
+      if (!res.ok) {
+        await throwResponseError(res, "Failed to fork library file");
+      }
+      return res.json();
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    libraryFiles: libraryQuery.data || [],
+    isLoading: libraryQuery.isLoading,
+    error: libraryQuery.error,
+    createLibraryFile: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    linkFile: (fileId: string) => linkMutation.mutateAsync({ fileId, linked: true }),
+    unlinkFile: (fileId: string) => linkMutation.mutateAsync({ fileId, linked: false }),
+    isLinking: linkMutation.isPending,
+    forkFile: forkMutation.mutateAsync,
+    isForking: forkMutation.isPending,
+  };
+}
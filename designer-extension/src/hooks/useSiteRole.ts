@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { SITE_ROLES, SiteMember, SiteRole } from "../types/types";
+
+const base_url = import.meta.env.VITE_NEXTJS_API_URL;
+
+interface SiteMembersResponse {
+  role: SiteRole | null;
+  owner: string | null;
+  members: SiteMember[];
+}
+
+/**
+ * Custom hook for the user's role on a site, so components can disable
+ * controls the API would refuse. `hasRole` is false until the role is known.
+ */
+export function useSiteRole(siteId: string, sessionToken: string) {
+  const membersQuery = useQuery<SiteMembersResponse>({
+    queryKey: ["siteMembers", siteId],
+    enabled: Boolean(siteId && sessionToken),
+    staleTime: 60_000,
+    retry: false,
+    queryFn: async () => {
+      const res = await fetch(`${base_url}/api/sites/${siteId}/members`, {
+        headers: {
+          Authorization: `Bearer ${sessionToken}`,
+        },
+      });
+      if (!res.ok) {
+        throw new Error("Failed to fetch site role");
+      }
+      return res.json();
+    },
+  });
+
+  const role = membersQuery.data?.role ?? null;
+
+  // Whether the user's role allows what `required` allows
+  const hasRole = (required: SiteRole) =>
+    Boolean(role) && SITE_ROLES.indexOf(role as SiteRole) >= SITE_ROLES.indexOf(required);
+
+  return {
+    role,
+    hasRole,
+    isLoading: membersQuery.isLoading,
+  };
+}
@@ -4,6 +4,8 @@ import jsonWorker from 'monaco-editor/esm/vs/language/json/json.worker?worker';
 import cssWorker from 'monaco-editor/esm/vs/language/css/css.worker?worker';
 import htmlWorker from 'monaco-editor/esm/vs/language/html/html.worker?worker';
 import tsWorker from 'monaco-editor/esm/vs/language/typescript/ts.worker?worker';
+import { SiteFile } from './types/types';
+import { CODONE_IMPORT_PREFIX, getModuleName, isModuleFile } from './utils/codoneImports';
 
 // @ts-ignore
 self.MonacoEnvironment = {
@@ -24,8 +26,57 @@ self.MonacoEnvironment = {
   }
 };
 
+// Site files are registered under this directory by module name
+const CODONE_MODULE_ROOT = 'file:///codone/';
+
+const CODONE_MODULE_OPTIONS: monaco.languages.typescript.CompilerOptions = {
+  module: monaco.languages.typescript.ModuleKind.ESNext,
+  moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
+  allowJs: true,
+  baseUrl: CODONE_MODULE_ROOT,
+  paths: { [`${CODONE_IMPORT_PREFIX}*`]: ['*'] },
+};
+
+/**
+ * Registers the site's JavaScript and TypeScript files with the TypeScript
+ * worker so `codone:` imports in the editor resolve to them for completions
+ * and type checking. Only files that export something are registered, since
+ * the top-level names of plain scripts would leak into every other file.
+ *
+ * @param files - The site's files, excluding the one being edited
+ */
+export function setCodoneModules(files: SiteFile[]) {
+  const libs = files
+    .filter((file) => isModuleFile(file) && /\bexport\b/.test(file.code || ''))
+    .map((file) => ({
+      filePath: `${CODONE_MODULE_ROOT}${getModuleName(file.name)}.${file.language}`,
+      content: file.code,
+    }));
+
+  monaco.languages.typescript.typescriptDefaults.setExtraLibs(libs);
+  monaco.languages.typescript.javascriptDefaults.setExtraLibs(libs);
+}
+
 export function initMonaco() {
   // Initialize Monaco features here if needed
+
+  // TypeScript files are compiled without JSX for the browser, so check them the same way.
+  // `codone:` imports resolve to the site's files registered by setCodoneModules.
+  monaco.languages.typescript.typescriptDefaults.setCompilerOptions({
+    target: monaco.languages.typescript.ScriptTarget.ES2020,
+    lib: ['es2020', 'dom', 'dom.iterable'],
+    jsx: monaco.languages.typescript.JsxEmit.None,
+    strict: true,
+    allowNonTsExtensions: true,
+    noEmit: true,
+    ...CODONE_MODULE_OPTIONS,
+  });
+  monaco.languages.typescript.javascriptDefaults.setCompilerOptions({
+    target: monaco.languages.typescript.ScriptTarget.ES2020,
+    allowNonTsExtensions: true,
+    noEmit: true,
+    ...CODONE_MODULE_OPTIONS,
+  });
   
   // Add HTML completion providers with Webflow-specific suggestions
   monaco.languages.registerCompletionItemProvider('html', {
@@ -30,6 +30,12 @@ export interface StoredUser extends User {
   exp: number;
 }
 
+/**
+ * State of the user's Webflow authorization: "revoked" once Webflow rejected
+ * the app's token, e.g. because the app was uninstalled.
+ */
+export type AuthorizationStatus = "active" | "revoked" | "missing";
+
 // Site Types
 export interface Site {
   id: string;
@@ -163,13 +169,134 @@ export interface ImportMetaEnv {
 }
 
 // File Types
-export type FileLanguage = "html" | "css" | "js";
+/**
+ * TypeScript and SCSS files are compiled to JavaScript and CSS when saved.
+ */
+export type FileLanguage = "html" | "css" | "js" | "ts" | "scss";
+
+/**
+ * How the loader runs a script file. Files without a strategy run as part of
+ * the page's or site's script bundle.
+ */
+export type LoadStrategy = "defer" | "async" | "module" | "idle" | "interaction" | "visible";
 
 export interface SiteFile {
   id: string;
-  webflow_site_id: string;
+  /** Owning site; null for files of a workspace library */
+  webflow_site_id: string | null;
+  /** Workspace whose shared library holds the file; null for site files */
+  workspace_id?: string | null;
   name: string;
   language: FileLanguage;
   code: string;
+  load_strategy?: LoadStrategy | null;
+  /** Element whose visibility triggers the "visible" strategy */
+  load_selector?: string | null;
+  /** JavaScript or CSS compiled from TypeScript or SCSS code, or a script bundled with its imports */
+  compiled_code?: string | null;
+  /** Size in bytes of the served code before and after minification */
+  original_size?: number | null;
+  minified_size?: number | null;
+  /** Slash-separated folder path, e.g. "components/forms"; null outside any folder */
+  folder?: string | null;
+  /** Lowercase free-form tags */
+  tags?: string[];
+  created_at: string;
+  /** When the name, language, code or load strategy last changed; sent back on save to detect conflicting edits */
+  updated_at?: string;
+}
+
+/**
+ * Another user who has a file open in the editor.
+ */
+export interface FileEditor {
+  /** User email or ID */
+  editor: string;
+  last_seen_at: string;
+}
+
+/**
+ * A file of the workspace library, as listed for a site.
+ */
+export interface LibraryFile extends SiteFile {
+  /** Whether the file is linked into the site */
+  linked: boolean;
+}
+
+/**
+ * A compile error reported when saving a TypeScript or SCSS file, or a
+ * script whose `codone:` imports cannot be bundled, at a 1-based line and
+ * column.
+ */
+export interface CompileDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Immutable snapshot of a file, recorded on every save or restore.
+ * Revision listings omit `code`; it is included when fetching a single revision.
+ */
+export interface FileRevision {
+  id: string;
+  file_id: string;
+  webflow_site_id: string;
+  name: string;
+  language: FileLanguage;
+  code?: string;
+  author: string | null;
+  restored_from: string | null;
+  created_at: string;
+}
+
+// Site Member Types
+/**
+ * A user's role on a site, from least to most privileged: viewers browse,
+ * editors change code and draft assignments, publishers make assignments
+ * live and admins manage members. The site's owner is an admin.
+ */
+export type SiteRole = "viewer" | "editor" | "publisher" | "admin";
+
+export const SITE_ROLES: SiteRole[] = ["viewer", "editor", "publisher", "admin"];
+
+/**
+ * A user with a role on a site, besides its owner.
+ */
+export interface SiteMember {
+  /** Webflow user ID */
+  user_id: string;
+  email: string | null;
+  role: SiteRole;
+  invited_by: string | null;
+  created_at: string;
+}
+
+// Audit Log Types
+export type AuditTargetType = "file" | "page" | "site" | "custom_code";
+
+/**
+ * A recorded change to a file, page, site or custom code script. The summary
+ * holds the changed fields before and after; code is summarized by its
+ * length and hash.
+ */
+export interface AuditEntry {
+  id: number;
+  webflow_site_id: string | null;
+  workspace_id: string | null;
+  actor_id: string | null;
+  /** User email or ID */
+  actor: string | null;
+  /** e.g. file.update or page.publish */
+  action: string;
+  target_type: AuditTargetType;
+  target_id: string;
+  summary: {
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+  };
+  origin: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
   created_at: string;
 }
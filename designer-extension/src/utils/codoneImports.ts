@@ -0,0 +1,52 @@
+import { SiteFile } from "../types/types";
+
+/**
+ * Prefix of import specifiers that refer to other files of the site,
+ * e.g. `import { track } from "codone:analytics"`.
+ */
+export const CODONE_IMPORT_PREFIX = "codone:";
+
+const CODONE_IMPORT_PATTERN = new RegExp(`["']${CODONE_IMPORT_PREFIX}([^"']+)["']`, "g");
+
+/**
+ * Whether a file can import or be imported by other files.
+ */
+export function isModuleFile(file: Pick<SiteFile, "language">): boolean {
+  return file.language === "js" || file.language === "ts";
+}
+
+/**
+ * The name a file is imported by: its name without a .js or .ts extension.
+ */
+export function getModuleName(fileName: string): string {
+  return fileName.replace(/\.(js|ts)$/, "");
+}
+
+/**
+ * Returns the names of the site files a script imports, in order of first use.
+ */
+export function parseCodoneImports(code: string): string[] {
+  const names = new Set<string>();
+  for (const match of code.matchAll(CODONE_IMPORT_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Resolves a file's direct imports against the site's files and finds the
+ * files importing it. Imports that match no file are listed as unresolved.
+ */
+export function getFileDependencies(file: SiteFile, files: SiteFile[]) {
+  const modules = files.filter((candidate) => isModuleFile(candidate) && candidate.id !== file.id);
+  const importNames = isModuleFile(file) ? parseCodoneImports(file.code || "") : [];
+  const moduleName = getModuleName(file.name);
+
+  return {
+    imports: modules.filter((module) => importNames.includes(getModuleName(module.name))),
+    unresolved: importNames.filter((name) => !modules.some((module) => getModuleName(module.name) === name)),
+    importedBy: isModuleFile(file)
+      ? modules.filter((module) => parseCodoneImports(module.code || "").includes(moduleName))
+      : [],
+  };
+}
@@ -0,0 +1,60 @@
+import { SiteFile } from "../types/types";
+
+/**
+ * Folder selection for files outside any folder.
+ */
+export const UNFILED = "";
+
+/**
+ * Normalizes a folder path the way the API stores it: trimmed segments
+ * without empty ones, e.g. " /components//forms/ " becomes "components/forms".
+ */
+export function normalizeFolder(path: string): string {
+  return path.split("/").map((segment) => segment.trim()).filter(Boolean).join("/");
+}
+
+/**
+ * Whether a file belongs to the workspace library rather than the site.
+ */
+export function isLibraryFile(file: Pick<SiteFile, "workspace_id">): boolean {
+  return Boolean(file.workspace_id);
+}
+
+/**
+ * Whether a file is in a folder or one of its subfolders. UNFILED matches
+ * files outside any folder.
+ */
+export function isInFolder(file: Pick<SiteFile, "folder">, folder: string): boolean {
+  if (folder === UNFILED) return !file.folder;
+  return file.folder === folder || Boolean(file.folder?.startsWith(`${folder}/`));
+}
+
+/**
+ * Returns every folder path used by the files, including parent folders
+ * that only contain subfolders, sorted so each folder follows its parent.
+ *
+ * @param files - The site's files
+ * @param extraFolders - Folders created in the UI that have no files yet
+ */
+export function getFolderPaths(files: SiteFile[], extraFolders: string[] = []): string[] {
+  const paths = new Set<string>();
+  for (const folder of [...files.map((file) => file.folder), ...extraFolders]) {
+    const segments = folder ? folder.split("/") : [];
+    segments.forEach((_, index) => paths.add(segments.slice(0, index + 1).join("/")));
+  }
+  return [...paths].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Returns every tag used by the files, sorted alphabetically.
+ */
+export function getAllTags(files: SiteFile[]): string[] {
+  return [...new Set(files.flatMap((file) => file.tags || []))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * The last segment of a folder path, e.g. "forms" for "components/forms".
+ */
+export function getFolderName(folder: string): string {
+  return folder.slice(folder.lastIndexOf("/") + 1);
+}
@@ -0,0 +1,163 @@
+/**
+ * Three-way, line-based merge of two edits made to the same text, as used to
+ * combine a teammate's save with unsaved changes in the editor.
+ */
+
+export const CONFLICT_START = "<<<<<<< Your changes";
+export const CONFLICT_SEPARATOR = "=======";
+export const CONFLICT_END = ">>>>>>> Their changes";
+
+// Above this many line comparisons, changed regions are not diffed further
+// and an edit is treated as replacing the whole region
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface MergeResult {
+  /** Merged text; conflicting regions are wrapped in conflict markers */
+  code: string;
+  /** Number of regions both sides changed differently */
+  conflicts: number;
+}
+
+/**
+ * Lines `start` to `end` (exclusive) of the base replaced by `lines`.
+ */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Returns the hunks that turn `base` into `other`, in order, using the
+ * longest common subsequence of lines.
+ */
+function diffLines(base: string[], other: string[]): Hunk[] {
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) suffix++;
+
+  const a = base.slice(prefix, base.length - suffix);
+  const b = other.slice(prefix, other.length - suffix);
+  if (a.length === 0 && b.length === 0) return [];
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return [{ start: prefix, end: prefix + a.length, lines: b }];
+  }
+
+  // lcs[i * width + j]: length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { start: prefix + i, end: prefix + i, lines: [] };
+      hunks.push(current);
+    }
+    if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      current.lines.push(b[j++]);
+    } else {
+      i++;
+      current.end = prefix + i;
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Applies hunks that lie within lines `start` to `end` of the base to that range.
+ */
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+/**
+ * Merges two edits of the same base text. Regions changed on one side take
+ * that side's version; regions both sides changed the same way are taken
+ * once. Regions changed differently, including adjacent changes, are kept
+ * as a conflict showing both versions between conflict markers.
+ *
+ * @param base - The text both edits started from
+ * @param mine - The local edit
+ * @param theirs - The edit saved by someone else
+ */
+export function mergeText(base: string, mine: string, theirs: string): MergeResult {
+  if (mine === theirs || theirs === base) return { code: mine, conflicts: 0 };
+  if (mine === base) return { code: theirs, conflicts: 0 };
+
+  const baseLines = base.split("\n");
+  const mineHunks = diffLines(baseLines, mine.split("\n"));
+  const theirHunks = diffLines(baseLines, theirs.split("\n"));
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let m = 0;
+  let t = 0;
+
+  while (m < mineHunks.length || t < theirHunks.length) {
+    // A region starts at the next hunk and grows while hunks of either side overlap or touch it
+    const start = Math.min(mineHunks[m]?.start ?? Infinity, theirHunks[t]?.start ?? Infinity);
+    let end = start;
+    const mineRegion: Hunk[] = [];
+    const theirRegion: Hunk[] = [];
+    let grew = true;
+    while (grew) {
+      grew = false;
+      while (m < mineHunks.length && mineHunks[m].start <= end) {
+        end = Math.max(end, mineHunks[m].end);
+        mineRegion.push(mineHunks[m++]);
+        grew = true;
+      }
+      while (t < theirHunks.length && theirHunks[t].start <= end) {
+        end = Math.max(end, theirHunks[t].end);
+        theirRegion.push(theirHunks[t++]);
+        grew = true;
+      }
+    }
+
+    merged.push(...baseLines.slice(position, start));
+    const mineLines = applyHunks(baseLines, mineRegion, start, end);
+    const theirLines = applyHunks(baseLines, theirRegion, start, end);
+
+    if (theirRegion.length === 0 || mineLines.join("\n") === theirLines.join("\n")) {
+      merged.push(...mineLines);
+    } else if (mineRegion.length === 0) {
+      merged.push(...theirLines);
+    } else {
+      merged.push(CONFLICT_START, ...mineLines, CONFLICT_SEPARATOR, ...theirLines, CONFLICT_END);
+      conflicts++;
+    }
+    position = end;
+  }
+  merged.push(...baseLines.slice(position));
+
+  return { code: merged.join("\n"), conflicts };
+}
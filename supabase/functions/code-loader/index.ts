@@ -7,6 +7,12 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Languages compiled by data-client on save, and the language they are served as
+const COMPILED_LANGUAGES: Record<string, string> = {
+  ts: 'js',
+  scss: 'css',
+}
+
 serve(async (req) => {
   // Handle preflight CORS
   if (req.method === 'OPTIONS') {
@@ -61,7 +67,7 @@ serve(async (req) => {
     
     if (!fileIds || !fileIds.length) {
       return new Response(
-        JSON.stringify({ html: '', css: '', js: '' }),
+        JSON.stringify({ html: '', css: '', js: '', files: [] }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -82,13 +88,29 @@ serve(async (req) => {
     
     console.log(`Found ${files?.length} files:`, files.map(f => ({ id: f.id, name: f.name, lang: f.language })))
     
+    // Put files back in the order they are assigned in; the query returns them in database order
+    const filesById = new Map(files.map(f => [Number(f.id), f]))
+    const orderedFiles = fileIds
+      .filter(id => filesById.has(id))
+      .map(id => {
+        const { name, language, code, compiled_code, minified_code } = filesById.get(id)
+        // TypeScript and SCSS files are served as the JavaScript and CSS compiled on save,
+        // scripts importing other files as their bundle, and every file as its minified
+        // build output once it has one
+        const compiledLanguage = COMPILED_LANGUAGES[language]
+        return compiledLanguage
+          ? { id, name, language: compiledLanguage, code: minified_code ?? compiled_code ?? '' }
+          : { id, name, language, code: minified_code ?? compiled_code ?? code }
+      })
+    
     // Organize files by language
-    const html = files.filter(f => f.language === 'html').map(f => f.code).join('\n')
-    const css = files.filter(f => f.language === 'css').map(f => f.code).join('\n')
-    const js = files.filter(f => f.language === 'js').map(f => f.code).join('\n')
+    const html = orderedFiles.filter(f => f.language === 'html').map(f => f.code).join('\n')
+    const css = orderedFiles.filter(f => f.language === 'css').map(f => f.code).join('\n')
+    const js = orderedFiles.filter(f => f.language === 'js').map(f => f.code).join('\n')
     
+    // `files` keeps per-file boundaries so loaders can inject each file in order
     return new Response(
-      JSON.stringify({ html, css, js }),
+      JSON.stringify({ html, css, js, files: orderedFiles }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
   } catch (error) {
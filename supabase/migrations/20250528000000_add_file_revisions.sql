@@ -0,0 +1,50 @@
+-- Immutable revision history for Files
+-- Every save of a file records a snapshot of its name, language and code
+CREATE TABLE IF NOT EXISTS "FileRevisions" (
+  "id" BIGSERIAL PRIMARY KEY,
+  "file_id" BIGINT NOT NULL REFERENCES "Files"("id") ON DELETE CASCADE,
+  "webflow_site_id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "language" TEXT NOT NULL,
+  "code" TEXT NOT NULL DEFAULT '',
+  "author" TEXT,
+  "restored_from" BIGINT REFERENCES "FileRevisions"("id") ON DELETE SET NULL,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "FileRevisions_file_id_created_at_idx"
+  ON "FileRevisions" ("file_id", "created_at" DESC);
+
+-- Revisions are never changed or removed, not even by the service role. They
+-- only go with their file: deleting a file cascades to its revisions, which
+-- clears the restored_from references between them.
+CREATE OR REPLACE FUNCTION "reject_file_revision_change"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM "Files" WHERE "id" = OLD."file_id") THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+  RAISE EXCEPTION 'FileRevisions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "file_revisions_append_only" ON "FileRevisions";
+CREATE TRIGGER "file_revisions_append_only"
+  BEFORE UPDATE OR DELETE ON "FileRevisions"
+  FOR EACH ROW EXECUTE FUNCTION "reject_file_revision_change"();
+
+CREATE OR REPLACE FUNCTION "reject_file_revisions_truncate"() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'FileRevisions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "file_revisions_no_truncate" ON "FileRevisions";
+CREATE TRIGGER "file_revisions_no_truncate"
+  BEFORE TRUNCATE ON "FileRevisions"
+  FOR EACH STATEMENT EXECUTE FUNCTION "reject_file_revisions_truncate"();
+
+-- Only the service role reads and writes revisions
+ALTER TABLE "FileRevisions" ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE "FileRevisions" IS 'Append-only snapshots of Files rows, one per save or restore';
+COMMENT ON COLUMN "FileRevisions"."restored_from" IS 'Revision this snapshot was restored from, if any';
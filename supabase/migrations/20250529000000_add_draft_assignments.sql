@@ -0,0 +1,18 @@
+-- Draft file assignments for pages and sites
+-- Edits to head/body file assignments are staged in the draft columns and
+-- only served by the loader in preview mode until they are published.
+-- NULL means there is no pending draft and the live assignment is current.
+ALTER TABLE "Pages"
+  ADD COLUMN IF NOT EXISTS "draft_head_files" JSONB,
+  ADD COLUMN IF NOT EXISTS "draft_body_files" JSONB,
+  ADD COLUMN IF NOT EXISTS "published_at" TIMESTAMPTZ;
+
+ALTER TABLE "Sites"
+  ADD COLUMN IF NOT EXISTS "draft_head_files" TEXT,
+  ADD COLUMN IF NOT EXISTS "draft_body_files" TEXT,
+  ADD COLUMN IF NOT EXISTS "published_at" TIMESTAMPTZ;
+
+COMMENT ON COLUMN "Pages"."draft_head_files" IS 'Unpublished JSON array of file IDs for the page head, NULL when nothing is pending';
+COMMENT ON COLUMN "Pages"."draft_body_files" IS 'Unpublished JSON array of file IDs for the page body, NULL when nothing is pending';
+COMMENT ON COLUMN "Sites"."draft_head_files" IS 'Unpublished JSON array of file IDs for the site head, NULL when nothing is pending';
+COMMENT ON COLUMN "Sites"."draft_body_files" IS 'Unpublished JSON array of file IDs for the site body, NULL when nothing is pending';
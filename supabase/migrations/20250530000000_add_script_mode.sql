@@ -0,0 +1,12 @@
+-- How the loader runs a page's or site's script bundle
+-- NULL runs it as soon as it loads, in order with other Codone scripts.
+ALTER TABLE "Pages"
+  ADD COLUMN IF NOT EXISTS "script_mode" TEXT
+  CHECK ("script_mode" IN ('defer', 'async', 'module'));
+
+ALTER TABLE "Sites"
+  ADD COLUMN IF NOT EXISTS "script_mode" TEXT
+  CHECK ("script_mode" IN ('defer', 'async', 'module'));
+
+COMMENT ON COLUMN "Pages"."script_mode" IS 'Loader script mode for the page bundle: defer, async or module (NULL for in-order execution)';
+COMMENT ON COLUMN "Sites"."script_mode" IS 'Loader script mode for the site bundle: defer, async or module (NULL for in-order execution)';
@@ -0,0 +1,19 @@
+-- How the loader runs an individual script file
+-- NULL keeps the file in the page's or site's script bundle. Any other strategy
+-- loads the file as its own script: 'defer', 'async' and 'module' as the script
+-- attributes do, 'idle' once the browser is idle, 'interaction' on the first
+-- user interaction and 'visible' when the element matching "load_selector"
+-- scrolls into view.
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "load_strategy" TEXT
+  CHECK ("load_strategy" IN ('defer', 'async', 'module', 'idle', 'interaction', 'visible'));
+
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "load_selector" TEXT;
+
+ALTER TABLE "Files"
+  ADD CONSTRAINT "files_visible_requires_selector"
+  CHECK ("load_strategy" IS DISTINCT FROM 'visible' OR "load_selector" IS NOT NULL);
+
+COMMENT ON COLUMN "Files"."load_strategy" IS 'Loader strategy for script files: defer, async, module, idle, interaction or visible (NULL to run in the bundle)';
+COMMENT ON COLUMN "Files"."load_selector" IS 'CSS selector of the element whose visibility triggers a script with the visible strategy';
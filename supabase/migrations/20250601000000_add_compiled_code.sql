@@ -0,0 +1,7 @@
+-- TypeScript ('ts') and SCSS ('scss') files are compiled by data-client on save.
+-- The loader serves "compiled_code" for them in place of "code"; it is NULL for
+-- languages that are served as written.
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "compiled_code" TEXT;
+
+COMMENT ON COLUMN "Files"."compiled_code" IS 'JavaScript or CSS compiled from TypeScript or SCSS source (NULL for html, css and js files)';
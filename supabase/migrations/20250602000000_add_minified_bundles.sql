@@ -0,0 +1,25 @@
+-- Build output of each file, produced by data-client on save: the minified
+-- code the loader serves and its size in bytes before and after minification
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "minified_code" TEXT,
+  ADD COLUMN IF NOT EXISTS "original_size" INTEGER,
+  ADD COLUMN IF NOT EXISTS "minified_size" INTEGER;
+
+COMMENT ON COLUMN "Files"."minified_code" IS 'Minified JavaScript or CSS (HTML without comments) served by the loader';
+COMMENT ON COLUMN "Files"."original_size" IS 'Size in bytes of the served code before minification';
+COMMENT ON COLUMN "Files"."minified_size" IS 'Size in bytes of minified_code';
+
+-- Per-location bundle artifacts: the minified files of the live assignment,
+-- rebuilt on publish and whenever one of their files changes
+ALTER TABLE "Pages"
+  ADD COLUMN IF NOT EXISTS "head_bundle" JSONB,
+  ADD COLUMN IF NOT EXISTS "body_bundle" JSONB;
+
+ALTER TABLE "Sites"
+  ADD COLUMN IF NOT EXISTS "head_bundle" JSONB,
+  ADD COLUMN IF NOT EXISTS "body_bundle" JSONB;
+
+COMMENT ON COLUMN "Pages"."head_bundle" IS 'Bundle artifact of the live head files: { file_ids, files, original_size, minified_size, built_at }';
+COMMENT ON COLUMN "Pages"."body_bundle" IS 'Bundle artifact of the live body files: { file_ids, files, original_size, minified_size, built_at }';
+COMMENT ON COLUMN "Sites"."head_bundle" IS 'Bundle artifact of the live site-wide head files';
+COMMENT ON COLUMN "Sites"."body_bundle" IS 'Bundle artifact of the live site-wide body files';
@@ -0,0 +1,10 @@
+-- Files bundled into each script through `codone:` imports, recorded on save
+-- (including files imported indirectly) so importers can be rebuilt when one
+-- of their dependencies changes
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "dependencies" BIGINT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN "Files"."dependencies" IS 'IDs of the files bundled into compiled_code through codone: imports';
+COMMENT ON COLUMN "Files"."compiled_code" IS 'JavaScript or CSS compiled from TypeScript or SCSS, or a script bundled with the files it imports';
+
+CREATE INDEX IF NOT EXISTS "files_dependencies_idx" ON "Files" USING GIN ("dependencies");
@@ -0,0 +1,12 @@
+-- Folders and tags for organizing a site's files. A folder is a
+-- slash-separated path (e.g. 'components/forms'); NULL is outside any folder.
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "folder" TEXT,
+  ADD COLUMN IF NOT EXISTS "tags" TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN "Files"."folder" IS 'Slash-separated folder path, without leading or trailing slashes; NULL for files outside any folder';
+COMMENT ON COLUMN "Files"."tags" IS 'Lowercase free-form tags';
+
+-- Folder listings match the folder and every path below it by prefix
+CREATE INDEX IF NOT EXISTS "files_site_folder_idx" ON "Files" ("webflow_site_id", "folder" text_pattern_ops);
+CREATE INDEX IF NOT EXISTS "files_tags_idx" ON "Files" USING GIN ("tags");
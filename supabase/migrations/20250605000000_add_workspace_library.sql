@@ -0,0 +1,32 @@
+-- Workspace file library. Library files belong to a Webflow workspace instead
+-- of a site and are linked (not copied) into any site of the workspace.
+ALTER TABLE "Sites"
+  ADD COLUMN IF NOT EXISTS "workspace_id" TEXT;
+
+COMMENT ON COLUMN "Sites"."workspace_id" IS 'Webflow workspace of the site, recorded on authorization';
+
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "workspace_id" TEXT,
+  ALTER COLUMN "webflow_site_id" DROP NOT NULL;
+
+ALTER TABLE "FileRevisions"
+  ALTER COLUMN "webflow_site_id" DROP NOT NULL;
+
+COMMENT ON COLUMN "Files"."workspace_id" IS 'Workspace whose library holds the file; NULL for site files';
+
+-- A file belongs either to one site or to a workspace library
+ALTER TABLE "Files"
+  DROP CONSTRAINT IF EXISTS "files_owner_check",
+  ADD CONSTRAINT "files_owner_check" CHECK (("webflow_site_id" IS NULL) <> ("workspace_id" IS NULL));
+
+CREATE INDEX IF NOT EXISTS "files_workspace_folder_idx" ON "Files" ("workspace_id", "folder" text_pattern_ops);
+
+-- Library files linked into sites; unlinking never deletes the file
+CREATE TABLE IF NOT EXISTS "SiteFileLinks" (
+  "webflow_site_id" TEXT NOT NULL,
+  "file_id" BIGINT NOT NULL REFERENCES "Files"("id") ON DELETE CASCADE,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY ("webflow_site_id", "file_id")
+);
+
+CREATE INDEX IF NOT EXISTS "site_file_links_file_idx" ON "SiteFileLinks" ("file_id");
@@ -0,0 +1,8 @@
+-- Webflow page slugs, recorded on page sync. Site exports key page
+-- assignments by slug so they can be imported into another site.
+ALTER TABLE "Pages"
+  ADD COLUMN IF NOT EXISTS "slug" TEXT;
+
+COMMENT ON COLUMN "Pages"."slug" IS 'Webflow page slug; NULL until the pages are synced again';
+
+CREATE INDEX IF NOT EXISTS "pages_site_slug_idx" ON "Pages" ("webflow_site_id", "slug");
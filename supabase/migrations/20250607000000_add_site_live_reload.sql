@@ -0,0 +1,9 @@
+-- Live reload client registered by a dev server. The loader worker returns
+-- it in manifests requested with `dev=1`, so browsers that opted in insert
+-- it; only scripts registered by an authorized user can be loaded this way.
+ALTER TABLE "Sites"
+  ADD COLUMN IF NOT EXISTS "live_reload_url" TEXT,
+  ADD COLUMN IF NOT EXISTS "live_reload_expires_at" TIMESTAMPTZ;
+
+COMMENT ON COLUMN "Sites"."live_reload_url" IS 'URL of the live reload client script on the data-client dev server; NULL when live reload is off';
+COMMENT ON COLUMN "Sites"."live_reload_expires_at" IS 'When the live reload registration lapses';
@@ -0,0 +1,44 @@
+-- Optimistic concurrency for file edits: "updated_at" changes whenever the
+-- edited content of a file changes, and saves based on an older value are
+-- rejected instead of overwriting a teammate's changes. Rebuilds (compiled
+-- code, sizes, dependencies) and moving or tagging a file do not count.
+ALTER TABLE "Files"
+  ADD COLUMN IF NOT EXISTS "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE "Files" SET "updated_at" = "created_at" WHERE "created_at" IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION "touch_file_updated_at"() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW."name" IS DISTINCT FROM OLD."name"
+    OR NEW."language" IS DISTINCT FROM OLD."language"
+    OR NEW."code" IS DISTINCT FROM OLD."code"
+    OR NEW."load_strategy" IS DISTINCT FROM OLD."load_strategy"
+    OR NEW."load_selector" IS DISTINCT FROM OLD."load_selector" THEN
+    -- clock_timestamp() differs between updates in one transaction, unlike now()
+    NEW."updated_at" = clock_timestamp();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "files_touch_updated_at" ON "Files";
+CREATE TRIGGER "files_touch_updated_at"
+  BEFORE UPDATE ON "Files"
+  FOR EACH ROW EXECUTE FUNCTION "touch_file_updated_at"();
+
+COMMENT ON COLUMN "Files"."updated_at" IS 'When the name, language, code or load strategy last changed; saves pass the value they are based on';
+
+-- Who has a file open in the editor. Editors send a heartbeat while the file
+-- is open; rows not seen recently are stale and removed on the next heartbeat.
+CREATE TABLE IF NOT EXISTS "FileEditors" (
+  "file_id" BIGINT NOT NULL REFERENCES "Files"("id") ON DELETE CASCADE,
+  "editor" TEXT NOT NULL,
+  "last_seen_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY ("file_id", "editor")
+);
+
+-- Only the service role reads and writes presence
+ALTER TABLE "FileEditors" ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE "FileEditors" IS 'Users with a file open in the editor, kept fresh by heartbeats';
+COMMENT ON COLUMN "FileEditors"."editor" IS 'User email or ID from the session';
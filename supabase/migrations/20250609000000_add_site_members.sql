@@ -0,0 +1,41 @@
+-- Team members of a site. The site's "owner" is always an admin; other users
+-- get a role by accepting an invite:
+--   viewer    browses files, pages and revisions
+--   editor    also changes code and draft assignments
+--   publisher also makes assignments live
+--   admin     also invites members and changes their roles
+CREATE TABLE IF NOT EXISTS "SiteMembers" (
+  "webflow_site_id" TEXT NOT NULL,
+  "user_id" TEXT NOT NULL,
+  "email" TEXT,
+  "role" TEXT NOT NULL CHECK ("role" IN ('viewer', 'editor', 'publisher', 'admin')),
+  "invited_by" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY ("webflow_site_id", "user_id")
+);
+
+CREATE INDEX IF NOT EXISTS "site_members_user_idx" ON "SiteMembers" ("user_id");
+
+-- Pending invites. Only a hash of the invite token is stored; the token is
+-- shown once when the invite is created and is accepted by the invited email.
+CREATE TABLE IF NOT EXISTS "SiteInvites" (
+  "id" BIGSERIAL PRIMARY KEY,
+  "webflow_site_id" TEXT NOT NULL,
+  "email" TEXT NOT NULL,
+  "role" TEXT NOT NULL CHECK ("role" IN ('viewer', 'editor', 'publisher', 'admin')),
+  "token_hash" TEXT NOT NULL UNIQUE,
+  "invited_by" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+  "expires_at" TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '7 days',
+  UNIQUE ("webflow_site_id", "email")
+);
+
+-- Only the service role reads and writes memberships
+ALTER TABLE "SiteMembers" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "SiteInvites" ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE "SiteMembers" IS 'Users with a role on a site besides its owner';
+COMMENT ON COLUMN "SiteMembers"."user_id" IS 'Webflow user ID of the member';
+COMMENT ON COLUMN "SiteMembers"."email" IS 'Email the member accepted the invite with, for display';
+COMMENT ON TABLE "SiteInvites" IS 'Invites to become a member of a site, removed once accepted';
+COMMENT ON COLUMN "SiteInvites"."token_hash" IS 'SHA-256 hex digest of the invite token';
@@ -0,0 +1,48 @@
+-- Append-only record of changes to code and assignments: who changed which
+-- file, page, site or custom code script, when, from where, and a summary of
+-- the changed fields before and after. Library file changes are recorded
+-- against their workspace, so every site of the workspace lists them.
+CREATE TABLE IF NOT EXISTS "AuditLog" (
+  "id" BIGSERIAL PRIMARY KEY,
+  "webflow_site_id" TEXT,
+  "workspace_id" TEXT,
+  "actor_id" TEXT,
+  "actor" TEXT,
+  "action" TEXT NOT NULL,
+  "target_type" TEXT NOT NULL CHECK ("target_type" IN ('file', 'page', 'site', 'custom_code')),
+  "target_id" TEXT NOT NULL,
+  "summary" JSONB NOT NULL DEFAULT '{}'::jsonb,
+  "origin" TEXT,
+  "ip_address" TEXT,
+  "user_agent" TEXT,
+  "created_at" TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "audit_log_site_idx" ON "AuditLog" ("webflow_site_id", "id" DESC);
+CREATE INDEX IF NOT EXISTS "audit_log_workspace_idx" ON "AuditLog" ("workspace_id", "id" DESC);
+
+-- Entries are never changed or removed, not even by the service role
+CREATE OR REPLACE FUNCTION "reject_audit_log_change"() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditLog is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "audit_log_append_only" ON "AuditLog";
+CREATE TRIGGER "audit_log_append_only"
+  BEFORE UPDATE OR DELETE ON "AuditLog"
+  FOR EACH ROW EXECUTE FUNCTION "reject_audit_log_change"();
+
+DROP TRIGGER IF EXISTS "audit_log_no_truncate" ON "AuditLog";
+CREATE TRIGGER "audit_log_no_truncate"
+  BEFORE TRUNCATE ON "AuditLog"
+  FOR EACH STATEMENT EXECUTE FUNCTION "reject_audit_log_change"();
+
+-- Only the service role reads and writes the log
+ALTER TABLE "AuditLog" ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE "AuditLog" IS 'Append-only log of file, page, site and custom code changes';
+COMMENT ON COLUMN "AuditLog"."actor" IS 'User email or ID from the session';
+COMMENT ON COLUMN "AuditLog"."action" IS 'What was done, e.g. file.update or page.publish';
+COMMENT ON COLUMN "AuditLog"."summary" IS 'Changed fields as {"before": {...}, "after": {...}}; code is summarized by its length and hash';
+COMMENT ON COLUMN "AuditLog"."origin" IS 'Origin header of the request, e.g. the Designer Extension''s';
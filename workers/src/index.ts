@@ -11,7 +11,7 @@
  * Learn more at https://developers.cloudflare.com/workers/
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 interface Env {
 	SUPABASE_URL: string;
@@ -20,6 +20,70 @@ interface Env {
 	PURGE_SECRET: string;
 }
 
+// Which kind of record a loader requests code for: a page's own files or site-wide files
+type LoaderType = 'page' | 'site';
+
+const LOADER_TABLES: Record<LoaderType, { table: string; label: string }> = {
+	page: { table: 'Pages', label: 'Page' },
+	site: { table: 'Sites', label: 'Site' },
+};
+
+// Where in the page a bundle goes; each has its own assignment and bundle columns
+type LoaderLocation = 'head' | 'body';
+
+// A page or site row whose file assignments make up part of a bundle. Combined
+// requests identify the page by its Webflow ID, read by the site loader from the page.
+interface LoaderTarget {
+	type: LoaderType;
+	column: 'id' | 'webflow_page_id';
+	value: string;
+}
+
+// When a script file runs, if not as part of `bundle.js`: deferred, async or as a
+// module, or lazily once the browser is idle, on the first user interaction or
+// when the element matching `load_selector` becomes visible
+type LoadStrategy = 'defer' | 'async' | 'module' | 'idle' | 'interaction' | 'visible';
+
+// The files one target contributes to a bundle, in assignment order
+interface LoaderFile {
+	id: number;
+	name: string;
+	language: string;
+	code: string;
+	load_strategy: LoadStrategy | null;
+	load_selector: string | null;
+}
+
+// TypeScript and SCSS files are served as the JavaScript and CSS compiled on save
+const COMPILED_LANGUAGES: Record<string, string> = {
+	ts: 'js',
+	scss: 'css',
+};
+
+// Loaders generated before `type` was sent only ever request page code
+function parseLoaderType(type: string | null): LoaderType | null {
+	if (type === null || type === 'page') return 'page';
+	if (type === 'site') return 'site';
+	return null;
+}
+
+// The location selects columns by name, so anything else is rejected up front
+function parseLoaderLocation(location: string | null): LoaderLocation | null {
+	return location === 'head' || location === 'body' ? location : null;
+}
+
+// Cache entries hold the files of a single target rather than whole responses,
+// so a page and its site can be purged independently of the bundles they appear in.
+// The key leaves out the path: manifests and every bundle format share the entry
+// that a PURGE deletes.
+function buildCacheKey(url: URL, target: LoaderTarget, location: string): Request {
+	const cacheKeyUrl = new URL('/', url.origin);
+	cacheKeyUrl.searchParams.set('type', target.type);
+	cacheKeyUrl.searchParams.set(target.column === 'id' ? 'pageId' : 'webflowPageId', target.value);
+	cacheKeyUrl.searchParams.set('location', location);
+	return new Request(cacheKeyUrl.toString(), { method: 'GET' });
+}
+
 // Helper function to parse file IDs (adapted from Supabase edge function)
 function parseFileIds(fileIdsField: any): number[] {
 	if (!fileIdsField) return [];
@@ -48,6 +112,233 @@ function parseFileIds(fileIdsField: any): number[] {
 	}
 }
 
+// Prebuilt artifact of a row's live files for one location, stored by data-client
+interface LocationBundle {
+	file_ids: number[];
+	files: LoaderFile[];
+}
+
+// An artifact is only used while it matches the live assignment it was built from
+function isCurrentBundle(bundle: unknown, fileIds: number[]): bundle is LocationBundle {
+	if (typeof bundle !== 'object' || bundle === null) {
+		return false;
+	}
+	const { file_ids, files } = bundle as Partial<LocationBundle>;
+	return Array.isArray(files)
+		&& Array.isArray(file_ids)
+		&& file_ids.length === fileIds.length
+		&& file_ids.every((id, i) => id === fileIds[i]);
+}
+
+// Loads the files assigned to a target, or null if the page or site row does not exist.
+// In preview, a pending draft (non-null) takes precedence over the live assignment.
+// Live files come from the row's bundle artifact when it is current.
+async function loadTargetFiles(
+	supabase: SupabaseClient,
+	target: LoaderTarget,
+	location: LoaderLocation,
+	preview: boolean
+): Promise<LoaderFile[] | null> {
+	const { table, label } = LOADER_TABLES[target.type];
+
+	// 1. Load the page or site row to get file IDs (live and draft assignments)
+	const filesColumn = location === 'head' ? 'head_files' : 'body_files';
+	const { data: row, error: rowError } = await supabase
+		.from(table)
+		.select(`${filesColumn}, draft_${filesColumn}, ${location}_bundle`)
+		.eq(target.column, target.value)
+		.single();
+
+	if (rowError) {
+		console.error(`${label} query error for ${target.column} ${target.value}: ${rowError.message}`);
+		// Differentiate between not found and other errors
+		if (rowError.code === 'PGRST116') { // PGRST116: "The result contains 0 rows"
+			return null;
+		}
+		throw rowError; // For other errors, let the generic handler catch it
+	}
+
+	if (!row) {
+		return null;
+	}
+
+	// The columns are selected by name, so the row is read as a record.
+	// Site rows store assignments as JSON text, which parseFileIds handles.
+	const fields: Record<string, unknown> = row;
+	const draftFileIdsField = fields[`draft_${filesColumn}`];
+	const liveFileIds = parseFileIds(fields[filesColumn]);
+	const fileIds = preview && draftFileIdsField != null ? parseFileIds(draftFileIdsField) : liveFileIds;
+	console.log(`Parsed ${location} file IDs for ${target.column} ${target.value}:`, fileIds);
+
+	if (fileIds.length === 0) {
+		return [];
+	}
+
+	const bundle = fields[`${location}_bundle`];
+	if (fileIds === liveFileIds && isCurrentBundle(bundle, fileIds)) {
+		return bundle.files;
+	}
+
+	// 2. Fetch all required files based on IDs
+	const { data: files, error: filesError } = await supabase
+		.from('Files')
+		.select('id, name, language, code, compiled_code, minified_code, load_strategy, load_selector')
+		.in('id', fileIds);
+
+	if (filesError) {
+		console.error(`Files query error for IDs ${fileIds.join(', ')}: ${filesError.message}`);
+		throw filesError;
+	}
+
+	console.log(`Found ${files?.length ?? 0} files for IDs ${fileIds.join(', ')}:`, files?.map(f => ({ id: f.id, name: f.name, lang: f.language })));
+
+	// Keep the assignment order; IDs of deleted files are skipped
+	const filesById = new Map((files || []).map(f => [Number(f.id), f]));
+	return fileIds
+		.filter(id => filesById.has(id))
+		.map(id => {
+			const { name, language, code, compiled_code, minified_code, load_strategy, load_selector } = filesById.get(id)!;
+			const compiledLanguage = COMPILED_LANGUAGES[language];
+			// Files saved before minification existed have no minified code yet; scripts
+			// bundled with the files they import are served from compiled code
+			return {
+				id,
+				name,
+				language: compiledLanguage ?? language,
+				code: minified_code ?? compiled_code ?? (compiledLanguage ? '' : code),
+				load_strategy: load_strategy ?? null,
+				load_selector: load_selector ?? null,
+			};
+		});
+}
+
+// Resolves the live reload client registered by a dev server on the site of a
+// target, or null if none is registered or the registration expired. Page
+// targets are looked up through the page's site.
+async function loadLiveReloadUrl(supabase: SupabaseClient, target: LoaderTarget): Promise<string | null> {
+	let siteColumn = 'id';
+	let siteValue = target.value;
+
+	if (target.type === 'page') {
+		const { data: page, error } = await supabase
+			.from('Pages')
+			.select('webflow_site_id')
+			.eq(target.column, target.value)
+			.maybeSingle();
+
+		if (error) throw error;
+		if (!page) return null;
+		siteColumn = 'webflow_site_id';
+		siteValue = page.webflow_site_id;
+	}
+
+	const { data: site, error } = await supabase
+		.from('Sites')
+		.select('live_reload_url, live_reload_expires_at')
+		.eq(siteColumn, siteValue)
+		.maybeSingle();
+
+	if (error) throw error;
+	if (!site?.live_reload_url || !site.live_reload_expires_at || new Date(site.live_reload_expires_at).getTime() < Date.now()) {
+		return null;
+	}
+	return site.live_reload_url;
+}
+
+// Versioned bundles are addressed by content, so they never change and need no purging
+const IMMUTABLE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// A bundle is served as JSON (`/`, for loaders that inject code) or as native
+// stylesheet and script resources (`/bundle.css`, `/bundle.js`). Script files
+// with a load strategy are left out of `bundle.js` and served one at a time
+// from `/file.js?file=<id>`.
+type BundleFormat = 'json' | 'css' | 'js' | 'file';
+
+const BUNDLE_PATHS: Record<string, BundleFormat> = {
+	'/': 'json',
+	'/bundle.css': 'css',
+	'/bundle.js': 'js',
+	'/file.js': 'file',
+};
+
+const TEXT_CONTENT_TYPES: Record<'css' | 'js', string> = {
+	css: 'text/css; charset=utf-8',
+	js: 'text/javascript; charset=utf-8',
+};
+
+// Identical bundles share one cache entry regardless of which page or site they were built for
+function buildVersionedCacheKey(url: URL, version: string, format: BundleFormat, fileId: number | null = null): Request {
+	const suffix = format === 'json' ? '' : format === 'file' ? `/file/${fileId}.js` : `.${format}`;
+	return new Request(`${url.origin}/bundle/${version}${suffix}`, { method: 'GET' });
+}
+
+// Scripts without a load strategy run from `bundle.js`, in assignment order
+function isBundledScript(file: LoaderFile): boolean {
+	return file.language === 'js' && !file.load_strategy;
+}
+
+// Concatenates one language's files in order, marking where each file starts.
+// Scripts are terminated so a file without a trailing semicolon can't run into the next.
+function renderTextBundle(files: LoaderFile[], language: 'css' | 'js'): string {
+	return files
+		.filter(f => f.language === language)
+		.map(f => `/* codone:file ${f.id} ${f.name.replace(/\*\//g, '')} */\n${f.code}${language === 'js' ? '\n;' : ''}`)
+		.join('\n');
+}
+
+// Short content hash of an assembled bundle, used as its `v` parameter
+async function hashBundle(bundle: unknown): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(bundle)));
+	return [...new Uint8Array(digest)]
+		.slice(0, 8)
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+// Merges target files in order (site files first), keeping the first occurrence of each file
+function mergeTargetFiles(parts: LoaderFile[][]): LoaderFile[] {
+	const seen = new Set<number>();
+	return parts.flat().filter(file => {
+		if (seen.has(file.id)) return false;
+		seen.add(file.id);
+		return true;
+	});
+}
+
+interface Bundle {
+	html: string;
+	css: string;
+	js: string;
+	files: LoaderFile[];
+}
+
+function bundleResponse(bundle: Bundle, format: BundleFormat, cacheControl: string, fileId: number | null = null): Response {
+	if (format === 'json') {
+		return jsonResponse(bundle, 200, cacheControl);
+	}
+	const body = format === 'css'
+		? renderTextBundle(bundle.files, 'css')
+		: renderTextBundle(bundle.files.filter(f => format === 'file' ? f.id === fileId : isBundledScript(f)), 'js');
+	return new Response(body, {
+		headers: {
+			'Content-Type': TEXT_CONTENT_TYPES[format === 'css' ? 'css' : 'js'],
+			'Access-Control-Allow-Origin': '*',
+			'Cache-Control': cacheControl,
+		},
+	});
+}
+
+function jsonResponse(body: unknown, status: number, cacheControl?: string): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: {
+			'Content-Type': 'application/json',
+			'Access-Control-Allow-Origin': '*',
+			...(cacheControl && { 'Cache-Control': cacheControl }),
+		},
+	});
+}
+
 export default {
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		// Handle CORS preflight requests
@@ -72,34 +363,45 @@ export default {
 			}
 
 			const pageId = url.searchParams.get('pageId');
-			const location = url.searchParams.get('location');
+			const webflowPageId = url.searchParams.get('webflowPageId');
+			const locationParam = url.searchParams.get('location');
+			const type = parseLoaderType(url.searchParams.get('type'));
 
-			if (!pageId || !location) {
+			if ((!pageId && !webflowPageId) || !locationParam) {
 				return new Response('Missing pageId or location for PURGE', { status: 400 });
 			}
 
+			const location = parseLoaderLocation(locationParam);
+			if (!location) {
+				return new Response('Invalid location for PURGE', { status: 400 });
+			}
+
+			if (!type || (webflowPageId && type !== 'page')) {
+				return new Response('Invalid type for PURGE', { status: 400 });
+			}
+
 			// Construct the request object that was used as the cache key for GET
-			const originalGetRequestUrl = new URL(request.url);
-			originalGetRequestUrl.searchParams.set('pageId', pageId);
-			originalGetRequestUrl.searchParams.set('location', location);
-			const cacheKeyRequest = new Request(originalGetRequestUrl.toString(), { method: 'GET' });
+			const target: LoaderTarget = pageId
+				? { type, column: 'id', value: pageId }
+				: { type, column: 'webflow_page_id', value: webflowPageId! };
+			const cacheKeyRequest = buildCacheKey(url, target, location);
 
 			try {
 				const deleted = await cache.delete(cacheKeyRequest);
 				if (deleted) {
-					console.log(`Cache purged for pageId: ${pageId}, location: ${location}`);
+					console.log(`Cache purged for ${type} ${target.value}, location: ${location}`);
 					return new Response(JSON.stringify({ success: true, message: 'Cache purged' }), {
 						headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
 					});
 				} else {
-					console.log(`Cache not found for pageId: ${pageId}, location: ${location}`);
+					console.log(`Cache not found for ${type} ${target.value}, location: ${location}`);
 					return new Response(JSON.stringify({ success: false, message: 'Cache entry not found' }), {
 						status: 404,
 						headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
 					});
 				}
 			} catch (err: any) {
-				console.error(`Error purging cache for pageId: ${pageId}, location: ${location}: ${err.message}`);
+				console.error(`Error purging cache for ${type} ${target.value}, location: ${location}: ${err.message}`);
 				return new Response('Error purging cache', { status: 500 });
 			}
 		}
@@ -110,116 +412,162 @@ export default {
 		}
 
 		try {
+			// GET /manifest resolves the current content hash (`v`) for the same parameters
+			// as a bundle request, along with what the loader needs to insert: whether
+			// there is CSS and JS, the HTML fragments and the script files that have a
+			// load strategy. Bundles requested with `v` are cached for a year. With
+			// `dev=1` (sent by browsers that opted into live reload) it also returns the
+			// live reload client registered for the site as `dev`.
+			const isManifest = url.pathname === '/manifest';
+			const format = BUNDLE_PATHS[url.pathname];
+			const version = url.searchParams.get('v');
+
+			if (!isManifest && !format) {
+				return new Response('Not found', { status: 404 });
+			}
+
+			const fileId = format === 'file' ? Number(url.searchParams.get('file') || NaN) : null;
+			if (fileId !== null && isNaN(fileId)) {
+				return new Response('Missing or invalid file parameter', { status: 400 });
+			}
+
+			// Combined requests (from site loaders) send the Supabase site ID and the
+			// Webflow page ID; single-target requests send pageId, which is the Supabase
+			// row ID of the page, or of the site for type=site
+			const siteId = url.searchParams.get('siteId');
+			const webflowPageId = url.searchParams.get('webflowPageId');
 			const pageId = url.searchParams.get('pageId');
-			const location = url.searchParams.get('location'); // 'head' or 'body'
+			const locationParam = url.searchParams.get('location'); // 'head' or 'body'
+			const type = parseLoaderType(url.searchParams.get('type'));
+			// Preview requests serve draft assignments and are never cached
+			const preview = url.searchParams.get('preview') === '1';
 
-			if (!pageId || !location) {
+			if ((!siteId && !pageId) || !locationParam) {
 				return new Response('Missing required parameters', { status: 400 });
 			}
 
-			// Create cache key
-			const cacheKey = `code-${pageId}-${location}`;
-			
-			// Try to get from cache first
-			let response = await cache.match(request);
-			
-			if (response) {
-				return response;
+			const location = parseLoaderLocation(locationParam);
+			if (!location) {
+				return new Response('Invalid location parameter', { status: 400 });
+			}
+
+			if (!type) {
+				return new Response('Invalid type parameter', { status: 400 });
 			}
 
+			const cacheTtl = env.CACHE_TTL || '3600';
+			const cacheControl = preview ? 'no-store' : `public, max-age=${cacheTtl}`;
+
+			if (version && format && !preview) {
+				const cached = await cache.match(buildVersionedCacheKey(url, version, format, fileId));
+				if (cached) {
+					return cached;
+				}
+			}
+
+			// Manifests read the per-target caches, which purges refresh on publish and file
+			// changes, so page views do not query Supabase. Versioned bundles are only
+			// built on a cache miss and read the current code to check their hash.
+			const useTargetCache = !preview && !version;
+
 			// Initialize Supabase client
 			const supabase = createClient(env.SUPABASE_URL, env.SUPABASE_ANON_KEY);
 
-			// 1. Load page data to get file IDs
-			const { data: page, error: pageError } = await supabase
-				.from('Pages')
-				.select(location === 'head' ? 'head_files' : 'body_files')
-				.eq('id', pageId) // Assuming pageId is a number, adjust if it's a string
-				.single();
-
-			if (pageError) {
-				console.error(`Page query error for page ID ${pageId}: ${pageError.message}`);
-				// Differentiate between not found and other errors
-				if (pageError.code === 'PGRST116') { // PGRST116: "The result contains 0 rows"
-					return new Response(JSON.stringify({ error: `Page not found with ID ${pageId}` }), {
-						status: 404,
-						headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
-					});
+			// Files of one target, from the cache when possible
+			const getTargetFiles = async (target: LoaderTarget): Promise<LoaderFile[] | null> => {
+				const cacheKey = buildCacheKey(url, target, location);
+				const cached = useTargetCache ? await cache.match(cacheKey) : undefined;
+				if (cached) {
+					return cached.json();
 				}
-				throw pageError; // For other errors, let the generic handler catch it
-			}
-
-			if (!page) {
-				return new Response(JSON.stringify({ error: `Page not found with ID ${pageId}` }), {
-					status: 404,
-					headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
-				});
-			}
-			
-			console.log(`Page data found for page ID ${pageId}:`, page);
-
-			// const fileIdsField = location === 'head' ? page.head_files : page.body_files;
-			// Access the dynamically selected field by casting page to any to satisfy TypeScript
-			const fileIdsField = (page as any)[location === 'head' ? 'head_files' : 'body_files'];
-			console.log(`Raw ${location} files data for page ID ${pageId}:`, fileIdsField);
-			
-			const fileIds = parseFileIds(fileIdsField);
-			console.log(`Parsed file IDs for page ID ${pageId}:`, fileIds);
-
-			if (!fileIds || fileIds.length === 0) {
-				// Return empty code structure if no files are associated
-				response = new Response(JSON.stringify({ html: '', css: '', js: '' }), {
-					headers: {
-						'Content-Type': 'application/json',
-						'Access-Control-Allow-Origin': '*',
-						'Cache-Control': `public, max-age=${env.CACHE_TTL || '3600'}`,
-					},
-				});
-				ctx.waitUntil(cache.put(request, response.clone()));
-				return response;
-			}
-
-			// 2. Fetch all required files based on IDs
-			const { data: files, error: filesError } = await supabase
-				.from('Files')
-				.select('*') // Select all columns, including 'code' and 'language'
-				.in('id', fileIds);
-
-			if (filesError) {
-				console.error(`Files query error for IDs ${fileIds.join(', ')}: ${filesError.message}`);
-				throw filesError;
-			}
-
-			if (!files) {
-                // This case should ideally be covered by filesError, but as a fallback
-                return new Response(JSON.stringify({ error: 'Files data is unexpectedly null after query.' }), {
-					status: 500,
-					headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
-				});
-            }
-
-			console.log(`Found ${files.length} files for IDs ${fileIds.join(', ')}:`, files.map(f => ({ id: f.id, name: f.name, lang: f.language })));
-
-			// Organize files by language
-			const html = files.filter(f => f.language === 'html').map(f => f.code).join('\\n'); // Use file.code
-			const css = files.filter(f => f.language === 'css').map(f => f.code).join('\\n');  // Use file.code
-			const js = files.filter(f => f.language === 'js').map(f => f.code).join('\\n');    // Use file.code
-			
-			const bundledCode = { html, css, js };
-
-			// Create response with CORS headers
-			response = new Response(JSON.stringify(bundledCode), {
-				headers: {
-					'Content-Type': 'application/json', // Changed to application/json
-					'Access-Control-Allow-Origin': '*',
-					'Cache-Control': `public, max-age=${env.CACHE_TTL || '3600'}`,
-				},
-			});
 
-			// Store in cache. For GET, `request` object is the key.
-			ctx.waitUntil(cache.put(request, response.clone()));
+				const files = await loadTargetFiles(supabase, target, location, preview);
+				if (files && useTargetCache) {
+					ctx.waitUntil(cache.put(cacheKey, jsonResponse(files, 200, `public, max-age=${cacheTtl}`)));
+				}
+				return files;
+			};
+
+			let parts: LoaderFile[][];
+			if (siteId) {
+				const [siteFiles, pageFiles] = await Promise.all([
+					getTargetFiles({ type: 'site', column: 'id', value: siteId }),
+					// Pages without their own assignments have no row; they only get site files
+					webflowPageId ? getTargetFiles({ type: 'page', column: 'webflow_page_id', value: webflowPageId }) : [],
+				]);
+
+				if (!siteFiles) {
+					return jsonResponse({ error: `Site not found with ID ${siteId}` }, 404);
+				}
+				parts = [siteFiles, pageFiles || []];
+			} else {
+				const files = await getTargetFiles({ type, column: 'id', value: pageId! });
+
+				if (!files) {
+					return jsonResponse({ error: `${LOADER_TABLES[type].label} not found with ID ${pageId}` }, 404);
+				}
+				parts = [files];
+			}
+
+			const files = mergeTargetFiles(parts);
+
+			// Organize files by language (kept for loaders that predate `files`)
+			const html = files.filter(f => f.language === 'html').map(f => f.code).join('\n');
+			const css = files.filter(f => f.language === 'css').map(f => f.code).join('\n');
+			const js = files.filter(f => f.language === 'js').map(f => f.code).join('\n');
+
+			// `files` keeps per-file boundaries so the loader injects each file in order
+			const bundle: Bundle = { html, css, js, files };
+
+			if (isManifest) {
+				const hash = await hashBundle(bundle);
+				const hasCss = files.some(f => f.language === 'css');
+				const hasJs = files.some(isBundledScript);
+				const scripts = files.filter(f => f.language === 'js' && f.load_strategy);
+
+				// Warm the versioned resources the loader is about to request
+				if (!preview) {
+					const warm: BundleFormat[] = ['json', ...(hasCss ? ['css' as const] : []), ...(hasJs ? ['js' as const] : [])];
+					for (const warmFormat of warm) {
+						ctx.waitUntil(cache.put(
+							buildVersionedCacheKey(url, hash, warmFormat),
+							bundleResponse(bundle, warmFormat, IMMUTABLE_CACHE_CONTROL)
+						));
+					}
+				}
+
+				const dev = url.searchParams.get('dev') === '1'
+					? await loadLiveReloadUrl(supabase, siteId ? { type: 'site', column: 'id', value: siteId } : { type, column: 'id', value: pageId! })
+					: null;
+
+				return jsonResponse({
+					v: hash,
+					css: hasCss,
+					js: hasJs,
+					html: files.filter(f => f.language === 'html').map(({ id, code }) => ({ id, code })),
+					scripts: scripts.map(f => ({ id: f.id, strategy: f.load_strategy, selector: f.load_selector })),
+					...(dev && { dev }),
+				}, 200, 'no-cache');
+			}
+
+			if (fileId !== null && !files.some(f => f.id === fileId && f.language === 'js')) {
+				return jsonResponse({ error: `Script file ${fileId} is not part of this bundle` }, 404);
+			}
+
+			if (version && !preview) {
+				const hash = await hashBundle(bundle);
+
+				if (hash === version) {
+					const response = bundleResponse(bundle, format, IMMUTABLE_CACHE_CONTROL, fileId);
+					ctx.waitUntil(cache.put(buildVersionedCacheKey(url, hash, format, fileId), response.clone()));
+					return response;
+				}
+
+				// The code changed after the manifest was read: serve the current code without caching it
+				return bundleResponse(bundle, format, 'no-cache', fileId);
+			}
 
-			return response;
+			return bundleResponse(bundle, format, cacheControl, fileId);
 		} catch (error) {
 			console.error('Error:', error);
 			return new Response('Internal Server Error', { status: 500 });
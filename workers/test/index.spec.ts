@@ -1,24 +1,462 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect } from 'vitest';
-import worker from '../src/index';
-
-// For now, you'll need to do something like this to get a correctly-typed
-// `Request` to pass to `worker.fetch()`.
-const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
-
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
-	});
-
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+import { SELF, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+const SUPABASE_ORIGIN = 'https://supabase.test';
+const LOADER_URL = 'https://loader.test/';
+
+const files = [
+	{ id: 10, name: 'styles.css', language: 'css', code: 'body{color:red}' },
+	{ id: 11, name: 'main.js', language: 'js', code: 'console.log(1)' },
+	{ id: 12, name: 'analytics.js', language: 'js', code: 'console.log(2)' },
+	{ id: 13, name: 'banner.html', language: 'html', code: '<div>Sale</div>' },
+	{ id: 14, name: 'widget.js', language: 'js', code: 'console.log(3)', load_strategy: 'visible', load_selector: '#widget' },
+	{ id: 15, name: 'app.ts', language: 'ts', code: 'const n: number = 4', compiled_code: 'const n = 4;\n' },
+	{ id: 16, name: 'theme.scss', language: 'scss', code: '$c: blue; a { color: $c }', compiled_code: 'a {\n  color: blue;\n}' },
+	{ id: 17, name: 'tracking.js', language: 'js', code: 'console.log( "track" );', minified_code: 'console.log("track");' },
+	{ id: 18, name: 'checkout.js', language: 'js', code: 'import { track } from "codone:tracking";\ntrack()', compiled_code: '(() => {\n  track();\n})();\n' },
+];
+
+// Mocks the single-row lookup for a page or site and the Files query that follows it
+function mockRow(table: 'Pages' | 'Sites', row: Record<string, unknown>) {
+	fetchMock
+		.get(SUPABASE_ORIGIN)
+		.intercept({ path: (path) => path.startsWith(`/rest/v1/${table}?`) })
+		.reply(200, row, { headers: { 'Content-Type': 'application/json' } });
+}
+
+function mockFiles() {
+	fetchMock
+		.get(SUPABASE_ORIGIN)
+		.intercept({ path: (path) => path.startsWith('/rest/v1/Files?') })
+		.reply(200, files, { headers: { 'Content-Type': 'application/json' } });
+}
+
+function mockNotFound(table: 'Pages' | 'Sites') {
+	fetchMock
+		.get(SUPABASE_ORIGIN)
+		.intercept({ path: (path) => path.startsWith(`/rest/v1/${table}?`) })
+		.reply(
+			406,
+			{ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' },
+			{ headers: { 'Content-Type': 'application/json' } }
+		);
+}
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+describe('loader worker', () => {
+	it('serves page files from the Pages table', async () => {
+		mockRow('Pages', { head_files: [10, 11], draft_head_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=1&location=head&type=page`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ html: '', css: 'body{color:red}', js: 'console.log(1)' });
+	});
+
+	it('emits files in assignment order with per-file boundaries', async () => {
+		// The Files query returns rows in database order
+		mockRow('Pages', { head_files: [12, 10, 11], draft_head_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=11&location=head&type=page`);
+		const bundle = await response.json<{ files: { id: number; name: string }[] }>();
+
+		expect(bundle.files.map(({ id, name }) => ({ id, name }))).toEqual([
+			{ id: 12, name: 'analytics.js' },
+			{ id: 10, name: 'styles.css' },
+			{ id: 11, name: 'main.js' },
+		]);
+	});
+
+	it('treats requests without a type as page requests', async () => {
+		mockRow('Pages', { body_files: [11], draft_body_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=2&location=body`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ js: 'console.log(1)' });
+	});
+
+	it('serves site-wide files from the Sites table', async () => {
+		// Site assignments are stored as JSON text
+		mockRow('Sites', { head_files: '[10]', draft_head_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=3&location=head&type=site`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ css: 'body{color:red}' });
+	});
+
+	it('returns an empty bundle for a site without files', async () => {
+		mockRow('Sites', { body_files: '[]', draft_body_files: null });
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=4&location=body&type=site`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ html: '', css: '', js: '', files: [] });
+	});
+
+	it('returns 404 when the site does not exist', async () => {
+		mockNotFound('Sites');
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=5&location=head&type=site`);
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({ error: 'Site not found with ID 5' });
+	});
+
+	it('merges site files before page files for combined requests', async () => {
+		mockRow('Sites', { head_files: '[12, 10]', draft_head_files: null });
+		mockRow('Pages', { head_files: [10, 11], draft_head_files: null });
+		mockFiles();
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?siteId=8&webflowPageId=wf-page-8&location=head`);
+		const bundle = await response.json<{ css: string; js: string }>();
+
+		expect(response.status).toBe(200);
+		// File 10 is assigned to both and is only included once
+		expect(bundle.css).toBe('body{color:red}');
+		expect(bundle.js.indexOf('console.log(2)')).toBeLessThan(bundle.js.indexOf('console.log(1)'));
+	});
+
+	it('serves only site files when the page has no assignments', async () => {
+		mockRow('Sites', { body_files: '[11]', draft_body_files: null });
+		mockNotFound('Pages');
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?siteId=9&webflowPageId=wf-page-9&location=body`);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ html: '', css: '', js: 'console.log(1)' });
+	});
+
+	it('purges the page part of combined bundles by Webflow page ID', async () => {
+		mockRow('Sites', { head_files: '[]', draft_head_files: null });
+		mockRow('Pages', { head_files: [], draft_head_files: null });
+		const cached = await SELF.fetch(`${LOADER_URL}?siteId=10&webflowPageId=wf-page-10&location=head`);
+		expect(await cached.json()).toEqual({ html: '', css: '', js: '', files: [] });
+
+		const response = await SELF.fetch(`${LOADER_URL}?webflowPageId=wf-page-10&location=head&type=page`, {
+			method: 'PURGE',
+			headers: { 'X-Purge-Secret': 'test-purge-secret' },
+		});
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ success: true, message: 'Cache purged' });
+	});
+
+	it('resolves a content hash from the manifest and serves the versioned bundle immutably', async () => {
+		mockRow('Pages', { head_files: [10], draft_head_files: null });
+		mockFiles();
+
+		const manifest = await SELF.fetch(`${LOADER_URL}manifest?pageId=12&location=head&type=page`);
+		const { v, ...contents } = await manifest.json<{ v: string }>();
+
+		expect(manifest.headers.get('Cache-Control')).toBe('no-cache');
+		expect(v).toMatch(/^[0-9a-f]{16}$/);
+		expect(contents).toEqual({ css: true, js: false, html: [], scripts: [] });
+
+		// Served from the entry the manifest warmed; no database queries are mocked
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=12&location=head&type=page&v=${v}`);
+
+		expect(response.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+		expect(await response.json()).toMatchObject({ css: 'body{color:red}' });
+	});
+
+	it('serves repeated manifests from the cache until the target is purged', async () => {
+		mockRow('Pages', { head_files: [10], draft_head_files: null });
+		mockFiles();
+		const first = await SELF.fetch(`${LOADER_URL}manifest?pageId=26&location=head&type=page`);
+		const { v } = await first.json<{ v: string }>();
+
+		// No database queries are mocked for the second page view
+		const second = await SELF.fetch(`${LOADER_URL}manifest?pageId=26&location=head&type=page`);
+		expect(second.status).toBe(200);
+		expect(await second.json()).toMatchObject({ v });
+
+		const purge = await SELF.fetch(`${LOADER_URL}?pageId=26&location=head&type=page`, {
+			method: 'PURGE',
+			headers: { 'X-Purge-Secret': 'test-purge-secret' },
+		});
+		expect(purge.status).toBe(200);
+
+		// The next manifest reads the published code again
+		mockRow('Pages', { head_files: [11], draft_head_files: null });
+		mockFiles();
+		const third = await SELF.fetch(`${LOADER_URL}manifest?pageId=26&location=head&type=page`);
+		expect(await third.json()).toMatchObject({ css: false, js: true });
+	});
+
+	it('serves current code uncached when the requested version is outdated', async () => {
+		mockRow('Pages', { body_files: [11], draft_body_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=13&location=body&type=page&v=0000000000000000`);
+
+		expect(response.headers.get('Cache-Control')).toBe('no-cache');
+		expect(await response.json()).toMatchObject({ js: 'console.log(1)' });
+	});
+
+	it('lists HTML fragments in the manifest', async () => {
+		mockRow('Pages', { body_files: [13, 11], draft_body_files: null });
+		mockFiles();
+
+		const manifest = await SELF.fetch(`${LOADER_URL}manifest?pageId=14&location=body&type=page`);
+
+		expect(await manifest.json()).toMatchObject({
+			css: false,
+			js: true,
+			html: [{ id: 13, code: '<div>Sale</div>' }],
+		});
+	});
+
+	it('returns the registered live reload client in manifests requested for live reload', async () => {
+		mockRow('Pages', { head_files: [10], draft_head_files: null });
+		mockFiles();
+		mockRow('Pages', { webflow_site_id: 'wf-site-1' });
+		mockRow('Sites', {
+			live_reload_url: 'https://dev.ngrok.test/api/dev/live/client',
+			live_reload_expires_at: new Date(Date.now() + 60_000).toISOString(),
+		});
+
+		const manifest = await SELF.fetch(`${LOADER_URL}manifest?pageId=30&location=head&type=page&dev=1`);
+
+		expect(await manifest.json()).toMatchObject({ css: true, dev: 'https://dev.ngrok.test/api/dev/live/client' });
+	});
+
+	it('leaves out expired live reload registrations', async () => {
+		mockRow('Sites', { head_files: '[10]', draft_head_files: null });
+		mockFiles();
+		mockRow('Sites', {
+			live_reload_url: 'https://dev.ngrok.test/api/dev/live/client',
+			live_reload_expires_at: new Date(Date.now() - 60_000).toISOString(),
+		});
+
+		const manifest = await SELF.fetch(`${LOADER_URL}manifest?siteId=31&location=head&dev=1`);
+
+		expect(await manifest.json()).not.toHaveProperty('dev');
+	});
+
+	it('serves stylesheets and scripts as native resources with file boundaries', async () => {
+		mockRow('Pages', { head_files: [12, 10, 11], draft_head_files: null });
+		mockFiles();
+		mockRow('Pages', { head_files: [12, 10, 11], draft_head_files: null });
+		mockFiles();
+
+		const css = await SELF.fetch(`${LOADER_URL}bundle.css?pageId=15&location=head&type=page&preview=1`);
+		expect(css.headers.get('Content-Type')).toBe('text/css; charset=utf-8');
+		expect(await css.text()).toBe('/* codone:file 10 styles.css */\nbody{color:red}');
+
+		const js = await SELF.fetch(`${LOADER_URL}bundle.js?pageId=15&location=head&type=page&preview=1`);
+		expect(js.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+		expect(await js.text()).toBe(
+			'/* codone:file 12 analytics.js */\nconsole.log(2)\n;\n/* codone:file 11 main.js */\nconsole.log(1)\n;'
+		);
+	});
+
+	it('serves versioned scripts warmed by the manifest', async () => {
+		mockRow('Pages', { body_files: [11], draft_body_files: null });
+		mockFiles();
+
+		const manifest = await SELF.fetch(`${LOADER_URL}manifest?pageId=16&location=body&type=page`);
+		const { v } = await manifest.json<{ v: string }>();
+
+		const response = await SELF.fetch(`${LOADER_URL}bundle.js?pageId=16&location=body&type=page&v=${v}`);
+
+		expect(response.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable');
+		expect(await response.text()).toContain('console.log(1)');
+	});
+
+	it('lists scripts with a load strategy in the manifest instead of bundle.js', async () => {
+		mockRow('Pages', { body_files: [11, 14], draft_body_files: null });
+		mockFiles();
+		mockRow('Pages', { body_files: [11, 14], draft_body_files: null });
+		mockFiles();
+
+		const manifest = await SELF.fetch(`${LOADER_URL}manifest?pageId=18&location=body&type=page&preview=1`);
+		expect(await manifest.json()).toMatchObject({
+			js: true,
+			scripts: [{ id: 14, strategy: 'visible', selector: '#widget' }],
+		});
+
+		const js = await SELF.fetch(`${LOADER_URL}bundle.js?pageId=18&location=body&type=page&preview=1`);
+		expect(await js.text()).toBe('/* codone:file 11 main.js */\nconsole.log(1)\n;');
+	});
+
+	it('serves a single script file of the bundle', async () => {
+		mockRow('Pages', { body_files: [11, 14], draft_body_files: null });
+		mockFiles();
+		mockRow('Pages', { body_files: [11, 14], draft_body_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}file.js?pageId=19&location=body&type=page&file=14&preview=1`);
+		expect(response.headers.get('Content-Type')).toBe('text/javascript; charset=utf-8');
+		expect(await response.text()).toBe('/* codone:file 14 widget.js */\nconsole.log(3)\n;');
+
+		const missing = await SELF.fetch(`${LOADER_URL}file.js?pageId=19&location=body&type=page&file=12&preview=1`);
+		expect(missing.status).toBe(404);
+		expect(await missing.json()).toEqual({ error: 'Script file 12 is not part of this bundle' });
+	});
+
+	it('rejects script file requests without a file ID', async () => {
+		const response = await SELF.fetch(`${LOADER_URL}file.js?pageId=20&location=body&type=page`);
+
+		expect(response.status).toBe(400);
+		expect(await response.text()).toBe('Missing or invalid file parameter');
+	});
+
+	// Loaders send preview=1 while the page's codone_preview cookie is set
+	it('serves the draft assignment uncached in preview', async () => {
+		mockRow('Pages', { head_files: [10], draft_head_files: [11] });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=27&location=head&type=page&preview=1`);
+
+		expect(response.headers.get('Cache-Control')).toBe('no-store');
+		expect(await response.json()).toMatchObject({ css: '', js: 'console.log(1)' });
+	});
+
+	it('serves the live assignment without preview while a draft is pending', async () => {
+		mockRow('Pages', { head_files: [10], draft_head_files: [11] });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=28&location=head&type=page`);
+
+		expect(response.headers.get('Cache-Control')).toBe('public, max-age=60');
+		expect(await response.json()).toMatchObject({ css: 'body{color:red}', js: '' });
+	});
+
+	it('keeps drafts out of the shared cache', async () => {
+		const url = `${LOADER_URL}?pageId=29&location=head&type=page`;
+
+		// A preview first does not fill the cache the live request reads
+		mockRow('Pages', { head_files: [10], draft_head_files: [11] });
+		mockFiles();
+		expect(await (await SELF.fetch(`${url}&preview=1`)).json()).toMatchObject({ js: 'console.log(1)' });
+
+		mockRow('Pages', { head_files: [10], draft_head_files: [11] });
+		mockFiles();
+		expect(await (await SELF.fetch(url)).json()).toMatchObject({ css: 'body{color:red}', js: '' });
+
+		// The live files are now cached; no database queries are mocked
+		expect(await (await SELF.fetch(url)).json()).toMatchObject({ css: 'body{color:red}', js: '' });
+
+		// A preview does not read them either
+		mockRow('Pages', { head_files: [10], draft_head_files: [11] });
+		mockFiles();
+		expect(await (await SELF.fetch(`${url}&preview=1`)).json()).toMatchObject({ css: '', js: 'console.log(1)' });
+	});
+
+	it('serves compiled output for TypeScript and SCSS files', async () => {
+		mockRow('Pages', { head_files: [15, 16], draft_head_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=21&location=head&type=page`);
+		const bundle = await response.json<{ css: string; js: string; files: { id: number; language: string }[] }>();
+
+		expect(bundle).toMatchObject({ css: 'a {\n  color: blue;\n}', js: 'const n = 4;\n' });
+		expect(bundle.files.map(({ id, language }) => ({ id, language }))).toEqual([
+			{ id: 15, language: 'js' },
+			{ id: 16, language: 'css' },
+		]);
+	});
+
+	it('serves minified code joined by newlines', async () => {
+		mockRow('Pages', { head_files: [11, 17], draft_head_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=22&location=head&type=page`);
+
+		expect(await response.json()).toMatchObject({ js: 'console.log(1)\nconsole.log("track");' });
+	});
+
+	it('serves scripts that import other files as their bundle', async () => {
+		mockRow('Pages', { head_files: [18], draft_head_files: null });
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=25&location=head&type=page`);
+
+		expect(await response.json()).toMatchObject({ js: '(() => {\n  track();\n})();\n' });
+	});
+
+	it('serves live files from a current bundle artifact without querying files', async () => {
+		const artifactFile = { id: 11, name: 'main.js', language: 'js', code: 'console.log(11)', load_strategy: null, load_selector: null };
+		mockRow('Pages', {
+			head_files: [11],
+			draft_head_files: null,
+			head_bundle: { file_ids: [11], files: [artifactFile] },
+		});
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=23&location=head&type=page`);
+
+		expect(await response.json()).toMatchObject({ js: 'console.log(11)', files: [artifactFile] });
+	});
+
+	it('ignores bundle artifacts built from other assignments', async () => {
+		mockRow('Pages', {
+			head_files: [11, 12],
+			draft_head_files: null,
+			head_bundle: { file_ids: [11], files: [] },
+		});
+		mockFiles();
+
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=24&location=head&type=page`);
+
+		expect(await response.json()).toMatchObject({ js: 'console.log(1)\nconsole.log(2)' });
+	});
+
+	it('returns 404 for unknown paths', async () => {
+		const response = await SELF.fetch(`${LOADER_URL}bundle.txt?pageId=17&location=head`);
+
+		expect(response.status).toBe(404);
+		expect(await response.text()).toBe('Not found');
+	});
+
+	it('rejects unknown types', async () => {
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=6&location=head&type=folder`);
+
+		expect(response.status).toBe(400);
+		expect(await response.text()).toBe('Invalid type parameter');
+	});
+
+	it('rejects locations other than head and body', async () => {
+		const response = await SELF.fetch(`${LOADER_URL}?pageId=6&location=footer&type=page`);
+
+		expect(response.status).toBe(400);
+		expect(await response.text()).toBe('Invalid location parameter');
+
+		const purge = await SELF.fetch(`${LOADER_URL}?pageId=6&location=head_files,id&type=page`, {
+			method: 'PURGE',
+			headers: { 'X-Purge-Secret': 'test-purge-secret' },
+		});
+		expect(purge.status).toBe(400);
+	});
+
+	it('purges cached site bundles by type', async () => {
+		mockRow('Sites', { head_files: '[]', draft_head_files: null });
+		const cached = await SELF.fetch(`${LOADER_URL}?pageId=7&location=head&type=site`);
+		expect(await cached.json()).toEqual({ html: '', css: '', js: '', files: [] });
+
+		const purge = async (type: string) => {
+			const response = await SELF.fetch(`${LOADER_URL}?pageId=7&location=head&type=${type}`, {
+				method: 'PURGE',
+				headers: { 'X-Purge-Secret': 'test-purge-secret' },
+			});
+			return { status: response.status, body: await response.json() };
+		};
+
+		// The page with the same ID has its own cache entry
+		expect(await purge('page')).toMatchObject({ status: 404 });
+		expect(await purge('site')).toEqual({ status: 200, body: { success: true, message: 'Cache purged' } });
 	});
 });
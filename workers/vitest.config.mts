@@ -5,6 +5,15 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					// Secrets are managed in the dashboard, so tests provide their own
+					bindings: {
+						SUPABASE_URL: 'https://supabase.test',
+						SUPABASE_ANON_KEY: 'test-anon-key',
+						CACHE_TTL: '60',
+						PURGE_SECRET: 'test-purge-secret',
+					},
+				},
 			},
 		},
 	},